@@ -16,6 +16,7 @@ export default function FirebaseTestPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [testEmail, setTestEmail] = useState(`test-${Date.now()}@example.com`)
   const [testPassword, setTestPassword] = useState("Test123456")
+  const [testInviteToken, setTestInviteToken] = useState("")
 
   const runRegistrationTest = async () => {
     setIsLoading(true)
@@ -32,6 +33,7 @@ export default function FirebaseTestPage() {
         email: testEmail,
         password: testPassword,
         displayName: `Test User ${timestamp}`,
+        inviteToken: testInviteToken,
       }
 
       // Attempt to register the test user
@@ -94,9 +96,20 @@ export default function FirebaseTestPage() {
                   disabled={isLoading}
                 />
               </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="testInviteToken">Invite Token</Label>
+                <Input
+                  id="testInviteToken"
+                  placeholder="Token from an invitation link sent to the test email"
+                  value={testInviteToken}
+                  onChange={(e) => setTestInviteToken(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
             </div>
 
-            <Button onClick={runRegistrationTest} disabled={isLoading} className="w-full">
+            <Button onClick={runRegistrationTest} disabled={isLoading || !testInviteToken} className="w-full">
               {isLoading ? "Testing..." : "Run Registration Test"}
             </Button>
 
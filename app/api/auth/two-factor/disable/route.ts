@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { TwoFactorError, disableTwoFactor, verifyCurrentCode } from "@/lib/two-factor"
+
+// POST /api/auth/two-factor/disable - Turn off two-factor authentication after confirming a current code
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request)
+    if (authError) return authError
+
+    if (user.twoFactor.required) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for administrator accounts" },
+        { status: 403 },
+      )
+    }
+
+    if (!user.twoFactor.enabled) {
+      return NextResponse.json({ error: "Two-factor authentication is not enabled" }, { status: 409 })
+    }
+
+    const { code } = await request.json()
+    if (!code || !(await verifyCurrentCode(user.uid, String(code)))) {
+      return NextResponse.json({ error: "Invalid verification code" }, { status: 400 })
+    }
+
+    await disableTwoFactor(user.uid)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error disabling two-factor authentication:", error)
+    return NextResponse.json({ error: "Failed to disable two-factor authentication" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { TwoFactorError, confirmTwoFactorEnrollment } from "@/lib/two-factor"
+
+// POST /api/auth/two-factor/enable - Confirm enrollment with a code and return one-time recovery codes
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, undefined, { allowPendingTwoFactor: true })
+    if (authError) return authError
+
+    if (user.twoFactor.enabled) {
+      return NextResponse.json({ error: "Two-factor authentication is already enabled" }, { status: 409 })
+    }
+
+    const { code } = await request.json()
+    if (!code) {
+      return NextResponse.json({ error: "Verification code is required" }, { status: 400 })
+    }
+
+    const enrollment = await confirmTwoFactorEnrollment(user.uid, String(code))
+    if (!enrollment) {
+      return NextResponse.json({ error: "Invalid verification code" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, ...enrollment })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error enabling two-factor authentication:", error)
+    return NextResponse.json({ error: "Failed to enable two-factor authentication" }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server"
+import { doc, getDoc, setDoc } from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import { authenticateRequest } from "@/lib/api-auth"
+import { tenantConfig } from "@/lib/tenant-service"
+
+// GET /api/auth/two-factor/policy - Current two-factor policy for the tenant
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "tenant:manage")
+    if (authError) return authError
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not initialized" }, { status: 500 })
+    }
+
+    const tenantDoc = await getDoc(doc(db, "tenant-metadata", tenantConfig.tenantId))
+    const requireTwoFactorForAdmins = tenantDoc.exists() && tenantDoc.data().security?.requireTwoFactorForAdmins === true
+
+    return NextResponse.json({ requireTwoFactorForAdmins })
+  } catch (error) {
+    console.error("Error fetching two-factor policy:", error)
+    return NextResponse.json({ error: "Failed to fetch two-factor policy" }, { status: 500 })
+  }
+}
+
+// PUT /api/auth/two-factor/policy - Require (or stop requiring) two-factor authentication for ADMIN accounts
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "tenant:manage")
+    if (authError) return authError
+
+    const { requireTwoFactorForAdmins } = await request.json()
+    if (typeof requireTwoFactorForAdmins !== "boolean") {
+      return NextResponse.json({ error: "requireTwoFactorForAdmins must be a boolean" }, { status: 400 })
+    }
+
+    // Don't let an administrator lock themselves out of the API
+    if (requireTwoFactorForAdmins && !user.twoFactor.enabled) {
+      return NextResponse.json(
+        { error: "Enable two-factor authentication on your own account before requiring it" },
+        { status: 409 },
+      )
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not initialized" }, { status: 500 })
+    }
+
+    await setDoc(
+      doc(db, "tenant-metadata", tenantConfig.tenantId),
+      {
+        security: {
+          requireTwoFactorForAdmins,
+          updatedBy: user.uid,
+          updatedAt: new Date(),
+        },
+      },
+      { merge: true },
+    )
+
+    return NextResponse.json({ success: true, requireTwoFactorForAdmins })
+  } catch (error) {
+    console.error("Error updating two-factor policy:", error)
+    return NextResponse.json({ error: "Failed to update two-factor policy" }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { TwoFactorError, regenerateRecoveryCodes } from "@/lib/two-factor"
+
+// POST /api/auth/two-factor/recovery-codes - Replace all recovery codes with a fresh set
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request)
+    if (authError) return authError
+
+    if (!user.twoFactor.enabled) {
+      return NextResponse.json({ error: "Two-factor authentication is not enabled" }, { status: 409 })
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.uid)
+
+    return NextResponse.json({ recoveryCodes })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error regenerating recovery codes:", error)
+    return NextResponse.json({ error: "Failed to regenerate recovery codes" }, { status: 500 })
+  }
+}
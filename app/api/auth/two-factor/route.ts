@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+
+// GET /api/auth/two-factor - Two-factor status for the current sign-in session
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, undefined, { allowPendingTwoFactor: true })
+    if (authError) return authError
+
+    return NextResponse.json({ twoFactor: user.twoFactor })
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error)
+    return NextResponse.json({ error: "Failed to fetch two-factor status" }, { status: 500 })
+  }
+}
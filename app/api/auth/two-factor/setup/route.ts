@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { TwoFactorError, buildOtpAuthUri, startTwoFactorEnrollment } from "@/lib/two-factor"
+
+// POST /api/auth/two-factor/setup - Start enrollment and return a new secret for the authenticator app
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, undefined, { allowPendingTwoFactor: true })
+    if (authError) return authError
+
+    if (user.twoFactor.enabled) {
+      return NextResponse.json({ error: "Two-factor authentication is already enabled" }, { status: 409 })
+    }
+
+    const secret = await startTwoFactorEnrollment(user.uid)
+
+    return NextResponse.json({
+      secret,
+      otpauthUri: buildOtpAuthUri(user.email, secret),
+    })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error starting two-factor enrollment:", error)
+    return NextResponse.json({ error: "Failed to start two-factor enrollment" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { TwoFactorError, verifySecondFactor } from "@/lib/two-factor"
+
+// POST /api/auth/two-factor/verify - Complete sign-in with a TOTP code or a recovery code
+// Returns the sessionToken to send as the X-Two-Factor-Session header from then on
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, undefined, { allowPendingTwoFactor: true })
+    if (authError) return authError
+
+    const { code } = await request.json()
+    if (!code) {
+      return NextResponse.json({ error: "Verification code is required" }, { status: 400 })
+    }
+
+    const sessionToken = await verifySecondFactor(user.uid, String(code))
+    if (!sessionToken) {
+      return NextResponse.json({ error: "Invalid verification code" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, sessionToken })
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error verifying second factor:", error)
+    return NextResponse.json({ error: "Failed to verify code" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getBookingActivity } from "@/lib/booking-workflow"
+
+// GET /api/bookings/[id]/activity - List status changes and refunds, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const activity = await getBookingActivity(params.id)
+
+    return NextResponse.json(activity)
+  } catch (error) {
+    console.error("Error fetching booking activity:", error)
+    return NextResponse.json({ error: "Failed to fetch booking activity" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { BookingWorkflowError, recordBookingRefund } from "@/lib/booking-workflow"
+
+// POST /api/bookings/[id]/refunds - Record a refund paid out for a cancelled or completed booking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "bookings:refund")
+    if (authError) return authError
+
+    const body = await request.json()
+    const result = await recordBookingRefund(
+      params.id,
+      {
+        amount: Number(body.amount),
+        method: body.method,
+        reference: typeof body.reference === "string" ? body.reference : "",
+        note: typeof body.note === "string" ? body.note : "",
+      },
+      { uid: user.uid, email: user.email },
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof BookingWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error recording booking refund:", error)
+    return NextResponse.json({ error: "Failed to record booking refund" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { BookingWorkflowError, transitionBooking } from "@/lib/booking-workflow"
+
+// POST /api/bookings/[id]/status - Move the booking to another status; cancelling needs a reason, and confirming
+// returns (and records) any overlapping bookings of the same site
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "bookings:manage")
+    if (authError) return authError
+
+    const body = await request.json()
+    const booking = await transitionBooking(
+      params.id,
+      { to: body.status, reason: typeof body.reason === "string" ? body.reason : null },
+      { uid: user.uid, email: user.email },
+    )
+
+    return NextResponse.json({ success: true, booking })
+  } catch (error) {
+    if (error instanceof BookingWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error changing booking status:", error)
+    return NextResponse.json({ error: "Failed to change booking status" }, { status: 500 })
+  }
+}
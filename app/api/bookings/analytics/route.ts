@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { subMonths, startOfMonth } from "date-fns"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getBookingAnalytics } from "@/lib/booking-analytics"
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// GET /api/bookings/analytics - Revenue, rates and breakdowns for bookings made between ?from and ?to (ISO dates).
+// Defaults to the last 12 months.
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+    if (from === undefined || to === undefined) {
+      return NextResponse.json({ error: "from and to must be valid dates" }, { status: 400 })
+    }
+
+    const end = to || new Date()
+    const start = from || startOfMonth(subMonths(end, 11))
+    if (start > end) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 })
+    }
+
+    const analytics = await getBookingAnalytics(start, end)
+
+    return NextResponse.json(analytics)
+  } catch (error) {
+    console.error("Error fetching booking analytics:", error)
+    return NextResponse.json({ error: "Failed to fetch booking analytics" }, { status: 500 })
+  }
+}
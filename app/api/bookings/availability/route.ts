@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { MAX_OCCUPANCY_RANGE_DAYS, searchSiteAvailability } from "@/lib/site-availability"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// GET /api/bookings/availability?from=&to= - Active rental sites and what occupies them between two ISO dates,
+// free sites first
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+    if (!from || !to) {
+      return NextResponse.json({ error: "from and to must be valid dates" }, { status: 400 })
+    }
+    if (from > to) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 })
+    }
+    if (to.getTime() - from.getTime() > MAX_OCCUPANCY_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `The range can be at most ${MAX_OCCUPANCY_RANGE_DAYS} days` },
+        { status: 400 },
+      )
+    }
+
+    const sites = await searchSiteAvailability({ start: from, end: to })
+
+    return NextResponse.json({ sites })
+  } catch (error) {
+    console.error("Error searching site availability:", error)
+    return NextResponse.json({ error: "Failed to search site availability" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { BookingSearchError, parseRecordSearchParams, searchRecords } from "@/lib/booking-search"
+
+// GET /api/bookings - List bookings, newest first
+// Filters combine: ?status, ?type, ?from and ?to (ISO dates), ?companyId, ?sellerId, ?username and ?search to match
+// the start of any word in the username, product owner, payment method or type. Paged with ?pageSize and ?cursor.
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const { records, pagination } = await searchRecords("bookings", parseRecordSearchParams(searchParams))
+
+    return NextResponse.json({ bookings: records, pagination })
+  } catch (error) {
+    if (error instanceof BookingSearchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching bookings:", error)
+    return NextResponse.json({ error: "Failed to fetch bookings" }, { status: 500 })
+  }
+}
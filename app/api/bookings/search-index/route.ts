@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest, hasJobSecret } from "@/lib/api-auth"
+import { BookingSearchError, backfillRecordSearchFields } from "@/lib/booking-search"
+
+const MAX_BATCH_SIZE = 400
+
+// POST /api/bookings/search-index - Backfill search fields on one batch of bookings
+// ?cursor from the previous batch's nextCursor, ?batchSize (1-400, default 200). Repeat until nextCursor is null.
+// ?since limits the run to records created at or after that date, as the scheduled indexing job does.
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasJobSecret(request)) {
+      const { response: authError } = await authenticateRequest(request, "jobs:run")
+      if (authError) return authError
+    }
+
+    const { searchParams } = new URL(request.url)
+    const cursor = searchParams.get("cursor")
+    const batchSize = parseInt(searchParams.get("batchSize") || "200")
+    const sinceParam = searchParams.get("since")
+    const since = sinceParam ? new Date(sinceParam) : null
+
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `batchSize must be between 1 and ${MAX_BATCH_SIZE}` }, { status: 400 })
+    }
+    if (since && Number.isNaN(since.getTime())) {
+      return NextResponse.json({ error: "since must be a valid date" }, { status: 400 })
+    }
+
+    const result = await backfillRecordSearchFields("bookings", { cursor, batchSize, since })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof BookingSearchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error indexing bookings for search:", error)
+    return NextResponse.json({ error: "Failed to index bookings for search" }, { status: 500 })
+  }
+}
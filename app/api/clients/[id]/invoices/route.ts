@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getInvoicesForCompany } from "@/lib/invoice-service"
+
+// GET /api/clients/[id]/invoices - Invoices issued to a client, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const invoices = await getInvoicesForCompany(params.id)
+
+    return NextResponse.json({ invoices })
+  } catch (error) {
+    console.error("Error fetching invoices:", error)
+    return NextResponse.json({ error: "Failed to fetch invoices" }, { status: 500 })
+  }
+}
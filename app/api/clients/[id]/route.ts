@@ -1,21 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
-import { db, auth } from "@/lib/firebase"
-import { doc, getDoc, updateDoc, deleteDoc, serverTimestamp } from "firebase/firestore"
-import { Company } from "@/lib/company-service"
-
-// Helper function to get current user ID
-function getCurrentUserId(): string {
-  if (!auth) {
-    throw new Error("Authentication not initialized")
-  }
-
-  const user = auth.currentUser
-  if (!user) {
-    throw new Error("User not authenticated")
-  }
-
-  return user.uid
-}
+import { db } from "@/lib/firebase"
+import { doc, getDoc, writeBatch, serverTimestamp } from "firebase/firestore"
+import { Company, sanitizePointPerson } from "@/lib/company-service"
+import { authenticateRequest } from "@/lib/api-auth"
+import { addAuditEventToBatch } from "@/lib/audit-log"
+import { SEARCH_KEYWORDS_FIELD, buildCompanySearchKeywords } from "@/lib/company-search"
 
 // GET /api/clients/[id] - Get specific company
 export async function GET(
@@ -23,6 +12,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
     const { id } = params
 
     if (!db) {
@@ -43,7 +35,7 @@ export async function GET(
       business_type: data.business_type,
       created_at: data.created_at?.toDate?.() || new Date(data.created_at),
       created_by: data.created_by,
-      point_person: data.point_person,
+      point_person: sanitizePointPerson(data.point_person),
       updated_at: data.updated_at?.toDate?.() || new Date(data.updated_at),
       updated_by: data.updated_by,
       website: data.website,
@@ -74,6 +66,9 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:write")
+    if (authError) return authError
+
     const { id } = params
     const body = await request.json()
 
@@ -89,8 +84,7 @@ export async function PUT(
       return NextResponse.json({ error: "Company not found" }, { status: 404 })
     }
 
-    // Get current user ID from authentication
-    const currentUserId = getCurrentUserId()
+    const currentUserId = user.uid
 
     // Update company data
     const updateData = {
@@ -99,10 +93,33 @@ export async function PUT(
       updated_by: currentUserId,
     }
 
-    // Remove id from update data if present
+    // Remove id and creation stamps from update data if present
     delete updateData.id
+    delete updateData.created_by
+    delete updateData.created_at
+
+    // Point person credentials are never stored, and the linked account can't be swapped from here
+    if (updateData.point_person) {
+      updateData.point_person = sanitizePointPerson({
+        ...updateData.point_person,
+        uid: companyDoc.data().point_person?.uid,
+      })
+    }
 
-    await updateDoc(companyRef, updateData)
+    // Keep the search keywords in step with the searchable fields
+    updateData[SEARCH_KEYWORDS_FIELD] = buildCompanySearchKeywords({ ...companyDoc.data(), ...updateData })
+
+    const batch = writeBatch(db)
+    batch.update(companyRef, updateData)
+    addAuditEventToBatch(batch, {
+      collection: "companies",
+      entityId: id,
+      action: "update",
+      before: companyDoc.data(),
+      after: updateData,
+      actor: { uid: user.uid, email: user.email },
+    })
+    await batch.commit()
 
     // Fetch updated company
     const updatedDoc = await getDoc(companyRef)
@@ -115,7 +132,7 @@ export async function PUT(
       business_type: data?.business_type,
       created_at: data?.created_at?.toDate?.() || new Date(data?.created_at),
       created_by: data?.created_by,
-      point_person: data?.point_person,
+      point_person: sanitizePointPerson(data?.point_person),
       updated_at: data?.updated_at?.toDate?.() || new Date(data?.updated_at),
       updated_by: data?.updated_by,
       website: data?.website,
@@ -145,6 +162,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:delete")
+    if (authError) return authError
+
     const { id } = params
 
     if (!db) {
@@ -159,15 +179,24 @@ export async function DELETE(
       return NextResponse.json({ error: "Company not found" }, { status: 404 })
     }
 
-    // Get current user ID from authentication
-    const currentUserId = getCurrentUserId()
+    const currentUserId = user.uid
 
     // Soft delete by updating the document instead of hard delete
-    await updateDoc(companyRef, {
+    const batch = writeBatch(db)
+    batch.update(companyRef, {
       deleted: true,
       updated_at: serverTimestamp(),
       updated_by: currentUserId,
     })
+    addAuditEventToBatch(batch, {
+      collection: "companies",
+      entityId: id,
+      action: "soft_delete",
+      before: companyDoc.data(),
+      after: { deleted: true },
+      actor: { uid: user.uid, email: user.email },
+    })
+    await batch.commit()
 
     return NextResponse.json({ success: true, message: "Company deleted successfully" })
   } catch (error) {
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { CLIENT_TIMELINE_EVENT_TYPES, getClientTimeline } from "@/lib/client-timeline"
+import type { ClientTimelineEventType } from "@/types/client-timeline"
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// GET /api/clients/[id]/timeline - Products, bookings, quotations, member sign-ups and subscription changes,
+// newest first. ?types is a comma-separated subset of the event types (default all); ?from and ?to are ISO dates.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const typesParam = searchParams.get("types")
+    const types = typesParam
+      ? (typesParam.split(",").map((type) => type.trim()) as ClientTimelineEventType[])
+      : CLIENT_TIMELINE_EVENT_TYPES
+
+    if (types.some((type) => !CLIENT_TIMELINE_EVENT_TYPES.includes(type))) {
+      return NextResponse.json(
+        { error: `types must be any of ${CLIENT_TIMELINE_EVENT_TYPES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+    if (from === undefined || to === undefined) {
+      return NextResponse.json({ error: "from and to must be valid dates" }, { status: 400 })
+    }
+    if (from && to && from > to) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 })
+    }
+
+    const timeline = await getClientTimeline(params.id, { types, from, to })
+
+    return NextResponse.json(timeline)
+  } catch (error) {
+    console.error("Error fetching client timeline:", error)
+    return NextResponse.json({ error: "Failed to fetch client timeline" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateCompanyRequest, authenticateRequest } from "@/lib/api-auth"
+import { QUOTA_RESOURCES, QuotaExceededError, assertQuotaAvailable, getCompanyUsage, type QuotaResource } from "@/lib/quota-service"
+
+// GET /api/clients/[id]/usage - Product and user counts against the plan limits
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const usage = await getCompanyUsage(params.id)
+
+    return NextResponse.json({ usage })
+  } catch (error) {
+    console.error("Error fetching company usage:", error)
+    return NextResponse.json({ error: "Failed to fetch company usage" }, { status: 500 })
+  }
+}
+
+// POST /api/clients/[id]/usage - Check there is room for new products or users before creating them
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateCompanyRequest(request, params.id, "clients:write")
+    if (authError) return authError
+
+    const { resource, count = 1 } = await request.json()
+
+    if (!QUOTA_RESOURCES.includes(resource)) {
+      return NextResponse.json({ error: `resource must be one of: ${QUOTA_RESOURCES.join(", ")}` }, { status: 400 })
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      return NextResponse.json({ error: "count must be a positive whole number" }, { status: 400 })
+    }
+
+    const usage = await assertQuotaAvailable(params.id, resource as QuotaResource, count)
+
+    return NextResponse.json({ allowed: true, resource, usage })
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { allowed: false, error: error.message, resource: error.resource, usage: error.usage },
+        { status: error.status },
+      )
+    }
+    console.error("Error checking company quota:", error)
+    return NextResponse.json({ error: "Failed to check company quota" }, { status: 500 })
+  }
+}
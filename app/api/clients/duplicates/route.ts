@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { findDuplicateCompanies } from "@/lib/company-merge"
+
+// GET /api/clients/duplicates - Groups of companies sharing a normalized name, website, phone or point person email
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "clients:delete")
+    if (authError) return authError
+
+    const groups = await findDuplicateCompanies()
+
+    return NextResponse.json({ groups })
+  } catch (error) {
+    console.error("Error finding duplicate companies:", error)
+    return NextResponse.json({ error: "Failed to find duplicate companies" }, { status: 500 })
+  }
+}
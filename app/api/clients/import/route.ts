@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/firebase"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getPlanCatalog } from "@/lib/plan-catalog-service"
+import { importClients } from "@/lib/client-onboarding"
+import { LicenseSigningError } from "@/lib/license-keys"
+import { IMPORT_BATCH_SIZE, IMPORT_ID_PATTERN } from "@/lib/client-import"
+
+// POST /api/clients/import - Create one batch of clients from the import wizard
+// Body: { importId, rows: [{ rowNumber, input }] } with at most IMPORT_BATCH_SIZE rows. Each row is validated like
+// POST /api/clients and reported separately; resending a batch with the same importId doesn't create duplicates.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:write")
+    if (authError) return authError
+
+    const { importId, rows } = await request.json()
+
+    if (typeof importId !== "string" || !IMPORT_ID_PATTERN.test(importId)) {
+      return NextResponse.json({ error: "importId must be 8-64 letters, digits, dashes or underscores" }, { status: 400 })
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0 || rows.length > IMPORT_BATCH_SIZE) {
+      return NextResponse.json({ error: `rows must contain 1-${IMPORT_BATCH_SIZE} rows` }, { status: 400 })
+    }
+
+    const invalidRow = rows.some(
+      (row: any) =>
+        !Number.isInteger(row?.rowNumber) || row.rowNumber < 1 || !row.input || typeof row.input !== "object",
+    )
+    if (invalidRow) {
+      return NextResponse.json({ error: "Each row needs a rowNumber and an input object" }, { status: 400 })
+    }
+
+    if (!db) {
+      return NextResponse.json({ error: "Database not initialized" }, { status: 500 })
+    }
+
+    const { plans } = await getPlanCatalog()
+    const results = await importClients(rows, { uid: user.uid, email: user.email }, { plans, importId })
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    if (error instanceof LicenseSigningError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error importing clients:", error)
+    return NextResponse.json({ error: "Failed to import clients" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { CompanyMergeError, undoCompanyMerge } from "@/lib/company-merge"
+
+// POST /api/clients/merges/[id]/undo - Move every re-pointed document back and restore the duplicates
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:delete")
+    if (authError) return authError
+
+    const merge = await undoCompanyMerge(params.id, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, merge })
+  } catch (error) {
+    if (error instanceof CompanyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error undoing company merge:", error)
+    return NextResponse.json({ error: "Failed to undo company merge" }, { status: 500 })
+  }
+}
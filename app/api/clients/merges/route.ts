@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { CompanyMergeError, getRecentCompanyMerges, mergeCompanies, previewCompanyMerge } from "@/lib/company-merge"
+
+// GET /api/clients/merges - Recent company merges, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "clients:delete")
+    if (authError) return authError
+
+    const merges = await getRecentCompanyMerges()
+
+    return NextResponse.json({ merges })
+  } catch (error) {
+    console.error("Error fetching company merges:", error)
+    return NextResponse.json({ error: "Failed to fetch company merges" }, { status: 500 })
+  }
+}
+
+// POST /api/clients/merges - Merge duplicate companies into a survivor
+// Body: { survivorId, duplicateIds, dryRun }. With dryRun the affected document counts and any blockers are
+// returned and nothing is written.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:delete")
+    if (authError) return authError
+
+    const { survivorId, duplicateIds, dryRun } = await request.json()
+
+    if (
+      typeof survivorId !== "string" ||
+      !survivorId ||
+      !Array.isArray(duplicateIds) ||
+      duplicateIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      return NextResponse.json({ error: "survivorId and duplicateIds are required" }, { status: 400 })
+    }
+
+    if (dryRun) {
+      const preview = await previewCompanyMerge(survivorId, duplicateIds)
+      return NextResponse.json({ preview })
+    }
+
+    const merge = await mergeCompanies(survivorId, duplicateIds, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, merge })
+  } catch (error) {
+    if (error instanceof CompanyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error merging companies:", error)
+    return NextResponse.json({ error: "Failed to merge companies" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { purgeStoredPointPersonPasswords } from "@/lib/point-person-service"
+
+// GET /api/clients/point-person-passwords - List companies that still store a point person password
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "migrations:run")
+    if (authError) return authError
+
+    const result = await purgeStoredPointPersonPasswords({ uid: user.uid, email: user.email }, true)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error scanning point person passwords:", error)
+    return NextResponse.json({ error: "Failed to scan companies" }, { status: 500 })
+  }
+}
+
+// POST /api/clients/point-person-passwords - Remove stored point person passwords from all companies
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "migrations:run")
+    if (authError) return authError
+
+    const result = await purgeStoredPointPersonPasswords({ uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error removing point person passwords:", error)
+    return NextResponse.json({ error: "Failed to remove stored passwords" }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest, hasJobSecret } from "@/lib/api-auth"
+import { backfillCompanySearchKeywords } from "@/lib/company-search"
+
+const MAX_BATCH_SIZE = 400
+
+// POST /api/clients/search-index - Backfill search keywords on one batch of companies
+// ?cursor from the previous batch's nextCursor, ?batchSize (1-400, default 200). Repeat until nextCursor is null.
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasJobSecret(request)) {
+      const { response: authError } = await authenticateRequest(request, "jobs:run")
+      if (authError) return authError
+    }
+
+    const { searchParams } = new URL(request.url)
+    const cursor = searchParams.get("cursor")
+    const batchSize = parseInt(searchParams.get("batchSize") || "200")
+
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `batchSize must be between 1 and ${MAX_BATCH_SIZE}` }, { status: 400 })
+    }
+
+    const result = await backfillCompanySearchKeywords({ cursor, batchSize })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error indexing companies for search:", error)
+    return NextResponse.json({ error: "Failed to index companies for search" }, { status: 500 })
+  }
+}
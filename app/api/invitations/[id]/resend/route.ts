@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { InvitationError, resendInvitation } from "@/lib/invitation-service"
+
+// POST /api/invitations/[id]/resend - Issue a new invite link and expiry; the previous link stops working
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "users:invite")
+    if (authError) return authError
+
+    const { invitation, token } = await resendInvitation(params.id, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({
+      success: true,
+      invitation,
+      inviteUrl: `${request.nextUrl.origin}/register?invite=${token}`,
+    })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error resending invitation:", error)
+    return NextResponse.json({ error: "Failed to resend invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { InvitationError, revokeInvitation } from "@/lib/invitation-service"
+
+// POST /api/invitations/[id]/revoke - Revoke a pending invitation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "users:invite")
+    if (authError) return authError
+
+    const invitation = await revokeInvitation(params.id, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, invitation })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error revoking invitation:", error)
+    return NextResponse.json({ error: "Failed to revoke invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { verifyRequestAccount } from "@/lib/api-auth"
+import { acceptInvitation, InvitationError } from "@/lib/invitation-service"
+
+// POST /api/invitations/accept - Create the admin profile for a newly registered account from its invitation
+export async function POST(request: NextRequest) {
+  try {
+    const { account, response: authError } = await verifyRequestAccount(request)
+    if (authError) return authError
+
+    const { token, profile } = await request.json()
+
+    if (!token) {
+      return NextResponse.json({ error: "Invitation token is required" }, { status: 400 })
+    }
+
+    if (!profile?.first_name || !profile?.last_name) {
+      return NextResponse.json({ error: "First and last name are required" }, { status: 400 })
+    }
+
+    const invitation = await acceptInvitation(token, account, {
+      first_name: String(profile.first_name),
+      middle_name: String(profile.middle_name || ""),
+      last_name: String(profile.last_name),
+      display_name: String(profile.display_name || `${profile.first_name} ${profile.last_name}`),
+      gender: String(profile.gender || ""),
+      phone_number: String(profile.phone_number || ""),
+      country_code: String(profile.country_code || ""),
+      location: profile.location,
+    })
+
+    return NextResponse.json({ success: true, role: invitation.role })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error accepting invitation:", error)
+    return NextResponse.json({ error: "Failed to accept invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { TenantAccessLevel } from "@/lib/tenant-service"
+import {
+  createInvitation,
+  findPendingInvitationForEmail,
+  getInvitations,
+  hasAdminAccount,
+  InvitationError,
+} from "@/lib/invitation-service"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// GET /api/invitations - List invitations for the tenant
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "users:invite")
+    if (authError) return authError
+
+    const invitations = await getInvitations()
+
+    return NextResponse.json({ invitations })
+  } catch (error) {
+    console.error("Error fetching invitations:", error)
+    return NextResponse.json({ error: "Failed to fetch invitations" }, { status: 500 })
+  }
+}
+
+// POST /api/invitations - Invite an admin user with a pre-assigned role
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "users:invite")
+    if (authError) return authError
+
+    const { email, role } = await request.json()
+
+    if (!email || !EMAIL_PATTERN.test(String(email).trim())) {
+      return NextResponse.json({ error: "A valid email address is required" }, { status: 400 })
+    }
+
+    if (!Object.values(TenantAccessLevel).includes(role)) {
+      return NextResponse.json({ error: "Role must be one of ADMIN, EDITOR or VIEWER" }, { status: 400 })
+    }
+
+    if (await hasAdminAccount(email)) {
+      return NextResponse.json({ error: "An admin account already exists for this email" }, { status: 409 })
+    }
+
+    if (await findPendingInvitationForEmail(email)) {
+      return NextResponse.json(
+        { error: "A pending invitation already exists for this email. Resend it instead." },
+        { status: 409 },
+      )
+    }
+
+    const { invitation, token } = await createInvitation(email, role, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({
+      success: true,
+      invitation,
+      inviteUrl: `${request.nextUrl.origin}/register?invite=${token}`,
+    })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating invitation:", error)
+    return NextResponse.json({ error: "Failed to create invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { findInvitationByToken } from "@/lib/invitation-service"
+
+// GET /api/invitations/validate?token= - Check an invite link before showing the registration form
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token")
+    if (!token) {
+      return NextResponse.json({ error: "Invitation token is required" }, { status: 400 })
+    }
+
+    const invitation = await findInvitationByToken(token)
+    if (!invitation) {
+      return NextResponse.json({ error: "This invitation link is invalid" }, { status: 404 })
+    }
+
+    if (invitation.status !== "pending") {
+      return NextResponse.json({ error: `This invitation has been ${invitation.status}` }, { status: 410 })
+    }
+
+    return NextResponse.json({
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expires_at,
+    })
+  } catch (error) {
+    console.error("Error validating invitation:", error)
+    return NextResponse.json({ error: "Failed to validate invitation" }, { status: 500 })
+  }
+}
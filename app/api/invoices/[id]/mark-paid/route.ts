@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { InvoiceError, markInvoicePaid } from "@/lib/invoice-service"
+
+// POST /api/invoices/[id]/mark-paid - Record a payment received outside the system
+// Body: { paymentReference?: string, paidAt?: ISO date (defaults to now) }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "billing:manage")
+    if (authError) return authError
+
+    const { paymentReference, paidAt } = await request.json()
+
+    if (paymentReference !== undefined && (typeof paymentReference !== "string" || paymentReference.length > 100)) {
+      return NextResponse.json({ error: "paymentReference must be text of at most 100 characters" }, { status: 400 })
+    }
+
+    const paidAtDate = paidAt ? new Date(paidAt) : undefined
+    if (paidAtDate && (isNaN(paidAtDate.getTime()) || paidAtDate > new Date())) {
+      return NextResponse.json({ error: "paidAt must be a valid date that is not in the future" }, { status: 400 })
+    }
+
+    const invoice = await markInvoicePaid(
+      params.id,
+      { paidAt: paidAtDate, paymentReference },
+      { uid: user.uid, email: user.email },
+    )
+
+    return NextResponse.json({ success: true, invoice })
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error marking invoice as paid:", error)
+    return NextResponse.json({ error: "Failed to mark invoice as paid" }, { status: 500 })
+  }
+}
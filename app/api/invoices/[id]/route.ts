@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getInvoiceById } from "@/lib/invoice-service"
+
+// GET /api/invoices/[id] - A single invoice, for viewing and printing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const invoice = await getInvoiceById(params.id)
+    if (!invoice) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ invoice })
+  } catch (error) {
+    console.error("Error fetching invoice:", error)
+    return NextResponse.json({ error: "Failed to fetch invoice" }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server"
+import { LicenseSigningError } from "@/lib/license-keys"
+import { verifyLicense } from "@/lib/license-service"
+
+// POST /api/licenses/verify - Public check of a license key's validity, plan limits and revocation status
+export async function POST(request: NextRequest) {
+  try {
+    const { licenseKey } = await request.json()
+
+    if (typeof licenseKey !== "string" || !licenseKey.trim()) {
+      return NextResponse.json({ error: "licenseKey is required" }, { status: 400 })
+    }
+
+    // Invalid keys are a normal answer rather than an error, so the response is 200 either way
+    const verification = await verifyLicense(licenseKey)
+
+    return NextResponse.json(verification)
+  } catch (error) {
+    if (error instanceof LicenseSigningError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error verifying license key:", error)
+    return NextResponse.json({ error: "Failed to verify license key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getProductOccupancy } from "@/lib/site-availability"
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// GET /api/products/[id]/occupancy - Bookings and approved quotation requests holding the site, oldest first.
+// ?from and ?to are ISO dates and limit the result to entries overlapping that range.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+    if (from === undefined || to === undefined || !from !== !to) {
+      return NextResponse.json({ error: "from and to must both be valid dates" }, { status: 400 })
+    }
+    if (from && to && from > to) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 })
+    }
+
+    const occupancy = await getProductOccupancy(params.id, from && to ? { start: from, end: to } : undefined)
+
+    return NextResponse.json({ occupancy })
+  } catch (error) {
+    console.error("Error fetching product occupancy:", error)
+    return NextResponse.json({ error: "Failed to fetch product occupancy" }, { status: 500 })
+  }
+}
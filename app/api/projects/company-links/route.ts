@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { linkLicensesToCompanies } from "@/lib/project-service"
+
+// GET /api/projects/company-links - Preview which licenses can be linked to a company, and which are ambiguous
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "migrations:run")
+    if (authError) return authError
+
+    const result = await linkLicensesToCompanies({ uid: user.uid, email: user.email }, true)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error scanning license companies:", error)
+    return NextResponse.json({ error: "Failed to scan licenses" }, { status: 500 })
+  }
+}
+
+// POST /api/projects/company-links - Set company_id on every license that matches exactly one company
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "migrations:run")
+    if (authError) return authError
+
+    const result = await linkLicensesToCompanies({ uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error linking licenses to companies:", error)
+    return NextResponse.json({ error: "Failed to link licenses to companies" }, { status: 500 })
+  }
+}
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/firebase"
+import { authenticateRequest } from "@/lib/api-auth"
 import { collection, getDocs, query, where, orderBy } from "firebase/firestore"
 import { ProjectData } from "@/types/project"
 
 // GET /api/projects - List projects with optional filters
 export async function GET(request: NextRequest) {
   try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
     const { searchParams } = new URL(request.url)
     const companyId = searchParams.get("companyId")
     const userId = searchParams.get("userId")
@@ -23,9 +27,8 @@ export async function GET(request: NextRequest) {
 
     // Add filters
     if (companyId) {
-      // Note: We need to find projects by company name since projects don't have companyId
-      // This is a limitation of the current data structure
-      projectsQuery = query(projectsQuery, where("company_name", "==", companyId))
+      // Licenses created before company_id existed are linked by the license company migration
+      projectsQuery = query(projectsQuery, where("company_id", "==", companyId))
     }
 
     if (userId) {
@@ -47,6 +50,7 @@ export async function GET(request: NextRequest) {
         license_key: data.license_key || "",
         project_name: data.project_name || "",
         company_name: data.company_name || "",
+        company_id: data.company_id || null,
         company_location: data.company_location || "",
         company_website: data.company_website || "",
         social_media: data.social_media || {
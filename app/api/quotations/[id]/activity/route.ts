@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getQuotationActivity } from "@/lib/quotation-workflow"
+
+// GET /api/quotations/[id]/activity - List status changes and internal notes, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const activity = await getQuotationActivity(params.id)
+
+    return NextResponse.json(activity)
+  } catch (error) {
+    console.error("Error fetching quotation activity:", error)
+    return NextResponse.json({ error: "Failed to fetch quotation activity" }, { status: 500 })
+  }
+}
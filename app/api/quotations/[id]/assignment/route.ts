@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuotationWorkflowError, assignQuotation } from "@/lib/quotation-workflow"
+
+// PUT /api/quotations/[id]/assignment - Assign the request to a user, or unassign it with a null assigneeUid
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const body = await request.json()
+    const assigneeUid = typeof body.assigneeUid === "string" && body.assigneeUid ? body.assigneeUid : null
+    const quotation = await assignQuotation(params.id, assigneeUid, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, quotation })
+  } catch (error) {
+    if (error instanceof QuotationWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error assigning quotation:", error)
+    return NextResponse.json({ error: "Failed to assign quotation" }, { status: 500 })
+  }
+}
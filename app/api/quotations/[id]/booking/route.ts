@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuotationBookingError, convertQuotationToBooking } from "@/lib/quotation-booking"
+
+// POST /api/quotations/[id]/booking - Convert an approved request into a booking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const result = await convertQuotationToBooking(params.id, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof QuotationBookingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error converting quotation to booking:", error)
+    return NextResponse.json({ error: "Failed to convert quotation to booking" }, { status: 500 })
+  }
+}
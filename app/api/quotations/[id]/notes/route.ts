@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuotationWorkflowError, addQuotationNote } from "@/lib/quotation-workflow"
+
+// POST /api/quotations/[id]/notes - Add an internal note to the request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const body = await request.json()
+    const note = await addQuotationNote(params.id, typeof body.body === "string" ? body.body : "", {
+      uid: user.uid,
+      email: user.email,
+    })
+
+    return NextResponse.json({ success: true, note })
+  } catch (error) {
+    if (error instanceof QuotationWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error adding quotation note:", error)
+    return NextResponse.json({ error: "Failed to add quotation note" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuoteError, getQuoteDefaults } from "@/lib/quote-service"
+
+// GET /api/quotations/[id]/quotes/defaults - Line items and validity date to start a new quote from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const defaults = await getQuoteDefaults(params.id)
+
+    return NextResponse.json({ defaults })
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error preparing quote:", error)
+    return NextResponse.json({ error: "Failed to prepare quote" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuoteError, createQuote, getQuotesForRequest, parseQuoteInput } from "@/lib/quote-service"
+
+// GET /api/quotations/[id]/quotes - List the quotes issued for a request, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const quotes = await getQuotesForRequest(params.id)
+
+    return NextResponse.json({ quotes })
+  } catch (error) {
+    console.error("Error fetching quotes:", error)
+    return NextResponse.json({ error: "Failed to fetch quotes" }, { status: 500 })
+  }
+}
+
+// POST /api/quotations/[id]/quotes - Issue a priced quote for the request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const body = await request.json()
+    const quote = await createQuote(params.id, parseQuoteInput(body), { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, quote })
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating quote:", error)
+    return NextResponse.json({ error: "Failed to create quote" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuotationWorkflowError, transitionQuotation } from "@/lib/quotation-workflow"
+
+// POST /api/quotations/[id]/status - Move the request to another status; rejections need a reason
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const body = await request.json()
+    const quotation = await transitionQuotation(
+      params.id,
+      { to: body.status, reason: typeof body.reason === "string" ? body.reason : null },
+      { uid: user.uid, email: user.email },
+    )
+
+    return NextResponse.json({ success: true, quotation })
+  } catch (error) {
+    if (error instanceof QuotationWorkflowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error changing quotation status:", error)
+    return NextResponse.json({ error: "Failed to change quotation status" }, { status: 500 })
+  }
+}
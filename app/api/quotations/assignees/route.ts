@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getQuotationAssignees } from "@/lib/quotation-workflow"
+
+// GET /api/quotations/assignees - List the users quotation requests can be assigned to
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const assignees = await getQuotationAssignees()
+
+    return NextResponse.json({ assignees })
+  } catch (error) {
+    console.error("Error fetching quotation assignees:", error)
+    return NextResponse.json({ error: "Failed to fetch quotation assignees" }, { status: 500 })
+  }
+}
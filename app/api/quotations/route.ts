@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { BookingSearchError, parseRecordSearchParams, searchRecords } from "@/lib/booking-search"
+
+// GET /api/quotations - List quotation requests, newest first
+// Filters combine: ?status, ?from and ?to (ISO dates), ?companyId, ?username (the requester's name) and ?search to
+// match the start of any word in the name, company, email or position. Paged with ?pageSize and ?cursor.
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const { records, pagination } = await searchRecords("quotations", parseRecordSearchParams(searchParams))
+
+    return NextResponse.json({ quotations: records, pagination })
+  } catch (error) {
+    if (error instanceof BookingSearchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching quotations:", error)
+    return NextResponse.json({ error: "Failed to fetch quotations" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { QuoteError, respondToQuote } from "@/lib/quote-service"
+
+// POST /api/quotes/[id]/respond - Record that the client accepted or declined the quote
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "quotations:manage")
+    if (authError) return authError
+
+    const body = await request.json()
+    if (typeof body.accepted !== "boolean") {
+      return NextResponse.json({ error: "Please choose whether the quote was accepted" }, { status: 400 })
+    }
+
+    const quote = await respondToQuote(
+      params.id,
+      { accepted: body.accepted, note: typeof body.note === "string" ? body.note : "" },
+      { uid: user.uid, email: user.email },
+    )
+
+    return NextResponse.json({ success: true, quote })
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error recording quote response:", error)
+    return NextResponse.json({ error: "Failed to record quote response" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getQuoteById } from "@/lib/quote-service"
+
+// GET /api/quotes/[id] - A single quote, for viewing and printing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "members:view")
+    if (authError) return authError
+
+    const quote = await getQuoteById(params.id)
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ quote })
+  } catch (error) {
+    console.error("Error fetching quote:", error)
+    return NextResponse.json({ error: "Failed to fetch quote" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { PlanCatalogError, setPlanStatus } from "@/lib/plan-catalog-service"
+
+// POST /api/subscription-plans/[id]/retire - Stop selling a plan; existing subscriptions keep it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "plans:manage")
+    if (authError) return authError
+
+    const plan = await setPlanStatus(params.id, "retired", { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    if (error instanceof PlanCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error retiring subscription plan:", error)
+    return NextResponse.json({ error: "Failed to retire subscription plan" }, { status: 500 })
+  }
+}
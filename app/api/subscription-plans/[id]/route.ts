@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { PlanCatalogError, getPlanCatalog, getPlanVersions, updatePlan } from "@/lib/plan-catalog-service"
+import { findPlan } from "@/lib/subscription-plans"
+
+// GET /api/subscription-plans/[id] - Get a plan and its versions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const { plans } = await getPlanCatalog({ includeRetired: true })
+    const plan = findPlan(plans, params.id)
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    const versions = await getPlanVersions(params.id)
+
+    return NextResponse.json({ plan, versions })
+  } catch (error) {
+    console.error("Error fetching subscription plan:", error)
+    return NextResponse.json({ error: "Failed to fetch subscription plan" }, { status: 500 })
+  }
+}
+
+// PUT /api/subscription-plans/[id] - Save changes as a new version; existing subscriptions keep their version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "plans:manage")
+    if (authError) return authError
+
+    const plan = await updatePlan(params.id, await request.json(), { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    if (error instanceof PlanCatalogError) {
+      return NextResponse.json({ error: error.message, fieldErrors: error.fieldErrors }, { status: error.status })
+    }
+    console.error("Error updating subscription plan:", error)
+    return NextResponse.json({ error: "Failed to update subscription plan" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { PlanCatalogError, seedDefaultPlans } from "@/lib/plan-catalog-service"
+
+// POST /api/subscription-plans/seed - Save the default plans into an empty catalog so they can be edited
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "plans:manage")
+    if (authError) return authError
+
+    const plans = await seedDefaultPlans({ uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, plans })
+  } catch (error) {
+    if (error instanceof PlanCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error seeding subscription plans:", error)
+    return NextResponse.json({ error: "Failed to save default plans" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { SubscriptionLifecycleError, changeSubscriptionPlan, previewPlanChange } from "@/lib/subscription-lifecycle"
+
+// POST /api/subscriptions/[id]/change-plan - Upgrade or downgrade the plan or billing cycle
+// With preview: true only the proration is returned and nothing changes.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:write")
+    if (authError) return authError
+
+    const { planType, billingCycle, preview } = await request.json()
+
+    if (preview) {
+      const proration = await previewPlanChange(params.id, planType, billingCycle)
+      return NextResponse.json({ proration })
+    }
+
+    const result = await changeSubscriptionPlan(params.id, planType, billingCycle, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof SubscriptionLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error changing subscription plan:", error)
+    return NextResponse.json({ error: "Failed to change subscription plan" }, { status: 500 })
+  }
+}
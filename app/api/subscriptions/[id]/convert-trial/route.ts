@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { SubscriptionLifecycleError, convertTrialToPaid } from "@/lib/subscription-lifecycle"
+
+// POST /api/subscriptions/[id]/convert-trial - Convert a trial to a paid plan
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:write")
+    if (authError) return authError
+
+    const { planType, billingCycle } = await request.json()
+
+    const result = await convertTrialToPaid(params.id, planType, billingCycle, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof SubscriptionLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error converting trial:", error)
+    return NextResponse.json({ error: "Failed to convert trial" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getSubscriptionHistory } from "@/lib/subscription-lifecycle"
+
+// GET /api/subscriptions/[id]/history - List plan changes, renewals and cancellations, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const history = await getSubscriptionHistory(params.id)
+
+    return NextResponse.json({ history })
+  } catch (error) {
+    console.error("Error fetching subscription history:", error)
+    return NextResponse.json({ error: "Failed to fetch subscription history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { InvoiceError, issueCurrentPeriodInvoice } from "@/lib/invoice-service"
+
+// POST /api/subscriptions/[id]/invoices - Invoice the current billing period, if it hasn't been invoiced yet
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:write")
+    if (authError) return authError
+
+    const invoice = await issueCurrentPeriodInvoice(params.id, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, invoice })
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error issuing invoice:", error)
+    return NextResponse.json({ error: "Failed to issue invoice" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { SubscriptionLifecycleError, renewSubscription } from "@/lib/subscription-lifecycle"
+
+// POST /api/subscriptions/[id]/renew - Renew for one more billing cycle
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:write")
+    if (authError) return authError
+
+    const result = await renewSubscription(params.id, { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof SubscriptionLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error renewing subscription:", error)
+    return NextResponse.json({ error: "Failed to renew subscription" }, { status: 500 })
+  }
+}
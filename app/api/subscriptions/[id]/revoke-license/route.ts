@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { revokeLicense } from "@/lib/license-service"
+import { SubscriptionLifecycleError } from "@/lib/subscription-lifecycle"
+
+// POST /api/subscriptions/[id]/revoke-license - Revoke the license key so verification fails for it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, response: authError } = await authenticateRequest(request, "clients:delete")
+    if (authError) return authError
+
+    const { reason } = await request.json()
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 })
+    }
+
+    const result = await revokeLicense(params.id, reason.trim(), { uid: user.uid, email: user.email })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof SubscriptionLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error revoking license key:", error)
+    return NextResponse.json({ error: "Failed to revoke license key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest, hasJobSecret } from "@/lib/api-auth"
+import { SYSTEM_ACTOR, processSubscriptionExpirations } from "@/lib/subscription-expiry"
+import type { AuditActor } from "@/types/audit-log"
+
+// A simulated run date may only change data in development or against the Firestore emulator
+function canSimulateRunDate() {
+  return (
+    process.env.NODE_ENV === "development" ||
+    !!(process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST || process.env.FIRESTORE_EMULATOR_HOST)
+  )
+}
+
+async function runExpiryJob(request: NextRequest, readOnly: boolean) {
+  try {
+    let actor: AuditActor = SYSTEM_ACTOR
+    if (!hasJobSecret(request)) {
+      const { user, response: authError } = await authenticateRequest(request, "jobs:run")
+      if (authError) return authError
+      actor = { uid: user.uid, email: user.email }
+    }
+
+    const { searchParams } = new URL(request.url)
+    const dryRun = readOnly || searchParams.get("dryRun") === "true"
+
+    // ?now= simulates a later run date; outside the emulator and development it is only honoured for previews
+    const nowParam = searchParams.get("now")
+    if (nowParam && !dryRun && !canSimulateRunDate()) {
+      return NextResponse.json({ error: "now is only accepted for dry runs" }, { status: 400 })
+    }
+    const now = nowParam ? new Date(nowParam) : new Date()
+    if (Number.isNaN(now.getTime())) {
+      return NextResponse.json({ error: "now must be a valid date" }, { status: 400 })
+    }
+
+    const result = await processSubscriptionExpirations({ now, dryRun, actor })
+
+    return NextResponse.json({ success: result.failed.length === 0, ...result })
+  } catch (error) {
+    console.error("Error processing subscription expirations:", error)
+    return NextResponse.json({ error: "Failed to process subscription expirations" }, { status: 500 })
+  }
+}
+
+// GET /api/subscriptions/process-expirations - Preview the transitions a run would apply, without writing
+export async function GET(request: NextRequest) {
+  return runExpiryJob(request, true)
+}
+
+// POST /api/subscriptions/process-expirations - Expire lapsed subscriptions and trials (?dryRun=true to preview)
+// Schedulers send CRON_SECRET as the bearer token
+export async function POST(request: NextRequest) {
+  return runExpiryJob(request, false)
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateRequest } from "@/lib/api-auth"
+import { getRenewalsDue } from "@/lib/subscription-expiry"
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+// GET /api/subscriptions/renewals-due?days=30 - Subscriptions that lapse within the next N days
+export async function GET(request: NextRequest) {
+  try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const days = Number.parseInt(searchParams.get("days") || String(DEFAULT_DAYS))
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be between 0 and ${MAX_DAYS}` }, { status: 400 })
+    }
+
+    const renewals = await getRenewalsDue(days)
+
+    return NextResponse.json({ days, renewals })
+  } catch (error) {
+    console.error("Error fetching renewals due:", error)
+    return NextResponse.json({ error: "Failed to fetch renewals due" }, { status: 500 })
+  }
+}
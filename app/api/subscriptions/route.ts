@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/firebase"
+import { authenticateRequest } from "@/lib/api-auth"
 import { collection, getDocs, query, where, orderBy } from "firebase/firestore"
 import { Subscription } from "@/types/subscription"
 
 // GET /api/subscriptions - List subscriptions with optional filters
 export async function GET(request: NextRequest) {
   try {
+    const { response: authError } = await authenticateRequest(request, "admin:view")
+    if (authError) return authError
+
     const { searchParams } = new URL(request.url)
     const companyId = searchParams.get("companyId")
     const userId = searchParams.get("userId")
@@ -42,6 +46,7 @@ export async function GET(request: NextRequest) {
         id: doc.id,
         licenseKey: data.licenseKey || "",
         planType: data.planType || "trial",
+        planVersion: data.planVersion || 1,
         billingCycle: data.billingCycle || "monthly",
         uid: data.uid || "",
         startDate: data.startDate?.toDate?.() || new Date(data.startDate),
@@ -51,6 +56,9 @@ export async function GET(request: NextRequest) {
         maxUsers: data.maxUsers || 1,
         trialEndDate: data.trialEndDate?.toDate?.(),
         companyId: data.companyId || null,
+        cancelAtPeriodEnd: data.cancelAtPeriodEnd || false,
+        graceEndDate: data.graceEndDate?.toDate?.() || null,
+        licenseRevokedAt: data.licenseRevokedAt?.toDate?.() || null,
         createdAt: data.createdAt?.toDate?.() || new Date(data.createdAt),
         updatedAt: data.updatedAt?.toDate?.() || new Date(data.updatedAt),
       })
@@ -0,0 +1,9 @@
+import { AuditLogViewer } from "@/components/audit-log/audit-log-viewer"
+
+export default function AuditLogPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <AuditLogViewer />
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { BookingRevenueAnalytics } from "@/components/bookings/booking-revenue-analytics"
+
+export default function BookingAnalyticsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <BookingRevenueAnalytics />
+    </div>
+  )
+}
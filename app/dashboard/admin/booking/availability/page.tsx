@@ -0,0 +1,9 @@
+import { SiteAvailabilitySearch } from "@/components/bookings/site-availability-search"
+
+export default function SiteAvailabilityPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <SiteAvailabilitySearch />
+    </div>
+  )
+}
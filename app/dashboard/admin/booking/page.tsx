@@ -1,14 +1,12 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
-  Search,
   Calendar,
   User,
   Building2,
@@ -24,14 +22,13 @@ import {
   LayoutGrid,
   List,
   Copy,
+  CalendarRange,
+  AlertTriangle,
+  BarChart3,
 } from "lucide-react"
 import {
   collection,
   query,
-  orderBy,
-  limit,
-  startAfter,
-  getDocs,
   where,
   getCountFromServer,
   doc,
@@ -41,29 +38,33 @@ import { db } from "@/lib/firebase"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-
-interface Booking {
-  id: string
-  cancel_reason: string
-  company_id: string
-  cost: number
-  created: any
-  media_order: string
-  payment_method: string
-  product_id: string
-  product_owner: string
-  quantity: number
-  rated: boolean
-  seller_id: string
-  status: string
-  total_cost: number
-  type: string
-  user_id: string
-  username: string
-}
+import { BookingWorkflowPanel } from "@/components/bookings/booking-workflow-panel"
+import {
+  RecordSearchFields,
+  RecordSearchPager,
+  type RecordFilterOption,
+} from "@/components/bookings/record-search-controls"
+import { hasActiveRecordFilters, useRecordSearch } from "@/hooks/use-record-search"
+import type { Booking } from "@/types/booking"
 
 const ITEMS_PER_PAGE = 12
 
+const STATUS_OPTIONS: RecordFilterOption[] = [
+  { value: "COMPLETED", label: "Completed" },
+  { value: "PENDING", label: "Pending" },
+  { value: "CANCELLED", label: "Cancelled" },
+  { value: "PROCESSING", label: "Processing" },
+  { value: "CONFIRMED", label: "Confirmed" },
+  { value: "FOR CONTRACT", label: "For Contract" },
+]
+
+const TYPE_OPTIONS: RecordFilterOption[] = [
+  { value: "MERCHANDISE", label: "Merchandise" },
+  { value: "SERVICE", label: "Service" },
+  { value: "CONSULTATION", label: "Consultation" },
+  { value: "RENTAL", label: "Rental" },
+]
+
 const statusConfig = {
   COMPLETED: { color: "bg-green-100 text-green-800" },
   PENDING: { color: "bg-yellow-100 text-yellow-800" },
@@ -81,16 +82,8 @@ const typeConfig = {
 }
 
 export default function AdminBookingPage() {
-  const [bookings, setBookings] = useState<Booking[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<string>("all")
-  const [typeFilter, setTypeFilter] = useState<string>("all")
-  const [currentPage, setCurrentPage] = useState(1)
-  const [totalCount, setTotalCount] = useState(0)
-  const [lastDoc, setLastDoc] = useState<any>(null)
-  const [pageCache, setPageCache] = useState<Map<number, { data: Booking[]; lastDoc: any }>>(new Map())
+  const search = useRecordSearch<Booking>("bookings", ITEMS_PER_PAGE)
+  const { records: bookings, setRecords: setBookings, loading, error, filters } = search
   const [viewMode, setViewMode] = useState<"list" | "card">("list") // Default to list view
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
   const [isBookingDialogOpen, setIsBookingDialogOpen] = useState(false)
@@ -186,80 +179,6 @@ export default function AdminBookingPage() {
     return booking.username || "Loading..."
   }
 
-  const fetchBookings = async (page = 1, useCache = true) => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      // Check cache first
-      if (useCache && pageCache.has(page)) {
-        const cached = pageCache.get(page)!
-        setBookings(cached.data)
-        setLastDoc(cached.lastDoc)
-        setLoading(false)
-        return
-      }
-
-      const bookingsRef = collection(db, "booking")
-      let bookingQuery = query(bookingsRef, orderBy("created", "desc"), limit(ITEMS_PER_PAGE))
-
-      // Apply filters
-      if (statusFilter !== "all") {
-        bookingQuery = query(
-          bookingsRef,
-          where("status", "==", statusFilter),
-          orderBy("created", "desc"),
-          limit(ITEMS_PER_PAGE),
-        )
-      }
-
-      if (typeFilter !== "all") {
-        bookingQuery = query(
-          bookingsRef,
-          where("type", "==", typeFilter),
-          orderBy("created", "desc"),
-          limit(ITEMS_PER_PAGE),
-        )
-      }
-
-      // Handle pagination
-      if (page > 1) {
-        const prevPageData = pageCache.get(page - 1)
-        if (prevPageData?.lastDoc) {
-          bookingQuery = query(
-            bookingsRef,
-            orderBy("created", "desc"),
-            startAfter(prevPageData.lastDoc),
-            limit(ITEMS_PER_PAGE),
-          )
-        }
-      }
-
-      const snapshot = await getDocs(bookingQuery)
-      const bookingData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Booking[]
-
-      const newLastDoc = snapshot.docs[snapshot.docs.length - 1]
-
-      // Cache the results
-      setPageCache((prev) => new Map(prev.set(page, { data: bookingData, lastDoc: newLastDoc })))
-
-      setBookings(bookingData)
-      setLastDoc(newLastDoc)
-
-      // Get total count
-      const countSnapshot = await getCountFromServer(collection(db, "booking"))
-      setTotalCount(countSnapshot.data().count)
-    } catch (err) {
-      console.error("Error fetching bookings:", err)
-      setError("Failed to load bookings. Please try again.")
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const fetchStats = async () => {
     try {
       const bookingsRef = collection(db, "booking")
@@ -283,13 +202,8 @@ export default function AdminBookingPage() {
   }
 
   useEffect(() => {
-    fetchBookings(1, false)
     fetchStats()
-  }, [statusFilter, typeFilter])
-
-  useEffect(() => {
-    fetchBookings(currentPage)
-  }, [currentPage])
+  }, [])
 
   useEffect(() => {
     // Fetch user data for all bookings using user_id (customer)
@@ -300,27 +214,8 @@ export default function AdminBookingPage() {
     })
   }, [bookings])
 
-  const filteredBookings = bookings.filter((booking) => {
-    const searchLower = searchTerm.toLowerCase()
-    return (
-      booking.username?.toLowerCase().includes(searchLower) ||
-      booking.company_id?.toLowerCase().includes(searchLower) ||
-      booking.product_owner?.toLowerCase().includes(searchLower) ||
-      booking.payment_method?.toLowerCase().includes(searchLower) ||
-      booking.seller_id?.toLowerCase().includes(searchLower) ||
-      booking.product_id?.toLowerCase().includes(searchLower)
-    )
-  })
-
-  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
-
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page)
-  }
-
   const handleRetry = () => {
-    setPageCache(new Map()) // Clear cache
-    fetchBookings(1, false)
+    search.refresh()
     fetchStats()
   }
 
@@ -333,6 +228,14 @@ export default function AdminBookingPage() {
     setIsBookingDialogOpen(true)
   }
 
+  // Keeps the list and the open dialog in sync after a status change or refund
+  const handleBookingChange = (changes: Partial<Booking>) => {
+    if (!selectedBooking) return
+    const updated = { ...selectedBooking, ...changes }
+    setSelectedBooking(updated)
+    setBookings((current) => current.map((booking) => (booking.id === updated.id ? updated : booking)))
+  }
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
   }
@@ -361,6 +264,20 @@ export default function AdminBookingPage() {
           <h2 className="text-3xl font-bold tracking-tight">Admin - Booking Management</h2>
           <p className="text-muted-foreground">Manage service bookings and reservations from admin panel</p>
         </div>
+        <div className="flex gap-2">
+          <Link href="/dashboard/admin/booking/analytics">
+            <Button variant="outline">
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </Button>
+          </Link>
+          <Link href="/dashboard/admin/booking/availability">
+            <Button variant="outline">
+              <CalendarRange className="h-4 w-4 mr-2" />
+              Site Availability
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Statistics Cards */}
@@ -411,57 +328,24 @@ export default function AdminBookingPage() {
       </div>
 
       {/* Filters and View Toggle */}
-      <div className="flex flex-col md:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search bookings..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-
-        <div className="flex gap-2">
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-full md:w-[180px]">
-              <SelectValue placeholder="Filter by status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="COMPLETED">Completed</SelectItem>
-              <SelectItem value="PENDING">Pending</SelectItem>
-              <SelectItem value="CANCELLED">Cancelled</SelectItem>
-              <SelectItem value="PROCESSING">Processing</SelectItem>
-              <SelectItem value="CONFIRMED">Confirmed</SelectItem>
-              <SelectItem value="FOR CONTRACT">For Contract</SelectItem>
-            </SelectContent>
-          </Select>
-
-          <Select value={typeFilter} onValueChange={setTypeFilter}>
-            <SelectTrigger className="w-full md:w-[180px]">
-              <SelectValue placeholder="Filter by type" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="MERCHANDISE">Merchandise</SelectItem>
-              <SelectItem value="SERVICE">Service</SelectItem>
-              <SelectItem value="CONSULTATION">Consultation</SelectItem>
-              <SelectItem value="RENTAL">Rental</SelectItem>
-            </SelectContent>
-          </Select>
-
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={toggleViewMode}
-            className="flex-shrink-0"
-            title={viewMode === "list" ? "Switch to card view" : "Switch to list view"}
-          >
-            {viewMode === "list" ? <LayoutGrid className="h-4 w-4" /> : <List className="h-4 w-4" />}
-          </Button>
-        </div>
-      </div>
+      <RecordSearchFields
+        kind="bookings"
+        values={filters}
+        onChange={search.setFilter}
+        onReset={search.resetFilters}
+        statusOptions={STATUS_OPTIONS}
+        typeOptions={TYPE_OPTIONS}
+      >
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={toggleViewMode}
+          className="flex-shrink-0"
+          title={viewMode === "list" ? "Switch to card view" : "Switch to list view"}
+        >
+          {viewMode === "list" ? <LayoutGrid className="h-4 w-4" /> : <List className="h-4 w-4" />}
+        </Button>
+      </RecordSearchFields>
 
       {/* Bookings Display */}
       {loading ? (
@@ -525,12 +409,12 @@ export default function AdminBookingPage() {
             ))}
           </div>
         )
-      ) : filteredBookings.length === 0 ? (
+      ) : bookings.length === 0 ? (
         <div className="flex flex-col items-center justify-center min-h-[400px] space-y-4">
           <Package className="h-12 w-12 text-muted-foreground" />
           <h3 className="text-lg font-semibold">No bookings found</h3>
           <p className="text-muted-foreground text-center">
-            {searchTerm || statusFilter !== "all" || typeFilter !== "all"
+            {hasActiveRecordFilters(filters)
               ? "Try adjusting your search or filters"
               : "No bookings have been created yet"}
           </p>
@@ -561,7 +445,7 @@ export default function AdminBookingPage() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredBookings.map((booking) => {
+              {bookings.map((booking) => {
                 return (
                   <TableRow key={booking.id} className="hover:bg-muted/50">
                     <TableCell>
@@ -580,7 +464,16 @@ export default function AdminBookingPage() {
                         </div>
                       </div>
                     </TableCell>
-                    <TableCell>{booking.status || "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {booking.status || "-"}
+                        {!!booking.conflicts?.length && booking.status !== "CANCELLED" && (
+                          <span title="Double-booked site">
+                            <AlertTriangle className="h-4 w-4 text-amber-600" />
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{booking.type || "-"}</TableCell>
                     <TableCell>
                       <div className="flex items-center">
@@ -625,7 +518,7 @@ export default function AdminBookingPage() {
         </div>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-          {filteredBookings.map((booking) => {
+          {bookings.map((booking) => {
             return (
               <Card key={booking.id} className="hover:shadow-lg transition-shadow">
                 <CardHeader className="pb-3">
@@ -739,10 +632,11 @@ export default function AdminBookingPage() {
             </DialogHeader>
 
             <Tabs defaultValue="booking" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="booking">Booking Info</TabsTrigger>
                 <TabsTrigger value="customer">Customer</TabsTrigger>
                 <TabsTrigger value="product">Product</TabsTrigger>
+                <TabsTrigger value="status">Status</TabsTrigger>
                 <TabsTrigger value="timeline">Timeline</TabsTrigger>
               </TabsList>
 
@@ -771,6 +665,12 @@ export default function AdminBookingPage() {
                           </Button>
                         </div>
                       </div>
+                      {selectedBooking.quotation_id && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium">Quotation Request:</span>
+                          <span className="text-sm font-mono">{selectedBooking.quotation_id}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between items-center">
                         <span className="text-sm font-medium">Status:</span>
                         <span className="text-sm font-medium">{selectedBooking.status || "-"}</span>
@@ -968,6 +868,10 @@ export default function AdminBookingPage() {
                 </Card>
               </TabsContent>
 
+              <TabsContent value="status" className="space-y-4">
+                <BookingWorkflowPanel booking={selectedBooking} onBookingChange={handleBookingChange} />
+              </TabsContent>
+
               <TabsContent value="timeline" className="space-y-4">
                 <Card>
                   <CardHeader>
@@ -1033,47 +937,16 @@ export default function AdminBookingPage() {
       )}
 
       {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-between">
-          <div className="text-sm text-muted-foreground">
-            Showing {(currentPage - 1) * ITEMS_PER_PAGE + 1} to {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} of{" "}
-            {totalCount} bookings
-          </div>
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handlePageChange(currentPage - 1)}
-              disabled={currentPage === 1}
-            >
-              Previous
-            </Button>
-
-            {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-              const page = i + 1
-              return (
-                <Button
-                  key={page}
-                  variant={currentPage === page ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => handlePageChange(page)}
-                >
-                  {page}
-                </Button>
-              )
-            })}
-
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handlePageChange(currentPage + 1)}
-              disabled={currentPage === totalPages}
-            >
-              Next
-            </Button>
-          </div>
-        </div>
-      )}
+      <RecordSearchPager
+        kind="bookings"
+        page={search.page}
+        totalPages={search.totalPages}
+        shown={bookings.length}
+        pagination={search.pagination}
+        loading={loading}
+        onPrevious={search.previousPage}
+        onNext={search.nextPage}
+      />
     </div>
   )
 }
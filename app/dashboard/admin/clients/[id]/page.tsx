@@ -11,11 +11,18 @@ import { ArrowLeft, Edit, Building, CreditCard, FolderOpen, Mail, Phone, Globe,
 import { Company } from "@/lib/company-service"
 import { Subscription } from "@/types/subscription"
 import { ProjectData } from "@/types/project"
+import { authorizedFetch } from "@/lib/api-client"
+import { useAuth } from "@/contexts/auth-context"
+import { SubscriptionManager } from "@/components/clients/subscription-manager"
+import { UsagePanel } from "@/components/clients/usage-panel"
+import { InvoicesPanel } from "@/components/clients/invoices-panel"
+import { TimelinePanel } from "@/components/clients/timeline-panel"
 
 export default function ClientDetailsPage() {
   const params = useParams()
   const router = useRouter()
   const clientId = params.id as string
+  const { can } = useAuth()
 
   const [company, setCompany] = useState<Company | null>(null)
   const [subscription, setSubscription] = useState<Subscription | null>(null)
@@ -29,7 +36,7 @@ export default function ClientDetailsPage() {
         setLoading(true)
 
         // Fetch company details
-        const companyResponse = await fetch(`/api/clients/${clientId}`)
+        const companyResponse = await authorizedFetch(`/api/clients/${clientId}`)
         if (!companyResponse.ok) {
           throw new Error("Failed to fetch company details")
         }
@@ -38,10 +45,8 @@ export default function ClientDetailsPage() {
 
         // Fetch subscription details (if company has subscription)
         if (companyData.company) {
-          const company = companyData.company
-
           try {
-            const subscriptionResponse = await fetch(`/api/subscriptions?companyId=${clientId}`)
+            const subscriptionResponse = await authorizedFetch(`/api/subscriptions?companyId=${clientId}`)
             if (subscriptionResponse.ok) {
               const subscriptionData = await subscriptionResponse.json()
               if (subscriptionData.subscriptions && subscriptionData.subscriptions.length > 0) {
@@ -54,8 +59,7 @@ export default function ClientDetailsPage() {
 
           // Fetch project details (if company has project)
           try {
-            // Use company name to find projects since projects don't have companyId
-            const projectResponse = await fetch(`/api/projects?companyId=${encodeURIComponent(company.name)}`)
+            const projectResponse = await authorizedFetch(`/api/projects?companyId=${clientId}`)
             if (projectResponse.ok) {
               const projectData = await projectResponse.json()
               if (projectData.projects && projectData.projects.length > 0) {
@@ -96,7 +100,7 @@ export default function ClientDetailsPage() {
     const firstPart = key.substring(0, 4)
     const lastPart = key.substring(key.length - 4)
     const maskedLength = key.length - 8
-    const mask = '*'.repeat(maskedLength)
+    const mask = '*'.repeat(Math.min(maskedLength, 12))
     return `${firstPart}${mask}${lastPart}`
   }
 
@@ -351,6 +355,13 @@ export default function ClientDetailsPage() {
                   </p>
                 </div>
 
+                {subscription.trialEndDate && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Trial Ends</label>
+                    <p className="text-gray-900">{formatDate(subscription.trialEndDate)}</p>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="text-sm font-medium text-gray-500">Start Date</label>
@@ -379,6 +390,16 @@ export default function ClientDetailsPage() {
             </Card>
           )}
 
+          {subscription && can("clients:write") && (
+            <SubscriptionManager subscription={subscription} onSubscriptionChange={setSubscription} />
+          )}
+
+          <UsagePanel companyId={clientId} subscription={subscription} />
+
+          <InvoicesPanel companyId={clientId} subscription={subscription} />
+
+          <TimelinePanel companyId={clientId} subscription={subscription} />
+
           {/* Project Information */}
           {project ? (
             <Card>
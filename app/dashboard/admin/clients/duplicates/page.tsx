@@ -0,0 +1,9 @@
+import { CompanyDuplicatesManager } from "@/components/clients/company-duplicates-manager"
+
+export default function DuplicateCompaniesPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <CompanyDuplicatesManager />
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { ClientImportWizard } from "@/components/clients/client-import-wizard"
+
+export default function ImportClientsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <ClientImportWizard />
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { InvitationsManager } from "@/components/invitations/invitations-manager"
+
+export default function InvitationsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <InvitationsManager />
+    </div>
+  )
+}
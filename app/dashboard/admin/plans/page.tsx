@@ -0,0 +1,9 @@
+import { PlanCatalogManager } from "@/components/plans/plan-catalog-manager"
+
+export default function PlansPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <PlanCatalogManager />
+    </div>
+  )
+}
@@ -3,12 +3,9 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
-  Search,
   Calendar,
   User,
   Building2,
@@ -24,32 +21,35 @@ import {
   LayoutGrid,
   List,
 } from "lucide-react"
-import { collection, query, orderBy, limit, startAfter, getDocs, where, getCountFromServer } from "firebase/firestore"
+import { collection, query, where, getCountFromServer } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-
-interface Booking {
-  id: string
-  cancel_reason: string
-  company_id: string
-  cost: number
-  created: any
-  media_order: string
-  payment_method: string
-  product_id: string
-  product_owner: string
-  quantity: number
-  rated: boolean
-  seller_id: string
-  status: string
-  total_cost: number
-  type: string
-  user_id: string
-  username: string
-}
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { BookingWorkflowPanel } from "@/components/bookings/booking-workflow-panel"
+import {
+  RecordSearchFields,
+  RecordSearchPager,
+  type RecordFilterOption,
+} from "@/components/bookings/record-search-controls"
+import { hasActiveRecordFilters, useRecordSearch } from "@/hooks/use-record-search"
+import type { Booking } from "@/types/booking"
 
 const ITEMS_PER_PAGE = 12
 
+const STATUS_OPTIONS: RecordFilterOption[] = [
+  { value: "COMPLETED", label: "Completed" },
+  { value: "PENDING", label: "Pending" },
+  { value: "CANCELLED", label: "Cancelled" },
+  { value: "PROCESSING", label: "Processing" },
+  { value: "CONFIRMED", label: "Confirmed" },
+]
+
+const TYPE_OPTIONS: RecordFilterOption[] = [
+  { value: "MERCHANDISE", label: "Merchandise" },
+  { value: "SERVICE", label: "Service" },
+  { value: "CONSULTATION", label: "Consultation" },
+]
+
 const statusConfig = {
   COMPLETED: { color: "bg-green-100 text-green-800", icon: CheckCircle },
   PENDING: { color: "bg-yellow-100 text-yellow-800", icon: Clock },
@@ -65,17 +65,10 @@ const typeConfig = {
 }
 
 export default function ImmigrationBookingPage() {
-  const [bookings, setBookings] = useState<Booking[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<string>("all")
-  const [typeFilter, setTypeFilter] = useState<string>("all")
-  const [currentPage, setCurrentPage] = useState(1)
-  const [totalCount, setTotalCount] = useState(0)
-  const [lastDoc, setLastDoc] = useState<any>(null)
-  const [pageCache, setPageCache] = useState<Map<number, { data: Booking[]; lastDoc: any }>>(new Map())
+  const search = useRecordSearch<Booking>("bookings", ITEMS_PER_PAGE)
+  const { records: bookings, setRecords: setBookings, loading, error, filters } = search
   const [viewMode, setViewMode] = useState<"list" | "card">("list") // Default to list view
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null)
 
   // Statistics
   const [stats, setStats] = useState({
@@ -104,80 +97,6 @@ export default function ImmigrationBookingPage() {
     })
   }
 
-  const fetchBookings = async (page = 1, useCache = true) => {
-    try {
-      setLoading(true)
-      setError(null)
-
-      // Check cache first
-      if (useCache && pageCache.has(page)) {
-        const cached = pageCache.get(page)!
-        setBookings(cached.data)
-        setLastDoc(cached.lastDoc)
-        setLoading(false)
-        return
-      }
-
-      const bookingsRef = collection(db, "booking")
-      let bookingQuery = query(bookingsRef, orderBy("created", "desc"), limit(ITEMS_PER_PAGE))
-
-      // Apply filters
-      if (statusFilter !== "all") {
-        bookingQuery = query(
-          bookingsRef,
-          where("status", "==", statusFilter),
-          orderBy("created", "desc"),
-          limit(ITEMS_PER_PAGE),
-        )
-      }
-
-      if (typeFilter !== "all") {
-        bookingQuery = query(
-          bookingsRef,
-          where("type", "==", typeFilter),
-          orderBy("created", "desc"),
-          limit(ITEMS_PER_PAGE),
-        )
-      }
-
-      // Handle pagination
-      if (page > 1) {
-        const prevPageData = pageCache.get(page - 1)
-        if (prevPageData?.lastDoc) {
-          bookingQuery = query(
-            bookingsRef,
-            orderBy("created", "desc"),
-            startAfter(prevPageData.lastDoc),
-            limit(ITEMS_PER_PAGE),
-          )
-        }
-      }
-
-      const snapshot = await getDocs(bookingQuery)
-      const bookingData = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Booking[]
-
-      const newLastDoc = snapshot.docs[snapshot.docs.length - 1]
-
-      // Cache the results
-      setPageCache((prev) => new Map(prev.set(page, { data: bookingData, lastDoc: newLastDoc })))
-
-      setBookings(bookingData)
-      setLastDoc(newLastDoc)
-
-      // Get total count
-      const countSnapshot = await getCountFromServer(collection(db, "booking"))
-      setTotalCount(countSnapshot.data().count)
-    } catch (err) {
-      console.error("Error fetching bookings:", err)
-      setError("Failed to load bookings. Please try again.")
-    } finally {
-      setLoading(false)
-    }
-  }
-
   const fetchStats = async () => {
     try {
       const bookingsRef = collection(db, "booking")
@@ -201,35 +120,11 @@ export default function ImmigrationBookingPage() {
   }
 
   useEffect(() => {
-    fetchBookings(1, false)
     fetchStats()
-  }, [statusFilter, typeFilter])
-
-  useEffect(() => {
-    fetchBookings(currentPage)
-  }, [currentPage])
-
-  const filteredBookings = bookings.filter((booking) => {
-    const searchLower = searchTerm.toLowerCase()
-    return (
-      booking.username?.toLowerCase().includes(searchLower) ||
-      booking.company_id?.toLowerCase().includes(searchLower) ||
-      booking.product_owner?.toLowerCase().includes(searchLower) ||
-      booking.payment_method?.toLowerCase().includes(searchLower) ||
-      booking.seller_id?.toLowerCase().includes(searchLower) ||
-      booking.product_id?.toLowerCase().includes(searchLower)
-    )
-  })
-
-  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
-
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page)
-  }
+  }, [])
 
   const handleRetry = () => {
-    setPageCache(new Map()) // Clear cache
-    fetchBookings(1, false)
+    search.refresh()
     fetchStats()
   }
 
@@ -237,6 +132,14 @@ export default function ImmigrationBookingPage() {
     setViewMode(viewMode === "list" ? "card" : "list")
   }
 
+  // Keeps the list and the open dialog in sync after a status change or refund
+  const handleBookingChange = (changes: Partial<Booking>) => {
+    if (!selectedBooking) return
+    const updated = { ...selectedBooking, ...changes }
+    setSelectedBooking(updated)
+    setBookings((current) => current.map((booking) => (booking.id === updated.id ? updated : booking)))
+  }
+
   if (error) {
     return (
       <div className="container mx-auto p-6">
@@ -311,55 +214,24 @@ export default function ImmigrationBookingPage() {
       </div>
 
       {/* Filters and View Toggle */}
-      <div className="flex flex-col md:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search bookings..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-
-        <div className="flex gap-2">
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-full md:w-[180px]">
-              <SelectValue placeholder="Filter by status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="COMPLETED">Completed</SelectItem>
-              <SelectItem value="PENDING">Pending</SelectItem>
-              <SelectItem value="CANCELLED">Cancelled</SelectItem>
-              <SelectItem value="PROCESSING">Processing</SelectItem>
-              <SelectItem value="CONFIRMED">Confirmed</SelectItem>
-            </SelectContent>
-          </Select>
-
-          <Select value={typeFilter} onValueChange={setTypeFilter}>
-            <SelectTrigger className="w-full md:w-[180px]">
-              <SelectValue placeholder="Filter by type" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="MERCHANDISE">Merchandise</SelectItem>
-              <SelectItem value="SERVICE">Service</SelectItem>
-              <SelectItem value="CONSULTATION">Consultation</SelectItem>
-            </SelectContent>
-          </Select>
-
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={toggleViewMode}
-            className="flex-shrink-0"
-            title={viewMode === "list" ? "Switch to card view" : "Switch to list view"}
-          >
-            {viewMode === "list" ? <LayoutGrid className="h-4 w-4" /> : <List className="h-4 w-4" />}
-          </Button>
-        </div>
-      </div>
+      <RecordSearchFields
+        kind="bookings"
+        values={filters}
+        onChange={search.setFilter}
+        onReset={search.resetFilters}
+        statusOptions={STATUS_OPTIONS}
+        typeOptions={TYPE_OPTIONS}
+      >
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={toggleViewMode}
+          className="flex-shrink-0"
+          title={viewMode === "list" ? "Switch to card view" : "Switch to list view"}
+        >
+          {viewMode === "list" ? <LayoutGrid className="h-4 w-4" /> : <List className="h-4 w-4" />}
+        </Button>
+      </RecordSearchFields>
 
       {/* Bookings Display */}
       {loading ? (
@@ -423,12 +295,12 @@ export default function ImmigrationBookingPage() {
             ))}
           </div>
         )
-      ) : filteredBookings.length === 0 ? (
+      ) : bookings.length === 0 ? (
         <div className="flex flex-col items-center justify-center min-h-[400px] space-y-4">
           <Package className="h-12 w-12 text-muted-foreground" />
           <h3 className="text-lg font-semibold">No bookings found</h3>
           <p className="text-muted-foreground text-center">
-            {searchTerm || statusFilter !== "all" || typeFilter !== "all"
+            {hasActiveRecordFilters(filters)
               ? "Try adjusting your search or filters"
               : "No bookings have been created yet"}
           </p>
@@ -449,7 +321,7 @@ export default function ImmigrationBookingPage() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredBookings.map((booking) => {
+              {bookings.map((booking) => {
                 const StatusIcon = statusConfig[booking.status as keyof typeof statusConfig]?.icon || AlertCircle
                 const TypeIcon = typeConfig[booking.type as keyof typeof typeConfig]?.icon || Package
 
@@ -457,7 +329,12 @@ export default function ImmigrationBookingPage() {
                   <TableRow key={booking.id} className="hover:bg-muted/50">
                     <TableCell>
                       <div>
-                        <div className="font-medium">{booking.username}</div>
+                        <div
+                          className="font-medium text-blue-600 hover:text-blue-800 hover:underline cursor-pointer"
+                          onClick={() => setSelectedBooking(booking)}
+                        >
+                          {booking.username}
+                        </div>
                         <div className="text-sm text-muted-foreground">{booking.product_owner}</div>
                       </div>
                     </TableCell>
@@ -524,7 +401,7 @@ export default function ImmigrationBookingPage() {
         </div>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-          {filteredBookings.map((booking) => {
+          {bookings.map((booking) => {
             const StatusIcon = statusConfig[booking.status as keyof typeof statusConfig]?.icon || AlertCircle
             const TypeIcon = typeConfig[booking.type as keyof typeof typeConfig]?.icon || Package
 
@@ -533,7 +410,12 @@ export default function ImmigrationBookingPage() {
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
-                      <CardTitle className="text-lg line-clamp-1">{booking.username}</CardTitle>
+                      <CardTitle
+                        className="text-lg line-clamp-1 cursor-pointer hover:underline"
+                        onClick={() => setSelectedBooking(booking)}
+                      >
+                        {booking.username}
+                      </CardTitle>
                       <p className="text-sm text-muted-foreground">by {booking.product_owner}</p>
                     </div>
                     <div className="flex flex-col gap-1">
@@ -630,46 +512,27 @@ export default function ImmigrationBookingPage() {
       )}
 
       {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-between">
-          <div className="text-sm text-muted-foreground">
-            Showing {(currentPage - 1) * ITEMS_PER_PAGE + 1} to {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} of{" "}
-            {totalCount} bookings
-          </div>
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handlePageChange(currentPage - 1)}
-              disabled={currentPage === 1}
-            >
-              Previous
-            </Button>
-
-            {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-              const page = i + 1
-              return (
-                <Button
-                  key={page}
-                  variant={currentPage === page ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => handlePageChange(page)}
-                >
-                  {page}
-                </Button>
-              )
-            })}
-
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handlePageChange(currentPage + 1)}
-              disabled={currentPage === totalPages}
-            >
-              Next
-            </Button>
-          </div>
-        </div>
+      <RecordSearchPager
+        kind="bookings"
+        page={search.page}
+        totalPages={search.totalPages}
+        shown={bookings.length}
+        pagination={search.pagination}
+        loading={loading}
+        onPrevious={search.previousPage}
+        onNext={search.nextPage}
+      />
+
+      {/* Booking Status Dialog */}
+      {selectedBooking && (
+        <Dialog open onOpenChange={(open) => !open && setSelectedBooking(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold">Booking - {selectedBooking.username}</DialogTitle>
+            </DialogHeader>
+            <BookingWorkflowPanel booking={selectedBooking} onBookingChange={handleBookingChange} />
+          </DialogContent>
+        </Dialog>
       )}
     </div>
   )
@@ -1,18 +1,20 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card } from "@/components/ui/card"
 import { ProfileForm } from "@/components/profile/profile-form"
 import { ProfileHeader } from "@/components/profile/profile-header"
+import { ProfileSecurity } from "@/components/profile/profile-security"
 import { Loader2 } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
 
 export default function ProfilePage() {
   const { user, userData, loading } = useAuth()
   const router = useRouter()
-  const [activeTab, setActiveTab] = useState("personal")
+  const searchParams = useSearchParams()
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") || "personal")
   const [containerHeight, setContainerHeight] = useState("calc(100vh - 180px)")
 
   // Calculate available height on mount and window resize
@@ -59,9 +61,10 @@ export default function ProfilePage() {
         {/* Right column - Tabs and content */}
         <div className="lg:col-span-2 flex flex-col">
           <Card className="flex-1 flex flex-col overflow-hidden">
-            <Tabs defaultValue="personal" className="flex-1 flex flex-col" onValueChange={setActiveTab}>
+            <Tabs value={activeTab} className="flex-1 flex flex-col" onValueChange={setActiveTab}>
               <TabsList className="mx-4 mt-4 mb-2">
                 <TabsTrigger value="personal">Personal Information</TabsTrigger>
+                <TabsTrigger value="security">Security</TabsTrigger>
                 <TabsTrigger value="preferences">Preferences</TabsTrigger>
               </TabsList>
 
@@ -73,6 +76,10 @@ export default function ProfilePage() {
                   <ProfileForm userData={userData} />
                 </TabsContent>
 
+                <TabsContent value="security" className="h-full m-0 overflow-auto">
+                  <ProfileSecurity />
+                </TabsContent>
+
                 <TabsContent value="preferences" className="h-full m-0 overflow-auto">
                   <div className="p-4 bg-white rounded-md">
                     <h3 className="text-lg font-medium mb-2">Preferences</h3>
@@ -1,4 +1,5 @@
 import { TenantVerification } from "@/components/tenant-verification"
+import { TenantSecurityPolicy } from "@/components/tenant-security-policy"
 import { tenantConfig } from "@/lib/tenant-service"
 
 export default function TenantAdminPage() {
@@ -40,6 +41,10 @@ export default function TenantAdminPage() {
           </div>
         </div>
       </div>
+
+      <div className="mt-6">
+        <TenantSecurityPolicy />
+      </div>
     </div>
   )
 }
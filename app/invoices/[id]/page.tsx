@@ -0,0 +1,82 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import { Loader2, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { PrintableInvoice, type SerializedInvoice } from "@/components/invoices/printable-invoice"
+import { authorizedFetch } from "@/lib/api-client"
+import { useAuth } from "@/contexts/auth-context"
+
+// Standalone invoice page without the dashboard chrome, so it prints (or saves as PDF) cleanly
+export default function InvoicePage() {
+  const params = useParams()
+  const invoiceId = params.id as string
+  const { user, loading: authLoading } = useAuth()
+
+  const [invoice, setInvoice] = useState<SerializedInvoice | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      setError("Please sign in to view this invoice")
+      setLoading(false)
+      return
+    }
+
+    const fetchInvoice = async () => {
+      try {
+        const response = await authorizedFetch(`/api/invoices/${invoiceId}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load invoice")
+        }
+
+        setInvoice(data.invoice)
+        document.title = data.invoice.invoiceNumber
+      } catch (error: any) {
+        setError(error.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchInvoice()
+  }, [invoiceId, user, authLoading])
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="mx-auto max-w-3xl p-10">
+        <Alert variant="destructive">
+          <AlertDescription>{error || "Invoice not found"}</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 print:bg-white print:py-0">
+      <div className="mx-auto mb-4 flex max-w-3xl justify-end print:hidden">
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+      <div className="shadow-sm print:shadow-none">
+        <PrintableInvoice invoice={invoice} />
+      </div>
+    </div>
+  )
+}
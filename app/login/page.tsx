@@ -6,13 +6,14 @@ import { useState, useEffect } from "react"
 import Image from "next/image"
 import Link from "next/link"
 import { useRouter, useSearchParams } from "next/navigation"
-import { ChevronLeft, Eye, EyeOff, AlertCircle, Loader2, WifiOff, CheckCircle2 } from "lucide-react"
+import { ChevronLeft, Eye, EyeOff, AlertCircle, Loader2, WifiOff, CheckCircle2, ShieldCheck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useAuth } from "@/contexts/auth-context"
 import { checkFirestoreConnection } from "@/lib/auth"
 import { useNetworkStatus } from "@/lib/network-status"
+import { authorizedFetch, setTwoFactorSession } from "@/lib/api-client"
 
 export default function LoginPage() {
   const [email, setEmail] = useState("")
@@ -25,7 +26,10 @@ export default function LoginPage() {
   const [registrationSuccess, setRegistrationSuccess] = useState(false)
   // Add a new state for password reset success
   const [passwordResetSuccess, setPasswordResetSuccess] = useState(false)
-  const { signIn } = useAuth()
+  // Second factor step for accounts with two-factor authentication enabled
+  const [step, setStep] = useState<"credentials" | "two-factor">("credentials")
+  const [verificationCode, setVerificationCode] = useState("")
+  const { user, signIn, logout, twoFactor, refreshTwoFactorStatus } = useAuth()
   const router = useRouter()
   const searchParams = useSearchParams()
   const isNetworkOnline = useNetworkStatus()
@@ -58,6 +62,13 @@ export default function LoginPage() {
     }
   }, [searchParams])
 
+  // Resume the second factor step when the dashboard sends a signed-in user back here
+  useEffect(() => {
+    if (user && twoFactor?.enabled && !twoFactor.verified) {
+      setStep("two-factor")
+    }
+  }, [user, twoFactor])
+
   // Check Firestore connection on mount
   useEffect(() => {
     const checkConnection = async () => {
@@ -135,7 +146,16 @@ export default function LoginPage() {
 
     try {
       console.log("Attempting to sign in user")
+      setTwoFactorSession(null) // A new sign-in needs its own second factor
       await signIn(email, password)
+
+      const status = await refreshTwoFactorStatus()
+      if (status?.enabled && !status.verified) {
+        console.log("Sign in successful, waiting for second factor")
+        setStep("two-factor")
+        return
+      }
+
       console.log("Sign in successful, redirecting to dashboard")
       router.push("/dashboard")
     } catch (error: any) {
@@ -158,6 +178,48 @@ export default function LoginPage() {
     }
   }
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (!verificationCode.trim()) {
+      setError("Enter the code from your authenticator app or a recovery code")
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const response = await authorizedFetch("/api/auth/two-factor/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: verificationCode.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Invalid verification code")
+        return
+      }
+
+      setTwoFactorSession(data.sessionToken)
+      await refreshTwoFactorStatus()
+      router.push("/dashboard")
+    } catch (error: any) {
+      console.error("Two-factor verification error:", error)
+      setError("Failed to verify code. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancelTwoFactor = async () => {
+    await logout()
+    setVerificationCode("")
+    setError("")
+    setStep("credentials")
+  }
+
   // Retry connection check
   const handleRetryConnection = async () => {
     setIsCheckingConnection(true)
@@ -263,76 +325,119 @@ export default function LoginPage() {
             </Alert>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-5">
-            <div className="space-y-2">
+          {step === "two-factor" ? (
+            <form onSubmit={handleVerifyCode} className="space-y-5">
+              <div className="flex items-start gap-3 rounded-md border bg-muted/40 p-4 text-sm">
+                <ShieldCheck className="mt-0.5 h-5 w-5 text-[#1A237E]" />
+                <p className="text-muted-foreground">
+                  Enter the 6-digit code from your authenticator app. If you lost access to it, enter one of your
+                  recovery codes instead.
+                </p>
+              </div>
               <Input
-                id="email"
-                placeholder="Email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={!isNetworkOnline || !isFirestoreConnected || isLoading}
-                className="h-11"
+                id="verificationCode"
+                placeholder="123456 or XXXXX-XXXXX"
+                autoComplete="one-time-code"
+                value={verificationCode}
+                onChange={(e) => setVerificationCode(e.target.value)}
+                disabled={isLoading}
+                className="h-11 text-center tracking-widest"
+                autoFocus
               />
-            </div>
-            <div className="relative space-y-2">
-              <div className="relative">
+              <Button
+                type="submit"
+                className="h-11 w-full bg-[#1A237E] hover:bg-[#1A237E]/90"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={handleCancelTwoFactor}
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                  disabled={isLoading}
+                >
+                  Use a different account
+                </button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div className="space-y-2">
                 <Input
-                  id="password"
-                  placeholder="Password"
-                  type={showPassword ? "text" : "password"}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  id="email"
+                  placeholder="Email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
                   required
                   disabled={!isNetworkOnline || !isFirestoreConnected || isLoading}
                   className="h-11"
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground"
-                  disabled={!isNetworkOnline || !isFirestoreConnected || isLoading}
-                >
-                  {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </button>
               </div>
-              <div className="flex justify-end">
-                <Link href="/forgot-password" className="text-xs text-muted-foreground hover:text-foreground">
+              <div className="relative space-y-2">
+                <div className="relative">
+                  <Input
+                    id="password"
+                    placeholder="Password"
+                    type={showPassword ? "text" : "password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={!isNetworkOnline || !isFirestoreConnected || isLoading}
+                    className="h-11"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+                    disabled={!isNetworkOnline || !isFirestoreConnected || isLoading}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+                <div className="flex justify-end">
+                  <Link href="/forgot-password" className="text-xs text-muted-foreground hover:text-foreground">
+                    Forgot password?
+                  </Link>
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="h-11 w-full bg-[#1A237E] hover:bg-[#1A237E]/90"
+                disabled={!isNetworkOnline || !isFirestoreConnected || isLoading || isCheckingConnection}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : isCheckingConnection ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Checking connection...
+                  </>
+                ) : (
+                  "Login"
+                )}
+              </Button>
+              <div className="mt-2 text-center">
+                <Link href="/forgot-password" className="text-sm text-[#1A237E] hover:underline">
                   Forgot password?
                 </Link>
               </div>
-            </div>
-            <Button
-              type="submit"
-              className="h-11 w-full bg-[#1A237E] hover:bg-[#1A237E]/90"
-              disabled={!isNetworkOnline || !isFirestoreConnected || isLoading || isCheckingConnection}
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : isCheckingConnection ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Checking connection...
-                </>
-              ) : (
-                "Login"
-              )}
-            </Button>
-            <div className="mt-2 text-center">
-              <Link href="/forgot-password" className="text-sm text-[#1A237E] hover:underline">
-                Forgot password?
-              </Link>
-            </div>
-          </form>
+            </form>
+          )}
           <p className="text-center text-sm text-muted-foreground">
-            Don&apos;t have an account?{" "}
-            <Link href="/register" className="font-medium text-[#1A237E] hover:underline">
-              Sign up
-            </Link>
+            Don&apos;t have an account? Ask an administrator to send you an invitation.
           </p>
         </div>
       </div>
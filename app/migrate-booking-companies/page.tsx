@@ -19,6 +19,7 @@ import {
   Activity,
 } from "lucide-react"
 import { db } from "@/lib/firebase"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import {
   collection,
   getDocs,
@@ -711,7 +712,7 @@ export default function MigrateBookingCompaniesPage() {
 
           if (companyResolution) {
             // Prepare batch update
-            batch.update(doc(db, COLLECTION_NAME, bookingId), {
+            const updateData = {
               company_id: companyResolution.companyId,
               migration_metadata: {
                 source: "booking_company_migration_v2",
@@ -720,6 +721,15 @@ export default function MigrateBookingCompaniesPage() {
                 resolved_from_user: companyResolution.userId,
                 migration_version: "2.0",
               },
+            }
+            batch.update(doc(db, COLLECTION_NAME, bookingId), updateData)
+            addAuditEventToBatch(batch, {
+              collection: COLLECTION_NAME,
+              entityId: bookingId,
+              action: "migration",
+              before: bookingData,
+              after: updateData,
+              metadata: { migration: updateData.migration_metadata.source, batchNumber: currentBatchNumber },
             })
 
             batchStats.successful++
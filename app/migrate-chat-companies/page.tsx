@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { CheckCircle, XCircle, AlertCircle, Users, MessageSquare, ArrowRight, RotateCcw, Search } from "lucide-react"
 import { db } from "@/lib/firebase"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import {
   collection,
   getDocs,
@@ -571,7 +572,7 @@ export default function MigrateChatCompaniesPage() {
 
             if (finalValidation.isValid) {
               // Update chat with user's company_id
-              batch.update(doc(db, "chats", chatId), {
+              const updateData = {
                 company_id: userInfo.companyId,
                 migration_source: "chat_company_migration",
                 migration_timestamp: new Date(),
@@ -579,6 +580,15 @@ export default function MigrateChatCompaniesPage() {
                 migration_user_index: userInfo.userIndex,
                 migration_indices_checked: userInfo.indicesChecked,
                 migration_batch: currentBatchNumber,
+              }
+              batch.update(doc(db, "chats", chatId), updateData)
+              addAuditEventToBatch(batch, {
+                collection: "chats",
+                entityId: chatId,
+                action: "migration",
+                before: chatData,
+                after: updateData,
+                metadata: { migration: updateData.migration_source, batchNumber: currentBatchNumber },
               })
 
               batchUpdates++
@@ -16,6 +16,7 @@ import {
   type DocumentData,
 } from "firebase/firestore"
 import { db } from "@/lib/firebase"
+import { addAuditEventToBatch, recordAuditEvent } from "@/lib/audit-log"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -377,7 +378,7 @@ export default function MigrateCompaniesPage() {
   // Create a new empty company document
   const createNewCompany = async (): Promise<string> => {
     try {
-      const newCompanyRef = await addDoc(collection(db, "companies"), {
+      const companyData = {
         name: "",
         description: "",
         created_at: new Date(),
@@ -385,6 +386,14 @@ export default function MigrateCompaniesPage() {
         active: true,
         migration_source: "user_company_migration",
         migration_timestamp: new Date().toISOString(),
+      }
+      const newCompanyRef = await addDoc(collection(db, "companies"), companyData)
+      await recordAuditEvent({
+        collection: "companies",
+        entityId: newCompanyRef.id,
+        action: "migration",
+        after: companyData,
+        metadata: { migration: companyData.migration_source },
       })
 
       addDebugLog(`Created new company with ID: ${newCompanyRef.id}`)
@@ -449,6 +458,14 @@ export default function MigrateCompaniesPage() {
           }
 
           batch.update(userRef, updateData)
+          addAuditEventToBatch(batch, {
+            collection: "iboard_users",
+            entityId: user.id,
+            action: "migration",
+            before: user,
+            after: updateData,
+            metadata: { migration: updateData.migration_source, batchNumber },
+          })
           successful++
 
           addDebugLog(`Added user ${user.id} to batch update with company_id: ${companyId}`)
@@ -556,6 +573,14 @@ export default function MigrateCompaniesPage() {
           }
 
           batch.update(userRef, updateData)
+          addAuditEventToBatch(batch, {
+            collection: "iboard_users",
+            entityId: user.id,
+            action: "migration",
+            before: user,
+            after: updateData,
+            metadata: { migration: updateData.migration_source, batchNumber },
+          })
           successful++
 
           addDebugLog(`Added user ${user.id} to batch update with new company_id: ${companyId}`)
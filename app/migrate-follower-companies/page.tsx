@@ -19,6 +19,7 @@ import {
   Clock,
 } from "lucide-react"
 import { db } from "@/lib/firebase"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import {
   collection,
   getDocs,
@@ -481,13 +482,22 @@ export default function MigrateFollowerCompaniesPage() {
           }
 
           // Update follower with user's company_id
-          batch.update(doc(db, "followers", followerId), {
+          const updateData = {
             company_id: user.company_id,
             migration_source: "follower_seller_migration_v3",
             migration_timestamp: new Date(),
             migration_seller_id: followerData.seller_id,
             migration_batch: currentBatchNumber,
             migration_document_index: documentIndex,
+          }
+          batch.update(doc(db, "followers", followerId), updateData)
+          addAuditEventToBatch(batch, {
+            collection: "followers",
+            entityId: followerId,
+            action: "migration",
+            before: followerData,
+            after: updateData,
+            metadata: { migration: updateData.migration_source, batchNumber: currentBatchNumber },
           })
 
           batchUpdates++
@@ -0,0 +1,188 @@
+"use client"
+
+import { useState } from "react"
+import { MigrationLayout } from "@/components/migration-layout"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, CheckCircle, Link2, Loader2, Search } from "lucide-react"
+import { authorizedFetch } from "@/lib/api-client"
+import type { LicenseCompanyLinkResult } from "@/lib/project-service"
+
+export default function MigrateLicenseCompaniesPage() {
+  const [scan, setScan] = useState<LicenseCompanyLinkResult | null>(null)
+  const [migration, setMigration] = useState<LicenseCompanyLinkResult | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [isLinking, setIsLinking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleScan = async () => {
+    setIsScanning(true)
+    setError(null)
+    setMigration(null)
+
+    try {
+      const response = await authorizedFetch("/api/projects/company-links")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to scan licenses")
+      }
+
+      setScan(data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const handleLink = async () => {
+    if (!scan || !confirm(`Link ${scan.linked.length} licenses to their companies?`)) {
+      return
+    }
+
+    setIsLinking(true)
+    setError(null)
+
+    try {
+      const response = await authorizedFetch("/api/projects/company-links", { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to link licenses")
+      }
+
+      setMigration(data)
+      setScan(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      setIsLinking(false)
+    }
+  }
+
+  // Ambiguous and unmatched licenses stay unlinked after the migration too, so keep showing them
+  const report = migration || scan
+
+  return (
+    <MigrationLayout showProgressTracker={false}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold flex items-center justify-center gap-2">
+            <Link2 className="h-8 w-8" />
+            License Company Links
+          </h1>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Older licenses only record the company by name, which breaks when a company is renamed or two companies share
+            a name. This migration sets company_id on each license, matched by its license key&apos;s subscription or,
+            failing that, by a unique company name.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5" />
+              Migration Controls
+            </CardTitle>
+            <CardDescription>
+              Scan first to review the matches. Ambiguous and unmatched licenses are never changed; fix their company name
+              and scan again. Every change is recorded in the audit log.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Button onClick={handleScan} disabled={isScanning || isLinking} variant="outline">
+                {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                Scan Licenses
+              </Button>
+              <Button onClick={handleLink} disabled={!scan || scan.linked.length === 0 || isScanning || isLinking}>
+                {isLinking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+                Link Licenses
+              </Button>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {scan && (
+              <Alert>
+                <Search className="h-4 w-4" />
+                <AlertDescription>
+                  Scanned {scan.scanned} licenses: {scan.alreadyLinked} already linked, {scan.linked.length} can be
+                  linked, {scan.ambiguous.length} ambiguous, {scan.unmatched.length} without a matching company.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {migration && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Linked {migration.linked.length} of {migration.scanned} licenses to their companies.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {scan && scan.linked.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Matches</h3>
+                <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto">
+                  <div className="space-y-1 font-mono text-sm">
+                    {scan.linked.map((link) => (
+                      <div key={link.id} className="text-gray-700">
+                        <span className="text-gray-500">{link.id}</span> {link.company_name || "(no name)"} →{" "}
+                        {link.companyId}{" "}
+                        <Badge variant="outline" className="ml-1">
+                          {link.matchedBy === "license_key" ? "license key" : "name"}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {report && report.ambiguous.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-amber-700">Ambiguous ({report.ambiguous.length})</h3>
+                <div className="bg-amber-50 rounded-lg p-4 max-h-64 overflow-y-auto">
+                  <div className="space-y-2 font-mono text-sm">
+                    {report.ambiguous.map((license) => (
+                      <div key={license.id} className="text-gray-700">
+                        <span className="text-gray-500">{license.id}</span> {license.company_name} matches{" "}
+                        {license.candidates.map((candidate) => candidate.id).join(", ")}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {report && report.unmatched.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-gray-700">No matching company ({report.unmatched.length})</h3>
+                <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto">
+                  <div className="space-y-1 font-mono text-sm">
+                    {report.unmatched.map((license) => (
+                      <div key={license.id} className="text-gray-700">
+                        <span className="text-gray-500">{license.id}</span> {license.company_name || "(no name)"}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MigrationLayout>
+  )
+}
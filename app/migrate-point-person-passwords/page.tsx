@@ -0,0 +1,148 @@
+"use client"
+
+import { useState } from "react"
+import { MigrationLayout } from "@/components/migration-layout"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, CheckCircle, KeyRound, Loader2, Search, ShieldCheck } from "lucide-react"
+import { authorizedFetch } from "@/lib/api-client"
+import type { PasswordCleanupResult } from "@/lib/point-person-service"
+
+export default function MigratePointPersonPasswordsPage() {
+  const [scan, setScan] = useState<PasswordCleanupResult | null>(null)
+  const [cleanup, setCleanup] = useState<PasswordCleanupResult | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [isCleaning, setIsCleaning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleScan = async () => {
+    setIsScanning(true)
+    setError(null)
+    setCleanup(null)
+
+    try {
+      const response = await authorizedFetch("/api/clients/point-person-passwords")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to scan companies")
+      }
+
+      setScan(data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const handleCleanup = async () => {
+    if (!scan || !confirm(`Remove the stored point person password from ${scan.companies.length} companies?`)) {
+      return
+    }
+
+    setIsCleaning(true)
+    setError(null)
+
+    try {
+      const response = await authorizedFetch("/api/clients/point-person-passwords", { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove stored passwords")
+      }
+
+      setCleanup(data)
+      setScan(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      setIsCleaning(false)
+    }
+  }
+
+  return (
+    <MigrationLayout showProgressTracker={false}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold flex items-center justify-center gap-2">
+            <KeyRound className="h-8 w-8" />
+            Point Person Password Cleanup
+          </h1>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Older client records stored the point person&apos;s password on the company document. This one-time cleanup
+            removes those passwords; point person sign-in is handled by their Firebase Auth account.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Cleanup Controls
+            </CardTitle>
+            <CardDescription>
+              Scan first to see which companies are affected, then remove the passwords. Every change is recorded in the
+              audit log.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Button onClick={handleScan} disabled={isScanning || isCleaning} variant="outline">
+                {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                Scan Companies
+              </Button>
+              <Button
+                onClick={handleCleanup}
+                disabled={!scan || scan.companies.length === 0 || isScanning || isCleaning}
+                variant="destructive"
+              >
+                {isCleaning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Remove Stored Passwords
+              </Button>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {scan && (
+              <Alert>
+                <Search className="h-4 w-4" />
+                <AlertDescription>
+                  Scanned {scan.scanned} companies. {scan.companies.length} still store a point person password.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {cleanup && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Removed the stored password from {cleanup.cleaned} of {cleanup.scanned} companies.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {scan && scan.companies.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto">
+                <div className="space-y-1 font-mono text-sm">
+                  {scan.companies.map((company) => (
+                    <div key={company.id} className="text-gray-700">
+                      <span className="text-gray-500">{company.id}</span> {company.name}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MigrationLayout>
+  )
+}
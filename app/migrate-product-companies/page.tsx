@@ -3,6 +3,7 @@
 import { useState, useRef } from "react"
 import { collection, query, where, getDocs, doc, writeBatch, limit, startAfter, orderBy } from "firebase/firestore"
 import { db } from "@/lib/firebase"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -536,6 +537,14 @@ export default function MigrateProductCompaniesPage() {
             }
 
             batch.update(productRef, updateData)
+            addAuditEventToBatch(batch, {
+              collection: "products",
+              entityId: product.id,
+              action: "migration",
+              before: product,
+              after: updateData,
+              metadata: { migration: updateData.migration_source, batchNumber },
+            })
             sellerUpdates++
           }
 
@@ -19,6 +19,7 @@ import {
   Clock,
 } from "lucide-react"
 import { db } from "@/lib/firebase"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import {
   collection,
   getDocs,
@@ -481,13 +482,22 @@ export default function MigrateQuotationCompaniesPage() {
           }
 
           // Update quotation with user's company_id
-          batch.update(doc(db, "quotation_request", quotationId), {
+          const updateData = {
             company_id: user.company_id,
             migration_source: "quotation_seller_migration_v1",
             migration_timestamp: new Date(),
             migration_seller_id: quotationData.seller_id,
             migration_batch: currentBatchNumber,
             migration_document_index: documentIndex,
+          }
+          batch.update(doc(db, "quotation_request", quotationId), updateData)
+          addAuditEventToBatch(batch, {
+            collection: "quotation_request",
+            entityId: quotationId,
+            action: "migration",
+            before: quotationData,
+            after: updateData,
+            metadata: { migration: updateData.migration_source, batchNumber: currentBatchNumber },
           })
 
           batchUpdates++
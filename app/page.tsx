@@ -27,9 +27,6 @@ export default function LandingPage() {
             <Button asChild variant="outline" className="bg-[#23295A] text-[#FFFFFF] hover:bg-[#23295A]/90">
               <Link href="/login">Login</Link>
             </Button>
-            <Button asChild className="bg-[#CCCCCC] text-[#23295A] hover:bg-[#CCCCCC]/90">
-              <Link href="/register">Register</Link>
-            </Button>
           </div>
         </div>
       </header>
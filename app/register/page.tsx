@@ -5,14 +5,14 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import Image from "next/image"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
-import { ChevronLeft, ChevronRight, AlertCircle, Loader2, WifiOff } from "lucide-react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ChevronLeft, ChevronRight, AlertCircle, Loader2, WifiOff, MailCheck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { registerUser, checkFirestoreConnection } from "@/lib/auth"
+import { registerUser, checkFirestoreConnection, validateInvitation, type InvitationDetails } from "@/lib/auth"
 import { useNetworkStatus } from "@/lib/network-status"
 import { PhoneInput } from "@/components/phone-input"
 import { getMaxLengthForCountry } from "@/lib/country-codes"
@@ -40,6 +40,13 @@ export default function RegisterPage() {
   const [isFirestoreConnected, setIsFirestoreConnected] = useState(true)
   const isNetworkOnline = useNetworkStatus()
   const router = useRouter()
+  const searchParams = useSearchParams()
+
+  // Registration is invite-only; the token comes from the invite link
+  const inviteToken = searchParams.get("invite") || ""
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [inviteError, setInviteError] = useState("")
+  const [isCheckingInvite, setIsCheckingInvite] = useState(true)
 
   // Update the formData state to include countryCode
   const [formData, setFormData] = useState({
@@ -99,6 +106,30 @@ export default function RegisterPage() {
     // as we check that inside the effect
   }, [])
 
+  // Validate the invite link and lock the email to the invited address
+  useEffect(() => {
+    const checkInvitation = async () => {
+      if (!inviteToken) {
+        setInviteError("Registration is by invitation only. Ask an administrator to send you an invite link.")
+        setIsCheckingInvite(false)
+        return
+      }
+
+      try {
+        const details = await validateInvitation(inviteToken)
+        setInvitation(details)
+        setFormData((prev) => ({ ...prev, email: details.email }))
+      } catch (error: any) {
+        console.error("Error validating invitation:", error)
+        setInviteError(error.message || "This invitation link is invalid")
+      } finally {
+        setIsCheckingInvite(false)
+      }
+    }
+
+    checkInvitation()
+  }, [inviteToken])
+
   // Add a separate effect to update connection status when network status changes
   useEffect(() => {
     if (!isNetworkOnline) {
@@ -268,6 +299,7 @@ export default function RegisterPage() {
         email: formData.email,
         password: formData.password,
         displayName: displayName,
+        inviteToken,
       })
 
       console.log("Registration successful")
@@ -333,6 +365,12 @@ export default function RegisterPage() {
             <p className="text-sm text-muted-foreground">
               {step === 1 ? "Enter your personal information" : "Set up your account credentials"}
             </p>
+            {invitation && (
+              <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                <MailCheck className="h-3 w-3" />
+                Invited as {invitation.role.toLowerCase()} &middot; {invitation.email}
+              </p>
+            )}
           </div>
 
           {/* Network Status Alert */}
@@ -382,7 +420,24 @@ export default function RegisterPage() {
             </Alert>
           )}
 
-          {step === 1 ? (
+          {isCheckingInvite ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !invitation ? (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{inviteError}</AlertDescription>
+              </Alert>
+              <p className="text-center text-sm text-muted-foreground">
+                Already have an account?{" "}
+                <Link href="/login" className="font-medium text-[#1A237E] hover:underline">
+                  Login
+                </Link>
+              </p>
+            </div>
+          ) : step === 1 ? (
             <form onSubmit={handleContinue} className="space-y-4">
               <div className="space-y-4">
                 <div>
@@ -496,8 +551,8 @@ export default function RegisterPage() {
                     type="email"
                     placeholder="Email Address *"
                     value={formData.email}
-                    onChange={handleChange}
-                    className={errors.email ? "border-red-500" : ""}
+                    readOnly
+                    className={errors.email ? "border-red-500 bg-muted" : "bg-muted"}
                     disabled={!isNetworkOnline || !isFirestoreConnected || isLoading}
                   />
                   {errors.email && <p className="mt-1 text-xs text-red-500">{errors.email}</p>}
@@ -0,0 +1,267 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import { format } from "date-fns"
+import { ChevronDown, ChevronRight, Download, Loader2, RefreshCw, Search } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { auditEntriesToCsv, formatAuditValue, getAuditLogEntries } from "@/lib/audit-log"
+import type { AuditAction, AuditLogEntry, AuditLogFilters } from "@/types/audit-log"
+
+const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  bulk_update: "secondary",
+  migration: "outline",
+  restore: "outline",
+  soft_delete: "destructive",
+  delete: "destructive",
+}
+
+interface FilterForm {
+  actorEmail: string
+  collection: string
+  entityId: string
+  startDate: string
+  endDate: string
+}
+
+const EMPTY_FILTERS: FilterForm = { actorEmail: "", collection: "", entityId: "", startDate: "", endDate: "" }
+
+function toQueryFilters(form: FilterForm): AuditLogFilters {
+  return {
+    actorEmail: form.actorEmail.trim() || undefined,
+    collection: form.collection.trim() || undefined,
+    entityId: form.entityId.trim() || undefined,
+    startDate: form.startDate ? new Date(`${form.startDate}T00:00:00`) : undefined,
+    endDate: form.endDate ? new Date(`${form.endDate}T23:59:59.999`) : undefined,
+  }
+}
+
+export function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [filters, setFilters] = useState<FilterForm>(EMPTY_FILTERS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+
+  const loadEntries = async (form: FilterForm = filters) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      setEntries(await getAuditLogEntries(toQueryFilters(form)))
+    } catch (error: any) {
+      console.error("Error loading audit log:", error)
+      setError(error.message || "Failed to load audit log")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries(EMPTY_FILTERS)
+  }, [])
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadEntries()
+  }
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS)
+    loadEntries(EMPTY_FILTERS)
+  }
+
+  const exportEntries = () => {
+    const blob = new Blob([auditEntriesToCsv(entries)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `audit-log-${new Date().toISOString().split("T")[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">Every administrative change, who made it and what it changed</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => loadEntries()} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={exportEntries} disabled={entries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Narrow the log by user, collection, entity or date range</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSearch} className="grid grid-cols-1 gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">User email</Label>
+              <Input
+                id="audit-actor"
+                placeholder="admin@example.com"
+                value={filters.actorEmail}
+                onChange={(e) => setFilters({ ...filters, actorEmail: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-collection">Collection</Label>
+              <Input
+                id="audit-collection"
+                placeholder="companies"
+                value={filters.collection}
+                onChange={(e) => setFilters({ ...filters, collection: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity">Entity ID</Label>
+              <Input
+                id="audit-entity"
+                placeholder="Document ID"
+                value={filters.entityId}
+                onChange={(e) => setFilters({ ...filters, entityId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-start">From</Label>
+              <Input
+                id="audit-start"
+                type="date"
+                value={filters.startDate}
+                onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-end">To</Label>
+              <Input
+                id="audit-end"
+                type="date"
+                value={filters.endDate}
+                onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2 md:col-span-5">
+              <Button type="submit" disabled={loading}>
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+              <Button type="button" variant="ghost" onClick={handleReset} disabled={loading}>
+                Reset
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex h-48 items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">No audit entries match these filters</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead className="text-right">Fields changed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const expanded = expandedIds.has(entry.id)
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleExpanded(entry.id)}>
+                        <TableCell>
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{format(entry.timestamp, "MMM d, yyyy HH:mm:ss")}</TableCell>
+                        <TableCell>{entry.actor_email || entry.actor_uid}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[entry.action] || "outline"}>{entry.action.replace("_", " ")}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{entry.entity_path}</TableCell>
+                        <TableCell className="text-right">{entry.changes.length}</TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={5} className="bg-muted/40">
+                            {entry.changes.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No field changes recorded</p>
+                            ) : (
+                              <div className="space-y-2">
+                                {entry.changes.map((change) => (
+                                  <div key={change.field} className="grid grid-cols-1 gap-2 text-sm md:grid-cols-3">
+                                    <span className="font-medium">{change.field}</span>
+                                    <span className="break-all text-red-700 line-through">
+                                      {formatAuditValue(change.before) || "—"}
+                                    </span>
+                                    <span className="break-all text-green-700">{formatAuditValue(change.after) || "—"}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            {entry.metadata && Object.keys(entry.metadata).length > 0 && (
+                              <p className="mt-3 font-mono text-xs text-muted-foreground">
+                                {JSON.stringify(entry.metadata)}
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
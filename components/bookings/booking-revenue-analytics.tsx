@@ -0,0 +1,313 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format, startOfMonth, startOfYear, subDays, subMonths } from "date-fns"
+import { ArrowLeft, Download, Loader2, RefreshCw } from "lucide-react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { authorizedFetch } from "@/lib/api-client"
+import { bookingAnalyticsToCsv } from "@/lib/booking-analytics"
+import type { BookingAnalytics, RevenueBucket } from "@/types/booking-analytics"
+
+// Bars shown per breakdown chart; the CSV export has them all
+const CHART_BUCKETS = 8
+
+const DATE_FORMAT = "yyyy-MM-dd"
+
+const PRESETS: { label: string; from: () => Date }[] = [
+  { label: "Last 30 days", from: () => subDays(new Date(), 30) },
+  { label: "Last 12 months", from: () => startOfMonth(subMonths(new Date(), 11)) },
+  { label: "This year", from: () => startOfYear(new Date()) },
+]
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatCompactCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 })}`
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+function BreakdownChart({ title, buckets }: { title: string; buckets: RevenueBucket[] }) {
+  const data = buckets.slice(0, CHART_BUCKETS)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bookings in this range</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={data.length * 36 + 40}>
+            <BarChart data={data} layout="vertical" margin={{ left: 16, right: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" tickFormatter={formatCompactCurrency} />
+              <YAxis type="category" dataKey="label" width={140} tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+              <Bar dataKey="revenue" name="Revenue" fill="#2563eb" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function BookingRevenueAnalytics() {
+  const [from, setFrom] = useState(format(PRESETS[1].from(), DATE_FORMAT))
+  const [to, setTo] = useState(format(new Date(), DATE_FORMAT))
+  const [analytics, setAnalytics] = useState<BookingAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAnalytics = async (rangeFrom = from, rangeTo = to) => {
+    try {
+      setLoading(true)
+      setError(null)
+      // Whole days in local time, from the start of the first to the end of the last
+      const params = new URLSearchParams({
+        from: new Date(`${rangeFrom}T00:00:00`).toISOString(),
+        to: new Date(`${rangeTo}T23:59:59.999`).toISOString(),
+      })
+      const response = await authorizedFetch(`/api/bookings/analytics?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load booking analytics")
+      }
+      setAnalytics({ ...data, from: new Date(data.from), to: new Date(data.to) })
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [])
+
+  const applyPreset = (preset: (typeof PRESETS)[number]) => {
+    const presetFrom = format(preset.from(), DATE_FORMAT)
+    const presetTo = format(new Date(), DATE_FORMAT)
+    setFrom(presetFrom)
+    setTo(presetTo)
+    loadAnalytics(presetFrom, presetTo)
+  }
+
+  const exportCsv = () => {
+    if (!analytics) return
+    const blob = new Blob([bookingAnalyticsToCsv(analytics)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `booking-analytics-${from}-to-${to}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const totals = analytics?.totals
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Booking Analytics</h1>
+          <p className="text-muted-foreground">Revenue and booking outcomes for bookings made in a date range</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={exportCsv} disabled={!analytics || loading}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Link href="/dashboard/admin/booking">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Bookings
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {PRESETS.map((preset) => (
+              <Button key={preset.label} variant="outline" size="sm" onClick={() => applyPreset(preset)}>
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="analytics-from">From</Label>
+              <Input id="analytics-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-to">To</Label>
+              <Input id="analytics-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Button onClick={() => loadAnalytics()} disabled={loading || !from || !to || from > to}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Apply
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {analytics?.truncated && (
+        <Alert>
+          <AlertDescription>
+            Only the first {totals?.bookings.toLocaleString()} bookings in this range are included. Narrow the range
+            for complete figures.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {analytics && totals && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Revenue</CardDescription>
+                <CardTitle className="text-2xl">{formatCurrency(totals.revenue)}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(totals.refunded)} refunded · {formatCurrency(totals.averageBookingValue)} average
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Bookings</CardDescription>
+                <CardTitle className="text-2xl">{totals.bookings.toLocaleString()}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">
+                  {format(analytics.from, "MMM d, yyyy")} - {format(analytics.to, "MMM d, yyyy")}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Completion rate</CardDescription>
+                <CardTitle className="text-2xl text-green-600">{formatPercent(totals.completionRate)}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">{totals.completed.toLocaleString()} completed</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Cancellation rate</CardDescription>
+                <CardTitle className="text-2xl text-red-600">{formatPercent(totals.cancellationRate)}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">{totals.cancelled.toLocaleString()} cancelled</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Revenue by Month</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={analytics.byMonth}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={formatCompactCurrency} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Bar dataKey="revenue" name="Revenue" fill="#2563eb" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Bookings by Month</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={analytics.byMonth}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="bookings" name="Bookings" stroke="#2563eb" strokeWidth={2} />
+                  <Line type="monotone" dataKey="completed" name="Completed" stroke="#16a34a" strokeWidth={2} />
+                  <Line type="monotone" dataKey="cancelled" name="Cancelled" stroke="#dc2626" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <BreakdownChart title="Revenue by Type" buckets={analytics.byType} />
+            <BreakdownChart title="Revenue by Payment Method" buckets={analytics.byPaymentMethod} />
+            <BreakdownChart title="Revenue by Seller" buckets={analytics.bySeller} />
+            <BreakdownChart title="Revenue by Company" buckets={analytics.byCompany} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Top Sites</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.topSites.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No bookings in this range</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Site</TableHead>
+                      <TableHead className="text-right">Bookings</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.topSites.map((site) => (
+                      <TableRow key={site.key}>
+                        <TableCell className="font-medium">{site.label}</TableCell>
+                        <TableCell className="text-right">{site.bookings.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(site.revenue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
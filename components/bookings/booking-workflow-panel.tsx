@@ -0,0 +1,400 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, ArrowRight, History, Loader2, Undo2, Workflow } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuth } from "@/contexts/auth-context"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import {
+  BOOKING_TRANSITIONS,
+  MAX_CANCEL_REASON_LENGTH,
+  REFUNDABLE_STATUSES,
+  REFUND_METHODS,
+  getBookingStatus,
+} from "@/lib/booking-workflow"
+import type { Booking, BookingRefund, BookingStatus, BookingStatusChange, RefundMethod } from "@/types/booking"
+
+// Status change and refund as returned by the API, with dates serialized
+type StatusChangeRow = Omit<BookingStatusChange, "created_at"> & { created_at: string }
+type RefundRow = Omit<BookingRefund, "created_at"> & { created_at: string }
+
+interface BookingWorkflowPanelProps {
+  booking: Booking
+  onBookingChange: (changes: Partial<Booking>) => void
+}
+
+const TRANSITION_LABELS: Record<BookingStatus, string> = {
+  PENDING: "Back to Pending",
+  CONFIRMED: "Confirm",
+  "FOR CONTRACT": "For Contract",
+  PROCESSING: "Start Processing",
+  COMPLETED: "Complete",
+  CANCELLED: "Cancel Booking",
+}
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDateTime = (date: string) => format(new Date(date), "MMM d, yyyy h:mm a")
+
+export function BookingWorkflowPanel({ booking, onBookingChange }: BookingWorkflowPanelProps) {
+  const { can } = useAuth()
+  const { toast } = useToast()
+  const canManage = can("bookings:manage")
+  const canRefund = can("bookings:refund")
+
+  const [history, setHistory] = useState<StatusChangeRow[]>([])
+  const [refunds, setRefunds] = useState<RefundRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [cancelling, setCancelling] = useState(false)
+  const [reason, setReason] = useState("")
+  const [refundAmount, setRefundAmount] = useState("")
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>("bank_transfer")
+  const [refundReference, setRefundReference] = useState("")
+  const [refundNote, setRefundNote] = useState("")
+  const [saving, setSaving] = useState<"status" | "refund" | null>(null)
+
+  const fetchActivity = async () => {
+    try {
+      setLoading(true)
+      const response = await authorizedFetch(`/api/bookings/${booking.id}/activity`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the booking history")
+      }
+      setHistory(data.history)
+      setRefunds(data.refunds)
+    } catch (error) {
+      console.error("Error fetching booking activity:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setCancelling(false)
+    setReason("")
+    setRefundAmount("")
+    setRefundReference("")
+    setRefundNote("")
+    fetchActivity()
+  }, [booking.id])
+
+  const changeStatus = async (to: BookingStatus) => {
+    try {
+      setSaving("status")
+      const response = await authorizedFetch(`/api/bookings/${booking.id}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: to, reason: to === "CANCELLED" ? reason : null }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to change the status")
+      }
+
+      const conflicts = data.booking.conflicts
+      onBookingChange({
+        status: data.booking.status,
+        cancel_reason: data.booking.cancel_reason,
+        ...(conflicts && { conflicts }),
+      })
+      setCancelling(false)
+      setReason("")
+      fetchActivity()
+      if (conflicts?.length) {
+        toast({
+          title: "Booking confirmed with conflicts",
+          description: `The site is also held by ${conflicts.length} other booking(s) or request(s) over this period.`,
+          variant: "error",
+        })
+      } else {
+        toast({ title: "Status updated", description: `The booking is now ${to.toLowerCase()}.` })
+      }
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const recordRefund = async () => {
+    try {
+      setSaving("refund")
+      const response = await authorizedFetch(`/api/bookings/${booking.id}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: Number(refundAmount),
+          method: refundMethod,
+          reference: refundReference,
+          note: refundNote,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to record the refund")
+      }
+
+      onBookingChange({ refunded_amount: data.refunded_amount })
+      setRefunds((current) => [data.refund, ...current])
+      setRefundAmount("")
+      setRefundReference("")
+      setRefundNote("")
+      toast({ title: "Refund recorded", description: `${formatCurrency(data.refund.amount)} has been recorded.` })
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const status = getBookingStatus(booking.status)
+  const transitions = BOOKING_TRANSITIONS[status]
+  const totalCost = booking.total_cost || 0
+  const refunded = booking.refunded_amount || 0
+  const refundable = Math.max(0, Math.round((totalCost - refunded) * 100) / 100)
+  const canRecordRefund = canRefund && REFUNDABLE_STATUSES.includes(status) && refundable > 0
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Status
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Current:</span>
+            <Badge variant="outline">{booking.status || "PENDING"}</Badge>
+          </div>
+
+          {status !== "CANCELLED" && !!booking.conflicts?.length && (
+            <div className="p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm">
+              <p className="flex items-center gap-2 font-medium text-amber-800">
+                <AlertTriangle className="h-4 w-4" />
+                Double-booked site
+              </p>
+              <p className="text-amber-700">
+                When last checked, the site was also held over this period by{" "}
+                {booking.conflicts
+                  .map((conflict) => `${conflict.source === "booking" ? "booking" : "request"} ${conflict.id}`)
+                  .join(", ")}
+                .
+              </p>
+            </div>
+          )}
+
+          {status === "CANCELLED" && booking.cancel_reason && (
+            <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+              <p className="text-sm font-medium text-red-800">Cancellation reason</p>
+              <p className="text-sm text-red-700 whitespace-pre-wrap">{booking.cancel_reason}</p>
+            </div>
+          )}
+
+          {!canManage ? (
+            <p className="text-sm text-muted-foreground">You don't have permission to change this booking.</p>
+          ) : transitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {status === "CANCELLED" ? "Cancelled" : "Completed"} bookings can no longer change status.
+            </p>
+          ) : cancelling ? (
+            <div className="space-y-2">
+              <Label htmlFor="cancel-reason">Reason for cancelling</Label>
+              <Textarea
+                id="cancel-reason"
+                value={reason}
+                maxLength={MAX_CANCEL_REASON_LENGTH}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setCancelling(false)} disabled={saving === "status"}>
+                  Keep Booking
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => changeStatus("CANCELLED")}
+                  disabled={!reason.trim() || saving === "status"}
+                >
+                  {saving === "status" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Cancel Booking
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {transitions.map((to) => (
+                <Button
+                  key={to}
+                  variant={to === "CANCELLED" ? "destructive" : "default"}
+                  onClick={() => (to === "CANCELLED" ? setCancelling(true) : changeStatus(to))}
+                  disabled={saving === "status"}
+                >
+                  {saving === "status" && to !== "CANCELLED" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {TRANSITION_LABELS[to]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Refunds
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Total cost</p>
+              <p className="font-semibold">{formatCurrency(totalCost)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Refunded</p>
+              <p className="font-semibold">{formatCurrency(refunded)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Refundable</p>
+              <p className="font-semibold">{formatCurrency(refundable)}</p>
+            </div>
+          </div>
+
+          {canRecordRefund && (
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="refund-amount">Amount (PHP)</Label>
+                  <Input
+                    id="refund-amount"
+                    type="number"
+                    min="0"
+                    max={refundable}
+                    step="0.01"
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Method</Label>
+                  <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as RefundMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REFUND_METHODS.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="refund-reference">Reference</Label>
+                  <Input
+                    id="refund-reference"
+                    value={refundReference}
+                    maxLength={100}
+                    placeholder="e.g. bank or GCash reference number"
+                    onChange={(e) => setRefundReference(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="refund-note">Note</Label>
+                  <Input
+                    id="refund-note"
+                    value={refundNote}
+                    maxLength={500}
+                    onChange={(e) => setRefundNote(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={recordRefund}
+                  disabled={
+                    saving === "refund" ||
+                    !(Number(refundAmount) > 0) ||
+                    Number(refundAmount) > refundable
+                  }
+                >
+                  {saving === "refund" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record Refund
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {refunds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No refunds have been recorded</p>
+          ) : (
+            <div className="space-y-2">
+              {refunds.map((refund) => (
+                <div key={refund.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {REFUND_METHODS.find((method) => method.value === refund.method)?.label || refund.method}
+                      {refund.reference && ` · ${refund.reference}`}
+                    </p>
+                    {refund.note && <p className="text-muted-foreground">{refund.note}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDateTime(refund.created_at)} by {refund.actor_email || refund.actor_uid}
+                    </p>
+                  </div>
+                  <span className="font-semibold">{formatCurrency(refund.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Status History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex h-16 items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The status hasn't been changed since the booking was made</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map((change) => (
+                <div key={change.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{change.from || "-"}</Badge>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <Badge variant="outline">{change.to}</Badge>
+                  </div>
+                  {change.reason && <p className="mt-1 whitespace-pre-wrap">Reason: {change.reason}</p>}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDateTime(change.created_at)} by {change.actor_email || change.actor_uid}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
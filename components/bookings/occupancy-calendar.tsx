@@ -0,0 +1,176 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { AlertTriangle, ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { authorizedFetch } from "@/lib/api-client"
+import type { OccupancyEntry } from "@/types/booking"
+
+// Entry as returned by the API, with dates parsed back
+type OccupancyRow = Omit<OccupancyEntry, "start_date" | "end_date"> & { start_date: Date; end_date: Date }
+
+interface OccupancyCalendarProps {
+  productId: string
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const entryKey = (entry: OccupancyRow) => `${entry.source}-${entry.id}`
+
+// Entries holding the site at any time on the day
+const entriesOn = (day: Date, entries: OccupancyRow[]) =>
+  entries.filter((entry) => entry.start_date <= endOfDay(day) && entry.end_date >= startOfDay(day))
+
+export function OccupancyCalendar({ productId }: OccupancyCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [entries, setEntries] = useState<OccupancyRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchOccupancy = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const params = new URLSearchParams({
+          from: month.toISOString(),
+          to: endOfMonth(month).toISOString(),
+        })
+        const response = await authorizedFetch(`/api/products/${productId}/occupancy?${params}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load the occupancy")
+        }
+        setEntries(
+          data.occupancy.map((entry: OccupancyRow) => ({
+            ...entry,
+            start_date: new Date(entry.start_date),
+            end_date: new Date(entry.end_date),
+          })),
+        )
+      } catch (error: any) {
+        setError(error.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchOccupancy()
+  }, [productId, month])
+
+  const days = eachDayOfInterval({ start: startOfWeek(month), end: endOfWeek(endOfMonth(month)) })
+  // Entries sharing at least one day with another entry
+  const conflicting = new Set(
+    days.flatMap((day) => {
+      const occupants = entriesOn(day, entries)
+      return isSameMonth(day, month) && occupants.length > 1 ? occupants.map(entryKey) : []
+    }),
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="icon" onClick={() => setMonth((current) => addMonths(current, -1))}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex items-center gap-2 font-medium">
+          {format(month, "MMMM yyyy")}
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <Button variant="outline" size="icon" onClick={() => setMonth((current) => addMonths(current, 1))}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="py-1 font-medium text-muted-foreground">
+            {weekday}
+          </div>
+        ))}
+        {days.map((day) => {
+          const occupants = isSameMonth(day, month) ? entriesOn(day, entries) : []
+          return (
+            <div
+              key={day.toISOString()}
+              title={occupants.map((entry) => entry.customer || entry.id).join(", ")}
+              className={`rounded p-2 ${
+                !isSameMonth(day, month)
+                  ? "text-muted-foreground/40"
+                  : occupants.length > 1
+                    ? "bg-red-100 text-red-800 font-semibold"
+                    : occupants.length === 1
+                      ? occupants[0].source === "booking"
+                        ? "bg-blue-100 text-blue-800"
+                        : "bg-amber-100 text-amber-800"
+                      : "bg-gray-50"
+              }`}
+            >
+              {format(day, "d")}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded bg-blue-100" /> Booked
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded bg-amber-100" /> Approved request
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded bg-red-100" /> Double-booked
+        </span>
+      </div>
+
+      {!loading && entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The site is free all month</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div
+              key={entryKey(entry)}
+              className={`flex items-center justify-between p-3 rounded-lg text-sm ${
+                conflicting.has(entryKey(entry)) ? "bg-red-50 border border-red-200" : "bg-gray-50"
+              }`}
+            >
+              <div>
+                <p className="font-medium">{entry.customer || entry.id}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(entry.start_date, "MMM d, yyyy")} - {format(entry.end_date, "MMM d, yyyy")}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {conflicting.has(entryKey(entry)) && <AlertTriangle className="h-4 w-4 text-red-600" />}
+                <Badge variant="outline">
+                  {entry.source === "booking" ? entry.status : "Approved request"}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
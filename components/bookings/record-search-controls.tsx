@@ -0,0 +1,204 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { ChevronLeft, ChevronRight, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { hasActiveRecordFilters, type RecordSearchValues } from "@/hooks/use-record-search"
+import type { RecordSearchPagination, SearchableRecordKind } from "@/types/booking-search"
+
+export interface RecordFilterOption {
+  value: string
+  label: string
+}
+
+interface RecordSearchFieldsProps {
+  kind: SearchableRecordKind
+  values: RecordSearchValues
+  onChange: (key: keyof RecordSearchValues, value: string) => void
+  onReset: () => void
+  statusOptions: RecordFilterOption[]
+  typeOptions?: RecordFilterOption[] // Without them there is no type filter
+  children?: ReactNode // The view toggle, shown beside the filters
+}
+
+// Search box and the filters shared by the booking and quotation list pages
+export function RecordSearchFields({
+  kind,
+  values,
+  onChange,
+  onReset,
+  statusOptions,
+  typeOptions,
+  children,
+}: RecordSearchFieldsProps) {
+  const isBookings = kind === "bookings"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={
+              isBookings
+                ? "Search by username, seller, payment method or type..."
+                : "Search by name, company, email or position..."
+            }
+            value={values.search}
+            onChange={(e) => onChange("search", e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Select value={values.status} onValueChange={(value) => onChange("status", value)}>
+            <SelectTrigger className="w-full md:w-[180px]">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              {statusOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {typeOptions && (
+            <Select value={values.type} onValueChange={(value) => onChange("type", value)}>
+              <SelectTrigger className="w-full md:w-[180px]">
+                <SelectValue placeholder="Filter by type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {typeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {children}
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${kind}-username`} className="text-xs text-muted-foreground">
+            {isBookings ? "Username" : "Requester name"}
+          </Label>
+          <Input
+            id={`${kind}-username`}
+            placeholder="Exact match"
+            value={values.username}
+            onChange={(e) => onChange("username", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${kind}-company`} className="text-xs text-muted-foreground">
+            Company ID
+          </Label>
+          <Input
+            id={`${kind}-company`}
+            value={values.companyId}
+            onChange={(e) => onChange("companyId", e.target.value)}
+          />
+        </div>
+        {isBookings && (
+          <div className="space-y-1">
+            <Label htmlFor={`${kind}-seller`} className="text-xs text-muted-foreground">
+              Seller ID
+            </Label>
+            <Input
+              id={`${kind}-seller`}
+              value={values.sellerId}
+              onChange={(e) => onChange("sellerId", e.target.value)}
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor={`${kind}-from`} className="text-xs text-muted-foreground">
+            Created from
+          </Label>
+          <Input
+            id={`${kind}-from`}
+            type="date"
+            value={values.from}
+            max={values.to || undefined}
+            onChange={(e) => onChange("from", e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${kind}-to`} className="text-xs text-muted-foreground">
+            Created to
+          </Label>
+          <Input
+            id={`${kind}-to`}
+            type="date"
+            value={values.to}
+            min={values.from || undefined}
+            onChange={(e) => onChange("to", e.target.value)}
+          />
+        </div>
+        {hasActiveRecordFilters(values) && (
+          <Button variant="ghost" onClick={onReset}>
+            <X className="h-4 w-4 mr-2" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface RecordSearchPagerProps {
+  kind: SearchableRecordKind
+  page: number
+  totalPages: number
+  shown: number // Records on the current page
+  pagination: RecordSearchPagination
+  loading: boolean
+  onPrevious: () => void
+  onNext: () => void
+}
+
+export function RecordSearchPager({
+  kind,
+  page,
+  totalPages,
+  shown,
+  pagination,
+  loading,
+  onPrevious,
+  onNext,
+}: RecordSearchPagerProps) {
+  if (page === 1 && !pagination.hasNextPage) return null
+
+  const first = (page - 1) * pagination.pageSize + 1
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="text-sm text-muted-foreground">
+        Showing {first} to {first + shown - 1} of {pagination.totalCount} {kind}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={onPrevious} disabled={page === 1 || loading}>
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {page} of {totalPages}
+        </span>
+        <Button variant="outline" size="sm" onClick={onNext} disabled={!pagination.hasNextPage || loading}>
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
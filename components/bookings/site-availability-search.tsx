@@ -0,0 +1,187 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { addDays, format } from "date-fns"
+import { ArrowLeft, CalendarRange, Loader2, MapPin, Search } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { authorizedFetch } from "@/lib/api-client"
+import type { OccupancyEntry, SiteAvailability } from "@/types/booking"
+
+// Site as returned by the API, with dates serialized
+type OccupancyRow = Omit<OccupancyEntry, "start_date" | "end_date"> & { start_date: string; end_date: string }
+type SiteRow = Omit<SiteAvailability, "occupancy"> & { occupancy: OccupancyRow[] }
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) => format(new Date(date), "MMM d, yyyy")
+
+const describeEntry = (entry: OccupancyRow) =>
+  entry.source === "booking" ? `${entry.status.toLowerCase()} booking` : "approved request"
+
+export function SiteAvailabilitySearch() {
+  const [from, setFrom] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [to, setTo] = useState(format(addDays(new Date(), 30), "yyyy-MM-dd"))
+  const [sites, setSites] = useState<SiteRow[] | null>(null)
+  const [showOccupied, setShowOccupied] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      // Whole days in local time, from the start of the first to the end of the last
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59.999`).toISOString(),
+      })
+      const response = await authorizedFetch(`/api/bookings/availability?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to search availability")
+      }
+      setSites(data.sites)
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const freeCount = sites?.filter((site) => site.occupancy.length === 0).length ?? 0
+  const visibleSites = sites?.filter((site) => showOccupied || site.occupancy.length === 0) ?? []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Site Availability</h1>
+          <p className="text-muted-foreground">
+            Find rental sites with no bookings or approved quotation requests over a period
+          </p>
+        </div>
+        <Link href="/dashboard/admin/booking">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Bookings
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="availability-from">From</Label>
+              <Input id="availability-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="availability-to">To</Label>
+              <Input
+                id="availability-to"
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <Button onClick={search} disabled={loading || !from || !to || from > to}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Search
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {sites && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>
+                {freeCount} of {sites.length} sites free
+              </CardTitle>
+              <CardDescription>
+                {formatDate(`${from}T00:00:00`)} - {formatDate(`${to}T00:00:00`)}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="show-occupied"
+                checked={showOccupied}
+                onCheckedChange={(checked) => setShowOccupied(checked === true)}
+              />
+              <Label htmlFor="show-occupied">Show occupied sites</Label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {visibleSites.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sites are free over this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Site</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">Monthly Rate</TableHead>
+                    <TableHead>Availability</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleSites.map((site) => (
+                    <TableRow key={site.product_id}>
+                      <TableCell>
+                        <div className="font-medium">{site.name || site.product_id}</div>
+                        {site.site_code && <div className="text-xs text-muted-foreground">{site.site_code}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {site.location ? (
+                          <div className="flex items-center text-sm">
+                            <MapPin className="h-3 w-3 mr-1 text-muted-foreground" />
+                            {site.location}
+                          </div>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(site.price)}</TableCell>
+                      <TableCell>
+                        {site.occupancy.length === 0 ? (
+                          <Badge className="bg-green-100 text-green-800">Free</Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            {site.occupancy.map((entry) => (
+                              <div key={`${entry.source}-${entry.id}`} className="flex items-center text-xs">
+                                <CalendarRange className="h-3 w-3 mr-1 text-muted-foreground" />
+                                {formatDate(entry.start_date)} - {formatDate(entry.end_date)} ·{" "}
+                                {entry.customer || entry.id} ({describeEntry(entry)})
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
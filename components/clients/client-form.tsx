@@ -10,9 +10,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { CheckCircle, Loader2 } from "lucide-react"
 import { SubscriptionPlan, SubscriptionPlanType, BillingCycle } from "@/types/subscription"
 import { auth } from "@/lib/firebase"
+import { authorizedFetch } from "@/lib/api-client"
+import type { PointPersonProvisioning } from "@/lib/point-person-service"
+import { type ClientFieldErrors, hasFieldErrors, validateClientInput } from "@/lib/client-validation"
+import { getPlanLimits, getPlanPrice, UNLIMITED } from "@/lib/subscription-plans"
 
 interface ClientFormData {
   // Company data
@@ -29,7 +34,8 @@ interface ClientFormData {
     first_name: string
     last_name: string
     position: string
-    password: string
+    provisioning: PointPersonProvisioning
+    password: string // Only sent to create the auth account, never stored
   }
   phone: string
   description: string
@@ -39,11 +45,18 @@ interface ClientFormData {
   // Subscription data
   planType: SubscriptionPlanType
   billingCycle: BillingCycle
+  maxProducts: string // Optional override below the plan's limit; empty uses the plan limit
+  maxUsers: string
 
   // Project data
   project_name: string
 }
 
+function formatPlanLimit(limit?: number) {
+  if (limit === undefined) return ""
+  return limit >= UNLIMITED ? "Unlimited" : `Plan limit: ${limit}`
+}
+
 interface ClientFormProps {
   initialData?: Partial<ClientFormData>
   onSubmit?: (data: ClientFormData) => void
@@ -54,6 +67,9 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
   const [loading, setLoading] = useState(false)
   const [subscriptionPlans, setSubscriptionPlans] = useState<SubscriptionPlan[]>([])
   const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<ClientFieldErrors>({})
+  // One key per form session so a retried submit can't create the client twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID())
 
   const [formData, setFormData] = useState<ClientFormData>({
     name: initialData?.name || "",
@@ -69,7 +85,8 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
       first_name: initialData?.point_person?.first_name || "",
       last_name: initialData?.point_person?.last_name || "",
       position: initialData?.point_person?.position || "",
-      password: initialData?.point_person?.password || "",
+      provisioning: initialData?.point_person?.provisioning || "invite",
+      password: "",
     },
     phone: initialData?.phone || "",
     description: initialData?.description || "",
@@ -77,6 +94,8 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
     size: initialData?.size || "",
     planType: initialData?.planType || "trial",
     billingCycle: initialData?.billingCycle || "monthly",
+    maxProducts: initialData?.maxProducts || "",
+    maxUsers: initialData?.maxUsers || "",
     project_name: initialData?.project_name || "",
   })
 
@@ -84,7 +103,7 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
   useEffect(() => {
     const fetchPlans = async () => {
       try {
-        const response = await fetch("/api/subscription-plans")
+        const response = await authorizedFetch("/api/subscription-plans")
         const data = await response.json()
         if (response.ok) {
           setSubscriptionPlans(data.plans)
@@ -118,7 +137,21 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
     }
   }, [formData.name])
 
+  const clearFieldError = (field: string) => {
+    setFieldErrors(prev => {
+      if (!prev[field]) return prev
+      const { [field]: _removed, ...rest } = prev
+      return rest
+    })
+  }
+
+  const planLimits = selectedPlan ? getPlanLimits(selectedPlan) : null
+
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] ? <p className="text-sm text-red-600 mt-1">{fieldErrors[field]}</p> : null
+
   const handleInputChange = (field: string, value: string) => {
+    clearFieldError(field)
     setFormData(prev => ({
       ...prev,
       [field]: value,
@@ -136,6 +169,7 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
   }
 
   const handlePointPersonChange = (field: string, value: string) => {
+    clearFieldError(`point_person.${field}`)
     setFormData(prev => ({
       ...prev,
       point_person: {
@@ -148,40 +182,15 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    // Validation
-    if (!formData.name.trim()) {
-      alert("Company name is required")
-      return
-    }
-
-    if (!formData.point_person.email.trim()) {
-      alert("Point person email is required")
-      return
-    }
-
-    if (!formData.point_person.password.trim()) {
-      alert("Point person password is required")
-      return
-    }
-
-    if (formData.point_person.password.length < 6) {
-      alert("Password must be at least 6 characters long")
-      return
-    }
-
-    if (!selectedPlan) {
-      alert("Please select a subscription plan")
+    // Same validation the API runs, so most problems show up before submitting
+    const errors = validateClientInput(formData, subscriptionPlans)
+    if (hasFieldErrors(errors)) {
+      setFieldErrors(errors)
       return
     }
 
     // Get current authenticated user
-    if (!auth) {
-      alert("Authentication service not available")
-      return
-    }
-
-    const currentUser = auth.currentUser
-    if (!currentUser) {
+    if (!auth?.currentUser) {
       alert("You must be logged in to create a client")
       return
     }
@@ -189,25 +198,35 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
     setLoading(true)
 
     try {
-      const response = await fetch("/api/clients", {
+      const response = await authorizedFetch("/api/clients", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
         },
         body: JSON.stringify({
           ...formData,
-          uid: currentUser.uid,
+          point_person: {
+            ...formData.point_person,
+            password: formData.point_person.provisioning === "password" ? formData.point_person.password : undefined,
+          },
         }),
       })
 
       const data = await response.json()
 
       if (response.ok) {
+        if (data.inviteError) {
+          alert(data.inviteError)
+        }
+
         if (onSubmit) {
           onSubmit(formData)
         } else {
           router.push("/dashboard/admin/clients")
         }
+      } else if (data.fieldErrors) {
+        setFieldErrors(data.fieldErrors)
       } else {
         alert(`Error: ${data.error}`)
       }
@@ -250,8 +269,10 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                   value={formData.name}
                   onChange={(e) => handleInputChange("name", e.target.value)}
                   placeholder="Enter company name"
+                  aria-invalid={!!fieldErrors.name}
                   required
                 />
+                {renderFieldError("name")}
               </div>
               <div>
                 <Label htmlFor="business_type">Business Type</Label>
@@ -282,7 +303,9 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                 value={formData.website}
                 onChange={(e) => handleInputChange("website", e.target.value)}
                 placeholder="https://example.com"
+                aria-invalid={!!fieldErrors.website}
               />
+              {renderFieldError("website")}
             </div>
 
             <div>
@@ -420,8 +443,10 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                   value={formData.point_person.email}
                   onChange={(e) => handlePointPersonChange("email", e.target.value)}
                   placeholder="email@example.com"
+                  aria-invalid={!!fieldErrors["point_person.email"]}
                   required
                 />
+                {renderFieldError("point_person.email")}
               </div>
               <div>
                 <Label htmlFor="position">Position</Label>
@@ -433,18 +458,47 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                 />
               </div>
             </div>
+            <div className="space-y-2">
+              <Label>Account Access</Label>
+              <RadioGroup
+                value={formData.point_person.provisioning}
+                onValueChange={(value) => handlePointPersonChange("provisioning", value)}
+                className="grid grid-cols-1 md:grid-cols-2 gap-2"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="invite" id="provisioning-invite" />
+                  <Label htmlFor="provisioning-invite" className="font-normal">
+                    Email an invite to set their password
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="password" id="provisioning-password" />
+                  <Label htmlFor="provisioning-password" className="font-normal">
+                    Set an initial password
+                  </Label>
+                </div>
+              </RadioGroup>
+              <p className="text-sm text-muted-foreground">
+                An existing client-app account with this email is linked instead of creating a new one.
+              </p>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="password">Password *</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  value={formData.point_person.password}
-                  onChange={(e) => handlePointPersonChange("password", e.target.value)}
-                  placeholder="Enter password"
-                  required
-                />
-              </div>
+              {formData.point_person.provisioning === "password" && (
+                <div>
+                  <Label htmlFor="password">Password *</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={formData.point_person.password}
+                    onChange={(e) => handlePointPersonChange("password", e.target.value)}
+                    placeholder="Enter password"
+                    autoComplete="new-password"
+                    aria-invalid={!!fieldErrors["point_person.password"]}
+                    required
+                  />
+                  {renderFieldError("point_person.password")}
+                </div>
+              )}
               <div>
                 <Label htmlFor="phone">Phone</Label>
                 <Input
@@ -483,6 +537,7 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                     ))}
                   </SelectContent>
                 </Select>
+                {renderFieldError("planType")}
               </div>
               <div>
                 <Label htmlFor="billingCycle">Billing Cycle</Label>
@@ -498,8 +553,39 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                     <SelectItem value="annually">Annually</SelectItem>
                   </SelectContent>
                 </Select>
+                {renderFieldError("billingCycle")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="maxProducts">Product Limit</Label>
+                <Input
+                  id="maxProducts"
+                  type="number"
+                  min={1}
+                  value={formData.maxProducts}
+                  onChange={(e) => handleInputChange("maxProducts", e.target.value)}
+                  placeholder={formatPlanLimit(planLimits?.maxProducts)}
+                  aria-invalid={!!fieldErrors.maxProducts}
+                />
+                {renderFieldError("maxProducts")}
+              </div>
+              <div>
+                <Label htmlFor="maxUsers">User Limit</Label>
+                <Input
+                  id="maxUsers"
+                  type="number"
+                  min={1}
+                  value={formData.maxUsers}
+                  onChange={(e) => handleInputChange("maxUsers", e.target.value)}
+                  placeholder={formatPlanLimit(planLimits?.maxUsers)}
+                  aria-invalid={!!fieldErrors.maxUsers}
+                />
+                {renderFieldError("maxUsers")}
               </div>
             </div>
+            <p className="text-sm text-gray-500">Leave the limits empty to use the plan&apos;s defaults</p>
 
             {selectedPlan && (
               <div className="mt-4 p-4 bg-blue-50 rounded-lg">
@@ -507,10 +593,10 @@ export function ClientForm({ initialData, onSubmit }: ClientFormProps) {
                 <p className="text-blue-700 text-sm mt-1">{selectedPlan.description}</p>
                 <div className="mt-2">
                   <span className="text-2xl font-bold text-blue-900">
-                    ₱{selectedPlan.price}
+                    ₱{getPlanPrice([selectedPlan], selectedPlan.id, formData.billingCycle)}
                   </span>
                   <span className="text-blue-600 text-sm">
-                    /{selectedPlan.billingCycle === "monthly" ? "month" : "year"}
+                    /{formData.billingCycle === "monthly" ? "month" : "year"}
                   </span>
                 </div>
                 <div className="mt-2">
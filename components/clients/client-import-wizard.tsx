@@ -0,0 +1,404 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload, XCircle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { authorizedFetch } from "@/lib/api-client"
+import { parseSpreadsheetFile, toCsv } from "@/lib/spreadsheet"
+import {
+  IMPORT_BATCH_SIZE,
+  MAX_IMPORT_ROWS,
+  buildClientImportTable,
+  buildClientImportTemplate,
+  getColumnLabel,
+  isValidImportRow,
+  type ClientImportRow,
+  type ClientImportRowResult,
+} from "@/lib/client-import"
+import type { SubscriptionPlan } from "@/types/subscription"
+
+type WizardStep = "upload" | "preview" | "importing" | "done"
+
+function downloadCsv(content: string, filename: string) {
+  const blob = new Blob([content], { type: "text/csv" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function formatFieldErrors(fieldErrors: Record<string, string> = {}): string[] {
+  return Object.entries(fieldErrors).map(([field, message]) => `${getColumnLabel(field)}: ${message}`)
+}
+
+// Field errors when the row had any, otherwise the row's error, plus any invite problem
+function getResultDetails(result: ClientImportRowResult): string[] {
+  const fieldErrors = formatFieldErrors(result.fieldErrors)
+  const details = fieldErrors.length > 0 ? fieldErrors : [result.error]
+  return [...details, result.inviteError].filter((detail): detail is string => !!detail)
+}
+
+export function ClientImportWizard() {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([])
+  const [step, setStep] = useState<WizardStep>("upload")
+  const [fileName, setFileName] = useState("")
+  const [rows, setRows] = useState<ClientImportRow[]>([])
+  const [unknownHeaders, setUnknownHeaders] = useState<string[]>([])
+  const [results, setResults] = useState<ClientImportRowResult[]>([])
+  const [importId, setImportId] = useState("")
+  const [parsing, setParsing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const response = await authorizedFetch("/api/subscription-plans")
+        const data = await response.json()
+        if (response.ok) {
+          setPlans(data.plans)
+        }
+      } catch (error) {
+        console.error("Error fetching subscription plans:", error)
+      }
+    }
+
+    fetchPlans()
+  }, [])
+
+  const validRows = rows.filter(isValidImportRow)
+  const invalidRows = rows.filter((row) => !isValidImportRow(row))
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setParsing(true)
+    setError(null)
+    try {
+      const table = buildClientImportTable(await parseSpreadsheetFile(file), plans)
+
+      if (table.missingColumns.length > 0) {
+        throw new Error(`Missing required columns: ${table.missingColumns.join(", ")}`)
+      }
+      if (table.rows.length === 0) {
+        throw new Error("The file has no client rows")
+      }
+      if (table.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`A file can have at most ${MAX_IMPORT_ROWS} clients; split it into smaller files`)
+      }
+
+      setFileName(file.name)
+      setRows(table.rows)
+      setUnknownHeaders(table.unknownHeaders)
+      // New import, new idempotency scope; retries within it never create a row twice
+      setImportId(crypto.randomUUID())
+      setStep("preview")
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to read the file")
+    } finally {
+      setParsing(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setStep("importing")
+    setResults([])
+
+    // Rows that failed validation are reported without being sent
+    const collected: ClientImportRowResult[] = invalidRows.map((row) => ({
+      rowNumber: row.rowNumber,
+      status: "skipped",
+      error: "Invalid row",
+      fieldErrors: row.fieldErrors,
+    }))
+
+    for (let start = 0; start < validRows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = validRows.slice(start, start + IMPORT_BATCH_SIZE)
+      try {
+        const response = await authorizedFetch("/api/clients/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            importId,
+            rows: batch.map((row) => ({ rowNumber: row.rowNumber, input: row.input })),
+          }),
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to import clients")
+        }
+
+        collected.push(...data.results)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to import clients"
+        collected.push(...batch.map((row) => ({ rowNumber: row.rowNumber, status: "failed" as const, error: message })))
+      }
+      setResults([...collected])
+    }
+
+    setResults([...collected].sort((a, b) => a.rowNumber - b.rowNumber))
+    setStep("done")
+  }
+
+  // Only rows that didn't go through are retried; created rows replay from their idempotency keys anyway
+  const handleRetryFailed = () => {
+    const failed = new Set(results.filter((result) => result.status === "failed").map((result) => result.rowNumber))
+    setRows(rows.filter((row) => failed.has(row.rowNumber) || !isValidImportRow(row)))
+    setResults([])
+    setStep("preview")
+  }
+
+  const handleReset = () => {
+    setStep("upload")
+    setRows([])
+    setResults([])
+    setUnknownHeaders([])
+    setFileName("")
+    setError(null)
+  }
+
+  const downloadReport = () => {
+    const rowsByNumber = new Map(rows.map((row) => [row.rowNumber, row]))
+    downloadCsv(
+      toCsv([
+        ["Row", "Company Name", "Point Person Email", "Status", "Company ID", "Errors"],
+        ...results.map((result) => {
+          const row = rowsByNumber.get(result.rowNumber)
+          return [
+            result.rowNumber,
+            row?.input.name,
+            row?.input.point_person.email,
+            result.status,
+            result.companyId,
+            getResultDetails(result).join("; "),
+          ]
+        }),
+      ]),
+      `client-import-${new Date().toISOString().split("T")[0]}.csv`,
+    )
+  }
+
+  const created = results.filter((result) => result.status === "created")
+  const failed = results.filter((result) => result.status === "failed")
+  const skipped = results.filter((result) => result.status === "skipped")
+  const processed = results.filter((result) => result.status !== "skipped").length
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Import Clients</h1>
+          <p className="text-muted-foreground">Create clients in bulk from a CSV or Excel (.xlsx) spreadsheet</p>
+        </div>
+        <Link href="/dashboard/admin/clients">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </Link>
+      </div>
+
+      {step === "upload" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Upload Spreadsheet
+            </CardTitle>
+            <CardDescription>
+              One client per row, with a header row. Company Name, Point Person Email and Plan are required; the plan can
+              be its ID or name and the billing cycle defaults to monthly. Each point person is emailed an invite to set
+              their password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="file"
+                accept=".csv,.xlsx"
+                className="max-w-sm"
+                disabled={parsing || plans.length === 0}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0])
+                  e.target.value = ""
+                }}
+              />
+              <Button variant="outline" onClick={() => downloadCsv(buildClientImportTemplate(), "client-import-template.csv")}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Template
+              </Button>
+              {parsing && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "preview" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview: {fileName}</CardTitle>
+            <CardDescription>
+              {rows.length} rows: {validRows.length} ready to import, {invalidRows.length} with errors. Rows with errors
+              are skipped; fix them in the spreadsheet and import them separately.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {unknownHeaders.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>Ignored columns: {unknownHeaders.join(", ")}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import {validRows.length} Clients
+              </Button>
+              <Button variant="outline" onClick={handleReset}>
+                Choose Another File
+              </Button>
+            </div>
+
+            <div className="max-h-[32rem] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Point Person</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.input.name || "—"}</p>
+                        {row.input.address.city && (
+                          <p className="text-xs text-muted-foreground">
+                            {[row.input.address.city, row.input.address.province].filter(Boolean).join(", ")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{row.input.point_person.email || "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.input.planType || "—"} <span className="text-muted-foreground">({row.input.billingCycle})</span>
+                      </TableCell>
+                      <TableCell>
+                        {isValidImportRow(row) ? (
+                          <Badge variant="secondary">Ready</Badge>
+                        ) : (
+                          <ul className="space-y-1 text-sm text-red-600">
+                            {formatFieldErrors(row.fieldErrors).map((message) => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "importing" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Importing Clients
+            </CardTitle>
+            <CardDescription>
+              {processed} of {validRows.length} processed. Keep this page open until the import finishes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Progress value={validRows.length > 0 ? (processed / validRows.length) * 100 : 0} />
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "done" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              Import Finished
+            </CardTitle>
+            <CardDescription>
+              {created.length} created, {failed.length} failed, {skipped.length} skipped because of errors.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={downloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+              {failed.length > 0 && <Button onClick={handleRetryFailed}>Retry Failed Rows</Button>}
+              <Button variant="outline" onClick={handleReset}>
+                Import Another File
+              </Button>
+            </div>
+
+            {results.some((result) => result.status !== "created" || result.inviteError) && (
+              <div className="max-h-[32rem] overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results
+                      .filter((result) => result.status !== "created" || result.inviteError)
+                      .map((result) => (
+                        <TableRow key={result.rowNumber}>
+                          <TableCell className="text-muted-foreground">{result.rowNumber}</TableCell>
+                          <TableCell>
+                            {result.status === "created" ? (
+                              <Badge variant="secondary">created</Badge>
+                            ) : (
+                              <Badge variant={result.status === "failed" ? "destructive" : "outline"}>
+                                <XCircle className="h-3 w-3 mr-1" />
+                                {result.status}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">{getResultDetails(result).join("; ")}</TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -7,8 +7,11 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Search, Plus, Edit, Trash2, ChevronLeft, ChevronRight, Grid, List } from "lucide-react"
+import { Search, Plus, Edit, Trash2, ChevronLeft, ChevronRight, Grid, List, Upload, GitMerge } from "lucide-react"
 import { Company } from "@/lib/company-service"
+import { useAuth } from "@/contexts/auth-context"
+import { authorizedFetch } from "@/lib/api-client"
+import { RenewalsDue } from "@/components/clients/renewals-due"
 
 interface ClientsListProps {
   onEdit?: (company: Company) => void
@@ -16,51 +19,58 @@ interface ClientsListProps {
 }
 
 interface PaginationData {
-  page: number
   pageSize: number
   totalCount: number
-  totalPages: number
+  nextCursor: string | null
   hasNextPage: boolean
-  hasPrevPage: boolean
 }
 
+const PAGE_SIZE = 15
+
 export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
   const router = useRouter()
+  const { can } = useAuth()
   const [companies, setCompanies] = useState<Company[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [viewMode, setViewMode] = useState<"list" | "card">("list")
   const [pagination, setPagination] = useState<PaginationData>({
-    page: 1,
-    pageSize: 15,
+    pageSize: PAGE_SIZE,
     totalCount: 0,
-    totalPages: 0,
+    nextCursor: null,
     hasNextPage: false,
-    hasPrevPage: false,
   })
+  // Cursor each visited page was loaded with; the current page is the last entry
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null])
+  const page = pageCursors.length
+  const totalPages = Math.ceil(pagination.totalCount / pagination.pageSize)
 
   const handleClientClick = (companyId: string) => {
     router.push(`/dashboard/admin/clients/${companyId}`)
   }
 
-  const fetchCompanies = async (page = 1, search = "") => {
+  const fetchCompanies = async (cursors: (string | null)[], search = "") => {
     try {
       setLoading(true)
       const params = new URLSearchParams({
-        page: page.toString(),
-        pageSize: "15",
+        pageSize: PAGE_SIZE.toString(),
       })
 
+      const cursor = cursors[cursors.length - 1]
+      if (cursor) {
+        params.append("cursor", cursor)
+      }
       if (search) {
         params.append("search", search)
       }
 
-      const response = await fetch(`/api/clients?${params}`)
+      const response = await authorizedFetch(`/api/clients?${params}`)
       const data = await response.json()
 
       if (response.ok) {
         setCompanies(data.companies)
         setPagination(data.pagination)
+        setPageCursors(cursors)
       } else {
         console.error("Error fetching companies:", data.error)
       }
@@ -72,16 +82,22 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
   }
 
   useEffect(() => {
-    fetchCompanies(1, searchTerm)
+    fetchCompanies([null], searchTerm)
   }, [])
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
-    fetchCompanies(1, searchTerm)
+    fetchCompanies([null], searchTerm)
+  }
+
+  const handleNextPage = () => {
+    if (pagination.nextCursor) {
+      fetchCompanies([...pageCursors, pagination.nextCursor], searchTerm)
+    }
   }
 
-  const handlePageChange = (newPage: number) => {
-    fetchCompanies(newPage, searchTerm)
+  const handlePrevPage = () => {
+    fetchCompanies(pageCursors.slice(0, -1), searchTerm)
   }
 
   const handleDelete = async (companyId: string) => {
@@ -90,13 +106,13 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
     }
 
     try {
-      const response = await fetch(`/api/clients/${companyId}`, {
+      const response = await authorizedFetch(`/api/clients/${companyId}`, {
         method: "DELETE",
       })
 
       if (response.ok) {
         // Refresh the list
-        fetchCompanies(pagination.page, searchTerm)
+        fetchCompanies(pageCursors, searchTerm)
         if (onDelete) {
           onDelete(companyId)
         }
@@ -153,15 +169,36 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
               <Grid className="h-4 w-4" />
             </Button>
           </div>
-          <Link href="/dashboard/admin/clients/add">
-            <Button className="bg-blue-600 hover:bg-blue-700">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Client
-            </Button>
-          </Link>
+          {can("clients:delete") && (
+            <Link href="/dashboard/admin/clients/duplicates">
+              <Button variant="outline">
+                <GitMerge className="h-4 w-4 mr-2" />
+                Duplicates
+              </Button>
+            </Link>
+          )}
+          {can("clients:write") && (
+            <Link href="/dashboard/admin/clients/import">
+              <Button variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            </Link>
+          )}
+          {can("clients:write") && (
+            <Link href="/dashboard/admin/clients/add">
+              <Button className="bg-blue-600 hover:bg-blue-700">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Client
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
 
+      {/* Renewals Due */}
+      {can("admin:view") && <RenewalsDue />}
+
       {/* Search */}
       <Card>
         <CardHeader>
@@ -172,7 +209,7 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
             <div className="flex-1">
               <Input
                 type="text"
-                placeholder="Search by company name..."
+                placeholder="Search by name, contact email, industry or city..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full"
@@ -195,12 +232,14 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
           {companies.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-gray-500">No companies found.</p>
-              <Link href="/dashboard/admin/clients/add">
-                <Button className="mt-4">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Your First Client
-                </Button>
-              </Link>
+              {can("clients:write") && (
+                <Link href="/dashboard/admin/clients/add">
+                  <Button className="mt-4">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Your First Client
+                  </Button>
+                </Link>
+              )}
             </div>
           ) : viewMode === "list" ? (
             // List View
@@ -265,14 +304,16 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDelete(company.id)}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      {can("clients:delete") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(company.id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -307,15 +348,17 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(company.id)}
-                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
-                          title="Delete client"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {can("clients:delete") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(company.id)}
+                            className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                            title="Delete client"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardHeader>
@@ -374,31 +417,31 @@ export function ClientsList({ onEdit, onDelete }: ClientsListProps) {
       </Card>
 
       {/* Pagination */}
-      {pagination.totalPages > 1 && (
+      {(page > 1 || pagination.hasNextPage) && (
         <div className="flex items-center justify-between">
           <div className="text-sm text-gray-700">
-            Showing {((pagination.page - 1) * pagination.pageSize) + 1} to{" "}
-            {Math.min(pagination.page * pagination.pageSize, pagination.totalCount)} of{" "}
+            Showing {((page - 1) * pagination.pageSize) + 1} to{" "}
+            {(page - 1) * pagination.pageSize + companies.length} of{" "}
             {pagination.totalCount} companies
           </div>
           <div className="flex items-center gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={() => handlePageChange(pagination.page - 1)}
-              disabled={!pagination.hasPrevPage}
+              onClick={handlePrevPage}
+              disabled={page === 1 || loading}
             >
               <ChevronLeft className="h-4 w-4" />
               Previous
             </Button>
             <span className="text-sm text-gray-700">
-              Page {pagination.page} of {pagination.totalPages}
+              Page {page} of {Math.max(totalPages, page)}
             </span>
             <Button
               variant="outline"
               size="sm"
-              onClick={() => handlePageChange(pagination.page + 1)}
-              disabled={!pagination.hasNextPage}
+              onClick={handleNextPage}
+              disabled={!pagination.hasNextPage || loading}
             >
               Next
               <ChevronRight className="h-4 w-4" />
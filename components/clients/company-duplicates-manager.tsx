@@ -0,0 +1,473 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { AlertTriangle, ArrowLeft, GitMerge, Loader2, Search, Undo2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import type {
+  CompanyMerge,
+  CompanyMergePreview,
+  CompanyMergeStatus,
+  CompanyReferenceCounts,
+  DuplicateCompanyGroup,
+  DuplicateMatchField,
+} from "@/types/company-merge"
+
+const COLLECTION_LABELS: Record<string, string> = {
+  iboard_users: "Users",
+  licenses: "Licenses",
+  products: "Products",
+  booking: "Bookings",
+  quotation_request: "Quotations",
+  chats: "Chats",
+  followers: "Followers",
+  subscriptions: "Subscriptions",
+  invoices: "Invoices",
+}
+
+const MATCH_LABELS: Record<DuplicateMatchField, string> = {
+  name: "Name",
+  website: "Website",
+  phone: "Phone",
+  point_person_email: "Point person email",
+}
+
+const STATUS_VARIANTS: Record<CompanyMergeStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  in_progress: "secondary",
+  failed: "destructive",
+  undone: "outline",
+}
+
+interface GroupSelection {
+  survivorId: string
+  duplicateIds: string[]
+}
+
+const countTotal = (counts: CompanyReferenceCounts) => Object.values(counts).reduce((sum, count) => sum + count, 0)
+
+// Oldest company survives by default; the API returns each group's companies oldest first
+const getDefaultSelection = (group: DuplicateCompanyGroup): GroupSelection => ({
+  survivorId: group.companies[0].id,
+  duplicateIds: group.companies.slice(1).map((company) => company.id),
+})
+
+function ReferenceCountsTable({ counts }: { counts: CompanyReferenceCounts }) {
+  return (
+    <Table>
+      <TableBody>
+        {Object.entries(counts).map(([collection, count]) => (
+          <TableRow key={collection}>
+            <TableCell>{COLLECTION_LABELS[collection] || collection}</TableCell>
+            <TableCell className="text-right">{count}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function CompanyDuplicatesManager() {
+  const { toast } = useToast()
+  const [groups, setGroups] = useState<DuplicateCompanyGroup[] | null>(null)
+  const [selections, setSelections] = useState<GroupSelection[]>([])
+  const [merges, setMerges] = useState<CompanyMerge[]>([])
+  const [scanning, setScanning] = useState(false)
+  const [previewing, setPreviewing] = useState<number | null>(null)
+  const [preview, setPreview] = useState<{ groupIndex: number; preview: CompanyMergePreview } | null>(null)
+  const [merging, setMerging] = useState(false)
+  const [undoingId, setUndoingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchMerges = async () => {
+    try {
+      const response = await authorizedFetch("/api/clients/merges")
+      const data = await response.json()
+      if (response.ok) {
+        setMerges(data.merges)
+      } else {
+        console.error("Error fetching company merges:", data.error)
+      }
+    } catch (error) {
+      console.error("Error fetching company merges:", error)
+    }
+  }
+
+  useEffect(() => {
+    fetchMerges()
+  }, [])
+
+  const handleScan = async () => {
+    setScanning(true)
+    setError(null)
+    try {
+      const response = await authorizedFetch("/api/clients/duplicates")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to find duplicate companies")
+      }
+
+      setGroups(data.groups)
+      setSelections(data.groups.map(getDefaultSelection))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unknown error")
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const updateSelection = (groupIndex: number, selection: GroupSelection) => {
+    setSelections((current) => current.map((existing, index) => (index === groupIndex ? selection : existing)))
+  }
+
+  const handleSurvivorChange = (groupIndex: number, survivorId: string) => {
+    const group = groups![groupIndex]
+    updateSelection(groupIndex, {
+      survivorId,
+      duplicateIds: group.companies.map((company) => company.id).filter((id) => id !== survivorId),
+    })
+  }
+
+  const handleDuplicateToggle = (groupIndex: number, companyId: string, checked: boolean) => {
+    const selection = selections[groupIndex]
+    updateSelection(groupIndex, {
+      ...selection,
+      duplicateIds: checked
+        ? [...selection.duplicateIds, companyId]
+        : selection.duplicateIds.filter((id) => id !== companyId),
+    })
+  }
+
+  const requestMerge = async (selection: GroupSelection, dryRun: boolean) => {
+    const response = await authorizedFetch("/api/clients/merges", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...selection, dryRun }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to merge companies")
+    }
+    return data
+  }
+
+  const handlePreview = async (groupIndex: number) => {
+    setPreviewing(groupIndex)
+    try {
+      const data = await requestMerge(selections[groupIndex], true)
+      setPreview({ groupIndex, preview: data.preview })
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setPreviewing(null)
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!preview) return
+
+    setMerging(true)
+    try {
+      const data = await requestMerge(selections[preview.groupIndex], false)
+      toast({
+        title: "Companies merged",
+        description: `${countTotal(data.merge.counts)} documents now point at ${data.merge.survivor_name}.`,
+      })
+      setPreview(null)
+      fetchMerges()
+      handleScan()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+      fetchMerges()
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const handleUndo = async (merge: CompanyMerge) => {
+    if (!confirm(`Undo the merge into ${merge.survivor_name}? Every moved document is pointed back at its company.`)) {
+      return
+    }
+
+    setUndoingId(merge.id)
+    try {
+      const response = await authorizedFetch(`/api/clients/merges/${merge.id}/undo`, { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to undo merge")
+      }
+
+      toast({
+        title: "Merge undone",
+        description:
+          data.merge.undo_conflicts > 0
+            ? `${data.merge.undo_conflicts} documents changed company since the merge and were left as they are.`
+            : "Every moved document is back with its original company.",
+      })
+      fetchMerges()
+      if (groups) handleScan()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Duplicate Companies</h1>
+          <p className="text-muted-foreground">
+            Find companies entered more than once and merge them, moving their users, products, bookings, quotations,
+            chats and followers to one company
+          </p>
+        </div>
+        <Link href="/dashboard/admin/clients">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Likely Duplicates</CardTitle>
+            <CardDescription>
+              Matched on name (ignoring case and suffixes like Inc. or Corp.), website domain, phone number and point
+              person email. Review each group before merging.
+            </CardDescription>
+          </div>
+          <Button onClick={handleScan} disabled={scanning} variant="outline">
+            {scanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+            Scan Companies
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {groups && groups.length === 0 && <p className="text-gray-500">No likely duplicates found</p>}
+
+          {groups?.map((group, groupIndex) => {
+            const selection = selections[groupIndex]
+            return (
+              <div key={group.companies.map((company) => company.id).join("-")} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {group.matches.map((match) => (
+                    <Badge key={`${match.field}-${match.value}`} variant="secondary">
+                      {MATCH_LABELS[match.field]}: {match.value}
+                    </Badge>
+                  ))}
+                </div>
+
+                <RadioGroup
+                  value={selection.survivorId}
+                  onValueChange={(value) => handleSurvivorChange(groupIndex, value)}
+                  className="gap-0 divide-y"
+                >
+                  {group.companies.map((company) => {
+                    const isSurvivor = company.id === selection.survivorId
+                    return (
+                      <div key={company.id} className="flex items-center gap-4 py-2">
+                        <div className="flex items-center gap-2 w-28">
+                          <RadioGroupItem value={company.id} id={`survivor-${company.id}`} />
+                          <Label htmlFor={`survivor-${company.id}`} className="text-xs">
+                            Keep
+                          </Label>
+                        </div>
+                        <div className="flex items-center gap-2 w-28">
+                          <Checkbox
+                            id={`duplicate-${company.id}`}
+                            disabled={isSurvivor}
+                            checked={!isSurvivor && selection.duplicateIds.includes(company.id)}
+                            onCheckedChange={(checked) => handleDuplicateToggle(groupIndex, company.id, checked === true)}
+                          />
+                          <Label htmlFor={`duplicate-${company.id}`} className="text-xs">
+                            Merge in
+                          </Label>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <Link
+                            href={`/dashboard/admin/clients/${company.id}`}
+                            className="font-medium hover:underline"
+                            target="_blank"
+                          >
+                            {company.name || "(no name)"}
+                          </Link>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {[company.point_person_email, company.website, company.phone, company.city]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        </div>
+                        <div className="text-xs text-muted-foreground whitespace-nowrap">
+                          {company.created_at ? `Added ${format(new Date(company.created_at), "MMM d, yyyy")}` : ""}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </RadioGroup>
+
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={() => handlePreview(groupIndex)}
+                    disabled={selection.duplicateIds.length === 0 || previewing !== null}
+                  >
+                    {previewing === groupIndex ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <GitMerge className="mr-2 h-4 w-4" />
+                    )}
+                    Review Merge
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Merge History</CardTitle>
+          <CardDescription>
+            Every merge keeps a journal of the documents it moved, so it can be undone. Documents that changed company
+            again after the merge are left as they are.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {merges.length === 0 ? (
+            <p className="text-gray-500">No companies have been merged</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Kept</TableHead>
+                  <TableHead>Merged In</TableHead>
+                  <TableHead className="text-right">Documents Moved</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {merges.map((merge) => (
+                  <TableRow key={merge.id}>
+                    <TableCell className="text-sm">
+                      {merge.created_at ? format(new Date(merge.created_at), "MMM d, yyyy HH:mm") : ""}
+                    </TableCell>
+                    <TableCell className="font-medium">{merge.survivor_name}</TableCell>
+                    <TableCell className="text-sm">{merge.duplicate_names.join(", ")}</TableCell>
+                    <TableCell className="text-right">{countTotal(merge.counts)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[merge.status]}>{merge.status.replace("_", " ")}</Badge>
+                      {merge.stale && <p className="text-xs text-red-600 mt-1">Stopped part-way; undo to restore it</p>}
+                      {merge.error && <p className="text-xs text-red-600 mt-1">{merge.error}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(merge.status === "completed" || merge.status === "failed" || merge.stale) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUndo(merge)}
+                          disabled={undoingId !== null}
+                        >
+                          {undoingId === merge.id ? (
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Undo2 className="mr-1 h-4 w-4" />
+                          )}
+                          Undo
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && !merging && setPreview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge into {preview?.preview.survivor.name}</DialogTitle>
+            <DialogDescription>
+              {preview?.preview.duplicates.map((duplicate) => duplicate.name).join(", ")} will be marked as merged, and
+              {preview && ` ${countTotal(preview.preview.counts)} `}documents will be moved to{" "}
+              {preview?.preview.survivor.name}.
+            </DialogDescription>
+          </DialogHeader>
+          {preview && (
+            <div className="space-y-4">
+              {preview.preview.blockers.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="space-y-1">
+                      {preview.preview.blockers.map((blocker) => (
+                        <li key={blocker}>{blocker}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div>
+                <h3 className="font-medium text-sm">Moved to the survivor</h3>
+                <ReferenceCountsTable counts={preview.preview.counts} />
+              </div>
+              {countTotal(preview.preview.keptCounts) > 0 && (
+                <div>
+                  <h3 className="font-medium text-sm">Kept with the merged company</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Subscriptions, their licenses and invoices stay with the company they were issued to.
+                  </p>
+                  <ReferenceCountsTable counts={preview.preview.keptCounts} />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)} disabled={merging}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={merging || !!preview?.preview.blockers.length}>
+              {merging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge Companies
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
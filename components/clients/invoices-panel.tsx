@@ -0,0 +1,266 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { CheckCircle2, FilePlus2, Loader2, Printer, Receipt } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import { useAuth } from "@/contexts/auth-context"
+import type { InvoiceStatus } from "@/types/invoice"
+import type { Subscription } from "@/types/subscription"
+
+// Invoice as returned by the API, with dates serialized
+interface InvoiceRow {
+  id: string
+  invoiceNumber: string
+  description: string
+  periodStart: string
+  periodEnd: string
+  issueDate: string
+  dueDate: string
+  total: number
+  status: InvoiceStatus
+  paidAt: string | null
+  paymentReference: string
+}
+
+interface InvoicesPanelProps {
+  companyId: string
+  subscription: Subscription | null // Invoices are reloaded when the subscription changes, since changes can bill
+}
+
+const STATUS_VARIANTS: Record<InvoiceStatus, "default" | "secondary" | "destructive"> = {
+  paid: "default",
+  unpaid: "secondary",
+  overdue: "destructive",
+}
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) => format(new Date(date), "MMM d, yyyy")
+
+export function InvoicesPanel({ companyId, subscription }: InvoicesPanelProps) {
+  const { toast } = useToast()
+  const { can } = useAuth()
+  const [invoices, setInvoices] = useState<InvoiceRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [issuing, setIssuing] = useState(false)
+  const [payingInvoice, setPayingInvoice] = useState<InvoiceRow | null>(null)
+  const [paymentReference, setPaymentReference] = useState("")
+  const [paidOn, setPaidOn] = useState("")
+  const [savingPayment, setSavingPayment] = useState(false)
+
+  const fetchInvoices = async () => {
+    try {
+      setLoading(true)
+      const response = await authorizedFetch(`/api/clients/${companyId}/invoices`)
+      const data = await response.json()
+      if (response.ok) {
+        setInvoices(data.invoices)
+      } else {
+        console.error("Error fetching invoices:", data.error)
+      }
+    } catch (error) {
+      console.error("Error fetching invoices:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [companyId, subscription?.id, subscription?.planType, subscription?.billingCycle, subscription?.endDate])
+
+  const handleIssueInvoice = async () => {
+    if (!subscription) return
+
+    setIssuing(true)
+    try {
+      const response = await authorizedFetch(`/api/subscriptions/${subscription.id}/invoices`, { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to issue invoice")
+      }
+
+      toast({ title: "Invoice issued", description: `${data.invoice.invoiceNumber} has been issued.` })
+      fetchInvoices()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setIssuing(false)
+    }
+  }
+
+  const openMarkPaid = (invoice: InvoiceRow) => {
+    setPayingInvoice(invoice)
+    setPaymentReference("")
+    setPaidOn(format(new Date(), "yyyy-MM-dd"))
+  }
+
+  const handleMarkPaid = async () => {
+    if (!payingInvoice) return
+
+    setSavingPayment(true)
+    try {
+      const response = await authorizedFetch(`/api/invoices/${payingInvoice.id}/mark-paid`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          paymentReference,
+          // Noon local time, so the date doesn't shift across time zones
+          paidAt: paidOn ? new Date(`${paidOn}T12:00:00`).toISOString() : undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to mark invoice as paid")
+      }
+
+      toast({ title: "Invoice paid", description: `${data.invoice.invoiceNumber} has been marked as paid.` })
+      setPayingInvoice(null)
+      fetchInvoices()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSavingPayment(false)
+    }
+  }
+
+  const canIssue =
+    can("clients:write") && subscription && subscription.status !== "trialing" && subscription.planType !== "trial"
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Invoices
+        </CardTitle>
+        {canIssue && (
+          <Button variant="outline" size="sm" onClick={handleIssueInvoice} disabled={issuing}>
+            {issuing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePlus2 className="mr-2 h-4 w-4" />}
+            Invoice Current Period
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex h-24 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-gray-500">No invoices have been issued</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map((invoice) => (
+                <TableRow key={invoice.id}>
+                  <TableCell>
+                    <p className="font-medium">{invoice.invoiceNumber}</p>
+                    <p className="text-xs text-muted-foreground">Issued {formatDate(invoice.issueDate)}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(invoice.periodStart)} - {formatDate(invoice.periodEnd)}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatDate(invoice.dueDate)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(invoice.total)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[invoice.status]}>{invoice.status}</Badge>
+                    {invoice.paidAt && (
+                      <p className="text-xs text-muted-foreground mt-1">Paid {formatDate(invoice.paidAt)}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/invoices/${invoice.id}`} target="_blank" rel="noopener noreferrer">
+                          <Printer className="mr-1 h-4 w-4" />
+                          Print
+                        </a>
+                      </Button>
+                      {invoice.status !== "paid" && can("billing:manage") && (
+                        <Button variant="outline" size="sm" onClick={() => openMarkPaid(invoice)}>
+                          <CheckCircle2 className="mr-1 h-4 w-4" />
+                          Mark Paid
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!payingInvoice} onOpenChange={(open) => !open && setPayingInvoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark {payingInvoice?.invoiceNumber} as Paid</DialogTitle>
+            <DialogDescription>
+              Record a payment of {payingInvoice && formatCurrency(payingInvoice.total)} received outside the system.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="paid-on">Payment Date</Label>
+              <Input
+                id="paid-on"
+                type="date"
+                value={paidOn}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setPaidOn(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Payment Reference</Label>
+              <Input
+                id="payment-reference"
+                value={paymentReference}
+                maxLength={100}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                placeholder="e.g. bank transfer or OR number"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingInvoice(null)} disabled={savingPayment}>
+              Cancel
+            </Button>
+            <Button onClick={handleMarkPaid} disabled={savingPayment}>
+              {savingPayment && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark as Paid
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
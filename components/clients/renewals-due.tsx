@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { CalendarClock, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { authorizedFetch } from "@/lib/api-client"
+import type { BillingCycle, SubscriptionPlanType, SubscriptionStatus } from "@/types/subscription"
+
+interface RenewalDue {
+  subscriptionId: string
+  companyId: string | null
+  companyName: string
+  planType: SubscriptionPlanType
+  billingCycle: BillingCycle
+  status: SubscriptionStatus
+  renewalDate: string
+  daysRemaining: number
+  cancelAtPeriodEnd: boolean
+}
+
+const DAY_OPTIONS = ["7", "14", "30", "60"]
+
+const STATUS_LABELS: Partial<Record<SubscriptionStatus, string>> = {
+  active: "Renewal due",
+  trialing: "Trial ends",
+  past_due: "Grace period ends",
+}
+
+function formatDaysRemaining(days: number): string {
+  if (days < 0) return `${Math.abs(days)} days overdue`
+  if (days === 0) return "Today"
+  if (days === 1) return "Tomorrow"
+  return `In ${days} days`
+}
+
+export function RenewalsDue() {
+  const [days, setDays] = useState("30")
+  const [renewals, setRenewals] = useState<RenewalDue[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchRenewals = async () => {
+      try {
+        setLoading(true)
+        const response = await authorizedFetch(`/api/subscriptions/renewals-due?days=${days}`)
+        const data = await response.json()
+        if (response.ok) {
+          setRenewals(data.renewals)
+        } else {
+          console.error("Error fetching renewals due:", data.error)
+        }
+      } catch (error) {
+        console.error("Error fetching renewals due:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRenewals()
+  }, [days])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Renewals Due ({renewals.length})
+        </CardTitle>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DAY_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                Next {option} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : renewals.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No subscriptions lapse in the next {days} days.</p>
+        ) : (
+          <div className="divide-y">
+            {renewals.map((renewal) => (
+              <div key={renewal.subscriptionId} className="flex items-center justify-between py-3">
+                <div>
+                  {renewal.companyId ? (
+                    <Link
+                      href={`/dashboard/admin/clients/${renewal.companyId}`}
+                      className="font-medium text-gray-900 hover:underline"
+                    >
+                      {renewal.companyName}
+                    </Link>
+                  ) : (
+                    <p className="font-medium text-gray-900">{renewal.companyName}</p>
+                  )}
+                  <p className="text-sm text-gray-500 capitalize">
+                    {renewal.planType} · {renewal.billingCycle}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 text-right">
+                  {renewal.cancelAtPeriodEnd && <Badge variant="outline">Cancelling</Badge>}
+                  <Badge variant={renewal.status === "past_due" ? "destructive" : "secondary"}>
+                    {STATUS_LABELS[renewal.status] || renewal.status}
+                  </Badge>
+                  <div>
+                    <p className={`text-sm font-medium ${renewal.daysRemaining <= 7 ? "text-red-600" : "text-gray-900"}`}>
+                      {formatDaysRemaining(renewal.daysRemaining)}
+                    </p>
+                    <p className="text-xs text-gray-500">{format(new Date(renewal.renewalDate), "MMM d, yyyy")}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
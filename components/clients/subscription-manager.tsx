@@ -0,0 +1,452 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { ArrowRightLeft, History, KeyRound, Loader2, RefreshCw, Rocket, Undo2, XCircle } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import { useAuth } from "@/contexts/auth-context"
+import type {
+  BillingCycle,
+  Subscription,
+  SubscriptionChangeAction,
+  SubscriptionHistoryEntry,
+  SubscriptionPlan,
+  SubscriptionPlanType,
+} from "@/types/subscription"
+
+const ACTION_LABELS: Record<SubscriptionChangeAction, string> = {
+  plan_changed: "Plan changed",
+  renewed: "Renewed",
+  cancellation_scheduled: "Cancellation scheduled",
+  cancellation_reverted: "Cancellation reverted",
+  trial_converted: "Trial converted",
+  grace_period_started: "Grace period started",
+  expired: "Expired",
+  trial_expired: "Trial expired",
+  cancelled: "Cancelled",
+  license_revoked: "License revoked",
+}
+
+interface ProrationPreview {
+  credit: number
+  charge: number
+  amountDue: number
+  periodEnd: string | null
+}
+
+interface SubscriptionManagerProps {
+  subscription: Subscription
+  onSubscriptionChange: (subscription: Subscription) => void
+}
+
+const formatCurrency = (amount: number) => `₱${amount.toLocaleString()}`
+
+export function SubscriptionManager({ subscription, onSubscriptionChange }: SubscriptionManagerProps) {
+  const { toast } = useToast()
+  const { can } = useAuth()
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([])
+  const [history, setHistory] = useState<SubscriptionHistoryEntry[]>([])
+  const [loadingHistory, setLoadingHistory] = useState(true)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [dialogMode, setDialogMode] = useState<"change-plan" | "convert-trial" | null>(null)
+  const [planType, setPlanType] = useState<SubscriptionPlanType>(subscription.planType)
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>(subscription.billingCycle)
+  const [preview, setPreview] = useState<ProrationPreview | null>(null)
+  const [dialogError, setDialogError] = useState<string | null>(null)
+
+  const isTrial = subscription.status === "trialing" || subscription.planType === "trial"
+  const paidPlans = plans.filter((plan) => plan.id !== "trial")
+
+  const fetchHistory = async () => {
+    try {
+      setLoadingHistory(true)
+      const response = await authorizedFetch(`/api/subscriptions/${subscription.id}/history`)
+      const data = await response.json()
+      if (response.ok) {
+        setHistory(data.history)
+      }
+    } catch (error) {
+      console.error("Error fetching subscription history:", error)
+    } finally {
+      setLoadingHistory(false)
+    }
+  }
+
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const response = await authorizedFetch("/api/subscription-plans")
+        const data = await response.json()
+        if (response.ok) {
+          setPlans(data.plans)
+        }
+      } catch (error) {
+        console.error("Error fetching subscription plans:", error)
+      }
+    }
+
+    fetchPlans()
+  }, [])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [subscription.id])
+
+  // Refresh the proration preview whenever the selection changes
+  useEffect(() => {
+    if (dialogMode !== "change-plan") return
+    if (planType === subscription.planType && billingCycle === subscription.billingCycle) {
+      setPreview(null)
+      return
+    }
+
+    const fetchPreview = async () => {
+      try {
+        setDialogError(null)
+        const response = await authorizedFetch(`/api/subscriptions/${subscription.id}/change-plan`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ planType, billingCycle, preview: true }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to calculate proration")
+        }
+        setPreview(data.proration)
+      } catch (error: any) {
+        setPreview(null)
+        setDialogError(error.message)
+      }
+    }
+
+    fetchPreview()
+  }, [dialogMode, planType, billingCycle])
+
+  const runAction = async (action: string, body?: Record<string, unknown>) => {
+    setBusyAction(action)
+    try {
+      const response = await authorizedFetch(`/api/subscriptions/${subscription.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body || {}),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update subscription")
+      }
+
+      onSubscriptionChange(data.subscription)
+      fetchHistory()
+      toast({
+        title: "Subscription updated",
+        description:
+          data.proration && data.proration.amountDue < 0
+            ? `Credit added to the client's account: ${formatCurrency(-data.proration.amountDue)}`
+            : data.proration && data.proration.amountDue !== 0
+              ? `Amount due: ${formatCurrency(data.proration.amountDue)}`
+              : "The change has been recorded in the subscription history.",
+      })
+      return true
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+      return false
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const openDialog = (mode: "change-plan" | "convert-trial") => {
+    const defaultPlan = mode === "convert-trial" ? (paidPlans[0]?.id as SubscriptionPlanType) : subscription.planType
+    setPlanType(defaultPlan || subscription.planType)
+    setBillingCycle(subscription.billingCycle)
+    setPreview(null)
+    setDialogError(null)
+    setDialogMode(mode)
+  }
+
+  const handleDialogConfirm = async () => {
+    if (!dialogMode) return
+    if (await runAction(dialogMode, { planType, billingCycle })) {
+      setDialogMode(null)
+    }
+  }
+
+  const handleRenew = () => {
+    if (confirm("Renew this subscription for another billing cycle?")) {
+      runAction("renew")
+    }
+  }
+
+  const handleCancel = () => {
+    if (confirm("Cancel this subscription at the end of the current period?")) {
+      runAction("cancel")
+    }
+  }
+
+  const handleRevokeLicense = () => {
+    const reason = prompt("Revoke this license key? The OH apps will stop accepting it. Enter a reason:")
+    if (reason?.trim()) {
+      runAction("revoke-license", { reason })
+    }
+  }
+
+  const unchanged = dialogMode === "change-plan" && planType === subscription.planType && billingCycle === subscription.billingCycle
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Manage Subscription
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!!subscription.creditBalance && (
+            <Alert>
+              <AlertDescription>
+                Account credit of {formatCurrency(subscription.creditBalance)}, taken off the next invoice
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {subscription.cancelAtPeriodEnd && (
+            <Alert>
+              <AlertDescription>
+                Cancels on {subscription.endDate ? format(new Date(subscription.endDate), "MMM d, yyyy") : "period end"}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {subscription.status === "past_due" && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Lapsed. Renew before{" "}
+                {subscription.graceEndDate ? format(new Date(subscription.graceEndDate), "MMM d, yyyy") : "the grace period ends"}{" "}
+                to avoid expiry.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isTrial ? (
+            <Button className="w-full" onClick={() => openDialog("convert-trial")} disabled={!!busyAction}>
+              <Rocket className="h-4 w-4 mr-2" />
+              Convert to Paid
+            </Button>
+          ) : (
+            <>
+              <Button
+                className="w-full"
+                variant="outline"
+                onClick={() => openDialog("change-plan")}
+                disabled={!!busyAction || subscription.status !== "active"}
+              >
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                Change Plan
+              </Button>
+              <Button className="w-full" variant="outline" onClick={handleRenew} disabled={!!busyAction}>
+                {busyAction === "renew" ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Renew
+              </Button>
+            </>
+          )}
+
+          {subscription.cancelAtPeriodEnd ? (
+            <Button className="w-full" variant="outline" onClick={() => runAction("resume")} disabled={!!busyAction}>
+              {busyAction === "resume" ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Undo2 className="h-4 w-4 mr-2" />
+              )}
+              Keep Subscription
+            </Button>
+          ) : (
+            (subscription.status === "active" || subscription.status === "trialing") && (
+              <Button
+                className="w-full text-red-600 hover:text-red-700"
+                variant="ghost"
+                onClick={handleCancel}
+                disabled={!!busyAction}
+              >
+                {busyAction === "cancel" ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <XCircle className="h-4 w-4 mr-2" />
+                )}
+                Cancel at Period End
+              </Button>
+            )
+          )}
+
+          {subscription.licenseRevokedAt ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                License key revoked on {format(new Date(subscription.licenseRevokedAt), "MMM d, yyyy")}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            can("clients:delete") && (
+              <Button
+                className="w-full text-red-600 hover:text-red-700"
+                variant="ghost"
+                onClick={handleRevokeLicense}
+                disabled={!!busyAction}
+              >
+                {busyAction === "revoke-license" ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <KeyRound className="h-4 w-4 mr-2" />
+                )}
+                Revoke License Key
+              </Button>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Subscription History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingHistory ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-gray-500">No changes recorded yet</p>
+          ) : (
+            <div className="space-y-3">
+              {history.map((entry) => (
+                <div key={entry.id} className="border-b pb-3 last:border-0 last:pb-0">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="secondary">{ACTION_LABELS[entry.action] || entry.action}</Badge>
+                    <span className="text-xs text-gray-500">{format(new Date(entry.created_at), "MMM d, yyyy")}</span>
+                  </div>
+                  {(entry.from.planType !== entry.to.planType || entry.from.billingCycle !== entry.to.billingCycle) && (
+                    <p className="text-sm text-gray-700 mt-1 capitalize">
+                      {entry.from.planType} ({entry.from.billingCycle}) → {entry.to.planType} ({entry.to.billingCycle})
+                    </p>
+                  )}
+                  {entry.proration && (
+                    <p className="text-sm text-gray-700 mt-1">Amount due: {formatCurrency(entry.proration.amountDue)}</p>
+                  )}
+                  {!!entry.creditApplied && (
+                    <p className="text-sm text-gray-700 mt-1">
+                      Account credit applied: {formatCurrency(entry.creditApplied)}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">{entry.actor_email}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!dialogMode} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode === "convert-trial" ? "Convert Trial to Paid" : "Change Plan"}</DialogTitle>
+            <DialogDescription>
+              {dialogMode === "convert-trial"
+                ? "The first paid billing period starts today."
+                : "Changes take effect immediately and are prorated for the current period."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <Select value={planType} onValueChange={(value) => setPlanType(value as SubscriptionPlanType)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paidPlans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Billing Cycle</Label>
+              <Select value={billingCycle} onValueChange={(value) => setBillingCycle(value as BillingCycle)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="annually">Annually</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="rounded-md bg-blue-50 p-4 text-sm text-blue-900 space-y-1">
+              <div className="flex justify-between">
+                <span>Credit for unused time</span>
+                <span>-{formatCurrency(preview.credit)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>New plan charge</span>
+                <span>{formatCurrency(preview.charge)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>{preview.amountDue < 0 ? "Credit to client's account" : "Amount due now"}</span>
+                <span>{formatCurrency(Math.abs(preview.amountDue))}</span>
+              </div>
+              {preview.amountDue < 0 && (
+                <p className="text-xs text-blue-700">The credit is taken off the client's next invoice.</p>
+              )}
+              {preview.periodEnd && (
+                <p className="text-xs text-blue-700">Current period ends {format(new Date(preview.periodEnd), "MMM d, yyyy")}</p>
+              )}
+            </div>
+          )}
+
+          {dialogError && (
+            <Alert variant="destructive">
+              <AlertDescription>{dialogError}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogMode(null)} disabled={!!busyAction}>
+              Cancel
+            </Button>
+            <Button onClick={handleDialogConfirm} disabled={!!busyAction || unchanged || !planType}>
+              {busyAction === dialogMode && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {dialogMode === "convert-trial" ? "Convert" : "Change Plan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { CalendarCheck, CreditCard, FileText, History, Loader2, Package, UserPlus, type LucideIcon } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { authorizedFetch } from "@/lib/api-client"
+import type { ClientTimelineEventType } from "@/types/client-timeline"
+import type { Subscription } from "@/types/subscription"
+
+// Timeline event as returned by the API, with dates serialized
+interface TimelineEventRow {
+  id: string
+  type: ClientTimelineEventType
+  occurredAt: string
+  title: string
+  description: string
+  status: string | null
+  amount: number | null
+}
+
+interface TimelinePanelProps {
+  companyId: string
+  subscription: Subscription | null // Reloaded when the subscription changes, since changes add events
+}
+
+const EVENT_TYPES: { type: ClientTimelineEventType; label: string; icon: LucideIcon; color: string }[] = [
+  { type: "product", label: "Products", icon: Package, color: "bg-purple-100 text-purple-700" },
+  { type: "booking", label: "Bookings", icon: CalendarCheck, color: "bg-emerald-100 text-emerald-700" },
+  { type: "quotation", label: "Quotations", icon: FileText, color: "bg-orange-100 text-orange-700" },
+  { type: "member", label: "Members", icon: UserPlus, color: "bg-blue-100 text-blue-700" },
+  { type: "subscription", label: "Subscription", icon: CreditCard, color: "bg-gray-100 text-gray-700" },
+]
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function TimelinePanel({ companyId, subscription }: TimelinePanelProps) {
+  const [events, setEvents] = useState<TimelineEventRow[]>([])
+  const [truncated, setTruncated] = useState<ClientTimelineEventType[]>([])
+  const [types, setTypes] = useState<ClientTimelineEventType[]>(EVENT_TYPES.map((eventType) => eventType.type))
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTimeline = async () => {
+    if (types.length === 0) {
+      setEvents([])
+      setTruncated([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams({ types: types.join(",") })
+      // Whole days in local time
+      if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString())
+      if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString())
+
+      const response = await authorizedFetch(`/api/clients/${companyId}/timeline?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the timeline")
+      }
+
+      setEvents(data.events)
+      setTruncated(data.truncated)
+    } catch (error) {
+      console.error("Error fetching client timeline:", error)
+      setError(error instanceof Error ? error.message : "Failed to load the timeline")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTimeline()
+  }, [companyId, types, from, to, subscription?.id, subscription?.planType, subscription?.status, subscription?.endDate])
+
+  const toggleType = (type: ClientTimelineEventType) => {
+    setTypes((current) => (current.includes(type) ? current.filter((t) => t !== type) : [...current, type]))
+  }
+
+  // Group events by day, keeping the newest-first order
+  const days: { day: string; events: TimelineEventRow[] }[] = []
+  for (const event of events) {
+    const day = format(new Date(event.occurredAt), "MMMM d, yyyy")
+    if (days[days.length - 1]?.day !== day) {
+      days.push({ day, events: [] })
+    }
+    days[days.length - 1].events.push(event)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Activity Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-wrap gap-2">
+            {EVENT_TYPES.map(({ type, label, icon: Icon }) => (
+              <Button
+                key={type}
+                size="sm"
+                variant={types.includes(type) ? "default" : "outline"}
+                onClick={() => toggleType(type)}
+              >
+                <Icon className="mr-1 h-4 w-4" />
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="timeline-from" className="text-xs">
+                From
+              </Label>
+              <Input
+                id="timeline-from"
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="timeline-to" className="text-xs">
+                To
+              </Label>
+              <Input
+                id="timeline-to"
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            {(from || to) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setFrom("")
+                  setTo("")
+                }}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {truncated.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Showing the 100 most recent{" "}
+            {truncated.map((type) => EVENT_TYPES.find((eventType) => eventType.type === type)?.label.toLowerCase()).join(", ")}
+            ; narrow the dates to see older ones.
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex h-24 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-red-600">{error}</p>
+        ) : events.length === 0 ? (
+          <p className="text-gray-500">No activity in this period</p>
+        ) : (
+          <div className="max-h-[36rem] space-y-6 overflow-y-auto pr-2">
+            {days.map(({ day, events: dayEvents }) => (
+              <div key={day} className="space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">{day}</h3>
+                <div className="space-y-2 border-l pl-4">
+                  {dayEvents.map((event) => {
+                    const eventType = EVENT_TYPES.find((t) => t.type === event.type)!
+                    const Icon = eventType.icon
+                    return (
+                      <div key={event.id} className="flex items-start gap-3">
+                        <div className={`mt-0.5 rounded-full p-1.5 ${eventType.color}`}>
+                          <Icon className="h-4 w-4" />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium">{event.title}</p>
+                          {event.description && <p className="text-sm text-muted-foreground">{event.description}</p>}
+                        </div>
+                        <div className="flex flex-col items-end gap-1 text-right">
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(event.occurredAt), "h:mm a")}
+                          </span>
+                          {event.status && <Badge variant="outline">{event.status}</Badge>}
+                          {event.amount !== null && <span className="text-sm">{formatCurrency(event.amount)}</span>}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
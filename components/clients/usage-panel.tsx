@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangle, Gauge, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { authorizedFetch } from "@/lib/api-client"
+import type { CompanyUsage, QuotaLevel, QuotaResource, QuotaUsage } from "@/lib/quota-service"
+import type { Subscription } from "@/types/subscription"
+
+interface UsagePanelProps {
+  companyId: string
+  subscription: Subscription | null // Usage is reloaded when the subscription's limits change
+}
+
+const RESOURCE_LABELS: Record<QuotaResource, string> = {
+  products: "Products",
+  users: "Users",
+}
+
+const BAR_CLASSES: Record<QuotaLevel, string> = {
+  ok: "[&>div]:bg-blue-600",
+  warning: "[&>div]:bg-amber-500",
+  full: "[&>div]:bg-red-600",
+  exceeded: "[&>div]:bg-red-600",
+}
+
+function getWarning(resource: QuotaResource, usage: QuotaUsage): string | null {
+  const label = RESOURCE_LABELS[resource].toLowerCase()
+  switch (usage.level) {
+    case "warning":
+      return `${usage.percent}% of the ${label} limit is in use`
+    case "full":
+      return `The ${label} limit has been reached. New ${label} will be blocked.`
+    case "exceeded":
+      return `Over the ${label} limit by ${usage.used - usage.limit!}. New ${label} are blocked until the plan is upgraded.`
+    default:
+      return null
+  }
+}
+
+export function UsagePanel({ companyId, subscription }: UsagePanelProps) {
+  const [usage, setUsage] = useState<CompanyUsage | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        setLoading(true)
+        const response = await authorizedFetch(`/api/clients/${companyId}/usage`)
+        const data = await response.json()
+        if (response.ok) {
+          setUsage(data.usage)
+        } else {
+          console.error("Error fetching company usage:", data.error)
+        }
+      } catch (error) {
+        console.error("Error fetching company usage:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUsage()
+  }, [companyId, subscription?.id, subscription?.maxProducts, subscription?.maxUsers])
+
+  const warnings = usage
+    ? (Object.keys(RESOURCE_LABELS) as QuotaResource[])
+        .map((resource) => ({ resource, level: usage[resource].level, message: getWarning(resource, usage[resource]) }))
+        .filter((warning) => warning.message)
+    : []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Usage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !usage ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : !usage ? (
+          <p className="text-gray-500">Usage is unavailable</p>
+        ) : (
+          <>
+            {(Object.keys(RESOURCE_LABELS) as QuotaResource[]).map((resource) => {
+              const quota = usage[resource]
+              return (
+                <div key={resource} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-gray-500">{RESOURCE_LABELS[resource]}</span>
+                    <span className="text-gray-900">
+                      {quota.used} / {quota.limit ?? "Unlimited"}
+                    </span>
+                  </div>
+                  {quota.limit !== null && (
+                    <Progress value={Math.min(quota.percent, 100)} className={BAR_CLASSES[quota.level]} />
+                  )}
+                </div>
+              )
+            })}
+
+            {!usage.subscriptionId && (
+              <p className="text-sm text-gray-500">No subscription, so no limits are enforced.</p>
+            )}
+
+            {warnings.map((warning) => (
+              <Alert key={warning.resource} variant={warning.level === "warning" ? "default" : "destructive"}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{warning.message}</AlertDescription>
+              </Alert>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
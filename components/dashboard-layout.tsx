@@ -12,6 +12,9 @@ import { SidebarBackdrop } from "@/components/sidebar-backdrop"
 import { useAuth } from "@/contexts/auth-context"
 import { Loader2 } from "lucide-react"
 import { useSidebarState } from "@/hooks/use-sidebar-state"
+import { PermissionGuard } from "@/components/permission-guard"
+import { TwoFactorGate } from "@/components/two-factor-gate"
+import { getRoutePermission } from "@/lib/permissions"
 
 // Create a context for sidebar state
 type SidebarContextType = {
@@ -128,7 +131,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   // Determine if sidebar should be shown
   const showSidebar = !isProfilePage && (isMobile ? mobileMenuOpen : isVisible)
 
-  return (
+  const layout = (
     <SidebarContext.Provider value={sidebarContextValue}>
       <div className="flex h-screen flex-col bg-gray-100">
         <DashboardHeader
@@ -154,10 +157,13 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               !isMobile && isVisible && !isProfilePage ? "lg:ml-64" : "lg:ml-0",
             )}
           >
-            {children}
+            <PermissionGuard permission={getRoutePermission(pathname)}>{children}</PermissionGuard>
           </main>
         </div>
       </div>
     </SidebarContext.Provider>
   )
+
+  // Hold the dashboard back until the session's second factor is resolved and satisfied
+  return <TwoFactorGate allowEnrollment={isProfilePage}>{layout}</TwoFactorGate>
 }
@@ -9,6 +9,7 @@ import { Home, BarChart2, FileText, ChevronUp, ChevronDown, X, Folders, Package,
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Logo } from "./logo"
+import { useAuth } from "@/contexts/auth-context"
 
 interface NavItemProps {
   href: string
@@ -112,6 +113,7 @@ interface DashboardSidebarProps {
 
 export function DashboardSidebar({ isOpen, isIconOnly, isMobile, closeMobileMenu }: DashboardSidebarProps) {
   const pathname = usePathname()
+  const { can } = useAuth()
   const sidebarRef = useRef<HTMLDivElement>(null)
   // Add state for admin menu in expandedMenus
   const [expandedMenus, setExpandedMenus] = useState<Record<string, boolean>>({
@@ -169,6 +171,11 @@ export function DashboardSidebar({ isOpen, isIconOnly, isMobile, closeMobileMenu
     pathname === "/dashboard/admin/products" || pathname.startsWith("/dashboard/admin/products/")
   const isAdminClientsActive =
     pathname === "/dashboard/admin/clients" || pathname.startsWith("/dashboard/admin/clients/")
+  const isAdminAuditLogActive =
+    pathname === "/dashboard/admin/audit-log" || pathname.startsWith("/dashboard/admin/audit-log/")
+  const isAdminInvitationsActive =
+    pathname === "/dashboard/admin/invitations" || pathname.startsWith("/dashboard/admin/invitations/")
+  const isAdminPlansActive = pathname === "/dashboard/admin/plans" || pathname.startsWith("/dashboard/admin/plans/")
 
   // Ensure content management is expanded if any of its subitems are active
   useEffect(() => {
@@ -188,7 +195,15 @@ export function DashboardSidebar({ isOpen, isIconOnly, isMobile, closeMobileMenu
     }
 
     // Ensure admin is expanded if any of its subitems are active
-    if (isAdminBookingActive || isAdminQuotationsActive || isAdminProductsActive || isAdminClientsActive) {
+    if (
+      isAdminBookingActive ||
+      isAdminQuotationsActive ||
+      isAdminProductsActive ||
+      isAdminClientsActive ||
+      isAdminAuditLogActive ||
+      isAdminInvitationsActive ||
+      isAdminPlansActive
+    ) {
       setExpandedMenus((prev) => ({
         ...prev,
         admin: true,
@@ -207,6 +222,9 @@ export function DashboardSidebar({ isOpen, isIconOnly, isMobile, closeMobileMenu
     isAdminQuotationsActive,
     isAdminProductsActive,
     isAdminClientsActive,
+    isAdminAuditLogActive,
+    isAdminInvitationsActive,
+    isAdminPlansActive,
   ])
 
   return (
@@ -260,151 +278,183 @@ export function DashboardSidebar({ isOpen, isIconOnly, isMobile, closeMobileMenu
           />
 
           {/* Content Management Navigation Item with Submenu */}
-          <div>
-            <NavItem
-              href="/dashboard/content"
-              icon={<FileText className="h-5 w-5" />}
-              label="Content Management"
-              isActive={isContentActive}
-              isIconOnly={isIconOnly}
-              hasSubmenu={true}
-              expanded={expandedMenus.contentManagement}
-              onClick={() => {
-                toggleMenu("contentManagement")
-                // Removed closeMobileMenu to keep sidebar open when toggling submenu
-              }}
-            />
+          {can("content:write") && (
+            <div>
+              <NavItem
+                href="/dashboard/content"
+                icon={<FileText className="h-5 w-5" />}
+                label="Content Management"
+                isActive={isContentActive}
+                isIconOnly={isIconOnly}
+                hasSubmenu={true}
+                expanded={expandedMenus.contentManagement}
+                onClick={() => {
+                  toggleMenu("contentManagement")
+                  // Removed closeMobileMenu to keep sidebar open when toggling submenu
+                }}
+              />
 
-            {/* Submenu items - only show when not in icon-only mode or when expanded in icon-only mode */}
-            {expandedMenus.contentManagement && !isIconOnly && (
-              <div className="mt-1 space-y-1">
-                <SubNavItem
-                  href="/dashboard/content/4ps"
-                  label="4Ps"
-                  isActive={is4PsActive}
-                  onClick={undefined} // Removed closeMobileMenu to keep sidebar open
-                />
-                <SubNavItem
-                  href="/dashboard/content/newsticker"
-                  label="News Ticker"
-                  isActive={isNewsTickerActive}
-                  onClick={undefined} // Removed closeMobileMenu to keep sidebar open
-                />
-                <SubNavItem
-                  href="/dashboard/content/apv"
-                  label="APV"
-                  isActive={isAPVActive}
-                  onClick={undefined} // Removed closeMobileMenu to keep sidebar open
-                />
-              </div>
-            )}
-          </div>
+              {/* Submenu items - only show when not in icon-only mode or when expanded in icon-only mode */}
+              {expandedMenus.contentManagement && !isIconOnly && (
+                <div className="mt-1 space-y-1">
+                  <SubNavItem
+                    href="/dashboard/content/4ps"
+                    label="4Ps"
+                    isActive={is4PsActive}
+                    onClick={undefined} // Removed closeMobileMenu to keep sidebar open
+                  />
+                  <SubNavItem
+                    href="/dashboard/content/newsticker"
+                    label="News Ticker"
+                    isActive={isNewsTickerActive}
+                    onClick={undefined} // Removed closeMobileMenu to keep sidebar open
+                  />
+                  <SubNavItem
+                    href="/dashboard/content/apv"
+                    label="APV"
+                    isActive={isAPVActive}
+                    onClick={undefined} // Removed closeMobileMenu to keep sidebar open
+                  />
+                </div>
+              )}
+            </div>
+          )}
           {/* Immigration Navigation Item with Submenu */}
-          <div>
-            <NavItem
-              href="/dashboard/immigration"
-              icon={<Plane className="h-5 w-5" />}
-              label="Immigration"
-              isActive={isImmigrationActive}
-              isIconOnly={isIconOnly}
-              hasSubmenu={true}
-              expanded={expandedMenus.immigration}
-              onClick={() => {
-                toggleMenu("immigration")
-              }}
-            />
+          {can("members:view") && (
+            <div>
+              <NavItem
+                href="/dashboard/immigration"
+                icon={<Plane className="h-5 w-5" />}
+                label="Immigration"
+                isActive={isImmigrationActive}
+                isIconOnly={isIconOnly}
+                hasSubmenu={true}
+                expanded={expandedMenus.immigration}
+                onClick={() => {
+                  toggleMenu("immigration")
+                }}
+              />
+
+              {/* Submenu items - only show when not in icon-only mode or when expanded in icon-only mode */}
+              {expandedMenus.immigration && !isIconOnly && (
+                <div className="mt-1 space-y-1">
+                  {/* Hide Booking, Quotations, and Products - they are now under Admin */}
+                  {false && (
+                    <>
+                      <SubNavItem
+                        href="/dashboard/immigration/booking"
+                        label="Booking"
+                        isActive={isBookingActive}
+                        onClick={undefined}
+                      />
+                      <SubNavItem
+                        href="/dashboard/immigration/quotations"
+                        label="Quotations"
+                        isActive={isQuotationsActive}
+                        onClick={undefined}
+                      />
+                      <SubNavItem
+                        href="/dashboard/immigration/products"
+                        label="Products"
+                        isActive={isImmigrationProductsActive}
+                        onClick={undefined}
+                      />
+                    </>
+                  )}
+                  <SubNavItem
+                    href="/dashboard/members"
+                    label="Members"
+                    isActive={isImmigrationMembersActive}
+                    onClick={undefined}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          {/* Admin Navigation Item with Submenu */}
+          {can("admin:view") && (
+            <div>
+              <NavItem
+                href="/dashboard/admin"
+                icon={<Settings className="h-5 w-5" />}
+                label="Admin"
+                isActive={isAdminActive}
+                isIconOnly={isIconOnly}
+                hasSubmenu={true}
+                expanded={expandedMenus.admin}
+                onClick={() => {
+                  toggleMenu("admin")
+                }}
+              />
 
-            {/* Submenu items - only show when not in icon-only mode or when expanded in icon-only mode */}
-            {expandedMenus.immigration && !isIconOnly && (
-              <div className="mt-1 space-y-1">
-                {/* Hide Booking, Quotations, and Products - they are now under Admin */}
-                {false && (
-                  <>
+              {/* Submenu items - only show when not in icon-only mode or when expanded in icon-only mode */}
+              {expandedMenus.admin && !isIconOnly && (
+                <div className="mt-1 space-y-1">
+                  <SubNavItem
+                    href="/dashboard/admin/booking"
+                    label="Booking"
+                    isActive={isAdminBookingActive}
+                    onClick={undefined}
+                  />
+                  <SubNavItem
+                    href="/dashboard/admin/quotations"
+                    label="Quotations"
+                    isActive={isAdminQuotationsActive}
+                    onClick={undefined}
+                  />
+                  <SubNavItem
+                    href="/dashboard/admin/products"
+                    label="Products"
+                    isActive={isAdminProductsActive}
+                    onClick={undefined}
+                  />
+                  <SubNavItem
+                    href="/dashboard/admin/clients"
+                    label="Clients"
+                    isActive={isAdminClientsActive}
+                    onClick={undefined}
+                  />
+                  {can("plans:manage") && (
                     <SubNavItem
-                      href="/dashboard/immigration/booking"
-                      label="Booking"
-                      isActive={isBookingActive}
+                      href="/dashboard/admin/plans"
+                      label="Plans"
+                      isActive={isAdminPlansActive}
                       onClick={undefined}
                     />
+                  )}
+                  {can("users:invite") && (
                     <SubNavItem
-                      href="/dashboard/immigration/quotations"
-                      label="Quotations"
-                      isActive={isQuotationsActive}
+                      href="/dashboard/admin/invitations"
+                      label="Invitations"
+                      isActive={isAdminInvitationsActive}
                       onClick={undefined}
                     />
+                  )}
+                  {can("audit:view") && (
                     <SubNavItem
-                      href="/dashboard/immigration/products"
-                      label="Products"
-                      isActive={isImmigrationProductsActive}
+                      href="/dashboard/admin/audit-log"
+                      label="Audit Log"
+                      isActive={isAdminAuditLogActive}
                       onClick={undefined}
                     />
-                  </>
-                )}
-                <SubNavItem
-                  href="/dashboard/members"
-                  label="Members"
-                  isActive={isImmigrationMembersActive}
-                  onClick={undefined}
-                />
-              </div>
-            )}
-          </div>
-          {/* Admin Navigation Item with Submenu */}
-          <div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {/* Categories Management Navigation Item */}
+          {can("categories:write") && (
             <NavItem
-              href="/dashboard/admin"
-              icon={<Settings className="h-5 w-5" />}
-              label="Admin"
-              isActive={isAdminActive}
+              href="/dashboard/categories"
+              icon={<Folders className="h-5 w-5" />}
+              label="Categories Management"
+              isActive={pathname === "/dashboard/categories" || pathname.startsWith("/dashboard/categories/")}
               isIconOnly={isIconOnly}
-              hasSubmenu={true}
-              expanded={expandedMenus.admin}
-              onClick={() => {
-                toggleMenu("admin")
-              }}
+              onClick={undefined}
             />
-
-            {/* Submenu items - only show when not in icon-only mode or when expanded in icon-only mode */}
-            {expandedMenus.admin && !isIconOnly && (
-              <div className="mt-1 space-y-1">
-                <SubNavItem
-                  href="/dashboard/admin/booking"
-                  label="Booking"
-                  isActive={isAdminBookingActive}
-                  onClick={undefined}
-                />
-                <SubNavItem
-                  href="/dashboard/admin/quotations"
-                  label="Quotations"
-                  isActive={isAdminQuotationsActive}
-                  onClick={undefined}
-                />
-                <SubNavItem
-                  href="/dashboard/admin/products"
-                  label="Products"
-                  isActive={isAdminProductsActive}
-                  onClick={undefined}
-                />
-                <SubNavItem
-                  href="/dashboard/admin/clients"
-                  label="Clients"
-                  isActive={isAdminClientsActive}
-                  onClick={undefined}
-                />
-              </div>
-            )}
-          </div>
-          {/* Categories Management Navigation Item */}
-          <NavItem
-            href="/dashboard/categories"
-            icon={<Folders className="h-5 w-5" />}
-            label="Categories Management"
-            isActive={pathname === "/dashboard/categories" || pathname.startsWith("/dashboard/categories/")}
-            isIconOnly={isIconOnly}
-            onClick={undefined}
-          />
+          )}
           {/* Product Controls Navigation Item - Hidden */}
-          {false && (
+          {false && can("database:write") && (
             <NavItem
               href="/dashboard/products"
               icon={<Package className="h-5 w-5" />}
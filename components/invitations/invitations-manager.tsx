@@ -0,0 +1,298 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Copy, Loader2, MailPlus, RefreshCw, Send, XCircle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { authorizedFetch } from "@/lib/api-client"
+import { TenantAccessLevel } from "@/lib/tenant-service"
+import type { Invitation, InvitationStatus } from "@/types/invitation"
+
+const STATUS_VARIANTS: Record<InvitationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  expired: "outline",
+  revoked: "destructive",
+}
+
+export function InvitationsManager() {
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<"pending" | "all">("pending")
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<TenantAccessLevel>(TenantAccessLevel.EDITOR)
+  const [submitting, setSubmitting] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [inviteLink, setInviteLink] = useState<{ email: string; url: string } | null>(null)
+
+  const fetchInvitations = async () => {
+    try {
+      setLoading(true)
+      const response = await authorizedFetch("/api/invitations")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load invitations")
+      }
+
+      setInvitations(
+        data.invitations.map((invitation: any) => ({
+          ...invitation,
+          expires_at: new Date(invitation.expires_at),
+          created_at: new Date(invitation.created_at),
+          updated_at: new Date(invitation.updated_at),
+          accepted_at: invitation.accepted_at ? new Date(invitation.accepted_at) : undefined,
+        })),
+      )
+    } catch (error: any) {
+      console.error("Error fetching invitations:", error)
+      setError(error.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchInvitations()
+  }, [])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSubmitting(true)
+
+    try {
+      const response = await authorizedFetch("/api/invitations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create invitation")
+      }
+
+      setInviteLink({ email: data.invitation.email, url: data.inviteUrl })
+      setEmail("")
+      fetchInvitations()
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleResend = async (invitation: Invitation) => {
+    setError(null)
+    setBusyId(invitation.id)
+
+    try {
+      const response = await authorizedFetch(`/api/invitations/${invitation.id}/resend`, { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resend invitation")
+      }
+
+      setInviteLink({ email: invitation.email, url: data.inviteUrl })
+      fetchInvitations()
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return
+    }
+
+    setError(null)
+    setBusyId(invitation.id)
+
+    try {
+      const response = await authorizedFetch(`/api/invitations/${invitation.id}/revoke`, { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke invitation")
+      }
+
+      if (inviteLink?.email === invitation.email) {
+        setInviteLink(null)
+      }
+      fetchInvitations()
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const visibleInvitations =
+    filter === "pending"
+      ? invitations.filter((invitation) => invitation.status === "pending" || invitation.status === "expired")
+      : invitations
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Invitations</h1>
+        <p className="text-muted-foreground">New admin accounts can only be created from an invitation</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MailPlus className="h-5 w-5" />
+            Invite a user
+          </CardTitle>
+          <CardDescription>Invitations are single-use and expire after 7 days</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleInvite} className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-2 md:w-48">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as TenantAccessLevel)} disabled={submitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TenantAccessLevel.ADMIN}>Admin</SelectItem>
+                  <SelectItem value={TenantAccessLevel.EDITOR}>Editor</SelectItem>
+                  <SelectItem value={TenantAccessLevel.VIEWER}>Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={submitting || !email.trim()}>
+              {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Create Invitation
+            </Button>
+          </form>
+
+          {inviteLink && (
+            <div className="rounded-md border border-green-300 bg-green-50 p-4">
+              <p className="text-sm font-medium text-green-900">Invitation link for {inviteLink.email}</p>
+              <p className="mt-1 text-xs text-green-800">
+                Share this link with the invitee. It is only shown now; resending issues a new link and disables this
+                one.
+              </p>
+              <div className="mt-3 flex gap-2">
+                <Input readOnly value={inviteLink.url} className="font-mono text-xs" />
+                <Button type="button" variant="outline" onClick={() => navigator.clipboard.writeText(inviteLink.url)}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as "pending" | "all")}>
+            <TabsList>
+              <TabsTrigger value="pending">Pending</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={fetchInvitations} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading && invitations.length === 0 ? (
+            <div className="flex h-32 items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : visibleInvitations.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">No invitations to show</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Invited by</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleInvitations.map((invitation) => {
+                  const canChange = invitation.status === "pending" || invitation.status === "expired"
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell className="font-medium">{invitation.email}</TableCell>
+                      <TableCell className="capitalize">{invitation.role.toLowerCase()}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[invitation.status]}>{invitation.status}</Badge>
+                      </TableCell>
+                      <TableCell>{invitation.expires_at.toLocaleDateString()}</TableCell>
+                      <TableCell>{invitation.invited_by_email}</TableCell>
+                      <TableCell className="text-right">
+                        {canChange && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleResend(invitation)}
+                              disabled={busyId === invitation.id}
+                            >
+                              {busyId === invitation.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Resend"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => handleRevoke(invitation)}
+                              disabled={busyId === invitation.id}
+                            >
+                              <XCircle className="mr-1 h-4 w-4" />
+                              Revoke
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import { format } from "date-fns"
+import type { Invoice, InvoiceParty } from "@/types/invoice"
+
+// Invoice as returned by the API, with dates serialized
+export type SerializedInvoice = Omit<
+  Invoice,
+  "periodStart" | "periodEnd" | "issueDate" | "dueDate" | "paidAt" | "created_at"
+> & {
+  periodStart: string
+  periodEnd: string
+  issueDate: string
+  dueDate: string
+  paidAt: string | null
+  created_at: string
+}
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) => format(new Date(date), "MMMM d, yyyy")
+
+function Party({ label, party }: { label: string; party: InvoiceParty }) {
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{label}</p>
+      <p className="mt-1 font-semibold">{party.name}</p>
+      {party.address && <p className="text-sm text-gray-700">{party.address}</p>}
+      {party.email && <p className="text-sm text-gray-700">{party.email}</p>}
+      {party.tin && <p className="text-sm text-gray-700">TIN: {party.tin}</p>}
+    </div>
+  )
+}
+
+// Print-ready invoice layout; the browser's print dialog saves it as PDF
+export function PrintableInvoice({ invoice }: { invoice: SerializedInvoice }) {
+  const statusLabel = invoice.status === "paid" ? "PAID" : invoice.status === "overdue" ? "OVERDUE" : "UNPAID"
+
+  return (
+    <div className="mx-auto max-w-3xl bg-white p-10 text-gray-900 print:p-0">
+      <div className="flex items-start justify-between border-b pb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Invoice</h1>
+          <p className="mt-1 text-gray-600">{invoice.invoiceNumber}</p>
+        </div>
+        <div className="text-right text-sm">
+          <p>
+            <span className="text-gray-500">Issued:</span> {formatDate(invoice.issueDate)}
+          </p>
+          <p>
+            <span className="text-gray-500">Due:</span> {formatDate(invoice.dueDate)}
+          </p>
+          <p
+            className={`mt-2 inline-block rounded border px-2 py-0.5 font-semibold ${
+              invoice.status === "paid"
+                ? "border-green-600 text-green-700"
+                : invoice.status === "overdue"
+                  ? "border-red-600 text-red-700"
+                  : "border-gray-400 text-gray-700"
+            }`}
+          >
+            {statusLabel}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-8 py-6">
+        <Party label="From" party={invoice.issuer} />
+        <Party label="Bill To" party={invoice.billTo} />
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-500">
+            <th className="py-2 font-medium">Description</th>
+            <th className="py-2 text-right font-medium">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-b">
+            <td className="py-3">{invoice.description}</td>
+            <td className="py-3 text-right">{formatCurrency(invoice.subtotal)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="ml-auto mt-4 w-64 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">VATable sales</span>
+          <span>{formatCurrency(invoice.subtotal)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">VAT ({Math.round(invoice.vatRate * 100)}%)</span>
+          <span>{formatCurrency(invoice.vatAmount)}</span>
+        </div>
+        <div className="flex justify-between border-t pt-2 text-base font-semibold">
+          <span>Total ({invoice.currency})</span>
+          <span>{formatCurrency(invoice.total)}</span>
+        </div>
+      </div>
+
+      {invoice.paidAt && (
+        <p className="mt-8 text-sm text-gray-700">
+          Paid on {formatDate(invoice.paidAt)}
+          {invoice.paymentReference && ` (reference: ${invoice.paymentReference})`}
+        </p>
+      )}
+
+      <p className="mt-12 text-xs text-gray-500">
+        Amounts are in Philippine pesos and include {Math.round(invoice.vatRate * 100)}% VAT.
+      </p>
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import type React from "react"
 import { MigrationNavigation } from "./migration-navigation"
 import { MigrationProgressTracker } from "./migration-progress-tracker"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PermissionGuard } from "./permission-guard"
+import { TwoFactorGate } from "./two-factor-gate"
 
 interface MigrationLayoutProps {
   children: React.ReactNode
@@ -11,29 +13,31 @@ interface MigrationLayoutProps {
 }
 
 export function MigrationLayout({ children, showProgressTracker = true }: MigrationLayoutProps) {
+  const tabs = (
+    <Tabs defaultValue="migration" className="space-y-6">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="migration">Migration Tool</TabsTrigger>
+        <TabsTrigger value="progress">Progress Overview</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="migration" className="space-y-6">
+        {children}
+      </TabsContent>
+
+      <TabsContent value="progress" className="space-y-6">
+        <MigrationProgressTracker />
+      </TabsContent>
+    </Tabs>
+  )
+
   return (
     <div className="min-h-screen bg-gray-50">
       <MigrationNavigation />
 
       <div className="container mx-auto px-6 py-6">
-        {showProgressTracker ? (
-          <Tabs defaultValue="migration" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="migration">Migration Tool</TabsTrigger>
-              <TabsTrigger value="progress">Progress Overview</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="migration" className="space-y-6">
-              {children}
-            </TabsContent>
-
-            <TabsContent value="progress" className="space-y-6">
-              <MigrationProgressTracker />
-            </TabsContent>
-          </Tabs>
-        ) : (
-          children
-        )}
+        <PermissionGuard permission="migrations:run">
+          <TwoFactorGate>{showProgressTracker ? tabs : children}</TwoFactorGate>
+        </PermissionGuard>
       </div>
     </div>
   )
@@ -14,6 +14,8 @@ import {
   History,
   Home,
   Code,
+  KeyRound,
+  Link2,
 } from "lucide-react"
 
 const navigationItems = [
@@ -65,6 +67,18 @@ const navigationItems = [
     icon: Code,
     description: "Migrate site code data",
   },
+  {
+    title: "Passwords",
+    href: "/migrate-point-person-passwords",
+    icon: KeyRound,
+    description: "Remove stored point person passwords",
+  },
+  {
+    title: "Licenses",
+    href: "/migrate-license-companies",
+    icon: Link2,
+    description: "Link licenses to companies by ID",
+  },
   {
     title: "Progress",
     href: "/migration-progress",
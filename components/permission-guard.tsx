@@ -0,0 +1,55 @@
+"use client"
+
+import type React from "react"
+import Link from "next/link"
+import { ShieldAlert, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/contexts/auth-context"
+import type { Permission } from "@/lib/permissions"
+
+interface PermissionGuardProps {
+  permission: Permission | null
+  children: React.ReactNode
+}
+
+export function AccessDenied() {
+  const { accessLevel } = useAuth()
+
+  return (
+    <div className="flex h-full min-h-[50vh] items-center justify-center">
+      <div className="max-w-md text-center">
+        <ShieldAlert className="mx-auto h-12 w-12 text-red-500" />
+        <h1 className="mt-4 text-2xl font-bold text-gray-900">Access Denied</h1>
+        <p className="mt-2 text-gray-600">
+          Your role ({accessLevel}) does not have access to this page. Contact an administrator if you need access.
+        </p>
+        <Link href="/dashboard">
+          <Button className="mt-6">Back to Dashboard</Button>
+        </Link>
+      </div>
+    </div>
+  )
+}
+
+// Renders children only when the signed-in user holds the permission
+export function PermissionGuard({ permission, children }: PermissionGuardProps) {
+  const { user, loading, can } = useAuth()
+
+  if (!permission) {
+    return <>{children}</>
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user || !can(permission)) {
+    return <AccessDenied />
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Archive, History, Loader2, Package, Pencil, Plus, RefreshCw, RotateCcw } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { PlanFormDialog } from "@/components/plans/plan-form-dialog"
+import { authorizedFetch } from "@/lib/api-client"
+import { UNLIMITED } from "@/lib/subscription-plans"
+import type { SubscriptionPlan, SubscriptionPlanVersion } from "@/types/subscription"
+
+const formatPrice = (price?: number) => (price === undefined ? "—" : `₱${price.toLocaleString()}`)
+const formatLimit = (limit: number) => (limit >= UNLIMITED ? "Unlimited" : limit.toString())
+
+export function PlanCatalogManager() {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([])
+  const [source, setSource] = useState<"catalog" | "defaults">("catalog")
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<"active" | "all">("active")
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ plan: SubscriptionPlan | null } | null>(null)
+  const [versionsPlan, setVersionsPlan] = useState<SubscriptionPlan | null>(null)
+  const [versions, setVersions] = useState<SubscriptionPlanVersion[]>([])
+  const [loadingVersions, setLoadingVersions] = useState(false)
+
+  const fetchPlans = async () => {
+    try {
+      setLoading(true)
+      const response = await authorizedFetch("/api/subscription-plans?includeRetired=true")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load plans")
+      }
+
+      setPlans(data.plans)
+      setSource(data.source)
+    } catch (error: any) {
+      console.error("Error fetching subscription plans:", error)
+      setError(error.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPlans()
+  }, [])
+
+  const runAction = async (plan: SubscriptionPlan | null, url: string, failureMessage: string) => {
+    setError(null)
+    setBusyId(plan?.id || "seed")
+
+    try {
+      const response = await authorizedFetch(url, { method: "POST" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || failureMessage)
+      }
+
+      fetchPlans()
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSeed = () => runAction(null, "/api/subscription-plans/seed", "Failed to save default plans")
+
+  const handleRetire = (plan: SubscriptionPlan) => {
+    if (confirm(`Retire ${plan.name}? It can no longer be sold; existing subscriptions keep it.`)) {
+      runAction(plan, `/api/subscription-plans/${plan.id}/retire`, "Failed to retire plan")
+    }
+  }
+
+  const handleReactivate = (plan: SubscriptionPlan) =>
+    runAction(plan, `/api/subscription-plans/${plan.id}/reactivate`, "Failed to reactivate plan")
+
+  const openVersions = async (plan: SubscriptionPlan) => {
+    setVersionsPlan(plan)
+    setVersions([])
+    setLoadingVersions(true)
+
+    try {
+      const response = await authorizedFetch(`/api/subscription-plans/${plan.id}`)
+      const data = await response.json()
+      if (response.ok) {
+        setVersions(data.versions)
+      }
+    } catch (error) {
+      console.error("Error fetching plan versions:", error)
+    } finally {
+      setLoadingVersions(false)
+    }
+  }
+
+  const handleSaved = () => {
+    setEditing(null)
+    fetchPlans()
+  }
+
+  const isDefaults = source === "defaults"
+  const visiblePlans = filter === "active" ? plans.filter((plan) => plan.status !== "retired") : plans
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Subscription Plans</h1>
+          <p className="text-muted-foreground">Prices, limits and features offered to clients</p>
+        </div>
+        <Button onClick={() => setEditing({ plan: null })} disabled={isDefaults}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Plan
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isDefaults && !loading && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Using the built-in plans
+            </CardTitle>
+            <CardDescription>
+              The plan catalog is empty, so clients are offered the built-in plans. Save them to the catalog to edit
+              them or add new plans.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={handleSeed} disabled={busyId === "seed"}>
+              {busyId === "seed" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Built-in Plans to Catalog
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as "active" | "all")}>
+            <TabsList>
+              <TabsTrigger value="active">Active</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={fetchPlans} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading && plans.length === 0 ? (
+            <div className="flex h-32 items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : visiblePlans.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">No plans to show</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Monthly</TableHead>
+                  <TableHead>Annual</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Users</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visiblePlans.map((plan) => (
+                  <TableRow key={plan.id}>
+                    <TableCell>
+                      <p className="font-medium">{plan.name}</p>
+                      <p className="text-xs text-muted-foreground">{plan.id}</p>
+                    </TableCell>
+                    <TableCell>{formatPrice(plan.prices.monthly)}</TableCell>
+                    <TableCell>{formatPrice(plan.prices.annually)}</TableCell>
+                    <TableCell>{formatLimit(plan.maxProducts)}</TableCell>
+                    <TableCell>{formatLimit(plan.maxUsers)}</TableCell>
+                    <TableCell>v{plan.version}</TableCell>
+                    <TableCell>
+                      <Badge variant={plan.status === "retired" ? "outline" : "default"}>{plan.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!isDefaults && (
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openVersions(plan)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setEditing({ plan })}>
+                            <Pencil className="mr-1 h-4 w-4" />
+                            Edit
+                          </Button>
+                          {plan.status === "retired" ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleReactivate(plan)}
+                              disabled={busyId === plan.id}
+                            >
+                              <RotateCcw className="mr-1 h-4 w-4" />
+                              Reactivate
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => handleRetire(plan)}
+                              disabled={busyId === plan.id}
+                            >
+                              <Archive className="mr-1 h-4 w-4" />
+                              Retire
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PlanFormDialog
+        open={!!editing}
+        plan={editing?.plan || null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={handleSaved}
+      />
+
+      <Dialog open={!!versionsPlan} onOpenChange={(open) => !open && setVersionsPlan(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{versionsPlan?.name} Versions</DialogTitle>
+            <DialogDescription>Subscriptions are billed at the version they were sold or last changed on.</DialogDescription>
+          </DialogHeader>
+          {loadingVersions ? (
+            <div className="flex h-24 items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-muted-foreground">No versions recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Monthly</TableHead>
+                  <TableHead>Annual</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Users</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => (
+                  <TableRow key={version.version}>
+                    <TableCell>v{version.version}</TableCell>
+                    <TableCell>{formatPrice(version.prices.monthly)}</TableCell>
+                    <TableCell>{formatPrice(version.prices.annually)}</TableCell>
+                    <TableCell>{formatLimit(version.maxProducts)}</TableCell>
+                    <TableCell>{formatLimit(version.maxUsers)}</TableCell>
+                    <TableCell>{format(new Date(version.created_at), "MMM d, yyyy")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
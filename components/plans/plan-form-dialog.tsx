@@ -0,0 +1,279 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { authorizedFetch } from "@/lib/api-client"
+import { type PlanFieldErrors, hasPlanFieldErrors, validatePlanInput } from "@/lib/plan-validation"
+import { UNLIMITED } from "@/lib/subscription-plans"
+import type { SubscriptionPlan } from "@/types/subscription"
+
+interface PlanFormDialogProps {
+  open: boolean
+  plan: SubscriptionPlan | null // null to create a new plan
+  onOpenChange: (open: boolean) => void
+  onSaved: (plan: SubscriptionPlan) => void
+}
+
+interface PlanFormData {
+  id: string
+  name: string
+  description: string
+  billingCycle: string
+  monthlyPrice: string
+  annualPrice: string
+  maxProducts: string
+  maxUsers: string
+  features: string // One feature per line
+  buttonText: string
+}
+
+function toFormData(plan: SubscriptionPlan | null): PlanFormData {
+  return {
+    id: plan?.id || "",
+    name: plan?.name || "",
+    description: plan?.description || "",
+    billingCycle: plan?.billingCycle || "monthly",
+    monthlyPrice: plan?.prices.monthly?.toString() ?? "",
+    annualPrice: plan?.prices.annually?.toString() ?? "",
+    maxProducts: plan?.maxProducts.toString() || "",
+    maxUsers: plan?.maxUsers.toString() || "",
+    features: plan?.features.join("\n") || "",
+    buttonText: plan?.buttonText || "Subscribe",
+  }
+}
+
+export function PlanFormDialog({ open, plan, onOpenChange, onSaved }: PlanFormDialogProps) {
+  const [formData, setFormData] = useState<PlanFormData>(toFormData(plan))
+  const [fieldErrors, setFieldErrors] = useState<PlanFieldErrors>({})
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setFormData(toFormData(plan))
+      setFieldErrors({})
+      setError(null)
+    }
+  }, [open, plan])
+
+  const handleChange = (field: keyof PlanFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] ? <p className="text-sm text-red-600">{fieldErrors[field]}</p> : null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const input = {
+      id: formData.id.trim(),
+      name: formData.name,
+      description: formData.description,
+      billingCycle: formData.billingCycle,
+      prices: { monthly: formData.monthlyPrice, annually: formData.annualPrice },
+      maxProducts: formData.maxProducts,
+      maxUsers: formData.maxUsers,
+      features: formData.features.split("\n"),
+      buttonText: formData.buttonText,
+    }
+
+    const errors = validatePlanInput(input, { requireId: !plan })
+    setFieldErrors(errors)
+    if (hasPlanFieldErrors(errors)) {
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await authorizedFetch(plan ? `/api/subscription-plans/${plan.id}` : "/api/subscription-plans", {
+        method: plan ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        throw new Error(data.error || "Failed to save plan")
+      }
+
+      onSaved(data.plan)
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{plan ? `Edit ${plan.name}` : "New Plan"}</DialogTitle>
+            <DialogDescription>
+              {plan
+                ? `Saving creates version ${plan.version + 1}. Existing subscriptions stay on the version they bought.`
+                : "The plan is available for new clients as soon as it is saved."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4 md:grid-cols-2">
+            {error && (
+              <Alert variant="destructive" className="md:col-span-2">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-id">Plan ID</Label>
+              <Input
+                id="plan-id"
+                value={formData.id}
+                onChange={(e) => handleChange("id", e.target.value)}
+                placeholder="team-plus"
+                disabled={!!plan}
+                aria-invalid={!!fieldErrors.id}
+              />
+              {renderFieldError("id")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-name">Name</Label>
+              <Input
+                id="plan-name"
+                value={formData.name}
+                onChange={(e) => handleChange("name", e.target.value)}
+                aria-invalid={!!fieldErrors.name}
+              />
+              {renderFieldError("name")}
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Input
+                id="plan-description"
+                value={formData.description}
+                onChange={(e) => handleChange("description", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Default Billing Cycle</Label>
+              <Select value={formData.billingCycle} onValueChange={(value) => handleChange("billingCycle", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="annually">Annually</SelectItem>
+                  <SelectItem value="N/A">Free / trial</SelectItem>
+                </SelectContent>
+              </Select>
+              {renderFieldError("billingCycle")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-button">Button Text</Label>
+              <Input
+                id="plan-button"
+                value={formData.buttonText}
+                onChange={(e) => handleChange("buttonText", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-monthly">Monthly Price (₱)</Label>
+              <Input
+                id="plan-monthly"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.monthlyPrice}
+                onChange={(e) => handleChange("monthlyPrice", e.target.value)}
+                placeholder="Converted from the annual price"
+                aria-invalid={!!fieldErrors["prices.monthly"]}
+              />
+              {renderFieldError("prices.monthly")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-annual">Annual Price (₱)</Label>
+              <Input
+                id="plan-annual"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.annualPrice}
+                onChange={(e) => handleChange("annualPrice", e.target.value)}
+                placeholder="Converted from the monthly price"
+                aria-invalid={!!fieldErrors["prices.annually"]}
+              />
+              {renderFieldError("prices.annually")}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan-products">Product Limit</Label>
+              <Input
+                id="plan-products"
+                type="number"
+                min="1"
+                value={formData.maxProducts}
+                onChange={(e) => handleChange("maxProducts", e.target.value)}
+                placeholder={`${UNLIMITED} for unlimited`}
+                aria-invalid={!!fieldErrors.maxProducts}
+              />
+              {renderFieldError("maxProducts")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-users">User Limit</Label>
+              <Input
+                id="plan-users"
+                type="number"
+                min="1"
+                value={formData.maxUsers}
+                onChange={(e) => handleChange("maxUsers", e.target.value)}
+                placeholder={`${UNLIMITED} for unlimited`}
+                aria-invalid={!!fieldErrors.maxUsers}
+              />
+              {renderFieldError("maxUsers")}
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="plan-features">Features</Label>
+              <Textarea
+                id="plan-features"
+                rows={5}
+                value={formData.features}
+                onChange={(e) => handleChange("features", e.target.value)}
+                placeholder="One feature per line"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {plan ? "Save New Version" : "Create Plan"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
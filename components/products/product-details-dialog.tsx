@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Calendar, MapPin, Star, Package, User, Tag, Clock, CheckCircle, XCircle } from "lucide-react"
+import { OccupancyCalendar } from "@/components/bookings/occupancy-calendar"
 import type { Product } from "@/types/product"
 
 interface ProductDetailsDialogProps {
@@ -108,11 +109,12 @@ export function ProductDetailsDialog({ product, isOpen, onClose }: ProductDetail
         </div>
 
         <Tabs defaultValue="details" value={activeTab} onValueChange={setActiveTab} className="mt-4">
-          <TabsList className="grid grid-cols-4">
+          <TabsList className="grid grid-cols-5">
             <TabsTrigger value="details">Details</TabsTrigger>
             <TabsTrigger value="media">Media</TabsTrigger>
             <TabsTrigger value="specs">Specifications</TabsTrigger>
             <TabsTrigger value="metadata">Metadata</TabsTrigger>
+            <TabsTrigger value="occupancy">Occupancy</TabsTrigger>
           </TabsList>
 
           <TabsContent value="details" className="space-y-4 mt-4">
@@ -319,6 +321,10 @@ export function ProductDetailsDialog({ product, isOpen, onClose }: ProductDetail
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="occupancy" className="space-y-4 mt-4">
+            <OccupancyCalendar productId={product.id} />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
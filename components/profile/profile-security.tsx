@@ -9,8 +9,12 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Loader2, AlertCircle, CheckCircle, Eye, EyeOff } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, AlertCircle, CheckCircle, Eye, EyeOff, ShieldCheck, Copy } from "lucide-react"
+import { QRCodeSVG } from "qrcode.react"
 import { updateUserPassword } from "@/lib/profile"
+import { authorizedFetch, setTwoFactorSession } from "@/lib/api-client"
+import { useAuth } from "@/contexts/auth-context"
 
 // Define the password change schema with validation
 const passwordFormSchema = z
@@ -38,6 +42,15 @@ export function ProfileSecurity() {
   const [showNewPassword, setShowNewPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
 
+  // Two-factor authentication state
+  const { twoFactor, refreshTwoFactorStatus } = useAuth()
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isDisabling, setIsDisabling] = useState(false)
+  const [twoFactorBusy, setTwoFactorBusy] = useState(false)
+  const [twoFactorStatus, setTwoFactorStatus] = useState<{ type: "success" | "error"; message: string } | null>(null)
+
   // Initialize form
   const form = useForm<PasswordFormValues>({
     resolver: zodResolver(passwordFormSchema),
@@ -75,6 +88,72 @@ export function ProfileSecurity() {
     }
   }
 
+  // POST to a two-factor endpoint and surface errors in the two-factor card
+  const postTwoFactor = async (path: string, body?: Record<string, string>) => {
+    setTwoFactorBusy(true)
+    setTwoFactorStatus(null)
+
+    try {
+      const response = await authorizedFetch(`/api/auth/two-factor/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body || {}),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setTwoFactorStatus({ type: "error", message: data.error || "Request failed" })
+        return null
+      }
+
+      return data
+    } catch (error: any) {
+      setTwoFactorStatus({ type: "error", message: error.message || "Request failed" })
+      return null
+    } finally {
+      setTwoFactorBusy(false)
+    }
+  }
+
+  const handleStartEnrollment = async () => {
+    const data = await postTwoFactor("setup")
+    if (data) {
+      setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri })
+      setTwoFactorCode("")
+    }
+  }
+
+  const handleConfirmEnrollment = async () => {
+    const data = await postTwoFactor("enable", { code: twoFactorCode })
+    if (data) {
+      setTwoFactorSession(data.sessionToken)
+      setEnrollment(null)
+      setTwoFactorCode("")
+      setRecoveryCodes(data.recoveryCodes)
+      setTwoFactorStatus({ type: "success", message: "Two-factor authentication is now enabled" })
+      await refreshTwoFactorStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    const data = await postTwoFactor("disable", { code: twoFactorCode })
+    if (data) {
+      setIsDisabling(false)
+      setTwoFactorCode("")
+      setRecoveryCodes(null)
+      setTwoFactorStatus({ type: "success", message: "Two-factor authentication has been disabled" })
+      await refreshTwoFactorStatus()
+    }
+  }
+
+  const handleRegenerateRecoveryCodes = async () => {
+    const data = await postTwoFactor("recovery-codes")
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes)
+      await refreshTwoFactorStatus()
+    }
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -209,18 +288,169 @@ export function ProfileSecurity() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardTitle className="flex items-center gap-2">
+            Two-Factor Authentication
+            {twoFactor?.enabled && (
+              <Badge variant="outline" className="border-green-500 text-green-700">
+                Enabled
+              </Badge>
+            )}
+          </CardTitle>
           <CardDescription>Add an extra layer of security to your account</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col space-y-4">
+            {twoFactorStatus && (
+              <Alert
+                variant={twoFactorStatus.type === "error" ? "destructive" : "default"}
+                className={twoFactorStatus.type === "success" ? "border-green-500 bg-green-50" : ""}
+              >
+                {twoFactorStatus.type === "error" ? (
+                  <AlertCircle className="h-4 w-4" />
+                ) : (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                )}
+                <AlertDescription className={twoFactorStatus.type === "success" ? "text-green-700" : ""}>
+                  {twoFactorStatus.message}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {twoFactor?.required && !twoFactor.enabled && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Your organization requires two-factor authentication for administrator accounts. Enable it to
+                  continue using the dashboard.
+                </AlertDescription>
+              </Alert>
+            )}
+
             <p className="text-sm text-muted-foreground">
               Two-factor authentication adds an extra layer of security to your account by requiring more than just a
               password to sign in.
             </p>
-            <Button variant="outline" disabled>
-              Enable Two-Factor Authentication (Coming Soon)
-            </Button>
+
+            {/* Recovery codes are only shown once, right after they are generated */}
+            {recoveryCodes && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-4">
+                <p className="text-sm font-medium text-amber-900">Save your recovery codes</p>
+                <p className="mt-1 text-xs text-amber-800">
+                  Each code can be used once if you lose access to your authenticator app. They will not be shown
+                  again.
+                </p>
+                <div className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <div className="mt-3 flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}
+                  >
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy
+                  </Button>
+                  <Button type="button" size="sm" onClick={() => setRecoveryCodes(null)}>
+                    I have saved them
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {!twoFactor?.enabled && !enrollment && (
+              <Button variant="outline" onClick={handleStartEnrollment} disabled={twoFactorBusy}>
+                {twoFactorBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                Enable Two-Factor Authentication
+              </Button>
+            )}
+
+            {!twoFactor?.enabled && enrollment && (
+              <div className="space-y-4">
+                <p className="text-sm">
+                  Scan this QR code with an authenticator app such as Google Authenticator or 1Password, then enter the
+                  6-digit code it shows.
+                </p>
+                <div className="flex flex-col items-center gap-3 md:flex-row md:items-start">
+                  <div className="rounded-md border bg-white p-3">
+                    <QRCodeSVG value={enrollment.otpauthUri} size={160} />
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    <p className="text-muted-foreground">Can&apos;t scan it? Enter this key manually:</p>
+                    <p className="break-all font-mono font-medium">{enrollment.secret.match(/.{1,4}/g)?.join(" ")}</p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="123456"
+                    autoComplete="one-time-code"
+                    inputMode="numeric"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    disabled={twoFactorBusy}
+                    className="max-w-[160px] tracking-widest"
+                  />
+                  <Button onClick={handleConfirmEnrollment} disabled={twoFactorBusy || !twoFactorCode.trim()}>
+                    {twoFactorBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Confirm
+                  </Button>
+                  <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={twoFactorBusy}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {twoFactor?.enabled && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {twoFactor.recoveryCodesRemaining} recovery code{twoFactor.recoveryCodesRemaining === 1 ? "" : "s"}{" "}
+                  remaining.
+                </p>
+                {isDisabling ? (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Current 6-digit code"
+                      autoComplete="one-time-code"
+                      inputMode="numeric"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      disabled={twoFactorBusy}
+                      className="max-w-[200px] tracking-widest"
+                    />
+                    <Button variant="destructive" onClick={handleDisable} disabled={twoFactorBusy || !twoFactorCode.trim()}>
+                      {twoFactorBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Disable
+                    </Button>
+                    <Button variant="ghost" onClick={() => setIsDisabling(false)} disabled={twoFactorBusy}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={handleRegenerateRecoveryCodes} disabled={twoFactorBusy}>
+                      Regenerate Recovery Codes
+                    </Button>
+                    {!twoFactor.required && (
+                      <Button
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => {
+                          setTwoFactorCode("")
+                          setIsDisabling(true)
+                        }}
+                        disabled={twoFactorBusy}
+                      >
+                        Disable Two-Factor Authentication
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
@@ -24,30 +24,25 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
+  ArrowRight,
+  Loader2,
 } from "lucide-react"
+import { QuotationWorkflowPanel } from "@/components/quotations/quotation-workflow-panel"
+import { QuotesPanel } from "@/components/quotations/quotes-panel"
+import { authorizedFetch } from "@/lib/api-client"
+import type { QuotationNote, QuotationRequest, QuotationStatusChange } from "@/types/quotation"
 
-interface QuotationRequest {
-  id: string
-  break_date: any
-  company: string
-  company_address: string
-  company_id: string
-  contact_number: string
-  created: any
-  email_address: string
-  end_date: any
-  name: string
-  position: string
-  product_id: string
-  product_ref: any
-  start_date: any
-  status: "PENDING" | "APPROVED" | "REJECTED" | "PROCESSING"
-}
+// Status change as returned by the API, with dates serialized
+type StatusChangeRow = Omit<QuotationStatusChange, "created_at"> & { created_at: string }
+
+// Note as returned by the API, with dates serialized
+type NoteRow = Omit<QuotationNote, "created_at"> & { created_at: string }
 
 interface QuotationMemberDetailsDialogProps {
   quotation: QuotationRequest | null
   open: boolean
   onOpenChange: (open: boolean) => void
+  onQuotationChange?: (quotation: QuotationRequest) => void // Called after a status or assignment change
 }
 
 const statusConfig = {
@@ -57,11 +52,55 @@ const statusConfig = {
   PROCESSING: { color: "bg-blue-100 text-blue-800 border-blue-200", icon: AlertCircle },
 }
 
-export function QuotationMemberDetailsDialog({ quotation, open, onOpenChange }: QuotationMemberDetailsDialogProps) {
+export function QuotationMemberDetailsDialog({
+  quotation: initialQuotation,
+  open,
+  onOpenChange,
+  onQuotationChange,
+}: QuotationMemberDetailsDialogProps) {
   const [copiedField, setCopiedField] = useState<string | null>(null)
+  const [quotation, setQuotation] = useState<QuotationRequest | null>(initialQuotation)
+  const [history, setHistory] = useState<StatusChangeRow[]>([])
+  const [notes, setNotes] = useState<NoteRow[]>([])
+  const [loadingActivity, setLoadingActivity] = useState(false)
+
+  const fetchActivity = async (quotationId: string) => {
+    try {
+      setLoadingActivity(true)
+      const response = await authorizedFetch(`/api/quotations/${quotationId}/activity`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the request history")
+      }
+      setHistory(data.history)
+      setNotes(data.notes)
+    } catch (error) {
+      console.error("Error fetching quotation activity:", error)
+    } finally {
+      setLoadingActivity(false)
+    }
+  }
+
+  useEffect(() => {
+    setQuotation(initialQuotation)
+  }, [initialQuotation])
+
+  useEffect(() => {
+    setHistory([])
+    setNotes([])
+    if (open && initialQuotation) {
+      fetchActivity(initialQuotation.id)
+    }
+  }, [open, initialQuotation?.id])
 
   if (!quotation) return null
 
+  const updateQuotation = (changes: Partial<QuotationRequest>) => {
+    const updated = { ...quotation, ...changes }
+    setQuotation(updated)
+    onQuotationChange?.(updated)
+  }
+
   const copyToClipboard = async (text: string, field: string) => {
     try {
       await navigator.clipboard.writeText(text)
@@ -142,10 +181,12 @@ export function QuotationMemberDetailsDialog({ quotation, open, onOpenChange }:
 
         <ScrollArea className="max-h-[70vh] pr-4">
           <Tabs defaultValue="personal" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="personal">Personal Info</TabsTrigger>
               <TabsTrigger value="company">Company</TabsTrigger>
               <TabsTrigger value="quotation">Quotation</TabsTrigger>
+              <TabsTrigger value="workflow">Workflow</TabsTrigger>
+              <TabsTrigger value="quotes">Quotes</TabsTrigger>
               <TabsTrigger value="timeline">Timeline</TabsTrigger>
             </TabsList>
 
@@ -387,6 +428,19 @@ export function QuotationMemberDetailsDialog({ quotation, open, onOpenChange }:
               </Card>
             </TabsContent>
 
+            <TabsContent value="workflow" className="space-y-4">
+              <QuotationWorkflowPanel
+                quotation={quotation}
+                notes={notes}
+                onQuotationChange={updateQuotation}
+                onActivityChange={() => fetchActivity(quotation.id)}
+              />
+            </TabsContent>
+
+            <TabsContent value="quotes" className="space-y-4">
+              <QuotesPanel quotation={quotation} onQuotationChange={updateQuotation} />
+            </TabsContent>
+
             <TabsContent value="timeline" className="space-y-4">
               <Card>
                 <CardHeader>
@@ -408,6 +462,32 @@ export function QuotationMemberDetailsDialog({ quotation, open, onOpenChange }:
                       </div>
                     </div>
 
+                    {loadingActivity ? (
+                      <div className="flex justify-center p-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : (
+                      [...history].reverse().map((change) => (
+                        <div key={change.id} className="flex items-start gap-4 p-4 bg-gray-50 rounded-lg">
+                          <div className="flex-shrink-0 w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
+                            <ArrowRight className="h-4 w-4 text-gray-600" />
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <StatusBadge status={change.from} />
+                              <ArrowRight className="h-3 w-3 text-gray-400" />
+                              <StatusBadge status={change.to} />
+                            </div>
+                            <p className="text-sm text-gray-700 mt-1">{formatDate(change.created_at)}</p>
+                            <p className="text-xs text-gray-600">By {change.actor_email || change.actor_uid}</p>
+                            {change.reason && (
+                              <p className="text-xs text-gray-600 mt-1 whitespace-pre-wrap">Reason: {change.reason}</p>
+                            )}
+                          </div>
+                        </div>
+                      ))
+                    )}
+
                     <div className="flex items-start gap-4 p-4 bg-gray-50 rounded-lg">
                       <div className="flex-shrink-0 w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
                         <AlertCircle className="h-4 w-4 text-gray-600" />
@@ -417,7 +497,12 @@ export function QuotationMemberDetailsDialog({ quotation, open, onOpenChange }:
                         <div className="mt-1">
                           <StatusBadge status={quotation.status} />
                         </div>
-                        <p className="text-xs text-gray-600 mt-1">Last updated: {formatDate(quotation.created)}</p>
+                        <p className="text-xs text-gray-600 mt-1">
+                          Last updated: {formatDate(quotation.status_updated_at || quotation.created)}
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          Assigned to: {quotation.assigned_to?.name || "Unassigned"}
+                        </p>
                       </div>
                     </div>
 
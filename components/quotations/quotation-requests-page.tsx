@@ -0,0 +1,449 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Building,
+  Building2,
+  Mail,
+  Phone,
+  FileText,
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  XCircle,
+  Grid3X3,
+  List,
+} from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import {
+  RecordSearchFields,
+  RecordSearchPager,
+  type RecordFilterOption,
+} from "@/components/bookings/record-search-controls"
+import { QuotationMemberDetailsDialog } from "@/components/quotations/quotation-member-details-dialog"
+import { hasActiveRecordFilters, useRecordSearch } from "@/hooks/use-record-search"
+import type { QuotationRequest } from "@/types/quotation"
+
+const statusConfig = {
+  PENDING: { color: "bg-yellow-100 text-yellow-800 border-yellow-200", icon: Clock },
+  APPROVED: { color: "bg-green-100 text-green-800 border-green-200", icon: CheckCircle },
+  REJECTED: { color: "bg-red-100 text-red-800 border-red-200", icon: XCircle },
+  PROCESSING: { color: "bg-blue-100 text-blue-800 border-blue-200", icon: AlertCircle },
+}
+
+const STATUS_OPTIONS: RecordFilterOption[] = [
+  { value: "PENDING", label: "Pending" },
+  { value: "PROCESSING", label: "Processing" },
+  { value: "APPROVED", label: "Approved" },
+  { value: "REJECTED", label: "Rejected" },
+]
+
+const PAGE_SIZE = 12
+
+const formatDate = (timestamp: any) => {
+  if (!timestamp) return "N/A"
+  const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp)
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+interface QuotationRequestsPageProps {
+  title: string
+  description: string
+}
+
+// The quotation request list, shared by the admin and immigration dashboards
+export function QuotationRequestsPage({ title, description }: QuotationRequestsPageProps) {
+  const search = useRecordSearch<QuotationRequest>("quotations", PAGE_SIZE)
+  const { records: quotations, setRecords: setQuotations, loading, error, filters } = search
+  const [viewMode, setViewMode] = useState<"list" | "card">("list")
+
+  const [selectedQuotation, setSelectedQuotation] = useState<QuotationRequest | null>(null)
+  const [detailsDialogOpen, setDetailsDialogOpen] = useState(false)
+
+  const getStatusCounts = () => {
+    const counts = {
+      total: quotations.length,
+      pending: quotations.filter((q) => q.status === "PENDING").length,
+      approved: quotations.filter((q) => q.status === "APPROVED").length,
+      processing: quotations.filter((q) => q.status === "PROCESSING").length,
+    }
+    return counts
+  }
+
+  const StatusBadge = ({ status }: { status: string }) => {
+    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.PENDING
+    const Icon = config.icon
+
+    return (
+      <Badge variant="outline" className={`${config.color} border`}>
+        <Icon className="h-3 w-3 mr-1" />
+        {status}
+      </Badge>
+    )
+  }
+
+  const handleMemberClick = (quotation: QuotationRequest) => {
+    setSelectedQuotation(quotation)
+    setDetailsDialogOpen(true)
+  }
+
+  // Keep the list in step with changes made in the details dialog
+  const handleQuotationChange = (updated: QuotationRequest) => {
+    setQuotations((prev) => prev.map((quotation) => (quotation.id === updated.id ? updated : quotation)))
+    setSelectedQuotation(updated)
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Error Loading Quotations</h3>
+            <p className="text-muted-foreground mb-4">{error}</p>
+            <Button onClick={search.refresh}>Try Again</Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">{title}</h2>
+          <p className="text-muted-foreground">{description}</p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Quotations</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{search.pagination.totalCount}</div>
+            <p className="text-xs text-muted-foreground">All time requests</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pending</CardTitle>
+            <Clock className="h-4 w-4 text-yellow-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{getStatusCounts().pending}</div>
+            <p className="text-xs text-muted-foreground">Awaiting review</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Processing</CardTitle>
+            <AlertCircle className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{getStatusCounts().processing}</div>
+            <p className="text-xs text-muted-foreground">In progress</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Approved</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{getStatusCounts().approved}</div>
+            <p className="text-xs text-muted-foreground">Completed</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters and View Toggle */}
+      <RecordSearchFields
+        kind="quotations"
+        values={filters}
+        onChange={search.setFilter}
+        onReset={search.resetFilters}
+        statusOptions={STATUS_OPTIONS}
+      >
+        {/* View Toggle */}
+        <Button variant={viewMode === "list" ? "default" : "outline"} size="sm" onClick={() => setViewMode("list")}>
+          <List className="h-4 w-4" />
+        </Button>
+        <Button variant={viewMode === "card" ? "default" : "outline"} size="sm" onClick={() => setViewMode("card")}>
+          <Grid3X3 className="h-4 w-4" />
+        </Button>
+      </RecordSearchFields>
+
+      {/* Content */}
+      {loading ? (
+        viewMode === "list" ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Submitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Array.from({ length: PAGE_SIZE }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell>
+                      <Skeleton className="h-4 w-32" />
+                    </TableCell>
+                    <TableCell>
+                      <Skeleton className="h-4 w-24" />
+                    </TableCell>
+                    <TableCell>
+                      <Skeleton className="h-4 w-36" />
+                    </TableCell>
+                    <TableCell>
+                      <Skeleton className="h-6 w-20" />
+                    </TableCell>
+                    <TableCell>
+                      <Skeleton className="h-4 w-28" />
+                    </TableCell>
+                    <TableCell>
+                      <Skeleton className="h-4 w-20" />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {Array.from({ length: PAGE_SIZE }).map((_, i) => (
+              <Card key={i}>
+                <CardHeader>
+                  <Skeleton className="h-4 w-3/4" />
+                  <Skeleton className="h-3 w-1/2" />
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Skeleton className="h-3 w-full" />
+                  <Skeleton className="h-3 w-2/3" />
+                  <Skeleton className="h-3 w-1/2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )
+      ) : quotations.length === 0 ? (
+        <div className="text-center py-12">
+          <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No quotations found</h3>
+          <p className="text-muted-foreground">
+            {hasActiveRecordFilters(filters)
+              ? "Try adjusting your search or filter criteria."
+              : "No quotation requests have been submitted yet."}
+          </p>
+        </div>
+      ) : viewMode === "list" ? (
+        <div className="rounded-md border bg-white shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">
+                  <div className="flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    Name & Position
+                  </div>
+                </TableHead>
+                <TableHead className="font-semibold">
+                  <div className="flex items-center gap-2">
+                    <Building className="h-4 w-4" />
+                    Company
+                  </div>
+                </TableHead>
+                <TableHead className="font-semibold">
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4" />
+                    Contact
+                  </div>
+                </TableHead>
+                <TableHead className="font-semibold">Status</TableHead>
+                <TableHead className="font-semibold">Dates</TableHead>
+                <TableHead className="font-semibold">Product ID</TableHead>
+                <TableHead className="font-semibold">Submitted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotations.map((quotation) => (
+                <TableRow key={quotation.id} className="hover:bg-muted/30 transition-colors">
+                  <TableCell>
+                    <div
+                      className="font-medium cursor-pointer hover:text-blue-600 hover:underline transition-colors"
+                      onClick={() => handleMemberClick(quotation)}
+                    >
+                      {quotation.name}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{quotation.position}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>
+                      <div className="font-medium">{quotation.company}</div>
+                      <div className="text-xs text-muted-foreground">ID: {quotation.company_id}</div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <div className="flex items-center text-sm">
+                        <Mail className="h-3 w-3 mr-1 text-muted-foreground" />
+                        <span className="truncate max-w-[200px]">{quotation.email_address}</span>
+                      </div>
+                      <div className="flex items-center text-sm">
+                        <Phone className="h-3 w-3 mr-1 text-muted-foreground" />
+                        <span>{quotation.contact_number}</span>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={quotation.status} />
+                    {quotation.assigned_to && (
+                      <div className="text-xs text-muted-foreground mt-1">{quotation.assigned_to.name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm space-y-1">
+                      <div>Start: {formatDate(quotation.start_date)}</div>
+                      <div>End: {formatDate(quotation.end_date)}</div>
+                      {quotation.break_date && (
+                        <div className="text-muted-foreground">Break: {formatDate(quotation.break_date)}</div>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <span className="font-mono text-xs bg-muted px-2 py-1 rounded">{quotation.product_id}</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">
+                      {quotation.created && formatDistanceToNow(new Date(quotation.created), { addSuffix: true })}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {quotations.map((quotation) => (
+            <Card key={quotation.id} className="hover:shadow-lg transition-shadow">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <CardTitle className="text-lg line-clamp-1">{quotation.name}</CardTitle>
+                    <CardDescription className="text-sm">
+                      {quotation.position} at {quotation.company}
+                    </CardDescription>
+                    <CardDescription className="text-xs text-muted-foreground mt-1">
+                      ID: {quotation.company_id}
+                    </CardDescription>
+                  </div>
+                  <StatusBadge status={quotation.status} />
+                </div>
+              </CardHeader>
+
+              <CardContent className="space-y-3">
+                {/* Contact Information */}
+                <div className="space-y-2">
+                  <div className="flex items-center text-sm">
+                    <Mail className="h-3 w-3 mr-2 text-muted-foreground" />
+                    <span className="truncate">{quotation.email_address}</span>
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <Phone className="h-3 w-3 mr-2 text-muted-foreground" />
+                    <span>{quotation.contact_number}</span>
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <Building className="h-3 w-3 mr-2 text-muted-foreground" />
+                    <span className="truncate">{quotation.company_address}</span>
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <Building2 className="h-3 w-3 mr-2 text-muted-foreground" />
+                    <span className="font-medium">Company ID: {quotation.company_id}</span>
+                  </div>
+                </div>
+
+                {/* Dates */}
+                <div className="space-y-2 pt-2 border-t">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">Start Date:</span>
+                    <span className="font-medium">{formatDate(quotation.start_date)}</span>
+                  </div>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">End Date:</span>
+                    <span className="font-medium">{formatDate(quotation.end_date)}</span>
+                  </div>
+                  {quotation.break_date && (
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-muted-foreground">Break Date:</span>
+                      <span className="font-medium">{formatDate(quotation.break_date)}</span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Product Reference */}
+                <div className="pt-2 border-t">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">Product ID:</span>
+                    <span className="font-mono text-xs bg-muted px-2 py-1 rounded">{quotation.product_id}</span>
+                  </div>
+                </div>
+
+                {/* Created Date */}
+                <div className="flex items-center justify-between text-xs pt-2 border-t">
+                  <span className="text-muted-foreground">Submitted:</span>
+                  <span className="font-medium">
+                    {quotation.created && formatDistanceToNow(new Date(quotation.created), { addSuffix: true })}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      <RecordSearchPager
+        kind="quotations"
+        page={search.page}
+        totalPages={search.totalPages}
+        shown={quotations.length}
+        pagination={search.pagination}
+        loading={loading}
+        onPrevious={search.previousPage}
+        onNext={search.nextPage}
+      />
+
+      {/* Member Details Dialog */}
+      <QuotationMemberDetailsDialog
+        quotation={selectedQuotation}
+        open={detailsDialogOpen}
+        onOpenChange={setDetailsDialogOpen}
+        onQuotationChange={handleQuotationChange}
+      />
+    </div>
+  )
+}
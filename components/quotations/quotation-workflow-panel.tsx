@@ -0,0 +1,360 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { CalendarCheck, Loader2, MessageSquare, UserCheck, Workflow } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuth } from "@/contexts/auth-context"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import type { QuotationAssignee, QuotationNote, QuotationRequest, QuotationStatus } from "@/types/quotation"
+
+// Mirrors QUOTATION_TRANSITIONS in lib/quotation-workflow, which enforces them
+const TRANSITIONS: Record<QuotationStatus, { to: QuotationStatus; label: string }[]> = {
+  PENDING: [
+    { to: "PROCESSING", label: "Start Processing" },
+    { to: "REJECTED", label: "Reject" },
+  ],
+  PROCESSING: [
+    { to: "APPROVED", label: "Approve" },
+    { to: "REJECTED", label: "Reject" },
+    { to: "PENDING", label: "Back to Pending" },
+  ],
+  APPROVED: [],
+  REJECTED: [{ to: "PENDING", label: "Reopen" }],
+}
+
+const UNASSIGNED = "unassigned"
+
+// Note as returned by the API, with dates serialized
+type NoteRow = Omit<QuotationNote, "created_at"> & { created_at: string }
+
+interface QuotationWorkflowPanelProps {
+  quotation: QuotationRequest
+  notes: NoteRow[]
+  onQuotationChange: (changes: Partial<QuotationRequest>) => void
+  onActivityChange: () => void // Reload the status history and notes
+}
+
+export function QuotationWorkflowPanel({
+  quotation,
+  notes,
+  onQuotationChange,
+  onActivityChange,
+}: QuotationWorkflowPanelProps) {
+  const { user, can } = useAuth()
+  const { toast } = useToast()
+  const canManage = can("quotations:manage")
+
+  const [assignees, setAssignees] = useState<QuotationAssignee[]>([])
+  const [rejecting, setRejecting] = useState(false)
+  const [reason, setReason] = useState("")
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState<"status" | "assignment" | "note" | "booking" | null>(null)
+
+  useEffect(() => {
+    if (!canManage) return
+
+    const fetchAssignees = async () => {
+      try {
+        const response = await authorizedFetch("/api/quotations/assignees")
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load users")
+        }
+        setAssignees(data.assignees)
+      } catch (error) {
+        console.error("Error fetching quotation assignees:", error)
+      }
+    }
+
+    fetchAssignees()
+  }, [canManage])
+
+  useEffect(() => {
+    setRejecting(false)
+    setReason("")
+    setNote("")
+  }, [quotation.id])
+
+  const changeStatus = async (to: QuotationStatus) => {
+    try {
+      setSaving("status")
+      const response = await authorizedFetch(`/api/quotations/${quotation.id}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: to, reason: to === "REJECTED" ? reason : null }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to change the status")
+      }
+
+      onQuotationChange({
+        status: data.quotation.status,
+        rejection_reason: data.quotation.rejection_reason ?? null,
+        status_updated_at: data.quotation.status_updated_at,
+      })
+      onActivityChange()
+      setRejecting(false)
+      setReason("")
+      toast({ title: "Status updated", description: `The request is now ${to.toLowerCase()}.` })
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const assign = async (value: string) => {
+    try {
+      setSaving("assignment")
+      const response = await authorizedFetch(`/api/quotations/${quotation.id}/assignment`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assigneeUid: value === UNASSIGNED ? null : value }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to assign the request")
+      }
+
+      onQuotationChange({ assigned_to: data.quotation.assigned_to ?? null })
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const addNote = async () => {
+    try {
+      setSaving("note")
+      const response = await authorizedFetch(`/api/quotations/${quotation.id}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: note }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add the note")
+      }
+
+      setNote("")
+      onActivityChange()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const convertToBooking = async () => {
+    try {
+      setSaving("booking")
+      const response = await authorizedFetch(`/api/quotations/${quotation.id}/booking`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create the booking")
+      }
+
+      onQuotationChange({ booking_id: data.bookingId })
+      toast({
+        title: "Booking created",
+        description: data.userId
+          ? "The request has been converted into a booking."
+          : "The booking was created, but no account matches the requester's email.",
+      })
+      if (data.conflicts.length > 0) {
+        toast({
+          title: "Double-booked site",
+          description:
+            `The site is also held by ${data.conflicts.length} other booking(s) or request(s) over this period.`,
+          variant: "error",
+        })
+      }
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const transitions = TRANSITIONS[quotation.status] || []
+  // The current assignee may be missing from the list, e.g. an older admin profile without a type
+  const assigneeOptions =
+    quotation.assigned_to && !assignees.some((assignee) => assignee.uid === quotation.assigned_to!.uid)
+      ? [quotation.assigned_to, ...assignees]
+      : assignees
+  const canAssignSelf = !!user && !assigneeOptions.some((assignee) => assignee.uid === user.uid)
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Status
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {quotation.status === "REJECTED" && quotation.rejection_reason && (
+            <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+              <p className="text-sm font-medium text-red-800">Rejection reason</p>
+              <p className="text-sm text-red-700 whitespace-pre-wrap">{quotation.rejection_reason}</p>
+            </div>
+          )}
+
+          {!canManage ? (
+            <p className="text-sm text-muted-foreground">You don't have permission to change this request.</p>
+          ) : transitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Approved requests can no longer be changed.</p>
+          ) : rejecting ? (
+            <div className="space-y-2">
+              <Label htmlFor="rejection-reason">Reason for rejecting</Label>
+              <Textarea
+                id="rejection-reason"
+                value={reason}
+                maxLength={500}
+                placeholder="Shared with the team in the request history"
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setRejecting(false)} disabled={saving === "status"}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => changeStatus("REJECTED")}
+                  disabled={!reason.trim() || saving === "status"}
+                >
+                  {saving === "status" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Reject Request
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {transitions.map(({ to, label }) => (
+                <Button
+                  key={to}
+                  variant={to === "REJECTED" ? "destructive" : to === "PENDING" ? "outline" : "default"}
+                  onClick={() => (to === "REJECTED" ? setRejecting(true) : changeStatus(to))}
+                  disabled={saving === "status"}
+                >
+                  {saving === "status" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {quotation.booking_id ? (
+            <div className="flex items-center gap-2 p-3 bg-emerald-50 rounded-lg border border-emerald-200 text-sm">
+              <CalendarCheck className="h-4 w-4 text-emerald-700" />
+              <span className="text-emerald-800">
+                Converted into booking <span className="font-mono">{quotation.booking_id}</span>
+              </span>
+            </div>
+          ) : (
+            quotation.status === "APPROVED" &&
+            canManage && (
+              <Button onClick={convertToBooking} disabled={saving === "booking"}>
+                {saving === "booking" ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CalendarCheck className="mr-2 h-4 w-4" />
+                )}
+                Convert to Booking
+              </Button>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5" />
+            Assignment
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {canManage ? (
+            <div className="flex items-center gap-2">
+              <Select
+                value={quotation.assigned_to?.uid || UNASSIGNED}
+                onValueChange={assign}
+                disabled={saving === "assignment"}
+              >
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {canAssignSelf && <SelectItem value={user!.uid}>Me ({user!.email})</SelectItem>}
+                  {assigneeOptions.map((assignee) => (
+                    <SelectItem key={assignee.uid} value={assignee.uid}>
+                      {assignee.name}
+                      {assignee.email && assignee.email !== assignee.name ? ` (${assignee.email})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {saving === "assignment" && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+          ) : (
+            <p className="text-sm">{quotation.assigned_to?.name || "Unassigned"}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Internal Notes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canManage && (
+            <div className="space-y-2">
+              <Textarea
+                value={note}
+                maxLength={2000}
+                placeholder="Only visible on the dashboard"
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <div className="flex justify-end">
+                <Button onClick={addNote} disabled={!note.trim() || saving === "note"}>
+                  {saving === "note" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add Note
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {notes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notes yet</p>
+          ) : (
+            <div className="space-y-3">
+              {notes.map((entry) => (
+                <div key={entry.id} className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-sm whitespace-pre-wrap">{entry.body}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {entry.author_email || entry.author_uid} ·{" "}
+                    {format(new Date(entry.created_at), "MMM d, yyyy h:mm a")}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
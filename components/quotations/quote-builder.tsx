@@ -0,0 +1,325 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import { MAX_QUOTE_LINE_ITEMS, RENTAL_DAYS_PER_MONTH, calculateQuoteTotals } from "@/lib/quote-pricing"
+import type { SerializedQuote } from "@/components/quotes/printable-quote"
+import type { QuoteDiscountType } from "@/types/quote"
+
+// Line item as edited in the form; numbers are kept as typed
+interface LineItemRow {
+  description: string
+  quantity: string
+  unitPrice: string
+}
+
+interface QuoteBuilderProps {
+  quotationRequestId: string
+  onIssued: (quote: SerializedQuote) => void
+  onCancel: () => void
+}
+
+const NO_DISCOUNT = "none"
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) => format(new Date(date), "MMM d, yyyy")
+
+export function QuoteBuilder({ quotationRequestId, onIssued, onCancel }: QuoteBuilderProps) {
+  const { toast } = useToast()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [product, setProduct] = useState<{ name: string; monthlyRate: number | null } | null>(null)
+  const [period, setPeriod] = useState<{ start: string | null; end: string | null; breakDate: string | null }>({
+    start: null,
+    end: null,
+    breakDate: null,
+  })
+  const [lineItems, setLineItems] = useState<LineItemRow[]>([])
+  const [discountType, setDiscountType] = useState<QuoteDiscountType | typeof NO_DISCOUNT>(NO_DISCOUNT)
+  const [discountValue, setDiscountValue] = useState("")
+  const [discountLabel, setDiscountLabel] = useState("")
+  const [validUntil, setValidUntil] = useState("")
+  const [notes, setNotes] = useState("")
+
+  useEffect(() => {
+    const fetchDefaults = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await authorizedFetch(`/api/quotations/${quotationRequestId}/quotes/defaults`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to prepare the quote")
+        }
+
+        const { defaults } = data
+        setProduct({ name: defaults.productName, monthlyRate: defaults.monthlyRate })
+        setPeriod({ start: defaults.periodStart, end: defaults.periodEnd, breakDate: defaults.breakDate })
+        setLineItems(
+          defaults.input.lineItems.map((item: { description: string; quantity: number; unitPrice: number }) => ({
+            description: item.description,
+            quantity: String(item.quantity),
+            unitPrice: String(item.unitPrice),
+          })),
+        )
+        setValidUntil(format(new Date(defaults.input.validUntil), "yyyy-MM-dd"))
+      } catch (error: any) {
+        setError(error.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDefaults()
+  }, [quotationRequestId])
+
+  const updateLineItem = (index: number, changes: Partial<LineItemRow>) => {
+    setLineItems((items) => items.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const discount =
+    discountType === NO_DISCOUNT
+      ? null
+      : { type: discountType, value: Number(discountValue) || 0, label: discountLabel }
+  const totals = calculateQuoteTotals(
+    lineItems.map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity) || 0,
+      unitPrice: Number(item.unitPrice) || 0,
+    })),
+    discount,
+  )
+
+  const handleIssue = async () => {
+    try {
+      setSaving(true)
+      const response = await authorizedFetch(`/api/quotations/${quotationRequestId}/quotes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lineItems: lineItems.map((item) => ({
+            description: item.description,
+            quantity: Number(item.quantity),
+            unitPrice: Number(item.unitPrice),
+          })),
+          discount,
+          // Noon local time, so the date doesn't shift across time zones; the quote is valid to the end of that day
+          validUntil: validUntil ? new Date(`${validUntil}T12:00:00`).toISOString() : null,
+          notes,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to issue the quote")
+      }
+
+      toast({ title: "Quote issued", description: `${data.quote.quoteNumber} has been issued.` })
+      onIssued(data.quote)
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-24 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+        <p className="font-medium">{product?.name}</p>
+        <p className="text-muted-foreground">
+          {product?.monthlyRate !== null && product?.monthlyRate !== undefined
+            ? `${formatCurrency(product.monthlyRate)} per month, billed pro rata at ${RENTAL_DAYS_PER_MONTH} days` +
+              " a month"
+            : "The product has no price; enter the rental amount below"}
+        </p>
+        {period.start && period.end && (
+          <p className="text-muted-foreground">
+            {formatDate(period.start)} - {formatDate(period.end)}
+            {period.breakDate && ` · Break ${formatDate(period.breakDate)}`}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_6rem_8rem_7rem_2.5rem] gap-2 text-xs font-medium text-muted-foreground">
+          <span>Description</span>
+          <span>Qty</span>
+          <span>Unit Price</span>
+          <span className="text-right">Amount</span>
+          <span />
+        </div>
+        {lineItems.map((item, index) => (
+          <div key={index} className="grid grid-cols-[1fr_6rem_8rem_7rem_2.5rem] items-center gap-2">
+            <Input
+              value={item.description}
+              maxLength={200}
+              onChange={(e) => updateLineItem(index, { description: e.target.value })}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={item.quantity}
+              onChange={(e) => updateLineItem(index, { quantity: e.target.value })}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={item.unitPrice}
+              onChange={(e) => updateLineItem(index, { unitPrice: e.target.value })}
+            />
+            <span className="text-right text-sm">{formatCurrency(totals.lineItems[index]?.amount || 0)}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLineItems((items) => items.filter((_, i) => i !== index))}
+              disabled={lineItems.length === 1}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setLineItems((items) => [...items, { description: "", quantity: "1", unitPrice: "0" }])}
+          disabled={lineItems.length >= MAX_QUOTE_LINE_ITEMS}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Line Item
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Discount</Label>
+          <Select value={discountType} onValueChange={(value) => setDiscountType(value as typeof discountType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_DISCOUNT}>No discount</SelectItem>
+              <SelectItem value="percent">Percentage</SelectItem>
+              <SelectItem value="amount">Fixed amount</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {discountType !== NO_DISCOUNT && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="discount-value">{discountType === "percent" ? "Percent" : "Amount (PHP)"}</Label>
+              <Input
+                id="discount-value"
+                type="number"
+                min="0"
+                max={discountType === "percent" ? "100" : undefined}
+                step="0.01"
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-label">Label</Label>
+              <Input
+                id="discount-label"
+                value={discountLabel}
+                maxLength={100}
+                placeholder="e.g. Long-term booking discount"
+                onChange={(e) => setDiscountLabel(e.target.value)}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="valid-until">Valid Until</Label>
+          <Input
+            id="valid-until"
+            type="date"
+            value={validUntil}
+            min={format(new Date(), "yyyy-MM-dd")}
+            onChange={(e) => setValidUntil(e.target.value)}
+          />
+        </div>
+        <div className="ml-auto w-64 space-y-1 text-sm">
+          {totals.discountAmount > 0 && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Gross amount</span>
+                <span>{formatCurrency(totals.grossAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Discount</span>
+                <span>-{formatCurrency(totals.discountAmount)}</span>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">VATable sales</span>
+            <span>{formatCurrency(totals.subtotal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">VAT ({Math.round(totals.vatRate * 100)}%)</span>
+            <span>{formatCurrency(totals.vatAmount)}</span>
+          </div>
+          <div className="flex justify-between border-t pt-1 font-semibold">
+            <span>Total</span>
+            <span>{formatCurrency(totals.total)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="quote-notes">Notes</Label>
+        <Textarea
+          id="quote-notes"
+          value={notes}
+          maxLength={2000}
+          placeholder="Terms or remarks printed on the quote"
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleIssue} disabled={saving || totals.total <= 0 || !validUntil}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Issue Quote
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { FilePlus2, FileSignature, Loader2, Printer } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { QuoteBuilder } from "@/components/quotations/quote-builder"
+import type { SerializedQuote } from "@/components/quotes/printable-quote"
+import { useAuth } from "@/contexts/auth-context"
+import { useToast } from "@/hooks/use-toast"
+import { authorizedFetch } from "@/lib/api-client"
+import type { QuotationRequest } from "@/types/quotation"
+import type { QuoteStatus } from "@/types/quote"
+
+interface QuotesPanelProps {
+  quotation: QuotationRequest
+  onQuotationChange: (changes: Partial<QuotationRequest>) => void
+}
+
+const STATUS_VARIANTS: Record<QuoteStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  issued: "secondary",
+  accepted: "default",
+  declined: "destructive",
+  expired: "outline",
+}
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) => format(new Date(date), "MMM d, yyyy")
+
+export function QuotesPanel({ quotation, onQuotationChange }: QuotesPanelProps) {
+  const { can } = useAuth()
+  const { toast } = useToast()
+  const canManage = can("quotations:manage")
+
+  const [quotes, setQuotes] = useState<SerializedQuote[]>([])
+  const [loading, setLoading] = useState(true)
+  const [building, setBuilding] = useState(false)
+  const [responding, setResponding] = useState<SerializedQuote | null>(null)
+  const [responseNote, setResponseNote] = useState("")
+  const [savingResponse, setSavingResponse] = useState(false)
+
+  const fetchQuotes = async () => {
+    try {
+      setLoading(true)
+      const response = await authorizedFetch(`/api/quotations/${quotation.id}/quotes`)
+      const data = await response.json()
+      if (response.ok) {
+        setQuotes(data.quotes)
+      } else {
+        console.error("Error fetching quotes:", data.error)
+      }
+    } catch (error) {
+      console.error("Error fetching quotes:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setBuilding(false)
+    fetchQuotes()
+  }, [quotation.id])
+
+  const handleIssued = (quote: SerializedQuote) => {
+    setBuilding(false)
+    setQuotes((current) => [quote, ...current])
+    onQuotationChange({ latest_quote_id: quote.id })
+  }
+
+  const handleRespond = async (accepted: boolean) => {
+    if (!responding) return
+
+    setSavingResponse(true)
+    try {
+      const response = await authorizedFetch(`/api/quotes/${responding.id}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accepted, note: responseNote }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to record the response")
+      }
+
+      toast({
+        title: accepted ? "Quote accepted" : "Quote declined",
+        description: `${data.quote.quoteNumber} has been marked as ${data.quote.status}.`,
+      })
+      setQuotes((current) => current.map((quote) => (quote.id === data.quote.id ? data.quote : quote)))
+      if (accepted) {
+        onQuotationChange({ accepted_quote_id: data.quote.id })
+      }
+      setResponding(null)
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "error" })
+    } finally {
+      setSavingResponse(false)
+    }
+  }
+
+  const canIssue = canManage && quotation.status !== "REJECTED" && !quotation.accepted_quote_id
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="h-5 w-5" />
+          Quotes
+        </CardTitle>
+        {canIssue && !building && (
+          <Button variant="outline" size="sm" onClick={() => setBuilding(true)}>
+            <FilePlus2 className="mr-2 h-4 w-4" />
+            New Quote
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {building && (
+          <div className="rounded-lg border p-4">
+            <QuoteBuilder
+              quotationRequestId={quotation.id}
+              onIssued={handleIssued}
+              onCancel={() => setBuilding(false)}
+            />
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex h-24 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : quotes.length === 0 ? (
+          !building && <p className="text-gray-500">No quotes have been issued</p>
+        ) : (
+          <div className="space-y-3">
+            {quotes.map((quote) => (
+              <div key={quote.id} className="flex items-start justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{quote.quoteNumber}</span>
+                    <Badge variant={STATUS_VARIANTS[quote.status]}>{quote.status}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Issued {formatDate(quote.issueDate)} · Valid until {formatDate(quote.validUntil)}
+                  </p>
+                  {quote.respondedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {quote.status === "accepted" ? "Accepted" : "Declined"} {formatDate(quote.respondedAt)}
+                      {quote.responseNote && ` · ${quote.responseNote}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                  <span className="font-semibold">{formatCurrency(quote.total)}</span>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/quotes/${quote.id}`} target="_blank" rel="noopener noreferrer">
+                        <Printer className="mr-1 h-4 w-4" />
+                        Print
+                      </a>
+                    </Button>
+                    {canManage && (quote.status === "issued" || quote.status === "expired") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setResponding(quote)
+                          setResponseNote("")
+                        }}
+                      >
+                        Record Response
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!responding} onOpenChange={(open) => !open && setResponding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Client Response to {responding?.quoteNumber}</DialogTitle>
+            <DialogDescription>
+              {responding?.status === "expired"
+                ? "This quote has expired; it can only be marked as declined."
+                : `Record whether the client accepted the quote of ${responding && formatCurrency(responding.total)}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="response-note">Note</Label>
+            <Input
+              id="response-note"
+              value={responseNote}
+              maxLength={200}
+              onChange={(e) => setResponseNote(e.target.value)}
+              placeholder="e.g. signed conforme received by email"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleRespond(false)} disabled={savingResponse}>
+              Declined
+            </Button>
+            <Button
+              onClick={() => handleRespond(true)}
+              disabled={savingResponse || responding?.status === "expired" || !!quotation.accepted_quote_id}
+            >
+              {savingResponse && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accepted
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
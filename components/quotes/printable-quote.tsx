@@ -0,0 +1,153 @@
+import { format } from "date-fns"
+import type { InvoiceParty } from "@/types/invoice"
+import type { Quote } from "@/types/quote"
+
+// Quote as returned by the API, with dates serialized
+export type SerializedQuote = Omit<
+  Quote,
+  "periodStart" | "periodEnd" | "breakDate" | "issueDate" | "validUntil" | "respondedAt" | "created_at"
+> & {
+  periodStart: string | null
+  periodEnd: string | null
+  breakDate: string | null
+  issueDate: string
+  validUntil: string
+  respondedAt: string | null
+  created_at: string
+}
+
+const STATUS_STYLES: Record<SerializedQuote["status"], string> = {
+  issued: "border-gray-400 text-gray-700",
+  accepted: "border-green-600 text-green-700",
+  declined: "border-red-600 text-red-700",
+  expired: "border-amber-600 text-amber-700",
+}
+
+const formatCurrency = (amount: number) =>
+  `₱${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) => format(new Date(date), "MMMM d, yyyy")
+
+function Party({ label, party }: { label: string; party: InvoiceParty }) {
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{label}</p>
+      <p className="mt-1 font-semibold">{party.name}</p>
+      {party.address && <p className="text-sm text-gray-700">{party.address}</p>}
+      {party.email && <p className="text-sm text-gray-700">{party.email}</p>}
+      {party.tin && <p className="text-sm text-gray-700">TIN: {party.tin}</p>}
+    </div>
+  )
+}
+
+// Print-ready quote layout; the browser's print dialog saves it as PDF
+export function PrintableQuote({ quote }: { quote: SerializedQuote }) {
+  return (
+    <div className="mx-auto max-w-3xl bg-white p-10 text-gray-900 print:p-0">
+      <div className="flex items-start justify-between border-b pb-6">
+        <div>
+          <p className="text-sm font-semibold uppercase tracking-widest text-primary">{quote.issuer.name}</p>
+          <h1 className="mt-2 text-3xl font-bold">Quotation</h1>
+          <p className="mt-1 text-gray-600">{quote.quoteNumber}</p>
+        </div>
+        <div className="text-right text-sm">
+          <p>
+            <span className="text-gray-500">Issued:</span> {formatDate(quote.issueDate)}
+          </p>
+          <p>
+            <span className="text-gray-500">Valid until:</span> {formatDate(quote.validUntil)}
+          </p>
+          <p className={`mt-2 inline-block rounded border px-2 py-0.5 font-semibold ${STATUS_STYLES[quote.status]}`}>
+            {quote.status.toUpperCase()}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-8 py-6">
+        <Party label="From" party={quote.issuer} />
+        <Party label="Prepared For" party={quote.billTo} />
+      </div>
+
+      {(quote.periodStart || quote.periodEnd) && (
+        <div className="mb-6 rounded border bg-gray-50 p-4 text-sm">
+          <p className="font-semibold">{quote.productName}</p>
+          <p className="text-gray-700">
+            Rental period: {quote.periodStart ? formatDate(quote.periodStart) : "-"} to{" "}
+            {quote.periodEnd ? formatDate(quote.periodEnd) : "-"}
+          </p>
+          {quote.breakDate && <p className="text-gray-700">Break date: {formatDate(quote.breakDate)}</p>}
+        </div>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-500">
+            <th className="py-2 font-medium">Description</th>
+            <th className="py-2 text-right font-medium">Qty</th>
+            <th className="py-2 text-right font-medium">Unit Price</th>
+            <th className="py-2 text-right font-medium">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {quote.lineItems.map((item, index) => (
+            <tr key={index} className="border-b">
+              <td className="py-3">{item.description}</td>
+              <td className="py-3 text-right">{item.quantity}</td>
+              <td className="py-3 text-right">{formatCurrency(item.unitPrice)}</td>
+              <td className="py-3 text-right">{formatCurrency(item.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="ml-auto mt-4 w-72 space-y-1 text-sm">
+        {quote.discountAmount > 0 && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Gross amount</span>
+              <span>{formatCurrency(quote.grossAmount)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">
+                {quote.discount?.label || "Discount"}
+                {quote.discount?.type === "percent" && ` (${quote.discount.value}%)`}
+              </span>
+              <span>-{formatCurrency(quote.discountAmount)}</span>
+            </div>
+          </>
+        )}
+        <div className="flex justify-between">
+          <span className="text-gray-600">VATable sales</span>
+          <span>{formatCurrency(quote.subtotal)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">VAT ({Math.round(quote.vatRate * 100)}%)</span>
+          <span>{formatCurrency(quote.vatAmount)}</span>
+        </div>
+        <div className="flex justify-between border-t pt-2 text-base font-semibold">
+          <span>Total ({quote.currency})</span>
+          <span>{formatCurrency(quote.total)}</span>
+        </div>
+      </div>
+
+      {quote.notes && (
+        <div className="mt-8 text-sm">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Notes</p>
+          <p className="mt-1 whitespace-pre-wrap text-gray-700">{quote.notes}</p>
+        </div>
+      )}
+
+      {quote.respondedAt && (
+        <p className="mt-8 text-sm text-gray-700">
+          {quote.status === "accepted" ? "Accepted" : "Declined"} on {formatDate(quote.respondedAt)}
+          {quote.responseNote && ` (${quote.responseNote})`}
+        </p>
+      )}
+
+      <p className="mt-12 text-xs text-gray-500">
+        Amounts are in Philippine pesos and include {Math.round(quote.vatRate * 100)}% VAT. This quotation is valid
+        until {formatDate(quote.validUntil)}.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { AlertCircle, Loader2 } from "lucide-react"
+import { authorizedFetch } from "@/lib/api-client"
+import { useAuth } from "@/contexts/auth-context"
+
+export function TenantSecurityPolicy() {
+  const { refreshTwoFactorStatus } = useAuth()
+  const [requireTwoFactorForAdmins, setRequireTwoFactorForAdmins] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function loadPolicy() {
+      try {
+        const response = await authorizedFetch("/api/auth/two-factor/policy")
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load security policy")
+        }
+        setRequireTwoFactorForAdmins(data.requireTwoFactorForAdmins)
+      } catch (error: any) {
+        console.error("Error loading security policy:", error)
+        setError(error.message)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPolicy()
+  }, [])
+
+  const handleToggle = async (checked: boolean) => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await authorizedFetch("/api/auth/two-factor/policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requireTwoFactorForAdmins: checked }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update security policy")
+      }
+      setRequireTwoFactorForAdmins(data.requireTwoFactorForAdmins)
+      await refreshTwoFactorStatus()
+    } catch (error: any) {
+      console.error("Error updating security policy:", error)
+      setError(error.message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Security Policy</h2>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="require-two-factor" className="text-base">
+            Require two-factor authentication for administrators
+          </Label>
+          <p className="text-sm text-gray-500">
+            ADMIN accounts must enroll an authenticator app and enter a code at every sign-in.
+          </p>
+        </div>
+        {isLoading || isSaving ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          <Switch
+            id="require-two-factor"
+            checked={requireTwoFactorForAdmins}
+            onCheckedChange={handleToggle}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
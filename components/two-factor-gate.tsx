@@ -0,0 +1,76 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ShieldAlert, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/contexts/auth-context"
+
+interface TwoFactorGateProps {
+  children: React.ReactNode
+  allowEnrollment?: boolean // Render for admins who still have to enroll, as on the security settings page
+}
+
+// Renders children only once the session's two-factor status is known and satisfied; fails closed when it isn't known
+export function TwoFactorGate({ children, allowEnrollment = false }: TwoFactorGateProps) {
+  const { user, loading, twoFactor, refreshTwoFactorStatus, logout } = useAuth()
+  const router = useRouter()
+  const [retrying, setRetrying] = useState(false)
+
+  // Send sessions that still owe a second factor back to login, and admins who must enroll to their security settings
+  const needsSecondFactor = !!twoFactor?.enabled && !twoFactor.verified
+  const needsEnrollment = !!twoFactor?.required && !twoFactor.enabled && !allowEnrollment
+  useEffect(() => {
+    if (loading || !user) return
+
+    if (needsSecondFactor) {
+      router.push("/login?step=two-factor")
+    } else if (needsEnrollment) {
+      router.push("/dashboard/profile?tab=security")
+    }
+  }, [user, loading, needsSecondFactor, needsEnrollment, router])
+
+  const handleRetry = async () => {
+    setRetrying(true)
+    try {
+      await refreshTwoFactorStatus()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  if (loading || retrying) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user || needsSecondFactor || needsEnrollment) {
+    return null
+  }
+
+  if (!twoFactor) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="max-w-md text-center">
+          <ShieldAlert className="mx-auto h-12 w-12 text-red-500" />
+          <h1 className="mt-4 text-2xl font-bold text-gray-900">Unable to verify your session</h1>
+          <p className="mt-2 text-gray-600">
+            We couldn't check the two-factor status of this sign-in. Try again, or sign out and sign back in.
+          </p>
+          <div className="mt-6 flex justify-center gap-2">
+            <Button onClick={handleRetry}>Try Again</Button>
+            <Button variant="outline" onClick={() => logout()}>
+              Sign Out
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
@@ -5,7 +5,6 @@ import type React from "react"
 import { createContext, useContext, useEffect, useState } from "react"
 import {
   type User,
-  createUserWithEmailAndPassword,
   signInWithEmailAndPassword,
   signOut,
   onAuthStateChanged,
@@ -15,7 +14,10 @@ import {
 } from "firebase/auth"
 import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore"
 import { auth, db } from "@/lib/firebase"
-import { tenantConfig } from "@/lib/tenant-service"
+import { tenantConfig, TenantAccessLevel } from "@/lib/tenant-service"
+import { type Permission, resolveAccessLevel, hasPermission, isAdminProfile } from "@/lib/permissions"
+import { authorizedFetch, setTwoFactorSession } from "@/lib/api-client"
+import type { TwoFactorStatus } from "@/lib/two-factor"
 
 // Define the user data interface to match Firestore structure
 interface UserData {
@@ -48,26 +50,32 @@ interface AuthContextType {
   user: User | null
   userData: UserData | null
   loading: boolean
-  signUp: (email: string, password: string) => Promise<void>
   signIn: (email: string, password: string) => Promise<void>
   signInWithGoogle: () => Promise<void>
   logout: () => Promise<void>
   updateUserProfile: (displayName: string) => Promise<void>
   refreshUserData: () => Promise<void>
   tenantId: string
+  accessLevel: TenantAccessLevel
+  can: (permission: Permission) => boolean
+  twoFactor: TwoFactorStatus | null
+  refreshTwoFactorStatus: () => Promise<TwoFactorStatus | null>
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   userData: null,
   loading: true,
-  signUp: async () => {},
   signIn: async () => {},
   signInWithGoogle: async () => {},
   logout: async () => {},
   updateUserProfile: async () => {},
   refreshUserData: async () => {},
   tenantId: tenantConfig.tenantId,
+  accessLevel: TenantAccessLevel.VIEWER,
+  can: () => false,
+  twoFactor: null,
+  refreshTwoFactorStatus: async () => null,
 })
 
 export const useAuth = () => useContext(AuthContext)
@@ -75,9 +83,14 @@ export const useAuth = () => useContext(AuthContext)
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null)
   const [userData, setUserData] = useState<UserData | null>(null)
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
   const [loading, setLoading] = useState(true)
   const tenantId = tenantConfig.tenantId
 
+  // Resolve the access level from the loaded profile's roles
+  const accessLevel = resolveAccessLevel(userData?.role)
+  const can = (permission: Permission) => isAdminProfile(userData) && hasPermission(accessLevel, permission)
+
   // Function to fetch user data from Firestore
   const fetchUserData = async (uid: string) => {
     try {
@@ -88,44 +101,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         const data = docSnap.data() as UserData
         setUserData(data)
       } else {
+        // Profiles are only created by accepting an invitation, never on sign-in
         console.log("No user data found in Firestore")
-
-        // If user exists in Auth but not in Firestore, create a basic profile
-        if (user) {
-          const displayName = user.displayName || user.email?.split("@")[0] || "User"
-          const basicUserData = {
-            email: user.email || "",
-            display_name: displayName,
-            uid: user.uid,
-            id: user.uid,
-            created_time: serverTimestamp(),
-            phone_number: user.phoneNumber || "-",
-            location: "",
-            active: true,
-            updated: serverTimestamp(),
-            gender: "Not specified",
-            photo_url: user.photoURL || "",
-            first_name: displayName.split(" ")[0] || "User",
-            middle_name: "-",
-            last_name: displayName.split(" ").slice(1).join(" ") || "-",
-            onboarding: false,
-            followers: 0,
-            rating: 0.0,
-            created: serverTimestamp(),
-            banner: "",
-            active_date: serverTimestamp(),
-            role: ["user"],
-            type: "OHADMIN",
-            tenantId: tenantId,
-          }
-
-          try {
-            await setDoc(docRef, basicUserData)
-            setUserData(basicUserData as UserData)
-          } catch (error) {
-            console.error("Error creating basic user profile:", error)
-          }
-        }
+        setUserData(null)
       }
     } catch (error) {
       console.error("Error fetching user data:", error)
@@ -139,79 +117,55 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }
 
+  // Fetch the two-factor status for the current sign-in session
+  const refreshTwoFactorStatus = async (): Promise<TwoFactorStatus | null> => {
+    try {
+      const response = await authorizedFetch("/api/auth/two-factor")
+      if (!response.ok) {
+        setTwoFactor(null)
+        return null
+      }
+
+      const data = await response.json()
+      setTwoFactor(data.twoFactor)
+      return data.twoFactor
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error)
+      setTwoFactor(null)
+      return null
+    }
+  }
+
   useEffect(() => {
     // Use the standard auth instance
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      setUser(user)
-
+      // Publish the user together with its profile and two-factor status so nothing renders with them unresolved
       if (user) {
         await fetchUserData(user.uid)
+        await refreshTwoFactorStatus()
       } else {
         setUserData(null)
+        setTwoFactor(null)
       }
 
+      setUser(user)
       setLoading(false)
     })
 
     return () => unsubscribe()
   }, [])
 
-  const signUp = async (email: string, password: string) => {
-    await createUserWithEmailAndPassword(auth, email, password)
-  }
-
   const signIn = async (email: string, password: string) => {
     await signInWithEmailAndPassword(auth, email, password)
   }
 
   const signInWithGoogle = async () => {
     const provider = new GoogleAuthProvider()
-    const result = await signInWithPopup(auth, provider)
-
-    // Check if this is a new user and create Firestore record if needed
-    if (result.user) {
-      const docRef = doc(db, "iboard_users", result.user.uid)
-      const docSnap = await getDoc(docRef)
-
-      if (!docSnap.exists()) {
-        // Create a new user record for Google sign-in
-        const displayName = result.user.displayName || result.user.email?.split("@")[0] || "User"
-        const nameParts = displayName.split(" ")
-        const firstName = nameParts[0] || "User"
-        const lastName = nameParts.length > 1 ? nameParts.slice(1).join(" ") : "-"
-
-        const userData = {
-          email: result.user.email || "",
-          display_name: displayName,
-          uid: result.user.uid,
-          id: result.user.uid,
-          created_time: serverTimestamp(),
-          phone_number: result.user.phoneNumber || "-",
-          location: "",
-          active: true,
-          updated: serverTimestamp(),
-          gender: "Not specified",
-          photo_url: result.user.photoURL || "",
-          first_name: firstName,
-          middle_name: "-",
-          last_name: lastName,
-          onboarding: false,
-          followers: 0,
-          rating: 0.0,
-          created: serverTimestamp(),
-          banner: "",
-          active_date: serverTimestamp(),
-          role: ["user"],
-          type: "OHADMIN",
-          tenantId: tenantId,
-        }
-
-        await setDoc(docRef, userData)
-      }
-    }
+    await signInWithPopup(auth, provider)
   }
 
   const logout = async () => {
+    setTwoFactorSession(null)
     await signOut(auth)
   }
 
@@ -247,13 +201,16 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         user,
         userData,
         loading,
-        signUp,
         signIn,
         signInWithGoogle,
         logout,
         updateUserProfile,
         refreshUserData,
         tenantId,
+        accessLevel,
+        can,
+        twoFactor,
+        refreshTwoFactorStatus,
       }}
     >
       {children}
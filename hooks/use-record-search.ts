@@ -0,0 +1,147 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { authorizedFetch } from "@/lib/api-client"
+import type { RecordSearchPagination, SearchableRecordKind } from "@/types/booking-search"
+
+// Filter inputs as the pages hold them; "" and "all" mean unset, from and to are yyyy-MM-dd days
+export interface RecordSearchValues {
+  status: string
+  type: string
+  from: string
+  to: string
+  companyId: string
+  sellerId: string
+  username: string
+  search: string
+}
+
+export const EMPTY_RECORD_SEARCH: RecordSearchValues = {
+  status: "all",
+  type: "all",
+  from: "",
+  to: "",
+  companyId: "",
+  sellerId: "",
+  username: "",
+  search: "",
+}
+
+// Typed filters wait this long after the last keystroke before searching
+const TEXT_DEBOUNCE_MS = 300
+
+const TEXT_FIELDS: (keyof RecordSearchValues)[] = ["companyId", "sellerId", "username", "search"]
+
+function toSearchParams(values: RecordSearchValues, pageSize: number, cursor: string | null) {
+  const params = new URLSearchParams({ pageSize: pageSize.toString() })
+  if (cursor) params.set("cursor", cursor)
+
+  for (const key of ["status", "type", ...TEXT_FIELDS] as const) {
+    const value = values[key].trim()
+    if (value && value !== "all") params.set(key, value)
+  }
+  // Whole days in local time, from the start of the first to the end of the last
+  if (values.from) params.set("from", new Date(`${values.from}T00:00:00`).toISOString())
+  if (values.to) params.set("to", new Date(`${values.to}T23:59:59.999`).toISOString())
+
+  return params
+}
+
+export function hasActiveRecordFilters(values: RecordSearchValues) {
+  return (Object.keys(values) as (keyof RecordSearchValues)[]).some(
+    (key) => values[key].trim() !== EMPTY_RECORD_SEARCH[key],
+  )
+}
+
+/**
+ * Server-side search over bookings or quotation requests for the list pages, with cursor paging.
+ * Records come back with dates as ISO strings. Changing a filter starts again from the first page.
+ */
+export function useRecordSearch<T>(kind: SearchableRecordKind, pageSize = 12) {
+  const [filters, setFilters] = useState<RecordSearchValues>(EMPTY_RECORD_SEARCH)
+  const [records, setRecords] = useState<T[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [pagination, setPagination] = useState<RecordSearchPagination>({
+    pageSize,
+    totalCount: 0,
+    nextCursor: null,
+    hasNextPage: false,
+  })
+  // Cursor each visited page was loaded with; the current page is the last entry
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null])
+  const page = pageCursors.length
+  const totalPages = Math.max(Math.ceil(pagination.totalCount / pagination.pageSize), page)
+
+  // Only the latest request may update the list, so a slow earlier search can't overwrite a newer one
+  const requestId = useRef(0)
+  const previousFilters = useRef(filters)
+
+  const fetchRecords = async (cursors: (string | null)[], values = filters) => {
+    const id = ++requestId.current
+    try {
+      setLoading(true)
+      setError(null)
+      const params = toSearchParams(values, pageSize, cursors[cursors.length - 1])
+      const response = await authorizedFetch(`/api/${kind}?${params}`)
+      const data = await response.json()
+      if (id !== requestId.current) return
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load ${kind}`)
+      }
+      setRecords(data[kind])
+      setPagination(data.pagination)
+      setPageCursors(cursors)
+    } catch (err: any) {
+      if (id !== requestId.current) return
+      console.error(`Error fetching ${kind}:`, err)
+      setError(err.message || `Failed to load ${kind}. Please try again.`)
+    } finally {
+      if (id === requestId.current) setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const typed = TEXT_FIELDS.some((key) => filters[key] !== previousFilters.current[key])
+    previousFilters.current = filters
+    if (!typed) {
+      fetchRecords([null], filters)
+      return
+    }
+    const timeoutId = setTimeout(() => fetchRecords([null], filters), TEXT_DEBOUNCE_MS)
+    return () => clearTimeout(timeoutId)
+  }, [filters])
+
+  const setFilter = (key: keyof RecordSearchValues, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }))
+  }
+
+  const nextPage = () => {
+    if (pagination.nextCursor) {
+      fetchRecords([...pageCursors, pagination.nextCursor])
+    }
+  }
+
+  const previousPage = () => {
+    if (page > 1) {
+      fetchRecords(pageCursors.slice(0, -1))
+    }
+  }
+
+  return {
+    filters,
+    setFilter,
+    resetFilters: () => setFilters(EMPTY_RECORD_SEARCH),
+    records,
+    setRecords,
+    loading,
+    error,
+    pagination,
+    page,
+    totalPages,
+    nextPage,
+    previousPage,
+    refresh: () => fetchRecords(pageCursors),
+  }
+}
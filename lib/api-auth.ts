@@ -0,0 +1,213 @@
+/**
+ * API Request Guard
+ * Verifies the Firebase ID token sent as a bearer token and resolves the caller's profile and role
+ */
+
+import { timingSafeEqual } from "crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { doc, getDoc, type DocumentData } from "firebase/firestore"
+import { db } from "./firebase"
+import { verifyIdToken } from "./identity-toolkit"
+import { TenantAccessLevel } from "./tenant-service"
+import { type Permission, hasPermission, isAdminProfile, resolveAccessLevel } from "./permissions"
+import { TWO_FACTOR_SESSION_HEADER, getTwoFactorStatus, type TwoFactorStatus } from "./two-factor"
+
+export interface AuthenticatedUser {
+  uid: string
+  email: string
+  profile: DocumentData
+  accessLevel: TenantAccessLevel
+  twoFactor: TwoFactorStatus
+}
+
+export interface AuthenticateOptions {
+  // Let callers that have not completed the second factor through (used by the two-factor endpoints)
+  allowPendingTwoFactor?: boolean
+}
+
+export type AuthenticationResult = { user: AuthenticatedUser; response?: never } | { user?: never; response: NextResponse }
+
+export interface VerifiedAccount {
+  uid: string
+  email: string
+}
+
+export type AccountVerificationResult =
+  | { account: VerifiedAccount; idToken: string; response?: never }
+  | { account?: never; idToken?: never; response: NextResponse }
+
+function unauthorized(message: string) {
+  return NextResponse.json({ error: message }, { status: 401 })
+}
+
+function forbidden(message: string) {
+  return NextResponse.json({ error: message }, { status: 403 })
+}
+
+// Extract the bearer token from the Authorization header
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization") || ""
+  const [scheme, token] = header.split(" ")
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    return null
+  }
+  return token.trim()
+}
+
+/**
+ * Two-factor status for the request's session, and the 403 to return when the admin hasn't completed the second
+ * factor or hasn't enrolled while the tenant requires it.
+ */
+async function checkTwoFactor(
+  request: NextRequest,
+  uid: string,
+  accessLevel: TenantAccessLevel,
+  options: AuthenticateOptions = {},
+): Promise<{ twoFactor: TwoFactorStatus; response?: NextResponse }> {
+  const twoFactor = await getTwoFactorStatus(uid, accessLevel, request.headers.get(TWO_FACTOR_SESSION_HEADER))
+  if (!options.allowPendingTwoFactor) {
+    if (twoFactor.enabled && !twoFactor.verified) {
+      return { twoFactor, response: forbidden("Two-factor verification required") }
+    }
+    if (twoFactor.required && !twoFactor.enabled) {
+      return {
+        twoFactor,
+        response: forbidden("Two-factor authentication must be enabled for administrator accounts"),
+      }
+    }
+  }
+  return { twoFactor }
+}
+
+/**
+ * True when the request carries the CRON_SECRET as its bearer token.
+ * Lets a scheduler call job endpoints without a user session; always false when CRON_SECRET is not set.
+ */
+export function hasJobSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  const token = getBearerToken(request)
+  if (!secret || !token) {
+    return false
+  }
+
+  const expected = Buffer.from(secret)
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Verify the bearer token without requiring an admin profile.
+ * Only for flows that run before the profile exists, such as accepting an invitation.
+ */
+export async function verifyRequestAccount(request: NextRequest): Promise<AccountVerificationResult> {
+  const idToken = getBearerToken(request)
+  if (!idToken) {
+    return { response: unauthorized("Missing bearer token") }
+  }
+
+  let account: VerifiedAccount | null
+  try {
+    account = await verifyIdToken(idToken)
+  } catch (error) {
+    console.error("Error verifying ID token:", error)
+    return { response: unauthorized("Unable to verify ID token") }
+  }
+
+  if (!account) {
+    return { response: unauthorized("Invalid or expired ID token") }
+  }
+
+  return { account, idToken }
+}
+
+/**
+ * Authenticate a request made on behalf of a company, either by an admin with `permission`
+ * or by one of the company's own users (a client-app profile whose company_id matches).
+ */
+export async function authenticateCompanyRequest(
+  request: NextRequest,
+  companyId: string,
+  permission: Permission,
+): Promise<AccountVerificationResult> {
+  const { account, idToken, response } = await verifyRequestAccount(request)
+  if (response) {
+    return { response }
+  }
+
+  if (!db) {
+    return { response: NextResponse.json({ error: "Database not initialized" }, { status: 500 }) }
+  }
+
+  const profileDoc = await getDoc(doc(db, "iboard_users", account.uid))
+  const profile = profileDoc.exists() ? profileDoc.data() : null
+  if (!profile || profile.active === false) {
+    return { response: forbidden("No active profile found for this account") }
+  }
+
+  if (isAdminProfile(profile)) {
+    const accessLevel = resolveAccessLevel(profile.role)
+    if (!hasPermission(accessLevel, permission)) {
+      return { response: forbidden(`You don't have permission to perform this action (${permission})`) }
+    }
+    const { response: twoFactorError } = await checkTwoFactor(request, account.uid, accessLevel)
+    if (twoFactorError) {
+      return { response: twoFactorError }
+    }
+  } else if (profile.company_id !== companyId) {
+    return { response: forbidden("This account does not belong to this company") }
+  }
+
+  return { account, idToken }
+}
+
+/**
+ * Authenticate an API request.
+ * Returns the verified user, or a 401/403 response the handler should return as-is.
+ */
+export async function authenticateRequest(
+  request: NextRequest,
+  permission?: Permission,
+  options: AuthenticateOptions = {},
+): Promise<AuthenticationResult> {
+  const { account, response } = await verifyRequestAccount(request)
+  if (response) {
+    return { response }
+  }
+
+  if (!db) {
+    return { response: NextResponse.json({ error: "Database not initialized" }, { status: 500 }) }
+  }
+
+  const profileDoc = await getDoc(doc(db, "iboard_users", account.uid))
+  if (!profileDoc.exists()) {
+    return { response: forbidden("No admin profile found for this account") }
+  }
+
+  const profile = profileDoc.data()
+  if (!isAdminProfile(profile)) {
+    return { response: forbidden("No admin profile found for this account") }
+  }
+  if (profile.active === false) {
+    return { response: forbidden("This account has been deactivated") }
+  }
+
+  const accessLevel = resolveAccessLevel(profile.role)
+  if (permission && !hasPermission(accessLevel, permission)) {
+    return { response: forbidden(`You don't have permission to perform this action (${permission})`) }
+  }
+
+  const { twoFactor, response: twoFactorError } = await checkTwoFactor(request, account.uid, accessLevel, options)
+  if (twoFactorError) {
+    return { response: twoFactorError }
+  }
+
+  return {
+    user: {
+      uid: account.uid,
+      email: account.email || profile.email || "",
+      profile,
+      accessLevel,
+      twoFactor,
+    },
+  }
+}
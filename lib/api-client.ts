@@ -0,0 +1,42 @@
+import { auth } from "./firebase"
+import { TWO_FACTOR_SESSION_HEADER } from "./two-factor"
+
+// The two-factor session token issued when this browser completed the second factor, per account
+const TWO_FACTOR_SESSION_KEY = "iboard_two_factor_session"
+
+function getTwoFactorSession(uid: string): string | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TWO_FACTOR_SESSION_KEY) || "null")
+    return stored?.uid === uid && typeof stored.token === "string" ? stored.token : null
+  } catch {
+    return null
+  }
+}
+
+// Remember the session token from /api/auth/two-factor/verify or /enable; null forgets it, as on sign-out
+export function setTwoFactorSession(token: string | null) {
+  const uid = auth?.currentUser?.uid
+  if (!token || !uid) {
+    localStorage.removeItem(TWO_FACTOR_SESSION_KEY)
+    return
+  }
+  localStorage.setItem(TWO_FACTOR_SESSION_KEY, JSON.stringify({ uid, token }))
+}
+
+// fetch wrapper that attaches the signed-in user's ID token as a bearer token, and the two-factor session if any
+export async function authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  const currentUser = auth?.currentUser
+
+  if (currentUser) {
+    const idToken = await currentUser.getIdToken()
+    headers.set("Authorization", `Bearer ${idToken}`)
+
+    const twoFactorSession = getTwoFactorSession(currentUser.uid)
+    if (twoFactorSession) {
+      headers.set(TWO_FACTOR_SESSION_HEADER, twoFactorSession)
+    }
+  }
+
+  return fetch(input, { ...init, headers })
+}
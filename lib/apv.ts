@@ -1,4 +1,5 @@
 import { db } from "@/lib/firebase"
+import { requirePermission } from "@/lib/permissions"
 import {
   collection,
   doc,
@@ -44,6 +45,8 @@ export async function updateApvVideo(id: string, data: any): Promise<void> {
 
 // Function to delete an APV video
 export async function deleteApvVideo(id: string): Promise<void> {
+  await requirePermission("content:delete")
+
   try {
     const apvRef = doc(db, "apv", id)
     await deleteDoc(apvRef)
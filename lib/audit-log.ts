@@ -0,0 +1,248 @@
+/**
+ * Audit Log Service
+ * Append-only trail of who changed what. Entries are only ever added, never updated or deleted.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  deleteField,
+  Timestamp,
+  FieldValue,
+  DocumentReference,
+  type Transaction,
+  type WriteBatch,
+  type QueryConstraint,
+} from "firebase/firestore"
+import { auth, getDb } from "./firebase"
+import type { AuditActor, AuditEventInput, AuditFieldChange, AuditLogEntry, AuditLogFilters } from "@/types/audit-log"
+
+export const AUDIT_LOG_COLLECTION = "iboard_audit_log"
+
+// Bookkeeping fields that change on every write, and derived fields, that would only add noise to the diff
+const IGNORED_FIELDS = [
+  "updated",
+  "updatedAt",
+  "updated_at",
+  "updated_by",
+  "lastBulkEdit",
+  "search_keywords",
+  "search_username",
+]
+
+// Secrets that must never be copied into the audit trail
+const REDACTED_FIELDS = ["password", "secret", "pending_secret", "token_hash"]
+
+// Convert a Firestore value into something that can be compared and stored in the audit entry
+function normalizeValue(value: any): any {
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  if (value instanceof FieldValue) {
+    return value.isEqual(deleteField()) ? null : "(server value)"
+  }
+
+  if (value instanceof Timestamp) {
+    return value.toDate()
+  }
+
+  if (value instanceof DocumentReference) {
+    return value.path
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue)
+  }
+
+  if (value instanceof Date || typeof value !== "object" || value.constructor !== Object) {
+    return value
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [key, REDACTED_FIELDS.includes(key) ? "(redacted)" : normalizeValue(nested)]),
+  )
+}
+
+// Read a possibly dotted field path ("specs_rental.location") from a document
+function getFieldValue(data: Record<string, any> | null | undefined, field: string): any {
+  if (!data) {
+    return undefined
+  }
+
+  if (field in data) {
+    return data[field]
+  }
+
+  return field.split(".").reduce((current, key) => (current == null ? undefined : current[key]), data as any)
+}
+
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Compute field-level changes between two versions of a document.
+ * For updates only the fields present in `after` are compared, since that is what the write touched.
+ */
+export function computeFieldChanges(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+): AuditFieldChange[] {
+  const fields = after ? Object.keys(after) : Object.keys(before || {})
+  const changes: AuditFieldChange[] = []
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue
+    }
+
+    const previous = normalizeValue(getFieldValue(before, field))
+    const next = normalizeValue(getFieldValue(after, field))
+
+    if (!isSameValue(previous, next)) {
+      const redacted = REDACTED_FIELDS.includes(field.split(".").pop() || field)
+      changes.push({
+        field,
+        before: redacted ? "(redacted)" : previous,
+        after: redacted ? "(redacted)" : next,
+      })
+    }
+  }
+
+  return changes
+}
+
+function getAuditLogCollection() {
+  return collection(getDb(), AUDIT_LOG_COLLECTION)
+}
+
+function getCurrentActor(): AuditActor {
+  const currentUser = auth?.currentUser
+  return {
+    uid: currentUser?.uid || "system",
+    email: currentUser?.email || "",
+  }
+}
+
+function buildAuditEntry(input: AuditEventInput) {
+  const actor = input.actor || getCurrentActor()
+
+  return {
+    actor_uid: actor.uid,
+    actor_email: actor.email,
+    action: input.action,
+    collection: input.collection,
+    entity_id: input.entityId,
+    entity_path: `${input.collection}/${input.entityId}`,
+    changes: computeFieldChanges(input.before, input.after),
+    metadata: input.metadata || {},
+    timestamp: serverTimestamp(),
+  }
+}
+
+/**
+ * Add an audit entry to a write batch so it commits atomically with the change it describes.
+ * Each entry counts as one write towards the 500 write batch limit.
+ */
+export function addAuditEventToBatch(batch: WriteBatch, input: AuditEventInput): void {
+  batch.set(doc(getAuditLogCollection()), buildAuditEntry(input))
+}
+
+// Add an audit entry to a transaction so it commits together with the transaction's writes
+export function addAuditEventToTransaction(transaction: Transaction, input: AuditEventInput): void {
+  transaction.set(doc(getAuditLogCollection()), buildAuditEntry(input))
+}
+
+// Record an audit entry on its own, for writes that cannot share a batch
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  try {
+    await addDoc(getAuditLogCollection(), buildAuditEntry(input))
+  } catch (error) {
+    console.error("Error recording audit event:", error)
+    throw error
+  }
+}
+
+/**
+ * Query the audit log, newest first.
+ * Each combination of the equality filters has a composite index with timestamp in firestore.indexes.json.
+ */
+export async function getAuditLogEntries(filters: AuditLogFilters = {}, limitCount = 500): Promise<AuditLogEntry[]> {
+  try {
+    const constraints: QueryConstraint[] = []
+
+    if (filters.actorEmail) {
+      constraints.push(where("actor_email", "==", filters.actorEmail))
+    }
+    if (filters.collection) {
+      constraints.push(where("collection", "==", filters.collection))
+    }
+    if (filters.entityId) {
+      constraints.push(where("entity_id", "==", filters.entityId))
+    }
+    if (filters.startDate) {
+      constraints.push(where("timestamp", ">=", Timestamp.fromDate(filters.startDate)))
+    }
+    if (filters.endDate) {
+      constraints.push(where("timestamp", "<=", Timestamp.fromDate(filters.endDate)))
+    }
+
+    const q = query(getAuditLogCollection(), ...constraints, orderBy("timestamp", "desc"), limit(limitCount))
+    const snapshot = await getDocs(q)
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data()
+      return {
+        id: doc.id,
+        ...data,
+        changes: (data.changes || []).map((change: AuditFieldChange) => ({
+          field: change.field,
+          before: change.before instanceof Timestamp ? change.before.toDate() : change.before,
+          after: change.after instanceof Timestamp ? change.after.toDate() : change.after,
+        })),
+        timestamp: data.timestamp?.toDate?.() || new Date(),
+      } as AuditLogEntry
+    })
+  } catch (error) {
+    console.error("Error fetching audit log:", error)
+    throw error
+  }
+}
+
+// Format a stored value for display and CSV export
+export function formatAuditValue(value: any): string {
+  if (value === null || value === undefined) {
+    return ""
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+// Build a CSV export with one row per changed field
+export function auditEntriesToCsv(entries: AuditLogEntry[]): string {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`
+  const header = ["Timestamp", "Actor", "Actor UID", "Action", "Entity", "Field", "Before", "After"]
+
+  const rows = entries.flatMap((entry) => {
+    const base = [entry.timestamp.toISOString(), entry.actor_email, entry.actor_uid, entry.action, entry.entity_path]
+    const changes = entry.changes.length > 0 ? entry.changes : [{ field: "", before: null, after: null }]
+    return changes.map((change) =>
+      [...base, change.field, formatAuditValue(change.before), formatAuditValue(change.after)].map(escape).join(","),
+    )
+  })
+
+  return [header.join(","), ...rows].join("\n")
+}
@@ -1,13 +1,8 @@
 import { createUserWithEmailAndPassword, updateProfile, AuthErrorCodes, type User } from "firebase/auth"
-import { doc, setDoc, serverTimestamp, getDoc, runTransaction, enableNetwork, disableNetwork } from "firebase/firestore"
+import { doc, getDoc, enableNetwork, disableNetwork } from "firebase/firestore"
 import { auth, db, isFirebaseInitialized } from "./firebase"
 import { isOnline, logNetworkError } from "./network-status"
 
-// Maximum number of retries for Firestore operations
-const MAX_RETRIES = 3
-// Delay between retries (in milliseconds)
-const RETRY_DELAY = 1000
-
 interface RegisterUserData {
   firstName: string
   middleName?: string
@@ -19,72 +14,13 @@ interface RegisterUserData {
   password: string
   displayName?: string
   location?: { lat?: number; lng?: number }
+  inviteToken: string
 }
 
-interface FirestoreUserData {
+export interface InvitationDetails {
   email: string
-  display_name: string
-  uid: string
-  id: string
-  first_name: string
-  middle_name: string
-  last_name: string
-  gender: string
-  phone_number: string
-  country_code: string
-  photo_url: string
-  banner: string
-  location: any
-  active: boolean
-  onboarding: boolean
-  type: string
-  role: string[]
-  followers: number
-  rating: number
-  created: any
-  created_time: any
-  updated: any
-  active_date: any
-}
-
-// Helper function to wait for a specified time
-const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
-
-// Helper function to retry a Firestore operation
-async function retryOperation<T>(operation: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
-  try {
-    return await operation()
-  } catch (error: any) {
-    if (retries <= 0) {
-      console.error("Max retries reached, operation failed:", error)
-      throw error
-    }
-
-    // Log the retry attempt
-    console.log(`Retrying operation, ${retries} attempts remaining`)
-
-    // Check if it's a network error
-    if (error.code === "unavailable" || error.code === "network-request-failed") {
-      console.log("Network error detected, waiting before retry")
-
-      // Wait longer for network errors
-      await wait(RETRY_DELAY * 2)
-
-      // Try to re-enable the network if it was disabled
-      try {
-        await enableNetwork(db)
-        console.log("Network re-enabled")
-      } catch (networkError) {
-        console.warn("Failed to re-enable network:", networkError)
-      }
-    } else {
-      // Standard delay for other errors
-      await wait(RETRY_DELAY)
-    }
-
-    // Retry the operation
-    return retryOperation(operation, retries - 1)
-  }
+  role: string
+  expiresAt: string
 }
 
 // Function to map Firebase Auth errors to user-friendly messages
@@ -173,6 +109,18 @@ async function verifyFirebaseBeforeRegistration(): Promise<boolean> {
   return true
 }
 
+// Check an invite link before showing the registration form
+export async function validateInvitation(token: string): Promise<InvitationDetails> {
+  const response = await fetch(`/api/invitations/validate?token=${encodeURIComponent(token)}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || "This invitation link is invalid")
+  }
+
+  return data
+}
+
 export async function registerUser(userData: RegisterUserData): Promise<User> {
   // Start logging the registration process
   console.log("Starting user registration process")
@@ -181,6 +129,12 @@ export async function registerUser(userData: RegisterUserData): Promise<User> {
   await verifyFirebaseBeforeRegistration()
 
   try {
+    // Registration is invite-only; make sure the invitation is usable before creating the auth account
+    const invitation = await validateInvitation(userData.inviteToken)
+    if (invitation.email !== userData.email.trim().toLowerCase()) {
+      throw new Error("Please register with the email address the invitation was sent to.")
+    }
+
     console.log("Creating user in Firebase Auth")
 
     // Create the user in Firebase Auth
@@ -204,77 +158,35 @@ export async function registerUser(userData: RegisterUserData): Promise<User> {
       ? `${userData.countryCode} ${userData.contactNumber}`
       : userData.contactNumber
 
-    // Prepare user data for Firestore with all required fields
-    const userDocData: FirestoreUserData = {
-      // User identification
-      email: userData.email,
-      display_name: displayName,
-      uid: user.uid,
-      id: user.uid, // Using uid as id
-
-      // Personal information
-      first_name: userData.firstName,
-      middle_name: userData.middleName || "-",
-      last_name: userData.lastName,
-      gender: userData.gender,
-      phone_number: phoneNumber || "-",
-      country_code: userData.countryCode || "+63", // Default to Philippines
-
-      // Profile data
-      photo_url: "", // Empty image path initially
-      banner: "", // Empty image path initially
-      location: userData.location || "", // Empty location initially
-
-      // Account status
-      active: true,
-      onboarding: false,
-      type: "OHADMIN", // Default type
-      role: ["user"], // Default role as array
-
-      // Metrics
-      followers: 0,
-      rating: 0.0, // Double for rating
-
-      // Timestamps
-      created: serverTimestamp(),
-      created_time: serverTimestamp(),
-      updated: serverTimestamp(),
-      active_date: serverTimestamp(),
+    // Create the admin profile from the invitation; the server assigns the invited role and tenant
+    console.log("Accepting invitation and creating admin profile")
+    const idToken = await user.getIdToken()
+    const response = await fetch("/api/invitations/accept", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+      body: JSON.stringify({
+        token: userData.inviteToken,
+        profile: {
+          first_name: userData.firstName,
+          middle_name: userData.middleName,
+          last_name: userData.lastName,
+          display_name: displayName,
+          gender: userData.gender,
+          phone_number: phoneNumber,
+          country_code: userData.countryCode || "+63", // Default to Philippines
+          location: userData.location,
+        },
+      }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      // Remove the auth account so the invitee can retry with the same email
+      await user.delete().catch((deleteError) => console.error("Failed to remove auth account:", deleteError))
+      throw new Error(data.error || "Failed to accept invitation")
     }
 
-    console.log("Preparing to store user data in Firestore")
-
-    // Use a transaction to ensure data consistency
-    await retryOperation(async () => {
-      try {
-        await runTransaction(db, async (transaction) => {
-          // Check if the document already exists
-          const userDocRef = doc(db, "iboard_users", user.uid)
-          const userDoc = await transaction.get(userDocRef)
-
-          if (userDoc.exists()) {
-            console.warn("User document already exists in Firestore, updating instead of creating")
-            // Update the existing document
-            transaction.update(userDocRef, {
-              ...userDocData,
-              updated: serverTimestamp(),
-            })
-          } else {
-            // Create a new document
-            transaction.set(userDocRef, userDocData)
-          }
-        })
-        console.log("User data successfully stored in Firestore")
-      } catch (transactionError: any) {
-        console.error("Transaction failed:", transactionError)
-
-        // If transaction fails, try a direct write as fallback
-        console.log("Attempting direct write as fallback")
-        const userDocRef = doc(db, "iboard_users", user.uid)
-        await setDoc(userDocRef, userDocData)
-        console.log("Fallback direct write successful")
-      }
-    })
+    console.log("Invitation accepted, admin profile created")
 
     // Verify the user data was written correctly
     await verifyUserDataInFirestore(user.uid)
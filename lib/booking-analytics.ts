@@ -0,0 +1,182 @@
+/**
+ * Booking Analytics
+ * Revenue over the bookings made in a date range, broken down by month, type, seller, company, payment method and
+ * site. Revenue is the total_cost of bookings that weren't cancelled, less what was refunded on them. Bookings are
+ * aggregated in memory, so a range is capped at MAX_ANALYTICS_BOOKINGS and reported as truncated past that.
+ */
+
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, where } from "firebase/firestore"
+import { eachMonthOfInterval, format, startOfMonth } from "date-fns"
+import { getDb } from "./firebase"
+import { toCsv } from "./spreadsheet"
+import { toDate, roundToCents } from "./utils"
+import type { BookingAnalytics, MonthlyRevenue, RevenueBucket } from "@/types/booking-analytics"
+
+const COLLECTION_NAME = "booking"
+
+export const MAX_ANALYTICS_BOOKINGS = 5000
+export const TOP_SITES_LIMIT = 10
+
+const UNKNOWN_KEY = "unknown"
+
+function toRate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : 0
+}
+
+// Running totals per key, kept in insertion order
+class RevenueBuckets {
+  private buckets = new Map<string, RevenueBucket>()
+
+  add(key: string, label: string, revenue: number) {
+    const bucket = this.buckets.get(key) || { key, label, bookings: 0, revenue: 0 }
+    bucket.bookings += 1
+    bucket.revenue += revenue
+    this.buckets.set(key, bucket)
+  }
+
+  toList(): RevenueBucket[] {
+    return Array.from(this.buckets.values())
+      .map((bucket) => ({ ...bucket, revenue: roundToCents(bucket.revenue) }))
+      .sort((a, b) => b.revenue - a.revenue || b.bookings - a.bookings)
+  }
+}
+
+// Replaces ids with the name on the referenced document, where there is one
+async function labelWithNames(buckets: RevenueBucket[], collectionName: string): Promise<RevenueBucket[]> {
+  const firestore = getDb()
+  const snapshots = await Promise.all(
+    buckets.map((bucket) =>
+      bucket.key === UNKNOWN_KEY ? null : getDoc(doc(firestore, collectionName, bucket.key)),
+    ),
+  )
+  return buckets.map((bucket, index) => ({
+    ...bucket,
+    label: snapshots[index]?.data()?.name || bucket.label,
+  }))
+}
+
+export async function getBookingAnalytics(from: Date, to: Date): Promise<BookingAnalytics> {
+  // One extra document tells whether the range was truncated
+  const snapshot = await getDocs(
+    query(
+      collection(getDb(), COLLECTION_NAME),
+      where("created", ">=", from),
+      where("created", "<=", to),
+      orderBy("created", "asc"),
+      limit(MAX_ANALYTICS_BOOKINGS + 1),
+    ),
+  )
+  const docs = snapshot.docs.slice(0, MAX_ANALYTICS_BOOKINGS)
+
+  const months = new Map<string, MonthlyRevenue>(
+    eachMonthOfInterval({ start: startOfMonth(from), end: to }).map((month) => {
+      const key = format(month, "yyyy-MM")
+      return [key, { key, label: format(month, "MMM yyyy"), bookings: 0, revenue: 0, completed: 0, cancelled: 0 }]
+    }),
+  )
+  const byType = new RevenueBuckets()
+  const bySeller = new RevenueBuckets()
+  const byCompany = new RevenueBuckets()
+  const byPaymentMethod = new RevenueBuckets()
+  const bySite = new RevenueBuckets()
+
+  let revenue = 0
+  let refunded = 0
+  let completed = 0
+  let cancelled = 0
+
+  for (const bookingDoc of docs) {
+    const data = bookingDoc.data()
+    const created = toDate(data.created)
+    if (!created) continue
+
+    const isCancelled = data.status === "CANCELLED"
+    const refund = typeof data.refunded_amount === "number" ? data.refunded_amount : 0
+    const totalCost = typeof data.total_cost === "number" ? data.total_cost : 0
+    const bookingRevenue = isCancelled ? 0 : Math.max(0, totalCost - refund)
+
+    revenue += bookingRevenue
+    refunded += refund
+    if (data.status === "COMPLETED") completed += 1
+    if (isCancelled) cancelled += 1
+
+    const month = months.get(format(created, "yyyy-MM"))
+    if (month) {
+      month.bookings += 1
+      month.revenue += bookingRevenue
+      if (data.status === "COMPLETED") month.completed += 1
+      if (isCancelled) month.cancelled += 1
+    }
+
+    const type = data.type || UNKNOWN_KEY
+    const sellerKey = data.seller_id || data.product_owner || UNKNOWN_KEY
+    const paymentMethod = data.payment_method || UNKNOWN_KEY
+    byType.add(type, data.type || "Unknown", bookingRevenue)
+    bySeller.add(sellerKey, data.product_owner || data.seller_id || "Unknown", bookingRevenue)
+    byCompany.add(data.company_id || UNKNOWN_KEY, data.company_id || "Unknown", bookingRevenue)
+    byPaymentMethod.add(paymentMethod, data.payment_method || "Unknown", bookingRevenue)
+    bySite.add(data.product_id || UNKNOWN_KEY, data.product_id || "Unknown", bookingRevenue)
+  }
+
+  const bookings = docs.length
+  const [companies, topSites] = await Promise.all([
+    labelWithNames(byCompany.toList(), "companies"),
+    labelWithNames(bySite.toList().slice(0, TOP_SITES_LIMIT), "products"),
+  ])
+
+  return {
+    from,
+    to,
+    totals: {
+      bookings,
+      revenue: roundToCents(revenue),
+      refunded: roundToCents(refunded),
+      completed,
+      cancelled,
+      completionRate: toRate(completed, bookings),
+      cancellationRate: toRate(cancelled, bookings),
+      averageBookingValue: bookings > cancelled ? roundToCents(revenue / (bookings - cancelled)) : 0,
+    },
+    byMonth: Array.from(months.values()).map((month) => ({ ...month, revenue: roundToCents(month.revenue) })),
+    byType: byType.toList(),
+    bySeller: bySeller.toList(),
+    byCompany: companies,
+    byPaymentMethod: byPaymentMethod.toList(),
+    topSites,
+    truncated: snapshot.size > MAX_ANALYTICS_BOOKINGS,
+  }
+}
+
+// One section per breakdown, separated by a blank row
+export function bookingAnalyticsToCsv(analytics: BookingAnalytics): string {
+  const { totals } = analytics
+  const section = (title: string, buckets: RevenueBucket[]) => [
+    [],
+    [title, "Bookings", "Revenue (PHP)"],
+    ...buckets.map((bucket) => [bucket.label, bucket.bookings, bucket.revenue.toFixed(2)]),
+  ]
+
+  return toCsv([
+    ["From", format(analytics.from, "yyyy-MM-dd")],
+    ["To", format(analytics.to, "yyyy-MM-dd")],
+    ["Bookings", totals.bookings],
+    ["Revenue (PHP)", totals.revenue.toFixed(2)],
+    ["Refunded (PHP)", totals.refunded.toFixed(2)],
+    ["Completion rate", `${(totals.completionRate * 100).toFixed(1)}%`],
+    ["Cancellation rate", `${(totals.cancellationRate * 100).toFixed(1)}%`],
+    [],
+    ["Month", "Bookings", "Revenue (PHP)", "Completed", "Cancelled"],
+    ...analytics.byMonth.map((month) => [
+      month.label,
+      month.bookings,
+      month.revenue.toFixed(2),
+      month.completed,
+      month.cancelled,
+    ]),
+    ...section("Type", analytics.byType),
+    ...section("Seller", analytics.bySeller),
+    ...section("Company", analytics.byCompany),
+    ...section("Payment method", analytics.byPaymentMethod),
+    ...section("Site", analytics.topSites),
+  ])
+}
@@ -0,0 +1,282 @@
+/**
+ * Booking and Quotation Search
+ * Server-side listing for the booking and quotation request pages. Every filter is an equality on its own field,
+ * plus a range on created, so Firestore can merge one composite index per field instead of needing one for every
+ * combination. Each field needs (field, created desc, __name__ desc): status, type, company_id, seller_id,
+ * search_username, and search_keywords as array-contains. The indexes are listed in firestore.indexes.json.
+ *
+ * Free text uses search_keywords, built like the companies' (see company-search), and the username filter uses
+ * search_username, the normalized username or requester name. Both are written when this app creates a record.
+ * Records created by the apps are picked up by backfillRecordSearchFields, which a scheduled job runs with `since`
+ * to page through everything created since its last run.
+ */
+
+import {
+  Timestamp,
+  collection,
+  doc,
+  documentId,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  writeBatch,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { encodeCursor, startAfterCursor } from "./search-cursor"
+import { SEARCH_KEYWORDS_FIELD, buildSearchKeywords, normalizeSearchText, toSearchKeyword } from "./company-search"
+import type { RecordSearchFilters, RecordSearchPagination, SearchableRecordKind } from "@/types/booking-search"
+
+export const SEARCH_USERNAME_FIELD = "search_username"
+
+export const MAX_PAGE_SIZE = 100
+
+type FilterName = "status" | "type" | "companyId" | "sellerId"
+
+const FILTER_LABELS: Record<FilterName, string> = {
+  status: "status",
+  type: "type",
+  companyId: "company",
+  sellerId: "seller",
+}
+
+interface SearchableCollection {
+  name: string
+  label: string
+  usernameField: string
+  filterFields: Partial<Record<FilterName, string>> // Filters the collection supports and the field each matches
+  textFields: (data: DocumentData) => unknown[]
+}
+
+const COLLECTIONS: Record<SearchableRecordKind, SearchableCollection> = {
+  bookings: {
+    name: "booking",
+    label: "Bookings",
+    usernameField: "username",
+    filterFields: { status: "status", type: "type", companyId: "company_id", sellerId: "seller_id" },
+    textFields: (data) => [data.username, data.product_owner, data.payment_method, data.type],
+  },
+  quotations: {
+    name: "quotation_request",
+    label: "Quotation requests",
+    usernameField: "name",
+    filterFields: { status: "status", companyId: "company_id" },
+    textFields: (data) => [data.name, data.company, data.email_address, data.position],
+  },
+}
+
+export class BookingSearchError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "BookingSearchError"
+  }
+}
+
+export interface RecordPage {
+  records: DocumentData[] // With id, dates as Date and without the search fields
+  pagination: RecordSearchPagination
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new BookingSearchError("from and to must be valid dates")
+  }
+  return date
+}
+
+/**
+ * Filters and paging from a list request's query string: ?status, ?type, ?from and ?to (ISO dates), ?companyId,
+ * ?sellerId, ?username, ?search, ?pageSize (1-100, default 12) and ?cursor.
+ */
+export function parseRecordSearchParams(searchParams: URLSearchParams) {
+  const pageSize = parseInt(searchParams.get("pageSize") || "12")
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new BookingSearchError(`pageSize must be between 1 and ${MAX_PAGE_SIZE}`)
+  }
+
+  const filters: RecordSearchFilters = {
+    status: searchParams.get("status"),
+    type: searchParams.get("type"),
+    from: parseDate(searchParams.get("from")),
+    to: parseDate(searchParams.get("to")),
+    companyId: searchParams.get("companyId")?.trim(),
+    sellerId: searchParams.get("sellerId")?.trim(),
+    username: searchParams.get("username"),
+    search: searchParams.get("search"),
+  }
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new BookingSearchError("from must be before to")
+  }
+
+  return { filters, pageSize, cursor: searchParams.get("cursor") }
+}
+
+// search_keywords and search_username for a booking or quotation request
+export function buildRecordSearchFields(kind: SearchableRecordKind, data: DocumentData) {
+  const { textFields, usernameField } = COLLECTIONS[kind]
+  return {
+    [SEARCH_KEYWORDS_FIELD]: buildSearchKeywords(textFields(data)),
+    [SEARCH_USERNAME_FIELD]: normalizeSearchText(data[usernameField]),
+  }
+}
+
+function buildFilters(kind: SearchableRecordKind, filters: RecordSearchFilters): QueryConstraint[] {
+  const { label, filterFields } = COLLECTIONS[kind]
+  const constraints: QueryConstraint[] = []
+
+  const equalities: [FilterName, string | null | undefined][] = [
+    ["status", filters.status],
+    ["type", filters.type],
+    ["companyId", filters.companyId],
+    ["sellerId", filters.sellerId],
+  ]
+  for (const [filter, value] of equalities) {
+    if (!value) continue
+    const field = filterFields[filter]
+    if (!field) {
+      throw new BookingSearchError(`${label} can't be filtered by ${FILTER_LABELS[filter]}`)
+    }
+    constraints.push(where(field, "==", value))
+  }
+
+  const username = normalizeSearchText(filters.username)
+  if (username) {
+    constraints.push(where(SEARCH_USERNAME_FIELD, "==", username))
+  }
+  const keyword = toSearchKeyword(filters.search)
+  if (keyword) {
+    constraints.push(where(SEARCH_KEYWORDS_FIELD, "array-contains", keyword))
+  }
+  if (filters.from) {
+    constraints.push(where("created", ">=", filters.from))
+  }
+  if (filters.to) {
+    constraints.push(where("created", "<=", filters.to))
+  }
+
+  return constraints
+}
+
+// Firestore timestamps become Dates so they serialize as ISO strings; the search fields are left out
+function toRecord(snapshot: QueryDocumentSnapshot<DocumentData>): DocumentData {
+  const { [SEARCH_KEYWORDS_FIELD]: _keywords, [SEARCH_USERNAME_FIELD]: _username, ...data } = snapshot.data()
+  const record: DocumentData = { id: snapshot.id }
+  for (const [key, value] of Object.entries(data)) {
+    record[key] = value instanceof Timestamp ? value.toDate() : value
+  }
+  return record
+}
+
+/**
+ * One page of bookings or quotation requests matching all the filters, newest first.
+ * `cursor` is the nextCursor of the previous page. The total is counted with an aggregation query.
+ */
+export async function searchRecords(
+  kind: SearchableRecordKind,
+  options: { filters: RecordSearchFilters; pageSize: number; cursor?: string | null },
+): Promise<RecordPage> {
+  const firestore = getDb()
+  const recordsRef = collection(firestore, COLLECTIONS[kind].name)
+  const filters = buildFilters(kind, options.filters)
+
+  const constraints: QueryConstraint[] = [...filters, orderBy("created", "desc"), orderBy(documentId(), "desc")]
+  if (options.cursor) {
+    const start = startAfterCursor(options.cursor)
+    if (!start) {
+      throw new BookingSearchError("Invalid cursor")
+    }
+    constraints.push(start)
+  }
+
+  // One extra document tells whether there is a next page
+  const [snapshot, count] = await Promise.all([
+    getDocs(query(recordsRef, ...constraints, limit(options.pageSize + 1))),
+    getCountFromServer(query(recordsRef, ...filters)),
+  ])
+
+  const docs = snapshot.docs.slice(0, options.pageSize)
+  const nextCursor = snapshot.docs.length > options.pageSize ? encodeCursor(docs[docs.length - 1], "created") : null
+
+  return {
+    records: docs.map(toRecord),
+    pagination: {
+      pageSize: options.pageSize,
+      totalCount: count.data().count,
+      nextCursor,
+      hasNextPage: nextCursor !== null,
+    },
+  }
+}
+
+// Write the search fields on the documents that are missing them or have stale ones; returns how many changed.
+// The fields are derived, so no audit entries are written.
+async function writeSearchFields(kind: SearchableRecordKind, docs: QueryDocumentSnapshot<DocumentData>[]) {
+  const batch = writeBatch(getDb())
+  let updated = 0
+  docs.forEach((recordDoc) => {
+    const data = recordDoc.data()
+    const fields = buildRecordSearchFields(kind, data)
+    const keywords = fields[SEARCH_KEYWORDS_FIELD]
+    const current: string[] = data[SEARCH_KEYWORDS_FIELD] || []
+    const keywordsChanged =
+      current.length !== keywords.length || keywords.some((keyword, index) => current[index] !== keyword)
+    if (keywordsChanged || data[SEARCH_USERNAME_FIELD] !== fields[SEARCH_USERNAME_FIELD]) {
+      batch.update(recordDoc.ref, fields)
+      updated++
+    }
+  })
+  if (updated > 0) {
+    await batch.commit()
+  }
+  return updated
+}
+
+/**
+ * Write the search fields on bookings or quotation requests that are missing or have stale ones, a batch at a
+ * time. Pass the returned nextCursor back in until it is null. With `since`, only records created at or after it
+ * are scanned, oldest first, so a scheduled run can cover everything created since the previous one.
+ */
+export async function backfillRecordSearchFields(
+  kind: SearchableRecordKind,
+  options: { cursor?: string | null; batchSize?: number; since?: Date | null } = {},
+): Promise<{ scanned: number; updated: number; nextCursor: string | null }> {
+  const firestore = getDb()
+  const recordsRef = collection(firestore, COLLECTIONS[kind].name)
+  const batchSize = options.batchSize || 200
+
+  const constraints: QueryConstraint[] = options.since
+    ? [where("created", ">=", options.since), orderBy("created"), orderBy(documentId())]
+    : [orderBy(documentId())]
+  if (options.cursor) {
+    // Ordered by created, the page has to start after the cursor document itself rather than its id
+    if (options.since) {
+      const cursorDoc = await getDoc(doc(recordsRef, options.cursor))
+      if (!cursorDoc.exists()) {
+        throw new BookingSearchError("cursor is invalid")
+      }
+      constraints.push(startAfter(cursorDoc))
+    } else {
+      constraints.push(startAfter(options.cursor))
+    }
+  }
+  const snapshot = await getDocs(query(recordsRef, ...constraints, limit(batchSize)))
+  const updated = await writeSearchFields(kind, snapshot.docs)
+
+  return {
+    scanned: snapshot.size,
+    updated,
+    nextCursor: snapshot.size === batchSize ? snapshot.docs[snapshot.size - 1].id : null,
+  }
+}
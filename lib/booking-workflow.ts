@@ -0,0 +1,326 @@
+/**
+ * Booking Workflow
+ * Status changes and refunds for booking documents. Only the transitions in BOOKING_TRANSITIONS are allowed and
+ * cancelling needs a reason. Each change updates the booking, appends an entry to booking/{id}/status_history
+ * and writes an audit entry in a single transaction. Refunds are recorded in booking/{id}/refunds against
+ * cancelled or completed bookings, and together can't exceed the booking's total_cost. Confirming a booking
+ * records any other bookings of the same site over the same period as conflicts.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToTransaction } from "./audit-log"
+import { findOccupancyConflicts } from "./site-availability"
+import { toDate, roundToCents } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type {
+  BookingRefund,
+  BookingStatus,
+  BookingStatusChange,
+  OccupancyRef,
+  RefundMethod,
+} from "@/types/booking"
+
+const COLLECTION_NAME = "booking"
+const HISTORY_SUBCOLLECTION = "status_history"
+const REFUNDS_SUBCOLLECTION = "refunds"
+
+export const MAX_CANCEL_REASON_LENGTH = 500
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "FOR CONTRACT",
+  "PROCESSING",
+  "COMPLETED",
+  "CANCELLED",
+]
+
+// Allowed next statuses; COMPLETED and CANCELLED are final
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  PENDING: ["CONFIRMED", "CANCELLED"],
+  CONFIRMED: ["FOR CONTRACT", "PROCESSING", "CANCELLED"],
+  "FOR CONTRACT": ["PROCESSING", "CANCELLED"],
+  PROCESSING: ["COMPLETED", "CANCELLED"],
+  COMPLETED: [],
+  CANCELLED: [],
+}
+
+export const REFUND_METHODS: { value: RefundMethod; label: string }[] = [
+  { value: "bank_transfer", label: "Bank transfer" },
+  { value: "gcash", label: "GCash" },
+  { value: "cash", label: "Cash" },
+  { value: "check", label: "Check" },
+  { value: "card_reversal", label: "Card reversal" },
+  { value: "other", label: "Other" },
+]
+
+// Statuses a booking can be refunded in
+export const REFUNDABLE_STATUSES: BookingStatus[] = ["CANCELLED", "COMPLETED"]
+
+export class BookingWorkflowError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "BookingWorkflowError"
+  }
+}
+
+export interface BookingTransitionInput {
+  to: BookingStatus
+  reason?: string | null
+}
+
+export interface BookingRefundInput {
+  amount: number
+  method: RefundMethod
+  reference?: string
+  note?: string
+}
+
+export interface BookingActivity {
+  history: BookingStatusChange[] // Newest first
+  refunds: BookingRefund[] // Newest first
+}
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === "string" && value in BOOKING_TRANSITIONS
+}
+
+// Bookings with a missing or unrecognized status are treated as PENDING
+export function getBookingStatus(value: unknown): BookingStatus {
+  return isBookingStatus(value) ? value : "PENDING"
+}
+
+export function isRefundMethod(value: unknown): value is RefundMethod {
+  return REFUND_METHODS.some((method) => method.value === value)
+}
+
+export interface BookingTransitionResult {
+  status: BookingStatus
+  cancel_reason: string
+  conflicts?: OccupancyRef[] // Set when confirming
+}
+
+// Other bookings and approved requests overlapping the booking's site and dates
+async function findBookingConflicts(bookingId: string): Promise<OccupancyRef[]> {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, bookingId))
+  const data = snapshot.data()
+  const start = toDate(data?.start_date)
+  const end = toDate(data?.end_date)
+  if (!data?.product_id || !start || !end) {
+    return []
+  }
+
+  const exclude: OccupancyRef[] = [{ source: "booking", id: bookingId }]
+  if (data.quotation_id) {
+    exclude.push({ source: "quotation", id: data.quotation_id })
+  }
+  const conflicts = await findOccupancyConflicts(data.product_id, { start, end }, exclude)
+  return conflicts.map(({ source, id }) => ({ source, id }))
+}
+
+export async function transitionBooking(
+  bookingId: string,
+  input: BookingTransitionInput,
+  actor: AuditActor,
+): Promise<BookingTransitionResult> {
+  if (!isBookingStatus(input.to)) {
+    throw new BookingWorkflowError("Please select a valid status", 400)
+  }
+
+  const reason = input.reason?.trim() || null
+  if (input.to === "CANCELLED" && !reason) {
+    throw new BookingWorkflowError("Please give a reason for cancelling the booking", 400)
+  }
+  if (reason && reason.length > MAX_CANCEL_REASON_LENGTH) {
+    throw new BookingWorkflowError(`The reason must be at most ${MAX_CANCEL_REASON_LENGTH} characters`, 400)
+  }
+
+  const firestore = getDb()
+  const bookingRef = doc(firestore, COLLECTION_NAME, bookingId)
+  // Looked up first, since transactions can't run queries
+  const conflicts = input.to === "CONFIRMED" ? await findBookingConflicts(bookingId) : undefined
+
+  return runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(bookingRef)
+    if (!snapshot.exists()) {
+      throw new BookingWorkflowError("Booking not found", 404)
+    }
+
+    const data = snapshot.data()
+    const from = getBookingStatus(data.status)
+    if (from === input.to) {
+      throw new BookingWorkflowError(`The booking is already ${from.toLowerCase()}`, 400)
+    }
+    if (!BOOKING_TRANSITIONS[from].includes(input.to)) {
+      throw new BookingWorkflowError(`A ${from.toLowerCase()} booking cannot be moved to ${input.to.toLowerCase()}`)
+    }
+
+    const update = {
+      status: input.to,
+      cancel_reason: input.to === "CANCELLED" ? reason! : data.cancel_reason || "",
+      status_updated_at: serverTimestamp(),
+      ...(conflicts && { conflicts }),
+    }
+    const historyRef = doc(collection(firestore, COLLECTION_NAME, bookingId, HISTORY_SUBCOLLECTION))
+
+    transaction.update(bookingRef, update)
+    transaction.set(historyRef, {
+      from: data.status || from,
+      to: input.to,
+      reason,
+      actor_uid: actor.uid,
+      actor_email: actor.email,
+      created_at: serverTimestamp(),
+    })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: bookingId,
+      action: "update",
+      before: { status: data.status ?? null, cancel_reason: data.cancel_reason ?? "" },
+      after: { status: update.status, cancel_reason: update.cancel_reason },
+      actor,
+      metadata: { operation: "status_change", historyId: historyRef.id, conflicts: conflicts?.length ?? 0 },
+    })
+
+    return { status: update.status, cancel_reason: update.cancel_reason, conflicts }
+  })
+}
+
+export async function recordBookingRefund(
+  bookingId: string,
+  input: BookingRefundInput,
+  actor: AuditActor,
+): Promise<{ refund: BookingRefund; refunded_amount: number }> {
+  const amount = roundToCents(Number(input.amount))
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new BookingWorkflowError("Please enter a refund amount greater than zero", 400)
+  }
+  if (!isRefundMethod(input.method)) {
+    throw new BookingWorkflowError("Please select a refund method", 400)
+  }
+  const reference = input.reference?.trim() || ""
+  const note = input.note?.trim() || ""
+  if (reference.length > 100 || note.length > 500) {
+    throw new BookingWorkflowError("The reference or note is too long", 400)
+  }
+
+  const firestore = getDb()
+  const bookingRef = doc(firestore, COLLECTION_NAME, bookingId)
+  const refundRef = doc(collection(firestore, COLLECTION_NAME, bookingId, REFUNDS_SUBCOLLECTION))
+
+  const refundedAmount = await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(bookingRef)
+    if (!snapshot.exists()) {
+      throw new BookingWorkflowError("Booking not found", 404)
+    }
+
+    const data = snapshot.data()
+    if (!REFUNDABLE_STATUSES.includes(getBookingStatus(data.status))) {
+      throw new BookingWorkflowError("Only cancelled or completed bookings can be refunded")
+    }
+
+    const totalCost = typeof data.total_cost === "number" ? data.total_cost : 0
+    const alreadyRefunded = data.refunded_amount || 0
+    const refundable = roundToCents(totalCost - alreadyRefunded)
+    if (amount > refundable) {
+      throw new BookingWorkflowError(
+        refundable > 0
+          ? `At most ₱${refundable.toFixed(2)} of the ₱${totalCost.toFixed(2)} total can still be refunded`
+          : "The booking has already been fully refunded",
+        400,
+      )
+    }
+
+    const refundedAmount = roundToCents(alreadyRefunded + amount)
+    const refundData = {
+      amount,
+      method: input.method,
+      reference,
+      note,
+      actor_uid: actor.uid,
+      actor_email: actor.email,
+      created_at: serverTimestamp(),
+    }
+
+    transaction.update(bookingRef, { refunded_amount: refundedAmount })
+    transaction.set(refundRef, refundData)
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: bookingId,
+      action: "update",
+      before: { refunded_amount: alreadyRefunded },
+      after: { refunded_amount: refundedAmount },
+      actor,
+      metadata: { operation: "refund", refundId: refundRef.id, amount, method: input.method },
+    })
+
+    return refundedAmount
+  })
+
+  return {
+    refund: {
+      id: refundRef.id,
+      amount,
+      method: input.method,
+      reference,
+      note,
+      actor_uid: actor.uid,
+      actor_email: actor.email || "",
+      created_at: new Date(),
+    },
+    refunded_amount: refundedAmount,
+  }
+}
+
+export async function getBookingActivity(bookingId: string): Promise<BookingActivity> {
+  const firestore = getDb()
+  const [historySnapshot, refundsSnapshot] = await Promise.all([
+    getDocs(
+      query(collection(firestore, COLLECTION_NAME, bookingId, HISTORY_SUBCOLLECTION), orderBy("created_at", "desc")),
+    ),
+    getDocs(
+      query(collection(firestore, COLLECTION_NAME, bookingId, REFUNDS_SUBCOLLECTION), orderBy("created_at", "desc")),
+    ),
+  ])
+
+  return {
+    history: historySnapshot.docs.map((entry) => {
+      const data = entry.data()
+      return {
+        id: entry.id,
+        from: data.from || "",
+        to: data.to,
+        reason: data.reason || null,
+        actor_uid: data.actor_uid,
+        actor_email: data.actor_email || "",
+        created_at: toDate(data.created_at) || new Date(),
+      }
+    }),
+    refunds: refundsSnapshot.docs.map((entry) => {
+      const data = entry.data()
+      return {
+        id: entry.id,
+        amount: data.amount || 0,
+        method: data.method,
+        reference: data.reference || "",
+        note: data.note || "",
+        actor_uid: data.actor_uid,
+        actor_email: data.actor_email || "",
+        created_at: toDate(data.created_at) || new Date(),
+      }
+    }),
+  }
+}
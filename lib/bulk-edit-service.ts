@@ -1,9 +1,11 @@
 import { doc, writeBatch, getDoc, increment, arrayUnion, arrayRemove, deleteField, Timestamp } from "firebase/firestore"
 import { db } from "./firebase"
+import { requirePermission } from "./permissions"
+import { addAuditEventToBatch } from "./audit-log"
 import type { BulkEditField, BulkEditPreview, BulkEditResult, BulkEditValidation } from "@/types/bulk-edit"
 
 export class BulkEditService {
-  private static readonly BATCH_SIZE = 500 // Firestore batch limit
+  private static readonly BATCH_SIZE = 250 // Firestore batch limit is 500 writes; each update also writes an audit entry
   private static readonly MAX_PREVIEW_DOCS = 10
 
   /**
@@ -112,6 +114,8 @@ export class BulkEditService {
     documentIds: string[],
     fields: BulkEditField[],
   ): Promise<BulkEditResult> {
+    await requirePermission("database:write")
+
     const startTime = Date.now()
     const enabledFields = fields.filter((f) => f.enabled)
     const result: BulkEditResult = {
@@ -202,6 +206,14 @@ export class BulkEditService {
           updatedAt: Timestamp.now(),
           lastBulkEdit: Timestamp.now(),
         })
+        addAuditEventToBatch(batch, {
+          collection: collectionPath,
+          entityId: documentId,
+          action: "bulk_update",
+          before: docSnap.data(),
+          after: updateData,
+          metadata: { batchSize: documentIds.length },
+        })
 
         result.successful++
       } catch (error: any) {
@@ -13,10 +13,12 @@ import {
   limit,
   startAfter,
   type DocumentSnapshot,
-  deleteDoc,
+  writeBatch,
 } from "firebase/firestore"
 import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage"
-import { db, storage } from "@/lib/firebase"
+import { db, getDb, storage } from "@/lib/firebase"
+import { requirePermission } from "@/lib/permissions"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import type { Category, CategoryFormData, CategoryFilter } from "@/types/category"
 
 const COLLECTION_NAME = "categories"
@@ -233,6 +235,8 @@ export function validateCategory(data: CategoryFormData): Record<string, string>
 
 // Create a new category
 export async function createCategory(data: CategoryFormData): Promise<string> {
+  await requirePermission("categories:write")
+
   try {
     // Validate data
     const errors = validateCategory(data)
@@ -256,6 +260,8 @@ export async function createCategory(data: CategoryFormData): Promise<string> {
 
 // Update an existing category
 export async function updateCategory(id: string, data: Partial<CategoryFormData>): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     // Validate data (only validate fields that are being updated)
     const fieldsToValidate: Partial<CategoryFormData> = {}
@@ -269,7 +275,18 @@ export async function updateCategory(id: string, data: Partial<CategoryFormData>
     }
 
     const docRef = doc(db, COLLECTION_NAME, id)
-    await updateDoc(docRef, data)
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(docRef, data)
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "update",
+      before: docSnap.data(),
+      after: data,
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error updating category:", error)
     throw error
@@ -278,11 +295,22 @@ export async function updateCategory(id: string, data: Partial<CategoryFormData>
 
 // Soft delete a category (mark as deleted)
 export async function softDeleteCategory(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
-    await updateDoc(docRef, {
-      deleted: true,
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(docRef, { deleted: true })
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "soft_delete",
+      before: docSnap.data(),
+      after: { deleted: true },
     })
+    await batch.commit()
   } catch (error) {
     console.error("Error soft deleting category:", error)
     throw error
@@ -291,11 +319,22 @@ export async function softDeleteCategory(id: string): Promise<void> {
 
 // Restore a soft-deleted category
 export async function restoreCategory(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
-    await updateDoc(docRef, {
-      deleted: false,
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(docRef, { deleted: false })
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "restore",
+      before: docSnap.data(),
+      after: { deleted: false },
     })
+    await batch.commit()
   } catch (error) {
     console.error("Error restoring category:", error)
     throw error
@@ -304,6 +343,8 @@ export async function restoreCategory(id: string): Promise<void> {
 
 // Hard delete a category (remove from database)
 export async function hardDeleteCategory(id: string): Promise<void> {
+  await requirePermission("categories:delete")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
 
@@ -331,7 +372,15 @@ export async function hardDeleteCategory(id: string): Promise<void> {
     }
 
     // Delete the document
-    await deleteDoc(docRef)
+    const batch = writeBatch(getDb())
+    batch.delete(docRef)
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "delete",
+      before: docSnap.data(),
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error hard deleting category:", error)
     throw error
@@ -375,6 +424,8 @@ export async function uploadCategoryPhoto(file: File): Promise<string> {
 
 // Toggle featured status
 export async function toggleCategoryFeatured(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     const docSnap = await getDoc(docRef)
@@ -393,6 +444,8 @@ export async function toggleCategoryFeatured(id: string): Promise<void> {
 
 // Toggle active status
 export async function toggleCategoryActive(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     const docSnap = await getDoc(docRef)
@@ -0,0 +1,226 @@
+/**
+ * Client Import
+ * Maps spreadsheet rows to client creation input and validates them the way POST /api/clients does, so the
+ * import wizard can preview per-row errors before anything is created. Used by the wizard and POST /api/clients/import.
+ */
+
+import { type ClientFieldErrors, hasFieldErrors, validateClientInput } from "./client-validation"
+import { toCsv, type SpreadsheetRows } from "./spreadsheet"
+import type { SubscriptionPlan } from "@/types/subscription"
+
+// Rows per import request; each row provisions an account and runs its own transaction
+export const IMPORT_BATCH_SIZE = 10
+
+export const MAX_IMPORT_ROWS = 500
+
+export const IMPORT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/
+
+interface ClientImportColumn {
+  field: string // Path in the client creation body, e.g. "point_person.email"
+  label: string // Header used in the template
+  aliases: string[]
+  required?: boolean
+}
+
+export const CLIENT_IMPORT_COLUMNS: ClientImportColumn[] = [
+  { field: "name", label: "Company Name", aliases: ["company", "name"], required: true },
+  { field: "business_type", label: "Business Type", aliases: ["type"] },
+  { field: "website", label: "Website", aliases: ["url"] },
+  { field: "phone", label: "Phone", aliases: ["company phone", "telephone"] },
+  { field: "industry", label: "Industry", aliases: [] },
+  { field: "size", label: "Company Size", aliases: ["size"] },
+  { field: "description", label: "Description", aliases: [] },
+  { field: "address.street", label: "Street", aliases: ["address", "street address"] },
+  { field: "address.city", label: "City", aliases: [] },
+  { field: "address.province", label: "Province", aliases: ["state"] },
+  { field: "point_person.first_name", label: "Point Person First Name", aliases: ["first name", "contact first name"] },
+  { field: "point_person.last_name", label: "Point Person Last Name", aliases: ["last name", "contact last name"] },
+  {
+    field: "point_person.email",
+    label: "Point Person Email",
+    aliases: ["email", "contact email"],
+    required: true,
+  },
+  { field: "point_person.position", label: "Point Person Position", aliases: ["position", "contact position"] },
+  { field: "planType", label: "Plan", aliases: ["plan type", "subscription plan"], required: true },
+  { field: "billingCycle", label: "Billing Cycle", aliases: ["billing"] },
+  { field: "maxProducts", label: "Max Products", aliases: [] },
+  { field: "maxUsers", label: "Max Users", aliases: [] },
+  { field: "project_name", label: "Project Name", aliases: ["project"] },
+]
+
+// Body of a client creation request. Imported point people are always invited by email.
+export interface ClientImportInput {
+  name: string
+  business_type: string
+  website: string
+  phone: string
+  industry: string
+  size: string
+  description: string
+  address: { street: string; city: string; province: string }
+  point_person: { first_name: string; last_name: string; email: string; position: string; provisioning: "invite" }
+  planType: string
+  billingCycle: string
+  maxProducts: string
+  maxUsers: string
+  project_name: string
+}
+
+export interface ClientImportRow {
+  rowNumber: number // Line in the spreadsheet, counting the header as line 1
+  input: ClientImportInput
+  fieldErrors: ClientFieldErrors
+}
+
+export interface ClientImportRowResult {
+  rowNumber: number
+  status: "created" | "skipped" | "failed"
+  companyId?: string
+  error?: string
+  fieldErrors?: ClientFieldErrors
+  inviteError?: string
+}
+
+export interface ClientImportTable {
+  rows: ClientImportRow[]
+  unknownHeaders: string[]
+  missingColumns: string[]
+}
+
+function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+function findColumn(header: string): ClientImportColumn | undefined {
+  const normalized = normalizeHeader(header)
+  return CLIENT_IMPORT_COLUMNS.find(
+    (column) =>
+      normalizeHeader(column.label) === normalized ||
+      normalizeHeader(column.field) === normalized ||
+      column.aliases.includes(normalized),
+  )
+}
+
+export function getColumnLabel(field: string): string {
+  return CLIENT_IMPORT_COLUMNS.find((column) => column.field === field)?.label || field
+}
+
+// Plans can be given by ID ("basic") or by name ("Basic"); billing cycles also accept "annual" and "yearly"
+function resolvePlanType(value: string, plans: SubscriptionPlan[]): string {
+  const normalized = value.trim().toLowerCase()
+  const plan = plans.find((p) => p.id === normalized || p.name.trim().toLowerCase() === normalized)
+  return plan ? plan.id : value.trim()
+}
+
+function resolveBillingCycle(value: string): string {
+  const normalized = value.trim().toLowerCase()
+  if (!normalized || normalized === "month" || normalized === "monthly") return "monthly"
+  if (["annual", "annually", "year", "yearly"].includes(normalized)) return "annually"
+  return value.trim()
+}
+
+function buildInput(values: Record<string, string>, plans: SubscriptionPlan[]): ClientImportInput {
+  const get = (field: string) => (values[field] || "").trim()
+  return {
+    name: get("name"),
+    business_type: get("business_type"),
+    website: get("website"),
+    phone: get("phone"),
+    industry: get("industry"),
+    size: get("size"),
+    description: get("description"),
+    address: { street: get("address.street"), city: get("address.city"), province: get("address.province") },
+    point_person: {
+      first_name: get("point_person.first_name"),
+      last_name: get("point_person.last_name"),
+      email: get("point_person.email").toLowerCase(),
+      position: get("point_person.position"),
+      provisioning: "invite",
+    },
+    planType: resolvePlanType(get("planType"), plans),
+    billingCycle: resolveBillingCycle(get("billingCycle")),
+    maxProducts: get("maxProducts"),
+    maxUsers: get("maxUsers"),
+    project_name: get("project_name"),
+  }
+}
+
+/**
+ * Map a parsed spreadsheet (header row first) to import rows and validate each one.
+ * Besides the POST /api/clients checks, a company name or point person email repeated within the file is an error.
+ */
+export function buildClientImportTable(table: SpreadsheetRows, plans: SubscriptionPlan[]): ClientImportTable {
+  const [headers = [], ...dataRows] = table
+  const columns = headers.map((header) => findColumn(header))
+
+  const unknownHeaders = headers.filter((header, index) => header.trim() && !columns[index])
+  const missingColumns = CLIENT_IMPORT_COLUMNS.filter(
+    (column) => column.required && !columns.includes(column),
+  ).map((column) => column.label)
+
+  const rows = dataRows.map((cells, index) => {
+    const values: Record<string, string> = {}
+    columns.forEach((column, columnIndex) => {
+      if (column && cells[columnIndex] !== undefined) {
+        values[column.field] = cells[columnIndex]
+      }
+    })
+    const input = buildInput(values, plans)
+    return { rowNumber: index + 2, input, fieldErrors: validateClientInput(input, plans) }
+  })
+
+  const firstRowByName = new Map<string, number>()
+  const firstRowByEmail = new Map<string, number>()
+  for (const row of rows) {
+    const name = row.input.name.toLowerCase()
+    const email = row.input.point_person.email
+
+    if (name && !row.fieldErrors.name) {
+      const first = firstRowByName.get(name)
+      if (first) {
+        row.fieldErrors.name = `Same company name as row ${first}`
+      } else {
+        firstRowByName.set(name, row.rowNumber)
+      }
+    }
+    if (email && !row.fieldErrors["point_person.email"]) {
+      const first = firstRowByEmail.get(email)
+      if (first) {
+        row.fieldErrors["point_person.email"] = `Same point person email as row ${first}`
+      } else {
+        firstRowByEmail.set(email, row.rowNumber)
+      }
+    }
+  }
+
+  return { rows, unknownHeaders, missingColumns }
+}
+
+export function isValidImportRow(row: ClientImportRow): boolean {
+  return !hasFieldErrors(row.fieldErrors)
+}
+
+// Blank template with every column and one example row
+export function buildClientImportTemplate(): string {
+  const example: Record<string, string> = {
+    name: "Acme Trading Corp",
+    business_type: "Corporation",
+    website: "https://acme.example.com",
+    industry: "Retail",
+    "address.city": "Makati",
+    "address.province": "Metro Manila",
+    "point_person.first_name": "Juan",
+    "point_person.last_name": "Dela Cruz",
+    "point_person.email": "juan@acme.example.com",
+    planType: "trial",
+    billingCycle: "monthly",
+  }
+  return toCsv([
+    CLIENT_IMPORT_COLUMNS.map((column) => column.label),
+    CLIENT_IMPORT_COLUMNS.map((column) => example[column.field] || ""),
+  ])
+}
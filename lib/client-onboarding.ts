@@ -0,0 +1,383 @@
+/**
+ * Client Onboarding
+ * Creates a client: company, subscription, license and point person profile, plus the first invoice on paid
+ * plans. Shared by POST /api/clients and the bulk import.
+ */
+
+import { collection, doc, getDoc, runTransaction, serverTimestamp, type DocumentReference } from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToTransaction } from "./audit-log"
+import type { ClientImportRowResult } from "./client-import"
+import { type ClientFieldErrors, hasFieldErrors, validateClientInput } from "./client-validation"
+import { SEARCH_KEYWORDS_FIELD, buildCompanySearchKeywords } from "./company-search"
+import {
+  IdempotencyError,
+  buildIdempotencyRecord,
+  fingerprintRequest,
+  getIdempotencyRef,
+  getStoredResult,
+} from "./idempotency"
+import { buildBillTo, issueInvoiceInTransaction } from "./invoice-service"
+import { LicenseSigningError, generateLicenseKey } from "./license-keys"
+import { QuotaExceededError, assertWithinLimit } from "./quota-service"
+import {
+  PointPersonError,
+  buildCompanyPointPerson,
+  buildPointPersonProfile,
+  provisionPointPersonAccount,
+  rollbackPointPersonAccount,
+  sendPointPersonInvite,
+  type PointPersonAccount,
+} from "./point-person-service"
+import { calculateEndDate, calculateTrialEndDate, findPlan, getPlanLimits, getPlanPrice } from "./subscription-plans"
+import type { AuditActor } from "@/types/audit-log"
+import type { SubscriptionPlan } from "@/types/subscription"
+
+// Document IDs of a created client, as stored for idempotent replays
+export interface ClientCreationResult {
+  companyId: string
+  subscriptionId: string
+  projectId: string
+  pointPerson: { uid: string; email: string; provisioning: string }
+}
+
+export type CreateClientOutcome =
+  | { replayed: true; result: ClientCreationResult }
+  | {
+      replayed: false
+      result: ClientCreationResult
+      company: Record<string, any>
+      subscription: Record<string, any>
+      project: Record<string, any>
+      inviteError?: string
+    }
+
+export class ClientCreationError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public fieldErrors: ClientFieldErrors = {},
+  ) {
+    super(message)
+    this.name = "ClientCreationError"
+  }
+}
+
+/**
+ * Validate and create a client. Invalid input throws ClientCreationError with field errors.
+ * With an idempotency record, a key that already succeeded returns that result as replayed.
+ */
+export async function createClient(
+  body: Record<string, any>,
+  actor: AuditActor,
+  options: {
+    plans: SubscriptionPlan[]
+    idempotency?: { ref: DocumentReference; fingerprint: string } | null
+  },
+): Promise<CreateClientOutcome> {
+  const firestore = getDb()
+  const { plans, idempotency } = options
+  const {
+    // Company data
+    name,
+    business_type,
+    website,
+    address,
+    point_person,
+    phone,
+    description,
+    industry,
+    size,
+    // Subscription data
+    planType,
+    billingCycle,
+    maxProducts,
+    maxUsers,
+    // Project data
+    project_name,
+  } = body
+
+  const uid = actor.uid
+
+  // A key that already succeeded is answered from its stored result, before any account is provisioned
+  if (idempotency) {
+    const stored = getStoredResult<ClientCreationResult>(await getDoc(idempotency.ref), uid, idempotency.fingerprint)
+    if (stored) {
+      return { replayed: true, result: stored }
+    }
+  }
+
+  const fieldErrors = validateClientInput(body, plans)
+  if (hasFieldErrors(fieldErrors)) {
+    throw new ClientCreationError("Please correct the highlighted fields", 400, fieldErrors)
+  }
+
+  // Calculate subscription dates; trial plans run for the trial period instead of a billing cycle
+  const startDate = new Date()
+  const isTrial = planType === "trial"
+  const trialEndDate = isTrial ? calculateTrialEndDate(startDate) : null
+  const endDate = isTrial ? trialEndDate : calculateEndDate(startDate, billingCycle)
+
+  // Plan limits, optionally lowered for this client
+  const plan = findPlan(plans, planType)!
+  const planLimits = getPlanLimits(plan)
+  const limits = {
+    maxProducts: maxProducts ? Number(maxProducts) : planLimits.maxProducts,
+    maxUsers: maxUsers ? Number(maxUsers) : planLimits.maxUsers,
+  }
+
+  // The point person is the new company's first user, so the plan must allow at least one
+  assertWithinLimit("users", 0, limits.maxUsers)
+
+  // Signed license key carrying the company, plan and end of the first period. Issued before the point person's
+  // account so a missing signing secret fails without leaving an account behind.
+  const companyRef = doc(collection(firestore, "companies"))
+  const licenseKey = generateLicenseKey({ companyId: companyRef.id, planType, billingCycle, expiresAt: endDate })
+
+  // Create (or link) the point person's auth account before writing anything else
+  let pointPerson: PointPersonAccount
+  try {
+    pointPerson = await provisionPointPersonAccount(point_person)
+  } catch (error) {
+    if (error instanceof PointPersonError) {
+      throw new ClientCreationError("Please correct the highlighted fields", error.status, {
+        [error.field]: error.message,
+      })
+    }
+    throw error
+  }
+
+  // Create company document
+  const companyData = {
+    name: name.trim(),
+    business_type,
+    website,
+    address,
+    point_person: buildCompanyPointPerson(pointPerson, point_person),
+    phone,
+    description,
+    industry,
+    size,
+    [SEARCH_KEYWORDS_FIELD]: buildCompanySearchKeywords({ name, industry, address, point_person }),
+    created_at: serverTimestamp(),
+    created_by: uid,
+    updated_at: serverTimestamp(),
+    updated_by: uid,
+  }
+
+  // Create subscription document
+  const subscriptionData = {
+    licenseKey,
+    planType,
+    planVersion: plan.version,
+    billingCycle,
+    uid,
+    startDate,
+    endDate,
+    status: isTrial ? "trialing" : "active",
+    maxProducts: limits.maxProducts,
+    maxUsers: limits.maxUsers,
+    trialEndDate,
+    companyId: companyRef.id,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  }
+
+  const subscriptionRef = doc(collection(firestore, "subscriptions"))
+
+  // Create project document
+  const projectData = {
+    uid,
+    license_key: licenseKey,
+    project_name: project_name || `${name} Project`,
+    company_name: name,
+    company_id: companyRef.id,
+    company_location: address ? `${address.city}, ${address.province}` : "",
+    company_website: website || "",
+    social_media: {
+      facebook: "",
+      instagram: "",
+      youtube: "",
+    },
+    created: serverTimestamp(), // Use Firestore server timestamp
+    updated: serverTimestamp(), // Use Firestore server timestamp
+    deleted: false,
+  }
+
+  const projectRef = doc(collection(firestore, "licenses"))
+
+  const pointPersonRef = doc(firestore, "iboard_users", pointPerson.uid)
+  const pointPersonProfile = buildPointPersonProfile(pointPerson, point_person, {
+    companyId: companyRef.id,
+    licenseKey,
+  })
+
+  const result: ClientCreationResult = {
+    companyId: companyRef.id,
+    subscriptionId: subscriptionRef.id,
+    projectId: projectRef.id,
+    pointPerson: { uid: pointPerson.uid, email: pointPerson.email, provisioning: pointPerson.provisioning },
+  }
+
+  // Every document, its audit entries and the idempotency record commit together or not at all
+  let replayed: ClientCreationResult | null
+  try {
+    replayed = await runTransaction(firestore, async (transaction) => {
+      if (idempotency) {
+        const stored = getStoredResult<ClientCreationResult>(
+          await transaction.get(idempotency.ref),
+          uid,
+          idempotency.fingerprint,
+        )
+        if (stored) {
+          return stored
+        }
+      }
+
+      // First period of a paid plan is invoiced straight away; issued before the writes since it reads the counter
+      if (!isTrial && endDate) {
+        await issueInvoiceInTransaction(
+          transaction,
+          {
+            reason: "new_subscription",
+            subscriptionId: subscriptionRef.id,
+            companyId: companyRef.id,
+            planType,
+            planVersion: plan.version,
+            planName: plan.name,
+            billingCycle,
+            periodStart: startDate,
+            periodEnd: endDate,
+            amount: getPlanPrice(plans, planType, billingCycle),
+            billTo: buildBillTo(companyData),
+          },
+          actor,
+        )
+      }
+
+      transaction.set(companyRef, companyData)
+      transaction.set(subscriptionRef, subscriptionData)
+      transaction.set(projectRef, projectData)
+      transaction.set(pointPersonRef, pointPersonProfile, { merge: true })
+
+      addAuditEventToTransaction(transaction, {
+        collection: "companies",
+        entityId: companyRef.id,
+        action: "create",
+        after: companyData,
+        actor,
+        metadata: { subscriptionId: subscriptionRef.id, projectId: projectRef.id },
+      })
+      addAuditEventToTransaction(transaction, {
+        collection: "iboard_users",
+        entityId: pointPerson.uid,
+        action: pointPerson.created ? "create" : "update",
+        after: pointPersonProfile,
+        actor,
+        metadata: { operation: "point_person", companyId: companyRef.id, provisioning: pointPerson.provisioning },
+      })
+
+      if (idempotency) {
+        transaction.set(idempotency.ref, buildIdempotencyRecord(uid, idempotency.fingerprint, { ...result }))
+      }
+      return null
+    })
+  } catch (error) {
+    await rollbackPointPersonAccount(pointPerson)
+    throw error
+  }
+
+  // A concurrent request with the same key won the race; drop this attempt's account and return its result
+  if (replayed) {
+    await rollbackPointPersonAccount(pointPerson)
+    return { replayed: true, result: replayed }
+  }
+
+  // The client exists at this point, so a failed email is reported rather than undoing everything
+  let inviteError: string | undefined
+  try {
+    await sendPointPersonInvite(pointPerson)
+  } catch (error) {
+    console.error("Error sending point person invite:", error)
+    inviteError = "The client was created but the password setup email could not be sent"
+  }
+
+  return {
+    replayed: false,
+    result,
+    company: { id: companyRef.id, ...companyData },
+    subscription: { id: subscriptionRef.id, ...subscriptionData },
+    project: { id: projectRef.id, ...projectData },
+    inviteError,
+  }
+}
+
+// Rebuild the creation response for a replayed request from the stored document IDs
+export async function getCreatedClient(result: ClientCreationResult) {
+  const firestore = getDb()
+  const [companyDoc, subscriptionDoc, projectDoc] = await Promise.all([
+    getDoc(doc(firestore, "companies", result.companyId)),
+    getDoc(doc(firestore, "subscriptions", result.subscriptionId)),
+    getDoc(doc(firestore, "licenses", result.projectId)),
+  ])
+
+  return {
+    company: { id: companyDoc.id, ...companyDoc.data() },
+    subscription: { id: subscriptionDoc.id, ...subscriptionDoc.data() },
+    project: { id: projectDoc.id, ...projectDoc.data() },
+  }
+}
+
+/**
+ * Create one batch of imported clients, one row at a time. A failed row doesn't stop the batch.
+ * Each row's idempotency key combines the import and row number, so a retried batch skips rows already created.
+ */
+export async function importClients(
+  rows: { rowNumber: number; input: Record<string, any> }[],
+  actor: AuditActor,
+  options: { plans: SubscriptionPlan[]; importId: string },
+): Promise<ClientImportRowResult[]> {
+  const results: ClientImportRowResult[] = []
+
+  for (const { rowNumber, input } of rows) {
+    // Imported point people are always invited; a password column is never honoured
+    const body = { ...input, point_person: { ...input.point_person, provisioning: "invite", password: undefined } }
+
+    try {
+      const outcome = await createClient(body, actor, {
+        plans: options.plans,
+        idempotency: {
+          ref: getIdempotencyRef("import_client", `${options.importId}_${rowNumber}`),
+          fingerprint: await fingerprintRequest(body),
+        },
+      })
+      results.push({
+        rowNumber,
+        status: "created",
+        companyId: outcome.result.companyId,
+        inviteError: outcome.replayed ? undefined : outcome.inviteError,
+      })
+    } catch (error) {
+      if (
+        error instanceof ClientCreationError ||
+        error instanceof IdempotencyError ||
+        error instanceof QuotaExceededError
+      ) {
+        results.push({
+          rowNumber,
+          status: "failed",
+          error: error.message,
+          fieldErrors: error instanceof ClientCreationError ? error.fieldErrors : {},
+        })
+      } else if (error instanceof LicenseSigningError) {
+        // Every remaining row would fail the same way, so the batch stops here
+        throw error
+      } else {
+        console.error(`Error importing client row ${rowNumber}:`, error)
+        results.push({ rowNumber, status: "failed", error: "Failed to create client" })
+      }
+    }
+  }
+
+  return results
+}
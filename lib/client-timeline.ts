@@ -0,0 +1,229 @@
+/**
+ * Client Timeline
+ * Everything that happened for a company, newest first: products created, bookings, quotation requests,
+ * member sign-ups and subscription changes. Each type is loaded separately and capped, so one busy type can't
+ * crowd out the rest; capped types are reported as truncated.
+ * Products, bookings and quotations are queried by company_id and created, which needs the composite index
+ * (company_id asc, created desc) on products, booking and quotation_request, listed in firestore.indexes.json.
+ */
+
+import {
+  Timestamp,
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+  type DocumentData,
+  type QueryConstraint,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { getSubscriptionHistory } from "./subscription-lifecycle"
+import { getSubscriptionsByCompanyId } from "./subscription-service"
+import { toDate } from "./utils"
+import type {
+  ClientTimeline,
+  ClientTimelineEvent,
+  ClientTimelineEventType,
+  ClientTimelineFilters,
+} from "@/types/client-timeline"
+import type { SubscriptionChangeAction } from "@/types/subscription"
+
+export const CLIENT_TIMELINE_EVENT_TYPES: ClientTimelineEventType[] = [
+  "product",
+  "booking",
+  "quotation",
+  "member",
+  "subscription",
+]
+
+// Most recent events loaded per type
+const EVENTS_PER_TYPE = 100
+
+const SUBSCRIPTION_ACTION_TITLES: Record<SubscriptionChangeAction, string> = {
+  plan_changed: "Plan changed",
+  renewed: "Subscription renewed",
+  cancellation_scheduled: "Cancellation scheduled",
+  cancellation_reverted: "Cancellation reverted",
+  trial_converted: "Trial converted to a paid plan",
+  grace_period_started: "Grace period started",
+  expired: "Subscription expired",
+  trial_expired: "Trial expired",
+  cancelled: "Subscription cancelled",
+  license_revoked: "License revoked",
+}
+
+interface TypeEvents {
+  events: ClientTimelineEvent[]
+  truncated: boolean
+}
+
+function isInRange(date: Date, filters: ClientTimelineFilters): boolean {
+  return (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to)
+}
+
+// Sort newest first and keep the first EVENTS_PER_TYPE, for types filtered in memory
+function capEvents(events: ClientTimelineEvent[]): TypeEvents {
+  const sorted = events.sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+  return { events: sorted.slice(0, EVENTS_PER_TYPE), truncated: sorted.length > EVENTS_PER_TYPE }
+}
+
+// Documents of a collection for the company, created within the range, newest first
+async function queryCreated(collectionName: string, companyId: string, filters: ClientTimelineFilters) {
+  const constraints: QueryConstraint[] = [where("company_id", "==", companyId)]
+  if (filters.from) constraints.push(where("created", ">=", Timestamp.fromDate(filters.from)))
+  if (filters.to) constraints.push(where("created", "<=", Timestamp.fromDate(filters.to)))
+
+  // One extra document tells whether the type was truncated
+  const snapshot = await getDocs(
+    query(collection(getDb(), collectionName), ...constraints, orderBy("created", "desc"), limit(EVENTS_PER_TYPE + 1)),
+  )
+  return { docs: snapshot.docs.slice(0, EVENTS_PER_TYPE), truncated: snapshot.size > EVENTS_PER_TYPE }
+}
+
+async function getProductEvents(companyId: string, filters: ClientTimelineFilters): Promise<TypeEvents> {
+  const { docs, truncated } = await queryCreated("products", companyId, filters)
+  return {
+    truncated,
+    events: docs.map((productDoc) => {
+      const data = productDoc.data()
+      return {
+        id: `product:${productDoc.id}`,
+        type: "product",
+        occurredAt: toDate(data.created) || new Date(0),
+        title: `Product created: ${data.name || "Untitled"}`,
+        description: [data.type, data.seller_name && `by ${data.seller_name}`].filter(Boolean).join(" "),
+        status: data.deleted ? "DELETED" : data.status || null,
+        amount: typeof data.price === "number" ? data.price : null,
+      }
+    }),
+  }
+}
+
+async function getBookingEvents(companyId: string, filters: ClientTimelineFilters): Promise<TypeEvents> {
+  const { docs, truncated } = await queryCreated("booking", companyId, filters)
+  return {
+    truncated,
+    events: docs.map((bookingDoc) => {
+      const data = bookingDoc.data()
+      return {
+        id: `booking:${bookingDoc.id}`,
+        type: "booking",
+        occurredAt: toDate(data.created) || new Date(0),
+        title: `${data.type ? `${data.type} booking` : "Booking"}${data.username ? ` by ${data.username}` : ""}`,
+        description: [data.quantity && `Qty ${data.quantity}`, data.payment_method, data.cancel_reason]
+          .filter(Boolean)
+          .join(" · "),
+        status: data.status || null,
+        amount: typeof data.total_cost === "number" ? data.total_cost : null,
+      }
+    }),
+  }
+}
+
+async function getQuotationEvents(companyId: string, filters: ClientTimelineFilters): Promise<TypeEvents> {
+  const { docs, truncated } = await queryCreated("quotation_request", companyId, filters)
+  return {
+    truncated,
+    events: docs.map((quotationDoc) => {
+      const data = quotationDoc.data()
+      const requester = [data.name, data.company && `(${data.company})`].filter(Boolean).join(" ")
+      return {
+        id: `quotation:${quotationDoc.id}`,
+        type: "quotation",
+        occurredAt: toDate(data.created) || new Date(0),
+        title: `Quotation requested${requester ? ` by ${requester}` : ""}`,
+        description: [data.email_address, data.contact_number].filter(Boolean).join(" · "),
+        status: data.status || null,
+        amount: null,
+      }
+    }),
+  }
+}
+
+// A company has few members, and older profiles use created or created_time, so members are filtered in memory
+async function getMemberEvents(companyId: string, filters: ClientTimelineFilters): Promise<TypeEvents> {
+  const snapshot = await getDocs(query(collection(getDb(), "iboard_users"), where("company_id", "==", companyId)))
+
+  const events: ClientTimelineEvent[] = []
+  snapshot.forEach((memberDoc) => {
+    const data: DocumentData = memberDoc.data()
+    const joinedAt = toDate(data.created_time) || toDate(data.created)
+    if (!joinedAt || !isInRange(joinedAt, filters)) return
+
+    const name = [data.first_name, data.last_name].filter(Boolean).join(" ") || data.display_name || data.email
+    events.push({
+      id: `member:${memberDoc.id}`,
+      type: "member",
+      occurredAt: joinedAt,
+      title: `Member joined: ${name || memberDoc.id}`,
+      description: [data.email !== name && data.email, data.position].filter(Boolean).join(" · "),
+      status: data.active === false ? "INACTIVE" : null,
+      amount: null,
+    })
+  })
+  return capEvents(events)
+}
+
+async function getSubscriptionEvents(companyId: string, filters: ClientTimelineFilters): Promise<TypeEvents> {
+  const subscriptions = await getSubscriptionsByCompanyId(companyId)
+  const histories = await Promise.all(subscriptions.map((subscription) => getSubscriptionHistory(subscription.id)))
+
+  const events: ClientTimelineEvent[] = []
+  subscriptions.forEach((subscription, index) => {
+    const startedAt = toDate(subscription.createdAt) || toDate(subscription.startDate)
+    if (startedAt && isInRange(startedAt, filters)) {
+      events.push({
+        id: `subscription:${subscription.id}`,
+        type: "subscription",
+        occurredAt: startedAt,
+        title: `Subscription started on the ${subscription.planType} plan`,
+        description: `Billed ${subscription.billingCycle}`,
+        status: null,
+        amount: null,
+      })
+    }
+
+    for (const entry of histories[index]) {
+      if (!isInRange(entry.created_at, filters)) continue
+
+      const planChange =
+        entry.from.planType !== entry.to.planType || entry.from.billingCycle !== entry.to.billingCycle
+          ? `${entry.from.planType} (${entry.from.billingCycle}) → ${entry.to.planType} (${entry.to.billingCycle})`
+          : ""
+      events.push({
+        id: `subscription:${subscription.id}:${entry.id}`,
+        type: "subscription",
+        occurredAt: entry.created_at,
+        title: SUBSCRIPTION_ACTION_TITLES[entry.action] || entry.action,
+        description: [planChange, entry.actor_email && `by ${entry.actor_email}`].filter(Boolean).join(" · "),
+        status: entry.to.status,
+        amount: entry.proration && entry.proration.amountDue > 0 ? entry.proration.amountDue : null,
+      })
+    }
+  })
+  return capEvents(events)
+}
+
+const LOADERS: Record<
+  ClientTimelineEventType,
+  (companyId: string, filters: ClientTimelineFilters) => Promise<TypeEvents>
+> = {
+  product: getProductEvents,
+  booking: getBookingEvents,
+  quotation: getQuotationEvents,
+  member: getMemberEvents,
+  subscription: getSubscriptionEvents,
+}
+
+export async function getClientTimeline(companyId: string, filters: ClientTimelineFilters): Promise<ClientTimeline> {
+  const results = await Promise.all(filters.types.map((type) => LOADERS[type](companyId, filters)))
+
+  return {
+    events: results
+      .flatMap((result) => result.events)
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime()),
+    truncated: filters.types.filter((_, index) => results[index].truncated),
+  }
+}
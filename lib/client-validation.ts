@@ -0,0 +1,119 @@
+/**
+ * Client Validation
+ * Field-level validation for creating a client, shared by POST /api/clients and the client form.
+ * Errors are keyed by field path (e.g. "point_person.email") so the form can show them inline.
+ * Plans are checked against the active plans of the catalog.
+ */
+
+import { findPlan, getPlanLimits, isBillingCycle } from "./subscription-plans"
+import type { SubscriptionPlan } from "@/types/subscription"
+
+export type ClientFieldErrors = Record<string, string>
+
+export interface ClientInput {
+  name?: string
+  website?: string
+  point_person?: {
+    email?: string
+    provisioning?: string
+    password?: string
+  }
+  planType?: string
+  billingCycle?: string
+  maxProducts?: number | string | null
+  maxUsers?: number | string | null
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MIN_PASSWORD_LENGTH = 6
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === ""
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === "http:" || url.protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+// Validate an optional limit override against the plan's maximum
+function validateLimit(value: unknown, max: number, label: string, min: number): string | null {
+  if (isBlank(value)) {
+    return null
+  }
+
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit < min) {
+    return `${label} must be a whole number of at least ${min}`
+  }
+  if (limit > max) {
+    return `This plan allows at most ${max} ${label.toLowerCase()}`
+  }
+  return null
+}
+
+export function validateClientInput(input: ClientInput, plans: SubscriptionPlan[]): ClientFieldErrors {
+  const errors: ClientFieldErrors = {}
+
+  if (isBlank(input.name)) {
+    errors.name = "Company name is required"
+  } else if (input.name!.trim().length > 200) {
+    errors.name = "Company name must be 200 characters or fewer"
+  }
+
+  if (!isBlank(input.website) && !isValidUrl(input.website!.trim())) {
+    errors.website = "Website must be a full http(s) URL"
+  }
+
+  const email = input.point_person?.email?.trim() || ""
+  if (!email) {
+    errors["point_person.email"] = "Point person email is required"
+  } else if (!EMAIL_PATTERN.test(email)) {
+    errors["point_person.email"] = "Point person email is invalid"
+  }
+
+  if (input.point_person?.provisioning === "password") {
+    const password = input.point_person.password || ""
+    if (!password.trim()) {
+      errors["point_person.password"] = "Point person password is required"
+    } else if (password.length < MIN_PASSWORD_LENGTH) {
+      errors["point_person.password"] = `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+    }
+  }
+
+  const plan = findPlan(plans, input.planType)
+  if (!plan) {
+    errors.planType = "Please select a subscription plan"
+  } else if (plan.status === "retired") {
+    errors.planType = "This plan has been retired"
+  }
+
+  if (!isBillingCycle(input.billingCycle)) {
+    errors.billingCycle = "Please select a billing cycle"
+  }
+
+  if (plan) {
+    const limits = getPlanLimits(plan)
+
+    const productsError = validateLimit(input.maxProducts, limits.maxProducts, "Products", 1)
+    if (productsError) {
+      errors.maxProducts = productsError
+    }
+
+    // The point person takes one seat
+    const usersError = validateLimit(input.maxUsers, limits.maxUsers, "Users", 1)
+    if (usersError) {
+      errors.maxUsers = usersError
+    }
+  }
+
+  return errors
+}
+
+export function hasFieldErrors(errors: ClientFieldErrors): boolean {
+  return Object.keys(errors).length > 0
+}
@@ -0,0 +1,543 @@
+/**
+ * Company Merge
+ * Finds likely duplicate companies and merges them into a survivor. A merge re-points every document that
+ * references a duplicate's id, then marks the duplicates as merged. Each batch of re-pointed documents is written
+ * to the merge's journal (company_merges/{id}/moves) in the same commit, so a merge - even a partly failed one -
+ * can be undone exactly. A merge that stops part-way without being marked failed, e.g. when the server is
+ * restarted, can be undone once it has made no progress for a while.
+ *
+ * Subscriptions, their licenses and invoices stay with their original company: license keys are signed for the
+ * company they were issued to, and invoices are legal records of who was billed. A duplicate with a live
+ * subscription can't be merged, and neither can duplicates whose active users or products would take the survivor
+ * over its plan's quota.
+ */
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToBatch } from "./audit-log"
+import { normalizeSearchText } from "./company-search"
+import { QUOTA_RESOURCES, QuotaExceededError, assertWithinLimit, getCompanyUsage } from "./quota-service"
+import { toDate } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type {
+  CompanyMerge,
+  CompanyMergePreview,
+  CompanyReferenceCounts,
+  DuplicateCompanyGroup,
+  DuplicateCompanySummary,
+  DuplicateMatchField,
+} from "@/types/company-merge"
+
+const COMPANIES_COLLECTION = "companies"
+const MERGES_COLLECTION = "company_merges"
+const MOVES_SUBCOLLECTION = "moves"
+
+// Documents re-pointed per batch; each also writes an audit entry, and the journal entry takes one more write
+const MERGE_BATCH_SIZE = 200
+
+// An in_progress merge that hasn't committed a batch for this long is taken to have stopped
+const MERGE_STALE_AFTER_MS = 10 * 60 * 1000
+
+// Firestore "in" queries take at most 30 values; merges are reviewed by hand, so far fewer is plenty
+export const MAX_MERGE_DUPLICATES = 10
+
+// Collections whose documents are re-pointed to the survivor, and the field holding the company id
+export const COMPANY_REFERENCES: { collection: string; field: string }[] = [
+  { collection: "iboard_users", field: "company_id" },
+  { collection: "products", field: "company_id" },
+  { collection: "booking", field: "company_id" },
+  { collection: "quotation_request", field: "company_id" },
+  { collection: "chats", field: "company_id" },
+  { collection: "followers", field: "company_id" },
+]
+
+// Billing records that keep pointing at the company they were issued to. Licenses stay with their subscriptions.
+const KEPT_REFERENCES: { collection: string; field: string }[] = [
+  { collection: "subscriptions", field: "companyId" },
+  { collection: "licenses", field: "company_id" },
+  { collection: "invoices", field: "companyId" },
+]
+
+const LIVE_SUBSCRIPTION_STATUSES = ["active", "trialing", "past_due"]
+
+// Legal-form suffixes dropped when comparing names, so "Acme Corp." matches "ACME Corporation"
+const NAME_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "ltd",
+  "limited",
+  "llc",
+  "opc",
+])
+
+export class CompanyMergeError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "CompanyMergeError"
+  }
+}
+
+export function normalizeCompanyNameForMatch(value: unknown): string {
+  return normalizeSearchText(value)
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .split(" ")
+    .filter((word) => word && word !== "the" && !NAME_SUFFIXES.has(word))
+    .join(" ")
+}
+
+// "https://www.Acme.com/about" -> "acme.com"
+export function normalizeWebsite(value: unknown): string {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#]/)[0]
+}
+
+// Last 10 digits, so "+63 917 123 4567" matches "0917-123-4567"; shorter numbers are too ambiguous to match on
+export function normalizePhone(value: unknown): string {
+  const digits = String(value ?? "").replace(/\D/g, "")
+  return digits.length >= 7 ? digits.slice(-10) : ""
+}
+
+function summarizeCompany(id: string, data: DocumentData): DuplicateCompanySummary {
+  return {
+    id,
+    name: data.name || "",
+    website: data.website || "",
+    phone: data.phone || "",
+    point_person_email: data.point_person?.email || "",
+    city: data.address?.city || "",
+    created_at: toDate(data.created_at),
+  }
+}
+
+function getMatchKeys(data: DocumentData): { field: DuplicateMatchField; value: string }[] {
+  const keys: { field: DuplicateMatchField; value: string }[] = [
+    { field: "name", value: normalizeCompanyNameForMatch(data.name) },
+    { field: "website", value: normalizeWebsite(data.website) },
+    { field: "phone", value: normalizePhone(data.phone) },
+    { field: "point_person_email", value: String(data.point_person?.email || "").trim().toLowerCase() },
+  ]
+  return keys.filter((key) => key.value)
+}
+
+/**
+ * Group companies that share a normalized name, website, phone or point person email.
+ * Groups are transitive: if A shares a phone with B and B a name with C, all three are one group.
+ * Deleted and already merged companies are left out.
+ */
+export async function findDuplicateCompanies(): Promise<DuplicateCompanyGroup[]> {
+  const snapshot = await getDocs(collection(getDb(), COMPANIES_COLLECTION))
+
+  const companies = new Map<string, DuplicateCompanySummary>()
+  const idsByKey = new Map<string, string[]>()
+  snapshot.forEach((companyDoc) => {
+    const data = companyDoc.data()
+    if (data.deleted || data.merged_into) return
+
+    companies.set(companyDoc.id, summarizeCompany(companyDoc.id, data))
+    for (const key of getMatchKeys(data)) {
+      const mapKey = `${key.field}:${key.value}`
+      idsByKey.set(mapKey, [...(idsByKey.get(mapKey) || []), companyDoc.id])
+    }
+  })
+
+  // Union-find over companies sharing any key
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    const root = parent.get(id)
+    if (!root || root === id) return id
+    const top = find(root)
+    parent.set(id, top)
+    return top
+  }
+
+  const matches: DuplicateCompanyGroup["matches"] = []
+  idsByKey.forEach((ids, mapKey) => {
+    if (ids.length < 2) return
+    const separator = mapKey.indexOf(":")
+    matches.push({
+      field: mapKey.slice(0, separator) as DuplicateMatchField,
+      value: mapKey.slice(separator + 1),
+      companyIds: ids,
+    })
+    ids.slice(1).forEach((id) => parent.set(find(id), find(ids[0])))
+  })
+
+  const groups = new Map<string, DuplicateCompanyGroup>()
+  for (const match of matches) {
+    const root = find(match.companyIds[0])
+    const group = groups.get(root) || { companies: [], matches: [] }
+    group.matches.push(match)
+    groups.set(root, group)
+  }
+  groups.forEach((group) => {
+    const ids = new Set(group.matches.flatMap((match) => match.companyIds))
+    group.companies = Array.from(ids, (id) => companies.get(id)!).sort(
+      (a, b) => (a.created_at?.getTime() || 0) - (b.created_at?.getTime() || 0),
+    )
+  })
+
+  return Array.from(groups.values()).sort((a, b) => b.companies.length - a.companies.length)
+}
+
+async function countReferences(
+  references: { collection: string; field: string }[],
+  companyIds: string[],
+): Promise<CompanyReferenceCounts> {
+  const firestore = getDb()
+  const counts = await Promise.all(
+    references.map(async (reference) => {
+      const snapshot = await getCountFromServer(
+        query(collection(firestore, reference.collection), where(reference.field, "in", companyIds)),
+      )
+      return [reference.collection, snapshot.data().count] as const
+    }),
+  )
+  return Object.fromEntries(counts)
+}
+
+// Users and products moved from the duplicates count towards the survivor's quota
+async function findQuotaBlockers(survivorId: string, duplicateIds: string[]): Promise<string[]> {
+  const [survivorUsage, ...duplicateUsages] = await Promise.all(
+    [survivorId, ...duplicateIds].map((id) => getCompanyUsage(id)),
+  )
+
+  const blockers: string[] = []
+  for (const resource of QUOTA_RESOURCES) {
+    const incoming = duplicateUsages.reduce((total, usage) => total + usage[resource].used, 0)
+    if (incoming === 0) continue
+    try {
+      assertWithinLimit(resource, survivorUsage[resource].used, survivorUsage[resource].limit, incoming)
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) throw error
+      blockers.push(`The merge would move ${incoming} ${resource} to the survivor. ${error.message}`)
+    }
+  }
+  return blockers
+}
+
+/**
+ * What merging `duplicateIds` into `survivorId` would change. Nothing is written.
+ * Throws for unknown companies; other reasons the merge can't run are returned as blockers.
+ */
+export async function previewCompanyMerge(survivorId: string, duplicateIds: string[]): Promise<CompanyMergePreview> {
+  const firestore = getDb()
+
+  if (duplicateIds.length === 0 || duplicateIds.length > MAX_MERGE_DUPLICATES) {
+    throw new CompanyMergeError(`Select 1-${MAX_MERGE_DUPLICATES} duplicates to merge`, 400)
+  }
+  if (duplicateIds.includes(survivorId) || new Set(duplicateIds).size !== duplicateIds.length) {
+    throw new CompanyMergeError("The survivor and duplicates must be different companies", 400)
+  }
+
+  const companyDocs = await Promise.all(
+    [survivorId, ...duplicateIds].map((id) => getDoc(doc(firestore, COMPANIES_COLLECTION, id))),
+  )
+  const missing = companyDocs.find((companyDoc) => !companyDoc.exists())
+  if (missing) {
+    throw new CompanyMergeError(`Company ${missing.id} not found`, 404)
+  }
+
+  const [survivorDoc, ...duplicateDocs] = companyDocs
+  const blockers: string[] = []
+
+  for (const companyDoc of companyDocs) {
+    const data = companyDoc.data()!
+    if (data.merged_into) {
+      blockers.push(`${data.name || companyDoc.id} has already been merged into another company`)
+    } else if (data.deleted && companyDoc.id === survivorId) {
+      blockers.push(`${data.name || companyDoc.id} is deleted and can't be the survivor`)
+    }
+  }
+
+  const subscriptions = await getDocs(
+    query(collection(firestore, "subscriptions"), where("companyId", "in", duplicateIds)),
+  )
+  subscriptions.forEach((subscription) => {
+    const { companyId, status } = subscription.data()
+    if (!LIVE_SUBSCRIPTION_STATUSES.includes(status)) return
+    const duplicate = duplicateDocs.find((companyDoc) => companyDoc.id === companyId)
+    blockers.push(
+      `${duplicate?.data()?.name || companyId} has a ${status} subscription; its license key is tied to that ` +
+        "company, so cancel it or let it expire before merging",
+    )
+  })
+
+  const [counts, keptCounts, quotaBlockers] = await Promise.all([
+    countReferences(COMPANY_REFERENCES, duplicateIds),
+    countReferences(KEPT_REFERENCES, duplicateIds),
+    findQuotaBlockers(survivorId, duplicateIds),
+  ])
+  blockers.push(...quotaBlockers)
+
+  return {
+    survivor: summarizeCompany(survivorDoc.id, survivorDoc.data()!),
+    duplicates: duplicateDocs.map((companyDoc) => summarizeCompany(companyDoc.id, companyDoc.data()!)),
+    counts,
+    keptCounts,
+    blockers,
+  }
+}
+
+/**
+ * Merge duplicates into the survivor. Referencing documents are re-pointed a batch at a time; the duplicates are
+ * marked deleted and merged_into the survivor once every reference has moved. If a batch fails the merge is left
+ * "failed" with the batches so far in its journal, and can be undone.
+ */
+export async function mergeCompanies(survivorId: string, duplicateIds: string[], actor: AuditActor): Promise<CompanyMerge> {
+  const firestore = getDb()
+  const preview = await previewCompanyMerge(survivorId, duplicateIds)
+  if (preview.blockers.length > 0) {
+    throw new CompanyMergeError(preview.blockers[0])
+  }
+
+  const mergeRef = doc(collection(firestore, MERGES_COLLECTION))
+  const duplicateStates = await Promise.all(
+    duplicateIds.map(async (id) => {
+      const data = (await getDoc(doc(firestore, COMPANIES_COLLECTION, id))).data() || {}
+      return { id, deleted: !!data.deleted }
+    }),
+  )
+  await setDoc(mergeRef, {
+    survivor_id: survivorId,
+    survivor_name: preview.survivor.name,
+    duplicate_ids: duplicateIds,
+    duplicate_names: preview.duplicates.map((duplicate) => duplicate.name),
+    duplicate_states: duplicateStates, // Restored by an undo
+    status: "in_progress",
+    counts: {},
+    error: null,
+    created_at: serverTimestamp(),
+    updated_at: serverTimestamp(), // Bumped with every batch while the merge runs
+    created_by: actor.uid,
+    undone_at: null,
+    undone_by: null,
+    undo_conflicts: 0,
+  })
+
+  const counts: CompanyReferenceCounts = {}
+  try {
+    for (const reference of COMPANY_REFERENCES) {
+      counts[reference.collection] = 0
+
+      // Re-pointed documents stop matching, so each round picks up the next batch
+      while (true) {
+        const snapshot = await getDocs(
+          query(
+            collection(firestore, reference.collection),
+            where(reference.field, "in", duplicateIds),
+            limit(MERGE_BATCH_SIZE),
+          ),
+        )
+        if (snapshot.empty) break
+
+        const batch = writeBatch(firestore)
+        const items = snapshot.docs.map((referencingDoc) => {
+          const from = referencingDoc.data()[reference.field]
+          batch.update(referencingDoc.ref, { [reference.field]: survivorId })
+          addAuditEventToBatch(batch, {
+            collection: reference.collection,
+            entityId: referencingDoc.id,
+            action: "update",
+            before: { [reference.field]: from },
+            after: { [reference.field]: survivorId },
+            actor,
+            metadata: { operation: "company_merge", mergeId: mergeRef.id },
+          })
+          return { id: referencingDoc.id, from }
+        })
+        batch.set(doc(collection(mergeRef, MOVES_SUBCOLLECTION)), {
+          collection: reference.collection,
+          field: reference.field,
+          items,
+          created_at: serverTimestamp(),
+        })
+        batch.update(mergeRef, { updated_at: serverTimestamp() })
+        await batch.commit()
+        counts[reference.collection] += items.length
+      }
+    }
+
+    const batch = writeBatch(firestore)
+    for (const state of duplicateStates) {
+      const updateData = { deleted: true, merged_into: survivorId }
+      batch.update(doc(firestore, COMPANIES_COLLECTION, state.id), {
+        ...updateData,
+        updated_at: serverTimestamp(),
+        updated_by: actor.uid,
+      })
+      addAuditEventToBatch(batch, {
+        collection: COMPANIES_COLLECTION,
+        entityId: state.id,
+        action: "update",
+        before: { deleted: state.deleted, merged_into: null },
+        after: updateData,
+        actor,
+        metadata: { operation: "company_merge", mergeId: mergeRef.id },
+      })
+    }
+    batch.update(mergeRef, { status: "completed", counts })
+    await batch.commit()
+  } catch (error) {
+    console.error("Error merging companies:", error)
+    await updateDoc(mergeRef, {
+      status: "failed",
+      counts,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+    throw new CompanyMergeError("The merge failed part-way; undo it to restore the moved documents", 500)
+  }
+
+  return getCompanyMerge(mergeRef.id)
+}
+
+// An in_progress merge whose last batch is older than MERGE_STALE_AFTER_MS
+function isStaleMerge(data: DocumentData, now = new Date()): boolean {
+  if (data.status !== "in_progress") return false
+  const lastProgress = toDate(data.updated_at) || toDate(data.created_at)
+  return !!lastProgress && now.getTime() - lastProgress.getTime() > MERGE_STALE_AFTER_MS
+}
+
+/**
+ * Undo a completed, failed or stale merge from its journal. Documents whose company id has changed again since
+ * the merge are left alone and counted as conflicts. The duplicates get back their previous deleted flag.
+ */
+export async function undoCompanyMerge(mergeId: string, actor: AuditActor): Promise<CompanyMerge> {
+  const firestore = getDb()
+  const mergeRef = doc(firestore, MERGES_COLLECTION, mergeId)
+  const mergeDoc = await getDoc(mergeRef)
+  if (!mergeDoc.exists()) {
+    throw new CompanyMergeError("Merge not found", 404)
+  }
+
+  const merge = mergeDoc.data()
+  if (merge.status === "undone") {
+    throw new CompanyMergeError("This merge has already been undone")
+  }
+  if (merge.status === "in_progress" && !isStaleMerge(merge)) {
+    throw new CompanyMergeError("This merge is still running")
+  }
+
+  const moves = await getDocs(collection(mergeRef, MOVES_SUBCOLLECTION))
+  let conflicts = 0
+
+  for (const move of moves.docs) {
+    const { collection: collectionName, field, items } = move.data() as {
+      collection: string
+      field: string
+      items: { id: string; from: string }[]
+    }
+
+    const current = await Promise.all(items.map((item) => getDoc(doc(firestore, collectionName, item.id))))
+    const batch = writeBatch(firestore)
+    items.forEach((item, index) => {
+      const snapshot = current[index]
+      if (!snapshot.exists() || snapshot.data()[field] !== merge.survivor_id) {
+        conflicts++
+        return
+      }
+      batch.update(snapshot.ref, { [field]: item.from })
+      addAuditEventToBatch(batch, {
+        collection: collectionName,
+        entityId: item.id,
+        action: "update",
+        before: { [field]: merge.survivor_id },
+        after: { [field]: item.from },
+        actor,
+        metadata: { operation: "company_merge_undo", mergeId },
+      })
+    })
+    // Dropping the journal entry in the same commit keeps a retried undo from moving documents twice
+    batch.delete(move.ref)
+    await batch.commit()
+  }
+
+  const batch = writeBatch(firestore)
+  for (const state of merge.duplicate_states as { id: string; deleted: boolean }[]) {
+    const companyRef = doc(firestore, COMPANIES_COLLECTION, state.id)
+    batch.update(companyRef, {
+      deleted: state.deleted,
+      merged_into: deleteField(),
+      updated_at: serverTimestamp(),
+      updated_by: actor.uid,
+    })
+    addAuditEventToBatch(batch, {
+      collection: COMPANIES_COLLECTION,
+      entityId: state.id,
+      action: "restore",
+      before: { deleted: true, merged_into: merge.survivor_id },
+      after: { deleted: state.deleted, merged_into: null },
+      actor,
+      metadata: { operation: "company_merge_undo", mergeId },
+    })
+  }
+  batch.update(mergeRef, {
+    status: "undone",
+    undone_at: serverTimestamp(),
+    undone_by: actor.uid,
+    undo_conflicts: (merge.undo_conflicts || 0) + conflicts,
+  })
+  await batch.commit()
+
+  return getCompanyMerge(mergeId)
+}
+
+function mapMerge(id: string, data: DocumentData): CompanyMerge {
+  return {
+    id,
+    survivor_id: data.survivor_id,
+    survivor_name: data.survivor_name || "",
+    duplicate_ids: data.duplicate_ids || [],
+    duplicate_names: data.duplicate_names || [],
+    status: data.status,
+    stale: isStaleMerge(data),
+    counts: data.counts || {},
+    error: data.error || null,
+    created_at: toDate(data.created_at),
+    created_by: data.created_by || "",
+    undone_at: toDate(data.undone_at),
+    undone_by: data.undone_by || null,
+    undo_conflicts: data.undo_conflicts || 0,
+  }
+}
+
+export async function getCompanyMerge(mergeId: string): Promise<CompanyMerge> {
+  const mergeDoc = await getDoc(doc(getDb(), MERGES_COLLECTION, mergeId))
+  if (!mergeDoc.exists()) {
+    throw new CompanyMergeError("Merge not found", 404)
+  }
+  return mapMerge(mergeDoc.id, mergeDoc.data())
+}
+
+export async function getRecentCompanyMerges(limitCount = 50): Promise<CompanyMerge[]> {
+  const snapshot = await getDocs(
+    query(collection(getDb(), MERGES_COLLECTION), orderBy("created_at", "desc"), limit(limitCount)),
+  )
+  return snapshot.docs.map((mergeDoc) => mapMerge(mergeDoc.id, mergeDoc.data()))
+}
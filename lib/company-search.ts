@@ -0,0 +1,171 @@
+/**
+ * Company Search
+ * Paged listing and search for the clients list. Firestore has no case-insensitive or multi-field text search,
+ * so each company carries search_keywords: lowercase prefixes of its name, point person email, industry and city.
+ * A search is a single array-contains query on that field, which needs the composite index
+ * (search_keywords array-contains, created_at desc, __name__ desc), listed in firestore.indexes.json.
+ */
+
+import {
+  collection,
+  doc,
+  documentId,
+  getCountFromServer,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  writeBatch,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { encodeCursor, startAfterCursor } from "./search-cursor"
+
+const COLLECTION_NAME = "companies"
+
+export const SEARCH_KEYWORDS_FIELD = "search_keywords"
+
+// Longer searches match on their first MAX_KEYWORD_LENGTH characters
+const MAX_KEYWORD_LENGTH = 30
+
+export const MAX_PAGE_SIZE = 100
+
+export class CompanySearchError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "CompanySearchError"
+  }
+}
+
+export interface CompanyPage {
+  docs: QueryDocumentSnapshot<DocumentData>[]
+  totalCount: number
+  nextCursor: string | null
+}
+
+// Lowercase, strip accents and collapse whitespace so "  José  Rizal" matches "jose rizal"
+export function normalizeSearchText(value: unknown): string {
+  return String(value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function addPrefixes(keywords: Set<string>, value: string) {
+  const capped = value.slice(0, MAX_KEYWORD_LENGTH)
+  for (let length = 1; length <= capped.length; length++) {
+    keywords.add(capped.slice(0, length))
+  }
+}
+
+// Prefixes of each value as a whole and of each word in it, so "corp" finds "Acme Corp"
+export function buildSearchKeywords(values: unknown[]): string[] {
+  const keywords = new Set<string>()
+
+  for (const value of values) {
+    const normalized = normalizeSearchText(value)
+    if (!normalized) continue
+
+    addPrefixes(keywords, normalized)
+    for (const word of normalized.split(/[\s@._-]+/)) {
+      if (word) addPrefixes(keywords, word)
+    }
+  }
+
+  return Array.from(keywords)
+}
+
+// The keyword a search term is looked up by
+export function toSearchKeyword(search: unknown): string {
+  return normalizeSearchText(search).slice(0, MAX_KEYWORD_LENGTH)
+}
+
+export function buildCompanySearchKeywords(company: DocumentData): string[] {
+  return buildSearchKeywords([company.name, company.point_person?.email, company.industry, company.address?.city])
+}
+
+/**
+ * One page of companies, newest first. `cursor` is the nextCursor of the previous page.
+ * The total is counted with an aggregation query, so no documents are read to count them.
+ */
+export async function listCompanies(options: {
+  pageSize: number
+  cursor?: string | null
+  search?: string
+}): Promise<CompanyPage> {
+  const firestore = getDb()
+  const keyword = toSearchKeyword(options.search)
+  const filters: QueryConstraint[] = keyword ? [where(SEARCH_KEYWORDS_FIELD, "array-contains", keyword)] : []
+
+  const constraints: QueryConstraint[] = [...filters, orderBy("created_at", "desc"), orderBy(documentId(), "desc")]
+  if (options.cursor) {
+    const start = startAfterCursor(options.cursor)
+    if (!start) {
+      throw new CompanySearchError("Invalid cursor")
+    }
+    constraints.push(start)
+  }
+
+  // One extra document tells whether there is a next page
+  const [snapshot, count] = await Promise.all([
+    getDocs(query(collection(firestore, COLLECTION_NAME), ...constraints, limit(options.pageSize + 1))),
+    getCountFromServer(query(collection(firestore, COLLECTION_NAME), ...filters)),
+  ])
+
+  const docs = snapshot.docs.slice(0, options.pageSize)
+  const hasNextPage = snapshot.docs.length > options.pageSize
+
+  return {
+    docs,
+    totalCount: count.data().count,
+    nextCursor: hasNextPage ? encodeCursor(docs[docs.length - 1], "created_at") : null,
+  }
+}
+
+/**
+ * Write search_keywords on companies created before search indexing, a batch at a time.
+ * Pass the returned nextCursor back in until it is null. The keywords are derived from fields that are
+ * already audited, so no audit entries are written.
+ */
+export async function backfillCompanySearchKeywords(
+  options: { cursor?: string | null; batchSize?: number } = {},
+): Promise<{ scanned: number; updated: number; nextCursor: string | null }> {
+  const firestore = getDb()
+  const batchSize = options.batchSize || 200
+
+  const constraints: QueryConstraint[] = [orderBy(documentId())]
+  if (options.cursor) {
+    constraints.push(startAfter(options.cursor))
+  }
+  const snapshot = await getDocs(query(collection(firestore, COLLECTION_NAME), ...constraints, limit(batchSize)))
+
+  const batch = writeBatch(firestore)
+  let updated = 0
+  snapshot.docs.forEach((companyDoc) => {
+    const data = companyDoc.data()
+    const keywords = buildCompanySearchKeywords(data)
+    const current: string[] = data[SEARCH_KEYWORDS_FIELD] || []
+    if (current.length !== keywords.length || keywords.some((keyword, index) => current[index] !== keyword)) {
+      batch.update(doc(firestore, COLLECTION_NAME, companyDoc.id), { [SEARCH_KEYWORDS_FIELD]: keywords })
+      updated++
+    }
+  })
+  if (updated > 0) {
+    await batch.commit()
+  }
+
+  return {
+    scanned: snapshot.size,
+    updated,
+    nextCursor: snapshot.size === batchSize ? snapshot.docs[snapshot.size - 1].id : null,
+  }
+}
@@ -1,6 +1,15 @@
 import { db } from "./firebase"
 import { doc, getDoc } from "firebase/firestore"
 
+// Point person contact stored on a company. Credentials live only in Firebase Auth, linked by uid.
+export interface CompanyPointPerson {
+  email: string
+  first_name: string
+  last_name: string
+  position: string
+  uid?: string
+}
+
 export interface Company {
   id: string
   name: string
@@ -12,13 +21,7 @@ export interface Company {
   business_type?: string
   created_at?: Date
   created_by?: string
-  point_person?: {
-    email: string
-    first_name: string
-    last_name: string
-    position: string
-    password: string
-  }
+  point_person?: CompanyPointPerson
   updated_at?: Date
   updated_by?: string
   website?: string
@@ -34,6 +37,20 @@ export interface Company {
   [key: string]: any // For additional fields
 }
 
+// Keep only the contact fields of a point person, dropping any legacy password
+export function sanitizePointPerson(pointPerson: any): CompanyPointPerson | undefined {
+  if (!pointPerson) return undefined
+
+  const { email, first_name, last_name, position, uid } = pointPerson
+  return {
+    email: email || "",
+    first_name: first_name || "",
+    last_name: last_name || "",
+    position: position || "",
+    ...(uid ? { uid } : {}),
+  }
+}
+
 export async function getCompanyById(companyId: string): Promise<Company> {
   if (!companyId) {
     throw new Error("Company ID is required")
@@ -71,7 +88,7 @@ export async function getCompanyById(companyId: string): Promise<Company> {
       business_type: data.business_type,
       created_at: convertTimestamp(data.created_at),
       created_by: data.created_by,
-      point_person: data.point_person,
+      point_person: sanitizePointPerson(data.point_person),
       updated_at: convertTimestamp(data.updated_at),
       updated_by: data.updated_by,
       website: data.website,
@@ -107,6 +124,7 @@ export async function getCompanyById(companyId: string): Promise<Company> {
               "status",
               "createdAt",
               "updatedAt",
+              "search_keywords",
             ].includes(key),
         ),
       ),
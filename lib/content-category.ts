@@ -1,4 +1,5 @@
 import { db, auth, storage } from "./firebase"
+import { requirePermission } from "./permissions"
 import {
   collection,
   addDoc,
@@ -288,6 +289,8 @@ export const updateContentCategory = async (id: string, data: Partial<ContentCat
 
 // Soft delete a content category (mark as deleted)
 export const softDeleteContentCategory = async (id: string): Promise<void> => {
+  await requirePermission("content:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     await updateDoc(docRef, {
@@ -302,6 +305,8 @@ export const softDeleteContentCategory = async (id: string): Promise<void> => {
 
 // Restore a soft-deleted content category
 export const restoreContentCategory = async (id: string): Promise<void> => {
+  await requirePermission("content:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     await updateDoc(docRef, {
@@ -316,6 +321,8 @@ export const restoreContentCategory = async (id: string): Promise<void> => {
 
 // Hard delete a content category (remove from database)
 export const hardDeleteContentCategory = async (id: string): Promise<void> => {
+  await requirePermission("content:delete")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
 
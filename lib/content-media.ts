@@ -1,4 +1,5 @@
-import { db } from "@/lib/firebase"
+import { db, getDb } from "@/lib/firebase"
+import { requirePermission } from "@/lib/permissions"
 import {
   collection,
   doc,
@@ -6,7 +7,6 @@ import {
   getDocs,
   addDoc,
   updateDoc,
-  deleteDoc,
   query,
   where,
   orderBy,
@@ -15,9 +15,11 @@ import {
   runTransaction,
   arrayUnion,
   arrayRemove,
+  writeBatch,
 } from "firebase/firestore"
 import type { ContentMedia, ContentMediaFilter } from "@/types/content-media"
 import { parseDate, isValidDate } from "@/lib/date-utils"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 
 // Collection reference
 const contentMediaCollection = collection(db, "content_media")
@@ -363,12 +365,25 @@ export async function getContentMediaTypes(): Promise<string[]> {
 
 // Soft delete content media
 export async function softDeleteContentMedia(id: string): Promise<void> {
+  await requirePermission("content:write")
+
   try {
     const mediaRef = doc(db, "content_media", id)
-    await updateDoc(mediaRef, {
+    const mediaSnap = await getDoc(mediaRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(mediaRef, {
       deleted: true,
       updated: serverTimestamp(),
     })
+    addAuditEventToBatch(batch, {
+      collection: "content_media",
+      entityId: id,
+      action: "soft_delete",
+      before: mediaSnap.data(),
+      after: { deleted: true },
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error soft deleting content media:", error)
     throw new Error("Failed to delete content media")
@@ -377,9 +392,21 @@ export async function softDeleteContentMedia(id: string): Promise<void> {
 
 // Hard delete content media
 export async function hardDeleteContentMedia(id: string): Promise<void> {
+  await requirePermission("content:delete")
+
   try {
     const mediaRef = doc(db, "content_media", id)
-    await deleteDoc(mediaRef)
+    const mediaSnap = await getDoc(mediaRef)
+
+    const batch = writeBatch(getDb())
+    batch.delete(mediaRef)
+    addAuditEventToBatch(batch, {
+      collection: "content_media",
+      entityId: id,
+      action: "delete",
+      before: mediaSnap.data(),
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error hard deleting content media:", error)
     throw new Error("Failed to permanently delete content media")
@@ -388,9 +415,21 @@ export async function hardDeleteContentMedia(id: string): Promise<void> {
 
 // Delete content media
 export async function deleteContentMedia(id: string): Promise<void> {
+  await requirePermission("content:delete")
+
   try {
     const docRef = doc(contentMediaCollection, id)
-    await deleteDoc(docRef)
+    const mediaSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.delete(docRef)
+    addAuditEventToBatch(batch, {
+      collection: "content_media",
+      entityId: id,
+      action: "delete",
+      before: mediaSnap.data(),
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error deleting content media:", error)
     throw new Error("Failed to delete content media")
@@ -399,12 +438,25 @@ export async function deleteContentMedia(id: string): Promise<void> {
 
 // Restore content media
 export async function restoreContentMedia(id: string): Promise<void> {
+  await requirePermission("content:write")
+
   try {
     const mediaRef = doc(db, "content_media", id)
-    await updateDoc(mediaRef, {
+    const mediaSnap = await getDoc(mediaRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(mediaRef, {
       deleted: false,
       updated: serverTimestamp(),
     })
+    addAuditEventToBatch(batch, {
+      collection: "content_media",
+      entityId: id,
+      action: "restore",
+      before: mediaSnap.data(),
+      after: { deleted: false },
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error restoring content media:", error)
     throw new Error("Failed to restore content media")
@@ -413,6 +465,8 @@ export async function restoreContentMedia(id: string): Promise<void> {
 
 // Update the updateContentMedia function to properly handle all fields
 export async function updateContentMedia(id: string, data: Partial<ContentMedia>): Promise<void> {
+  await requirePermission("content:write")
+
   try {
     console.log("Updating content media with data:", data)
     const mediaRef = doc(db, "content_media", id)
@@ -518,7 +572,18 @@ export async function updateContentMedia(id: string, data: Partial<ContentMedia>
     cleanData.updated = serverTimestamp()
 
     console.log("Final clean data for Firestore:", cleanData)
-    await updateDoc(mediaRef, cleanData)
+    const mediaSnap = await getDoc(mediaRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(mediaRef, cleanData)
+    addAuditEventToBatch(batch, {
+      collection: "content_media",
+      entityId: id,
+      action: "update",
+      before: mediaSnap.data(),
+      after: cleanData,
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error updating content media:", error)
     throw new Error(`Failed to update content media: ${error instanceof Error ? error.message : "Unknown error"}`)
@@ -527,6 +592,8 @@ export async function updateContentMedia(id: string, data: Partial<ContentMedia>
 
 // Toggle pin status with transaction to ensure consistency between content item and category
 export async function togglePinStatus(item: ContentMedia): Promise<ContentMedia> {
+  await requirePermission("content:write")
+
   try {
     const newPinnedState = !item.pinned
     const mediaRef = doc(db, "content_media", item.id)
@@ -593,6 +660,8 @@ export async function togglePinStatus(item: ContentMedia): Promise<ContentMedia>
 
 // Toggle feature status
 export async function toggleFeatureStatus(item: ContentMedia): Promise<ContentMedia> {
+  await requirePermission("content:write")
+
   try {
     // Use a transaction to ensure data consistency
     const updatedItem = await runTransaction(db, async (transaction) => {
@@ -665,6 +734,8 @@ export async function toggleFeatureStatus(item: ContentMedia): Promise<ContentMe
 
 // Unpin content media with transaction to ensure consistency
 export async function unpinContentMedia(item: ContentMedia): Promise<void> {
+  await requirePermission("content:write")
+
   try {
     if (!item.pinned) {
       // Already unpinned, nothing to do
@@ -715,6 +786,8 @@ export async function unpinContentMedia(item: ContentMedia): Promise<void> {
 
 // Utility function to synchronize pinned_contents array with actual pinned items
 export async function syncPinnedContents(categoryId: string): Promise<void> {
+  await requirePermission("content:write")
+
   try {
     // Get the category
     const categoryRef = doc(db, "content_category", categoryId)
@@ -752,6 +825,8 @@ export async function syncPinnedContents(categoryId: string): Promise<void> {
 
 // Update the createContentMedia function to properly handle date fields
 export async function createContentMedia(data: Partial<ContentMedia>): Promise<string> {
+  await requirePermission("content:write")
+
   try {
     // Process the data to ensure it's in the correct format for Firestore
     const processedData = processContentMediaData(data)
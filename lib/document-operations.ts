@@ -1,5 +1,7 @@
-import { doc, getDoc, updateDoc, deleteDoc, addDoc, collection, type DocumentData, Timestamp } from "firebase/firestore"
+import { doc, getDoc, collection, writeBatch, type DocumentData, Timestamp } from "firebase/firestore"
 import { db } from "./firebase"
+import { requirePermission } from "./permissions"
+import { addAuditEventToBatch } from "./audit-log"
 
 export interface DocumentOperation {
   id: string
@@ -11,6 +13,23 @@ export interface DocumentOperation {
   error?: string
 }
 
+// Apply an update together with its audit entry in a single batch
+async function commitAuditedUpdate(collectionPath: string, documentId: string, updateData: DocumentData): Promise<void> {
+  const docRef = doc(db, collectionPath, documentId)
+  const docSnap = await getDoc(docRef)
+
+  const batch = writeBatch(db)
+  batch.update(docRef, updateData)
+  addAuditEventToBatch(batch, {
+    collection: collectionPath,
+    entityId: documentId,
+    action: "update",
+    before: docSnap.data(),
+    after: updateData,
+  })
+  await batch.commit()
+}
+
 /**
  * Get a single document by ID
  */
@@ -45,16 +64,16 @@ export async function updateDocument(
   documentId: string,
   data: Partial<DocumentData>,
 ): Promise<void> {
-  try {
-    const docRef = doc(db, collectionPath, documentId)
+  await requirePermission("database:write")
 
+  try {
     // Add timestamp for tracking
     const updateData = {
       ...data,
       updatedAt: Timestamp.now(),
     }
 
-    await updateDoc(docRef, updateData)
+    await commitAuditedUpdate(collectionPath, documentId, updateData)
   } catch (error: any) {
     throw new Error(`Failed to update document: ${error.message}`)
   }
@@ -64,9 +83,21 @@ export async function updateDocument(
  * Delete a document
  */
 export async function deleteDocument(collectionPath: string, documentId: string): Promise<void> {
+  await requirePermission("database:write")
+
   try {
     const docRef = doc(db, collectionPath, documentId)
-    await deleteDoc(docRef)
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(db)
+    batch.delete(docRef)
+    addAuditEventToBatch(batch, {
+      collection: collectionPath,
+      entityId: documentId,
+      action: "delete",
+      before: docSnap.data(),
+    })
+    await batch.commit()
   } catch (error: any) {
     throw new Error(`Failed to delete document: ${error.message}`)
   }
@@ -76,6 +107,8 @@ export async function deleteDocument(collectionPath: string, documentId: string)
  * Create a new document
  */
 export async function createDocument(collectionPath: string, data: DocumentData): Promise<string> {
+  await requirePermission("database:write")
+
   try {
     const collectionRef = collection(db, collectionPath)
 
@@ -86,7 +119,18 @@ export async function createDocument(collectionPath: string, data: DocumentData)
       updatedAt: Timestamp.now(),
     }
 
-    const docRef = await addDoc(collectionRef, createData)
+    const docRef = doc(collectionRef)
+
+    const batch = writeBatch(db)
+    batch.set(docRef, createData)
+    addAuditEventToBatch(batch, {
+      collection: collectionPath,
+      entityId: docRef.id,
+      action: "create",
+      after: createData,
+    })
+    await batch.commit()
+
     return docRef.id
   } catch (error: any) {
     throw new Error(`Failed to create document: ${error.message}`)
@@ -220,8 +264,6 @@ export async function addFieldToDocument(
   fieldType: string,
 ): Promise<void> {
   try {
-    const docRef = doc(db, collectionPath, documentId)
-
     // Convert value based on type
     let convertedValue = fieldValue
     switch (fieldType) {
@@ -252,7 +294,7 @@ export async function addFieldToDocument(
       updatedAt: Timestamp.now(),
     }
 
-    await updateDoc(docRef, updateData)
+    await commitAuditedUpdate(collectionPath, documentId, updateData)
   } catch (error: any) {
     throw new Error(`Failed to add field: ${error.message}`)
   }
@@ -268,14 +310,12 @@ export async function removeFieldFromDocument(
 ): Promise<void> {
   try {
     const { deleteField } = await import("firebase/firestore")
-    const docRef = doc(db, collectionPath, documentId)
-
     const updateData = {
       [fieldName]: deleteField(),
       updatedAt: Timestamp.now(),
     }
 
-    await updateDoc(docRef, updateData)
+    await commitAuditedUpdate(collectionPath, documentId, updateData)
   } catch (error: any) {
     throw new Error(`Failed to remove field: ${error.message}`)
   }
@@ -293,14 +333,12 @@ export async function updateArrayField(
 ): Promise<void> {
   try {
     const { arrayUnion, arrayRemove } = await import("firebase/firestore")
-    const docRef = doc(db, collectionPath, documentId)
-
     const updateData = {
       [fieldName]: operation === "add" ? arrayUnion(value) : arrayRemove(value),
       updatedAt: Timestamp.now(),
     }
 
-    await updateDoc(docRef, updateData)
+    await commitAuditedUpdate(collectionPath, documentId, updateData)
   } catch (error: any) {
     throw new Error(`Failed to update array field: ${error.message}`)
   }
@@ -1,6 +1,6 @@
 import { initializeApp, getApps, getApp, FirebaseApp } from "firebase/app"
 import { getAuth, Auth } from "firebase/auth"
-import { getFirestore, Firestore, enableMultiTabIndexedDbPersistence } from "firebase/firestore"
+import { getFirestore, Firestore, connectFirestoreEmulator, enableMultiTabIndexedDbPersistence } from "firebase/firestore"
 import { getStorage, FirebaseStorage } from "firebase/storage"
 import { firebaseConfig, websiteInfo } from "./firebase-config"
 
@@ -22,6 +22,13 @@ try {
     storage = getStorage(firebaseApp)
   }
 
+  // Use the local Firestore emulator when FIRESTORE_EMULATOR_HOST (host:port) is set, e.g. for the job scripts
+  const emulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST || process.env.FIRESTORE_EMULATOR_HOST
+  if (db && emulatorHost) {
+    const [host, port] = emulatorHost.split(":")
+    connectFirestoreEmulator(db, host, Number(port))
+  }
+
   // Enable persistence only if we're in the browser and haven't already enabled it
   if (typeof window !== "undefined" && db) {
     // Check if persistence is already enabled by trying to enable it
@@ -43,6 +50,14 @@ try {
   console.error("Error initializing Firebase services:", error.message)
 }
 
+// Firestore instance for service modules, throwing when Firebase failed to initialize
+const getDb = (): Firestore => {
+  if (!db) {
+    throw new Error("Firestore is not initialized")
+  }
+  return db
+}
+
 // Function to check if Firebase is initialized
 const isFirebaseInitialized = (): boolean => {
   return !!firebaseApp
@@ -74,6 +89,7 @@ export {
   firebaseApp,
   auth,
   db,
+  getDb,
   storage,
   isFirebaseInitialized,
   getInitializationError,
@@ -0,0 +1,74 @@
+/**
+ * Idempotency Keys
+ * Makes create requests retry-safe. The first successful request stores its result under the key sent in the
+ * Idempotency-Key header; a retry with the same key gets that result back instead of creating duplicates.
+ */
+
+import type { NextRequest } from "next/server"
+import { doc, serverTimestamp, type DocumentSnapshot } from "firebase/firestore"
+import { getDb } from "./firebase"
+
+const COLLECTION_NAME = "iboard_idempotency_keys"
+const IDEMPOTENCY_HEADER = "idempotency-key"
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/
+
+export class IdempotencyError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "IdempotencyError"
+  }
+}
+
+// Read the Idempotency-Key header. Returns null when the request has none.
+export function getIdempotencyKey(request: NextRequest): string | null {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim()
+  if (!key) {
+    return null
+  }
+  if (!KEY_PATTERN.test(key)) {
+    throw new IdempotencyError("Idempotency-Key must be 8-128 letters, digits, dashes or underscores", 400)
+  }
+  return key
+}
+
+// Hash of the request body, so a key reused for a different request is rejected rather than replayed
+export async function fingerprintRequest(body: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(body ?? null)))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Keys are scoped per operation so the same key can't collide across endpoints
+export function getIdempotencyRef(scope: string, key: string) {
+  return doc(getDb(), COLLECTION_NAME, `${scope}_${key}`)
+}
+
+/**
+ * Return the stored result for a key that has already been used, or null if it is unused.
+ * Throws if the key belongs to another user or was used for a different request body.
+ */
+export function getStoredResult<T>(snapshot: DocumentSnapshot, uid: string, fingerprint: string): T | null {
+  if (!snapshot.exists()) {
+    return null
+  }
+
+  const record = snapshot.data()
+  if (record.uid !== uid) {
+    throw new IdempotencyError("This Idempotency-Key has already been used", 409)
+  }
+  if (record.fingerprint !== fingerprint) {
+    throw new IdempotencyError("This Idempotency-Key was already used for a different request", 422)
+  }
+  return record.result as T
+}
+
+export function buildIdempotencyRecord(uid: string, fingerprint: string, result: Record<string, unknown>) {
+  return {
+    uid,
+    fingerprint,
+    result,
+    created_at: serverTimestamp(),
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Identity Toolkit
+ * Server-side calls to the Firebase Auth REST API for verifying tokens and managing accounts
+ */
+
+import { firebaseConfig } from "./firebase-config"
+
+const IDENTITY_TOOLKIT_URL = "https://identitytoolkit.googleapis.com/v1/accounts"
+
+export interface IdentityAccount {
+  uid: string
+  email: string
+}
+
+export interface CreatedAccount extends IdentityAccount {
+  idToken: string // Signed in as the new account; needed to delete it again on rollback
+}
+
+export class IdentityToolkitError extends Error {
+  constructor(
+    public code: string,
+    message?: string,
+  ) {
+    super(message || code)
+    this.name = "IdentityToolkitError"
+  }
+}
+
+async function callIdentityToolkit(method: string, body: Record<string, unknown>): Promise<any> {
+  const response = await fetch(`${IDENTITY_TOOLKIT_URL}:${method}?key=${firebaseConfig.apiKey}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    cache: "no-store",
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    // Error messages look like "WEAK_PASSWORD : Password should be at least 6 characters"
+    const [code, detail] = String(data.error?.message || "UNKNOWN_ERROR").split(" : ")
+    throw new IdentityToolkitError(code, detail)
+  }
+  return data
+}
+
+// Verify an ID token and return the account it belongs to, or null if it is invalid or disabled
+export async function verifyIdToken(idToken: string): Promise<IdentityAccount | null> {
+  let data: any
+  try {
+    data = await callIdentityToolkit("lookup", { idToken })
+  } catch (error) {
+    if (error instanceof IdentityToolkitError) {
+      return null
+    }
+    throw error
+  }
+
+  const account = data.users?.[0]
+  if (!account || account.disabled) {
+    return null
+  }
+
+  return { uid: account.localId, email: account.email || "" }
+}
+
+// Create an email/password account. Throws IdentityToolkitError("EMAIL_EXISTS") if the email is taken.
+export async function createEmailPasswordAccount(email: string, password: string): Promise<CreatedAccount> {
+  const data = await callIdentityToolkit("signUp", { email, password, returnSecureToken: true })
+  return { uid: data.localId, email: data.email || email, idToken: data.idToken }
+}
+
+// Send Firebase's password reset email, which also serves as the "set your password" email for new accounts
+export async function sendPasswordSetupEmail(email: string): Promise<void> {
+  await callIdentityToolkit("sendOobCode", { requestType: "PASSWORD_RESET", email })
+}
+
+export async function deleteAccount(idToken: string): Promise<void> {
+  await callIdentityToolkit("delete", { idToken })
+}
+
+// Random password for accounts whose owner will choose their own through the setup email
+export function generateTemporaryPassword(): string {
+  const bytes = new Uint8Array(24)
+  crypto.getRandomValues(bytes)
+  return Buffer.from(bytes).toString("base64url")
+}
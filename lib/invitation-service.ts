@@ -0,0 +1,335 @@
+/**
+ * Invitation Service
+ * Expiring, single-use invitations that are the only way to create an iboard_users account.
+ * Only a SHA-256 hash of each invite token is stored; the token itself is shown once in the invite link.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type DocumentSnapshot,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { tenantConfig, TenantAccessLevel } from "./tenant-service"
+import { addAuditEventToBatch, recordAuditEvent } from "./audit-log"
+import type { AuditActor } from "@/types/audit-log"
+import type { Invitation, InviteeProfile } from "@/types/invitation"
+
+const COLLECTION_NAME = "iboard_invitations"
+export const INVITATION_TTL_DAYS = 7
+
+export class InvitationError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "InvitationError"
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+function getExpiryDate(): Date {
+  return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+}
+
+// Generate a random 256-bit invite token
+function generateInviteToken(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export async function hashInviteToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token.trim()))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+function convertToInvitation(snapshot: DocumentSnapshot): Invitation {
+  const data = snapshot.data() || {}
+  const expiresAt = data.expires_at?.toDate?.() || new Date(data.expires_at)
+  const status = data.status === "pending" && expiresAt.getTime() < Date.now() ? "expired" : data.status
+
+  return {
+    id: snapshot.id,
+    email: data.email,
+    role: data.role,
+    tenant_id: data.tenant_id,
+    status,
+    expires_at: expiresAt,
+    invited_by: data.invited_by,
+    invited_by_email: data.invited_by_email || "",
+    resent_count: data.resent_count || 0,
+    accepted_by: data.accepted_by,
+    accepted_at: data.accepted_at?.toDate?.(),
+    revoked_by: data.revoked_by,
+    created_at: data.created_at?.toDate?.() || new Date(),
+    updated_at: data.updated_at?.toDate?.() || new Date(),
+  }
+}
+
+export async function getInvitations(): Promise<Invitation[]> {
+  const snapshot = await getDocs(
+    query(
+      collection(getDb(), COLLECTION_NAME),
+      where("tenant_id", "==", tenantConfig.tenantId),
+      orderBy("created_at", "desc"),
+    ),
+  )
+  return snapshot.docs.map(convertToInvitation)
+}
+
+export async function getInvitation(id: string): Promise<Invitation | null> {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, id))
+  return snapshot.exists() ? convertToInvitation(snapshot) : null
+}
+
+// Look up an invitation from the token in an invite link
+export async function findInvitationByToken(token: string): Promise<Invitation | null> {
+  const tokenHash = await hashInviteToken(token)
+  const snapshot = await getDocs(
+    query(collection(getDb(), COLLECTION_NAME), where("token_hash", "==", tokenHash), limit(1)),
+  )
+  return snapshot.empty ? null : convertToInvitation(snapshot.docs[0])
+}
+
+export async function findPendingInvitationForEmail(email: string): Promise<Invitation | null> {
+  const snapshot = await getDocs(
+    query(
+      collection(getDb(), COLLECTION_NAME),
+      where("email", "==", normalizeEmail(email)),
+      where("status", "==", "pending"),
+    ),
+  )
+  const invitations = snapshot.docs.map(convertToInvitation).filter((invitation) => invitation.status === "pending")
+  return invitations[0] || null
+}
+
+export async function hasAdminAccount(email: string): Promise<boolean> {
+  const snapshot = await getDocs(
+    query(collection(getDb(), "iboard_users"), where("email", "==", normalizeEmail(email)), limit(1)),
+  )
+  return !snapshot.empty
+}
+
+/**
+ * Create an invitation for an email address with a pre-assigned role.
+ * Returns the invitation and the plaintext token for the invite link.
+ */
+export async function createInvitation(
+  email: string,
+  role: TenantAccessLevel,
+  actor: AuditActor,
+): Promise<{ invitation: Invitation; token: string }> {
+  const firestore = getDb()
+  const token = generateInviteToken()
+  const invitationRef = doc(collection(firestore, COLLECTION_NAME))
+
+  const invitationData = {
+    email: normalizeEmail(email),
+    role,
+    tenant_id: tenantConfig.tenantId,
+    status: "pending",
+    token_hash: await hashInviteToken(token),
+    expires_at: Timestamp.fromDate(getExpiryDate()),
+    invited_by: actor.uid,
+    invited_by_email: actor.email,
+    resent_count: 0,
+    created_at: serverTimestamp(),
+    updated_at: serverTimestamp(),
+  }
+
+  const batch = writeBatch(firestore)
+  batch.set(invitationRef, invitationData)
+  addAuditEventToBatch(batch, {
+    collection: COLLECTION_NAME,
+    entityId: invitationRef.id,
+    action: "create",
+    after: invitationData,
+    actor,
+  })
+  await batch.commit()
+
+  const invitation = await getInvitation(invitationRef.id)
+  return { invitation: invitation!, token }
+}
+
+// Issue a fresh token and expiry for a pending or expired invitation. The previous link stops working.
+export async function resendInvitation(id: string, actor: AuditActor): Promise<{ invitation: Invitation; token: string }> {
+  const firestore = getDb()
+  const invitation = await getInvitation(id)
+  if (!invitation) {
+    throw new InvitationError("Invitation not found", 404)
+  }
+  if (invitation.status !== "pending" && invitation.status !== "expired") {
+    throw new InvitationError(`Cannot resend an invitation that has been ${invitation.status}`)
+  }
+
+  const token = generateInviteToken()
+  const updateData = {
+    status: "pending",
+    token_hash: await hashInviteToken(token),
+    expires_at: Timestamp.fromDate(getExpiryDate()),
+    resent_count: invitation.resent_count + 1,
+    updated_at: serverTimestamp(),
+  }
+
+  const invitationRef = doc(firestore, COLLECTION_NAME, id)
+  const batch = writeBatch(firestore)
+  batch.update(invitationRef, updateData)
+  addAuditEventToBatch(batch, {
+    collection: COLLECTION_NAME,
+    entityId: id,
+    action: "update",
+    before: invitation,
+    after: updateData,
+    actor,
+    metadata: { operation: "resend" },
+  })
+  await batch.commit()
+
+  return { invitation: (await getInvitation(id))!, token }
+}
+
+export async function revokeInvitation(id: string, actor: AuditActor): Promise<Invitation> {
+  const firestore = getDb()
+  const invitation = await getInvitation(id)
+  if (!invitation) {
+    throw new InvitationError("Invitation not found", 404)
+  }
+  if (invitation.status !== "pending" && invitation.status !== "expired") {
+    throw new InvitationError(`Cannot revoke an invitation that has been ${invitation.status}`)
+  }
+
+  const updateData = {
+    status: "revoked",
+    revoked_by: actor.uid,
+    updated_at: serverTimestamp(),
+  }
+
+  const batch = writeBatch(firestore)
+  batch.update(doc(firestore, COLLECTION_NAME, id), updateData)
+  addAuditEventToBatch(batch, {
+    collection: COLLECTION_NAME,
+    entityId: id,
+    action: "update",
+    before: invitation,
+    after: updateData,
+    actor,
+    metadata: { operation: "revoke" },
+  })
+  await batch.commit()
+
+  return (await getInvitation(id))!
+}
+
+/**
+ * Accept an invitation for a freshly created Firebase Auth account.
+ * Creates the iboard_users profile with the invited role and tenant and marks the invitation used, atomically.
+ */
+export async function acceptInvitation(
+  token: string,
+  account: { uid: string; email: string },
+  profile: InviteeProfile,
+): Promise<Invitation> {
+  const firestore = getDb()
+  const found = await findInvitationByToken(token)
+  if (!found) {
+    throw new InvitationError("This invitation link is invalid", 404)
+  }
+
+  const invitationRef = doc(firestore, COLLECTION_NAME, found.id)
+  const userRef = doc(firestore, "iboard_users", account.uid)
+
+  await runTransaction(firestore, async (transaction) => {
+    const invitationSnap = await transaction.get(invitationRef)
+    const invitation = convertToInvitation(invitationSnap)
+
+    // Retrying an accept that already went through for this account is fine
+    if (invitation.status === "accepted" && invitation.accepted_by === account.uid) {
+      return
+    }
+    if (invitation.status !== "pending") {
+      throw new InvitationError(`This invitation has been ${invitation.status}`)
+    }
+    if (invitation.email !== normalizeEmail(account.email)) {
+      throw new InvitationError("This invitation was sent to a different email address", 403)
+    }
+
+    const userSnap = await transaction.get(userRef)
+    if (userSnap.exists()) {
+      throw new InvitationError("An admin profile already exists for this account")
+    }
+
+    transaction.set(userRef, {
+      // User identification
+      email: invitation.email,
+      display_name: profile.display_name,
+      uid: account.uid,
+      id: account.uid,
+
+      // Personal information
+      first_name: profile.first_name,
+      middle_name: profile.middle_name || "-",
+      last_name: profile.last_name,
+      gender: profile.gender,
+      phone_number: profile.phone_number || "-",
+      country_code: profile.country_code || "+63",
+
+      // Profile data
+      photo_url: "",
+      banner: "",
+      location: profile.location || "",
+
+      // Account status, role and tenant come from the invitation
+      active: true,
+      onboarding: false,
+      type: "OHADMIN",
+      role: [invitation.role.toLowerCase()],
+      tenant_id: invitation.tenant_id,
+      invitation_id: invitation.id,
+
+      // Metrics
+      followers: 0,
+      rating: 0.0,
+
+      // Timestamps
+      created: serverTimestamp(),
+      created_time: serverTimestamp(),
+      updated: serverTimestamp(),
+      active_date: serverTimestamp(),
+    })
+
+    transaction.update(invitationRef, {
+      status: "accepted",
+      accepted_by: account.uid,
+      accepted_at: serverTimestamp(),
+      updated_at: serverTimestamp(),
+    })
+  })
+
+  await recordAuditEvent({
+    collection: COLLECTION_NAME,
+    entityId: found.id,
+    action: "update",
+    before: found,
+    after: { status: "accepted", accepted_by: account.uid },
+    actor: account,
+    metadata: { operation: "accept", role: found.role },
+  })
+
+  return (await getInvitation(found.id))!
+}
@@ -0,0 +1,338 @@
+/**
+ * Invoices
+ * One invoice per billed period, issued in the same transaction as the billing event (new paid client, renewal,
+ * plan change or trial conversion). Invoice numbers are sequential per calendar year. Plan prices include 12% VAT,
+ * so the VAT is broken out of the total rather than added on top.
+ */
+
+import { format } from "date-fns"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type DocumentData,
+  type Transaction,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToTransaction } from "./audit-log"
+import { getPlanVersion } from "./plan-catalog-service"
+import { calculatePeriodStart, getPlanPrice } from "./subscription-plans"
+import { toDate, roundToCents } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type { Invoice, InvoiceParty, InvoiceReason, InvoiceStatus } from "@/types/invoice"
+import type { BillingCycle, SubscriptionPlanType } from "@/types/subscription"
+
+const COLLECTION_NAME = "invoices"
+const COUNTERS_COLLECTION = "invoice_counters"
+
+export const VAT_RATE = 0.12
+
+// Days after the issue date that an invoice is due
+export const INVOICE_PAYMENT_TERMS_DAYS = 7
+
+export class InvoiceError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "InvoiceError"
+  }
+}
+
+export interface InvoiceAmounts {
+  subtotal: number
+  vatAmount: number
+  total: number
+}
+
+// A billing event to invoice. Nothing is issued when the amount is zero.
+export interface InvoiceDraft {
+  reason: InvoiceReason
+  subscriptionId: string
+  companyId: string
+  planType: SubscriptionPlanType
+  planVersion: number
+  planName: string
+  billingCycle: BillingCycle
+  periodStart: Date
+  periodEnd: Date
+  amount: number // VAT-inclusive amount due
+  creditApplied?: number // Account credit already taken off amount
+  billTo?: InvoiceParty // Read from the company when omitted
+}
+
+// Seller details printed on invoices and quotes
+export function getIssuer(): InvoiceParty {
+  return {
+    name: process.env.INVOICE_ISSUER_NAME || "OH! Shop",
+    address: process.env.INVOICE_ISSUER_ADDRESS || "",
+    email: process.env.INVOICE_ISSUER_EMAIL || "",
+    tin: process.env.INVOICE_ISSUER_TIN || "",
+  }
+}
+
+// Split a VAT-inclusive total into its net amount and VAT
+export function calculateInvoiceAmounts(total: number): InvoiceAmounts {
+  const rounded = roundToCents(total)
+  const subtotal = roundToCents(rounded / (1 + VAT_RATE))
+  return { subtotal, vatAmount: roundToCents(rounded - subtotal), total: rounded }
+}
+
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `INV-${year}-${String(sequence).padStart(6, "0")}`
+}
+
+export function getInvoiceStatus(data: DocumentData, now = new Date()): InvoiceStatus {
+  if (data.status === "paid") {
+    return "paid"
+  }
+  const dueDate = toDate(data.dueDate)
+  return dueDate && dueDate < now ? "overdue" : "unpaid"
+}
+
+// Billing details of a company document
+export function buildBillTo(company: DocumentData): InvoiceParty {
+  const { street, city, province } = company.address || {}
+  return {
+    name: company.name || "",
+    address: [street, city, province].filter(Boolean).join(", "),
+    email: company.point_person?.email || company.email || "",
+    tin: company.tin || "",
+  }
+}
+
+function describe(draft: InvoiceDraft): string {
+  const period = `${format(draft.periodStart, "MMM d, yyyy")} - ${format(draft.periodEnd, "MMM d, yyyy")}`
+  const cycle = draft.billingCycle === "annually" ? "annual" : "monthly"
+  const credit = draft.creditApplied ? `, less PHP ${draft.creditApplied.toFixed(2)} account credit` : ""
+  if (draft.reason === "plan_change") {
+    return `${draft.planName} plan (${cycle}), prorated for plan change, ${period}${credit}`
+  }
+  return `${draft.planName} plan (${cycle}), ${period}${credit}`
+}
+
+function toInvoice(id: string, data: DocumentData, now = new Date()): Invoice {
+  return {
+    id,
+    invoiceNumber: data.invoiceNumber,
+    companyId: data.companyId,
+    subscriptionId: data.subscriptionId,
+    reason: data.reason,
+    description: data.description || "",
+    planType: data.planType,
+    planVersion: data.planVersion || 1,
+    billingCycle: data.billingCycle,
+    periodStart: toDate(data.periodStart)!,
+    periodEnd: toDate(data.periodEnd)!,
+    issueDate: toDate(data.issueDate)!,
+    dueDate: toDate(data.dueDate)!,
+    currency: "PHP",
+    subtotal: data.subtotal || 0,
+    vatRate: data.vatRate ?? VAT_RATE,
+    vatAmount: data.vatAmount || 0,
+    total: data.total || 0,
+    status: getInvoiceStatus(data, now),
+    paidAt: toDate(data.paidAt),
+    paymentReference: data.paymentReference || "",
+    issuer: data.issuer,
+    billTo: data.billTo,
+    created_by: data.created_by || "",
+    created_at: toDate(data.created_at) || new Date(),
+  }
+}
+
+/**
+ * Issue an invoice as part of a transaction. It reads the invoice counter (and the company unless billTo is
+ * given), so it must be called before the transaction writes anything. Returns the invoice id, or null when
+ * there is nothing to bill.
+ */
+export async function issueInvoiceInTransaction(
+  transaction: Transaction,
+  draft: InvoiceDraft,
+  actor: AuditActor,
+): Promise<string | null> {
+  if (draft.amount <= 0) {
+    return null
+  }
+
+  const firestore = getDb()
+  const issueDate = new Date()
+  const year = issueDate.getFullYear()
+  const counterRef = doc(firestore, COUNTERS_COLLECTION, String(year))
+
+  const counter = await transaction.get(counterRef)
+  let billTo = draft.billTo
+  if (!billTo) {
+    const company = await transaction.get(doc(firestore, "companies", draft.companyId))
+    billTo = buildBillTo(company.data() || {})
+  }
+
+  const sequence = (counter.data()?.lastNumber || 0) + 1
+  const dueDate = new Date(issueDate)
+  dueDate.setDate(dueDate.getDate() + INVOICE_PAYMENT_TERMS_DAYS)
+
+  const invoiceRef = doc(collection(firestore, COLLECTION_NAME))
+  const invoiceData = {
+    invoiceNumber: formatInvoiceNumber(year, sequence),
+    companyId: draft.companyId,
+    subscriptionId: draft.subscriptionId,
+    reason: draft.reason,
+    description: describe(draft),
+    planType: draft.planType,
+    planVersion: draft.planVersion,
+    billingCycle: draft.billingCycle,
+    periodStart: draft.periodStart,
+    periodEnd: draft.periodEnd,
+    issueDate,
+    dueDate,
+    currency: "PHP",
+    ...calculateInvoiceAmounts(draft.amount),
+    vatRate: VAT_RATE,
+    status: "unpaid",
+    paidAt: null,
+    paymentReference: "",
+    issuer: getIssuer(),
+    billTo,
+    created_by: actor.uid,
+    created_at: serverTimestamp(),
+  }
+
+  transaction.set(counterRef, { lastNumber: sequence, updated_at: serverTimestamp() })
+  transaction.set(invoiceRef, invoiceData)
+  addAuditEventToTransaction(transaction, {
+    collection: COLLECTION_NAME,
+    entityId: invoiceRef.id,
+    action: "create",
+    after: invoiceData,
+    actor,
+    metadata: { subscriptionId: draft.subscriptionId, reason: draft.reason },
+  })
+
+  return invoiceRef.id
+}
+
+export async function getInvoicesForCompany(companyId: string): Promise<Invoice[]> {
+  const snapshot = await getDocs(query(collection(getDb(), COLLECTION_NAME), where("companyId", "==", companyId)))
+  const now = new Date()
+
+  return snapshot.docs
+    .map((invoice) => toInvoice(invoice.id, invoice.data(), now))
+    .sort((a, b) => b.issueDate.getTime() - a.issueDate.getTime() || b.invoiceNumber.localeCompare(a.invoiceNumber))
+}
+
+export async function getInvoiceById(invoiceId: string): Promise<Invoice | null> {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, invoiceId))
+  return snapshot.exists() ? toInvoice(snapshot.id, snapshot.data()) : null
+}
+
+/**
+ * Invoice the subscription's current billing period, for subscriptions billed before invoicing existed.
+ * Fails if the period already has an invoice.
+ */
+export async function issueCurrentPeriodInvoice(subscriptionId: string, actor: AuditActor): Promise<Invoice> {
+  const firestore = getDb()
+  const subscriptionRef = doc(firestore, "subscriptions", subscriptionId)
+
+  const snapshot = await getDoc(subscriptionRef)
+  if (!snapshot.exists()) {
+    throw new InvoiceError("Subscription not found", 404)
+  }
+
+  const data = snapshot.data()
+  const periodEnd = toDate(data.endDate)
+  if (data.status === "trialing" || data.planType === "trial" || !periodEnd) {
+    throw new InvoiceError("Only paid subscriptions with a billing period can be invoiced")
+  }
+
+  const periodStart = calculatePeriodStart(periodEnd, data.billingCycle)
+  const existing = await getDocs(
+    query(collection(firestore, COLLECTION_NAME), where("subscriptionId", "==", subscriptionId)),
+  )
+  const alreadyInvoiced = existing.docs.some((invoice) => {
+    const invoiceData = invoice.data()
+    return invoiceData.reason !== "plan_change" && toDate(invoiceData.periodStart)?.getTime() === periodStart.getTime()
+  })
+  if (alreadyInvoiced) {
+    throw new InvoiceError("The current billing period has already been invoiced")
+  }
+
+  const planVersion = data.planVersion || 1
+  const plan = await getPlanVersion(data.planType, planVersion)
+  if (!plan) {
+    throw new InvoiceError("The subscription's plan no longer exists", 400)
+  }
+
+  const invoiceId = await runTransaction(firestore, async (transaction) => {
+    const current = await transaction.get(subscriptionRef)
+    if (toDate(current.data()?.endDate)?.getTime() !== periodEnd.getTime()) {
+      throw new InvoiceError("The subscription changed while this was being processed. Please try again.")
+    }
+
+    return issueInvoiceInTransaction(
+      transaction,
+      {
+        reason: "manual",
+        subscriptionId,
+        companyId: data.companyId,
+        planType: data.planType,
+        planVersion,
+        planName: plan.name,
+        billingCycle: data.billingCycle,
+        periodStart,
+        periodEnd,
+        amount: getPlanPrice([plan], plan.id, data.billingCycle),
+      },
+      actor,
+    )
+  })
+
+  if (!invoiceId) {
+    throw new InvoiceError("The subscription's plan has no price to invoice", 400)
+  }
+  return (await getInvoiceById(invoiceId))!
+}
+
+// Record a payment received outside the system
+export async function markInvoicePaid(
+  invoiceId: string,
+  payment: { paidAt?: Date; paymentReference?: string },
+  actor: AuditActor,
+): Promise<Invoice> {
+  const invoiceRef = doc(getDb(), COLLECTION_NAME, invoiceId)
+
+  await runTransaction(getDb(), async (transaction) => {
+    const snapshot = await transaction.get(invoiceRef)
+    if (!snapshot.exists()) {
+      throw new InvoiceError("Invoice not found", 404)
+    }
+
+    const data = snapshot.data()
+    if (data.status === "paid") {
+      throw new InvoiceError("This invoice has already been paid")
+    }
+
+    const update = {
+      status: "paid",
+      paidAt: payment.paidAt || new Date(),
+      paymentReference: payment.paymentReference?.trim() || "",
+    }
+    transaction.update(invoiceRef, { ...update, updated_at: serverTimestamp() })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: invoiceId,
+      action: "update",
+      before: { status: data.status, paidAt: data.paidAt, paymentReference: data.paymentReference },
+      after: update,
+      actor,
+      metadata: { operation: "mark_paid", invoiceNumber: data.invoiceNumber },
+    })
+  })
+
+  return (await getInvoiceById(invoiceId))!
+}
@@ -0,0 +1,122 @@
+/**
+ * License Keys
+ * Keys are signed with HMAC-SHA256 and carry the company, plan and expiry they were issued for:
+ *
+ *   OHL1.<base64url JSON claims>.<base64url signature>
+ *
+ * The signing secret comes from LICENSE_SIGNING_SECRET and never leaves the server; the OH apps check keys
+ * through /api/licenses/verify. Server-only: uses the Node crypto module.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import type { BillingCycle, SubscriptionPlanType } from "@/types/subscription"
+
+const KEY_PREFIX = "OHL1"
+
+// Format of keys issued before signing was introduced: PREFIX-PLAN-CYCLE-CREATED-RANDOM-CHECKDIGIT
+const LEGACY_KEY_PATTERN = /^[A-Z]{1,3}-[A-Z]{2}-(AN|MO)-\d+-[A-Z0-9]{6}-\d$/
+
+export interface LicenseClaims {
+  companyId: string
+  planType: SubscriptionPlanType
+  billingCycle: BillingCycle
+  issuedAt: Date
+  expiresAt: Date | null // End of the period the key was issued for; null for keys that don't expire
+}
+
+export type LicenseKeyFormat = "signed" | "legacy"
+
+export type LicenseKeyParseResult =
+  | { ok: true; format: "signed"; claims: LicenseClaims }
+  | { ok: true; format: "legacy"; claims: null }
+  | { ok: false; reason: "malformed" | "invalid_signature" }
+
+// Compact claim names keep the key short
+interface EncodedClaims {
+  c: string
+  p: SubscriptionPlanType
+  b: BillingCycle
+  i: number
+  e: number | null
+  n: string // Nonce, so two keys issued in the same second differ
+}
+
+// Thrown when LICENSE_SIGNING_SECRET is missing, so keys can be neither issued nor verified
+export class LicenseSigningError extends Error {
+  constructor(
+    message = "License signing is not configured",
+    public status = 503,
+  ) {
+    super(message)
+    this.name = "LicenseSigningError"
+  }
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.LICENSE_SIGNING_SECRET
+  if (!secret) {
+    throw new LicenseSigningError()
+  }
+  return secret
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", getSigningSecret()).update(value).digest("base64url")
+}
+
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000)
+}
+
+export function generateLicenseKey(claims: Omit<LicenseClaims, "issuedAt">): string {
+  const encoded: EncodedClaims = {
+    c: claims.companyId,
+    p: claims.planType,
+    b: claims.billingCycle,
+    i: toSeconds(new Date()),
+    e: claims.expiresAt ? toSeconds(claims.expiresAt) : null,
+    n: randomBytes(6).toString("base64url"),
+  }
+
+  const body = `${KEY_PREFIX}.${Buffer.from(JSON.stringify(encoded)).toString("base64url")}`
+  return `${body}.${sign(body)}`
+}
+
+/**
+ * Check a key's signature and decode its claims.
+ * Legacy keys carry no signature and are reported as such; they are only trusted if found on a subscription.
+ */
+export function parseLicenseKey(key: string): LicenseKeyParseResult {
+  const trimmed = key.trim()
+  if (LEGACY_KEY_PATTERN.test(trimmed)) {
+    return { ok: true, format: "legacy", claims: null }
+  }
+
+  const parts = trimmed.split(".")
+  if (parts.length !== 3 || parts[0] !== KEY_PREFIX) {
+    return { ok: false, reason: "malformed" }
+  }
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`))
+  const actual = Buffer.from(parts[2])
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "invalid_signature" }
+  }
+
+  try {
+    const encoded: EncodedClaims = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"))
+    return {
+      ok: true,
+      format: "signed",
+      claims: {
+        companyId: encoded.c,
+        planType: encoded.p,
+        billingCycle: encoded.b,
+        issuedAt: new Date(encoded.i * 1000),
+        expiresAt: encoded.e ? new Date(encoded.e * 1000) : null,
+      },
+    }
+  } catch {
+    return { ok: false, reason: "malformed" }
+  }
+}
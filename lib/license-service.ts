@@ -0,0 +1,117 @@
+/**
+ * License Verification
+ * Checks a license key against its subscription for the OH apps, and revokes keys.
+ * The key's signature proves it was issued here; validity, limits and revocation always come from the
+ * live subscription, since renewals and plan changes don't reissue the key.
+ */
+
+import { collection, getDocs, limit, query, where } from "firebase/firestore"
+import { getDb } from "./firebase"
+import { parseLicenseKey, type LicenseKeyFormat } from "./license-keys"
+import { calculateGraceEndDate } from "./subscription-plans"
+import { SubscriptionLifecycleError, applySubscriptionChange, type SubscriptionChangeResult } from "./subscription-lifecycle"
+import { toDate } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type { BillingCycle, SubscriptionPlanType, SubscriptionStatus } from "@/types/subscription"
+
+// Statuses in which a license may be used; past_due keeps working until the grace period ends
+const USABLE_STATUSES: SubscriptionStatus[] = ["active", "trialing", "past_due"]
+
+export type LicenseInvalidReason =
+  | "malformed"
+  | "invalid_signature"
+  | "not_found"
+  | "company_mismatch"
+  | "revoked"
+  | "expired"
+  | "inactive"
+
+export interface LicenseDetails {
+  companyId: string | null
+  planType: SubscriptionPlanType
+  billingCycle: BillingCycle
+  status: SubscriptionStatus
+  expiresAt: Date | null // When the key stops working, including any grace period
+  maxProducts: number
+  maxUsers: number
+  revoked: boolean
+  revokedAt: Date | null
+}
+
+export interface LicenseVerification {
+  valid: boolean
+  reason?: LicenseInvalidReason
+  format?: LicenseKeyFormat
+  license?: LicenseDetails
+}
+
+async function findSubscriptionByLicenseKey(licenseKey: string) {
+  const snapshot = await getDocs(
+    query(collection(getDb(), "subscriptions"), where("licenseKey", "==", licenseKey), limit(1)),
+  )
+  return snapshot.empty ? null : snapshot.docs[0]
+}
+
+export async function verifyLicense(licenseKey: string, now = new Date()): Promise<LicenseVerification> {
+  const parsed = parseLicenseKey(licenseKey)
+  if (!parsed.ok) {
+    return { valid: false, reason: parsed.reason }
+  }
+
+  const subscription = await findSubscriptionByLicenseKey(licenseKey.trim())
+  if (!subscription) {
+    return { valid: false, reason: "not_found", format: parsed.format }
+  }
+
+  const data = subscription.data()
+  if (parsed.claims && parsed.claims.companyId !== data.companyId) {
+    return { valid: false, reason: "company_mismatch", format: parsed.format }
+  }
+
+  // Paid subscriptions stay usable through the grace period, even before the expiry job has marked them past_due
+  const endDate = toDate(data.endDate)
+  const expiresAt =
+    !endDate || data.status === "trialing" || data.cancelAtPeriodEnd
+      ? endDate
+      : toDate(data.graceEndDate) || calculateGraceEndDate(endDate)
+  const license: LicenseDetails = {
+    companyId: data.companyId || null,
+    planType: data.planType || "trial",
+    billingCycle: data.billingCycle || "monthly",
+    status: data.status || "inactive",
+    expiresAt,
+    maxProducts: data.maxProducts || 0,
+    maxUsers: data.maxUsers || 1,
+    revoked: !!data.licenseRevokedAt,
+    revokedAt: toDate(data.licenseRevokedAt),
+  }
+
+  let reason: LicenseInvalidReason | undefined
+  if (license.revoked) {
+    reason = "revoked"
+  } else if (license.status === "expired" || license.status === "cancelled" || (expiresAt && expiresAt <= now)) {
+    // The expiry job may not have run yet, so a passed expiry counts as expired too
+    reason = "expired"
+  } else if (!USABLE_STATUSES.includes(license.status)) {
+    reason = "inactive"
+  }
+
+  return { valid: !reason, reason, format: parsed.format, license }
+}
+
+// Revoke a subscription's license key. Verification fails for the key from then on.
+export async function revokeLicense(
+  subscriptionId: string,
+  reason: string,
+  actor: AuditActor,
+): Promise<SubscriptionChangeResult> {
+  return applySubscriptionChange(subscriptionId, "license_revoked", actor, (data) => {
+    if (data.licenseRevokedAt) {
+      throw new SubscriptionLifecycleError("This license key has already been revoked")
+    }
+    return {
+      update: { licenseRevokedAt: new Date(), licenseRevokedReason: reason },
+      proration: null,
+    }
+  })
+}
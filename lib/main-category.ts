@@ -14,10 +14,11 @@ import {
   limit,
   startAfter,
   type DocumentSnapshot,
-  deleteDoc,
 } from "firebase/firestore"
 import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage"
-import { db, storage } from "@/lib/firebase"
+import { db, getDb, storage } from "@/lib/firebase"
+import { requirePermission } from "@/lib/permissions"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import type { MainCategory, MainCategoryFormData, MainCategoryFilter } from "@/types/main-category"
 
 const COLLECTION_NAME = "main_categories"
@@ -201,6 +202,8 @@ export function validateMainCategory(data: MainCategoryFormData): Record<string,
 
 // Create a new main category
 export async function createMainCategory(data: MainCategoryFormData): Promise<string> {
+  await requirePermission("categories:write")
+
   try {
     // Validate data
     const errors = validateMainCategory(data)
@@ -231,6 +234,8 @@ export async function createMainCategory(data: MainCategoryFormData): Promise<st
 
 // Update an existing main category
 export async function updateMainCategory(id: string, data: Partial<MainCategoryFormData>): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     // Validate data (only validate fields that are being updated)
     const fieldsToValidate: Partial<MainCategoryFormData> = {}
@@ -244,10 +249,21 @@ export async function updateMainCategory(id: string, data: Partial<MainCategoryF
     }
 
     const docRef = doc(db, COLLECTION_NAME, id)
-    await updateDoc(docRef, {
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(docRef, {
       ...data,
       updated: serverTimestamp(),
     })
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "update",
+      before: docSnap.data(),
+      after: data,
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error updating main category:", error)
     throw error
@@ -256,13 +272,26 @@ export async function updateMainCategory(id: string, data: Partial<MainCategoryF
 
 // Soft delete a main category (mark as deleted)
 export async function softDeleteMainCategory(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
-    await updateDoc(docRef, {
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(docRef, {
       deleted: true,
       date_deleted: serverTimestamp(),
       updated: serverTimestamp(),
     })
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "soft_delete",
+      before: docSnap.data(),
+      after: { deleted: true },
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error soft deleting main category:", error)
     throw error
@@ -271,13 +300,26 @@ export async function softDeleteMainCategory(id: string): Promise<void> {
 
 // Restore a soft-deleted main category
 export async function restoreMainCategory(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
-    await updateDoc(docRef, {
+    const docSnap = await getDoc(docRef)
+
+    const batch = writeBatch(getDb())
+    batch.update(docRef, {
       deleted: false,
       date_deleted: null,
       updated: serverTimestamp(),
     })
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "restore",
+      before: docSnap.data(),
+      after: { deleted: false },
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error restoring main category:", error)
     throw error
@@ -286,6 +328,8 @@ export async function restoreMainCategory(id: string): Promise<void> {
 
 // Hard delete a main category (remove from database)
 export async function hardDeleteMainCategory(id: string): Promise<void> {
+  await requirePermission("categories:delete")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
 
@@ -313,7 +357,15 @@ export async function hardDeleteMainCategory(id: string): Promise<void> {
     }
 
     // Delete the document
-    await deleteDoc(docRef)
+    const batch = writeBatch(getDb())
+    batch.delete(docRef)
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "delete",
+      before: docSnap.data(),
+    })
+    await batch.commit()
   } catch (error) {
     console.error("Error hard deleting main category:", error)
     throw error
@@ -357,8 +409,10 @@ export async function uploadMainCategoryPhoto(file: File): Promise<string> {
 
 // Update positions of multiple main categories
 export async function updateMainCategoryPositions(positionUpdates: { id: string; position: number }[]): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
-    const batch = writeBatch(db)
+    const batch = writeBatch(getDb())
 
     positionUpdates.forEach((update) => {
       const docRef = doc(db, COLLECTION_NAME, update.id)
@@ -377,6 +431,8 @@ export async function updateMainCategoryPositions(positionUpdates: { id: string;
 
 // Toggle featured status
 export async function toggleMainCategoryFeatured(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     const docSnap = await getDoc(docRef)
@@ -396,6 +452,8 @@ export async function toggleMainCategoryFeatured(id: string): Promise<void> {
 
 // Toggle active status
 export async function toggleMainCategoryActive(id: string): Promise<void> {
+  await requirePermission("categories:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     const docSnap = await getDoc(docRef)
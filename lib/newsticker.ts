@@ -1,4 +1,5 @@
 import { db, auth } from "./firebase"
+import { requirePermission } from "./permissions"
 import {
   collection,
   addDoc,
@@ -199,6 +200,8 @@ export const updateNewsticker = async (id: string, data: Partial<NewstickerFormD
 
 // Soft delete a newsticker (mark as deleted)
 export const softDeleteNewsticker = async (id: string): Promise<void> => {
+  await requirePermission("content:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     await updateDoc(docRef, {
@@ -213,6 +216,8 @@ export const softDeleteNewsticker = async (id: string): Promise<void> => {
 
 // Restore a soft-deleted newsticker
 export const restoreNewsticker = async (id: string): Promise<void> => {
+  await requirePermission("content:write")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     await updateDoc(docRef, {
@@ -227,6 +232,8 @@ export const restoreNewsticker = async (id: string): Promise<void> => {
 
 // Hard delete a newsticker (remove from database)
 export const hardDeleteNewsticker = async (id: string): Promise<void> => {
+  await requirePermission("content:delete")
+
   try {
     const docRef = doc(db, COLLECTION_NAME, id)
     await deleteDoc(docRef)
@@ -0,0 +1,155 @@
+/**
+ * Permission Model
+ * Maps iboard_users roles onto tenant access levels and the actions each level may perform
+ */
+
+import { doc, getDoc } from "firebase/firestore"
+import { auth, getDb } from "./firebase"
+import { TenantAccessLevel } from "./tenant-service"
+
+export type Permission =
+  | "dashboard:view"
+  | "members:view"
+  | "content:write"
+  | "content:delete"
+  | "categories:write"
+  | "categories:delete"
+  | "admin:view"
+  | "clients:write"
+  | "clients:delete"
+  | "database:write"
+  | "migrations:run"
+  | "tenant:manage"
+  | "audit:view"
+  | "users:invite"
+  | "jobs:run"
+  | "plans:manage"
+  | "quotations:manage"
+  | "bookings:manage"
+  | "bookings:refund"
+  | "billing:manage"
+
+const VIEWER_PERMISSIONS: Permission[] = ["dashboard:view", "members:view"]
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  "content:write",
+  "categories:write",
+  "admin:view",
+  "clients:write",
+  "quotations:manage",
+  "bookings:manage",
+]
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...EDITOR_PERMISSIONS,
+  "content:delete",
+  "categories:delete",
+  "clients:delete",
+  "database:write",
+  "migrations:run",
+  "tenant:manage",
+  "audit:view",
+  "users:invite",
+  "jobs:run",
+  "plans:manage",
+  "bookings:refund",
+  "billing:manage",
+]
+
+export const ROLE_PERMISSIONS: Record<TenantAccessLevel, Permission[]> = {
+  [TenantAccessLevel.ADMIN]: ADMIN_PERMISSIONS,
+  [TenantAccessLevel.EDITOR]: EDITOR_PERMISSIONS,
+  [TenantAccessLevel.VIEWER]: VIEWER_PERMISSIONS,
+}
+
+// Route prefixes and the permission needed to open them. More specific prefixes come first.
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard/admin/clients/add", permission: "clients:write" },
+  { prefix: "/dashboard/admin/clients/import", permission: "clients:write" },
+  { prefix: "/dashboard/admin/clients/duplicates", permission: "clients:delete" },
+  { prefix: "/dashboard/admin/audit-log", permission: "audit:view" },
+  { prefix: "/dashboard/admin/invitations", permission: "users:invite" },
+  { prefix: "/dashboard/admin/plans", permission: "plans:manage" },
+  { prefix: "/dashboard/admin", permission: "admin:view" },
+  { prefix: "/dashboard/content", permission: "content:write" },
+  { prefix: "/dashboard/categories-list", permission: "categories:write" },
+  { prefix: "/dashboard/categories", permission: "categories:write" },
+  { prefix: "/dashboard/main-categories", permission: "categories:write" },
+  { prefix: "/dashboard/products", permission: "database:write" },
+  { prefix: "/dashboard/tenant", permission: "tenant:manage" },
+  { prefix: "/dashboard/members", permission: "members:view" },
+  { prefix: "/dashboard/immigration", permission: "members:view" },
+  { prefix: "/dashboard", permission: "dashboard:view" },
+]
+
+export class PermissionError extends Error {
+  permission: Permission
+
+  constructor(permission: Permission) {
+    super(`You don't have permission to perform this action (${permission})`)
+    this.name = "PermissionError"
+    this.permission = permission
+  }
+}
+
+// Resolve the highest access level from the role array stored on an iboard_users document
+export function resolveAccessLevel(roles: string[] | string | undefined | null): TenantAccessLevel {
+  const normalized = (Array.isArray(roles) ? roles : roles ? [roles] : []).map((role) => role.toUpperCase())
+
+  if (normalized.includes(TenantAccessLevel.ADMIN)) {
+    return TenantAccessLevel.ADMIN
+  }
+
+  if (normalized.includes(TenantAccessLevel.EDITOR)) {
+    return TenantAccessLevel.EDITOR
+  }
+
+  return TenantAccessLevel.VIEWER
+}
+
+// iboard_users also holds client-app accounts (point persons, members); only OHADMIN profiles may use this dashboard.
+// A profile without a type is not trusted as an admin.
+export function isAdminProfile(profile: { type?: string } | null | undefined): boolean {
+  return !!profile && profile.type === "OHADMIN"
+}
+
+export function hasPermission(level: TenantAccessLevel, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[level].includes(permission)
+}
+
+// Get the permission required for a pathname, or null if the route is not guarded
+export function getRoutePermission(pathname: string): Permission | null {
+  const match = ROUTE_PERMISSIONS.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  )
+  return match ? match.permission : null
+}
+
+// Load the access level for a user from their iboard_users profile
+export async function getAccessLevelForUser(uid: string): Promise<TenantAccessLevel> {
+  const userDoc = await getDoc(doc(getDb(), "iboard_users", uid))
+  if (!userDoc.exists() || !isAdminProfile(userDoc.data())) {
+    return TenantAccessLevel.VIEWER
+  }
+
+  return resolveAccessLevel(userDoc.data().role)
+}
+
+// Throw a PermissionError unless the given user holds the permission
+export async function assertUserPermission(uid: string, permission: Permission): Promise<void> {
+  const level = await getAccessLevelForUser(uid)
+  if (!hasPermission(level, permission)) {
+    throw new PermissionError(permission)
+  }
+}
+
+// Throw a PermissionError unless the signed-in user holds the permission
+export async function requirePermission(permission: Permission): Promise<void> {
+  const currentUser = auth?.currentUser
+  if (!currentUser) {
+    throw new PermissionError(permission)
+  }
+
+  await assertUserPermission(currentUser.uid, permission)
+}
@@ -0,0 +1,272 @@
+/**
+ * Plan Catalog
+ * Create, edit and retire the plans in subscription_plans. Every create or edit also writes an immutable copy to
+ * subscription_plans/{id}/versions/{version}. Subscriptions record the version they bought (planVersion), so
+ * later price or limit changes only apply to new sales and plan changes.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToBatch, addAuditEventToTransaction } from "./audit-log"
+import { type PlanFieldErrors, type PlanInput, buildPlanFields, hasPlanFieldErrors, validatePlanInput } from "./plan-validation"
+import {
+  DEFAULT_SUBSCRIPTION_PLANS,
+  findPlan,
+  getActivePlans,
+  getMaxProductsForPlan,
+  getMaxUsersForPlan,
+  isBuiltInPlanType,
+} from "./subscription-plans"
+import { toDate } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type { SubscriptionPlan, SubscriptionPlanStatus, SubscriptionPlanVersion } from "@/types/subscription"
+
+const COLLECTION_NAME = "subscription_plans"
+const VERSIONS_SUBCOLLECTION = "versions"
+
+export type PlanCatalogSource = "catalog" | "defaults"
+
+export interface PlanCatalog {
+  plans: SubscriptionPlan[]
+  source: PlanCatalogSource // "defaults" while subscription_plans is empty or unavailable
+}
+
+export class PlanCatalogError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public fieldErrors?: PlanFieldErrors,
+  ) {
+    super(message)
+    this.name = "PlanCatalogError"
+  }
+}
+
+/**
+ * Map a stored plan onto SubscriptionPlan.
+ * Plans saved before the catalog was versioned have no prices, limits, version or status; the built-in limits
+ * fill in for known plan ids.
+ */
+export function toSubscriptionPlan(id: string, data: DocumentData): SubscriptionPlan {
+  const builtIn = isBuiltInPlanType(id)
+  const billingCycle = data.billingCycle || "monthly"
+  return {
+    id,
+    name: data.name || "",
+    description: data.description || "",
+    price: data.price || 0,
+    billingCycle,
+    prices: data.prices || (billingCycle === "N/A" ? {} : { [billingCycle]: data.price || 0 }),
+    maxProducts: data.maxProducts ?? (builtIn ? getMaxProductsForPlan(id) : 0),
+    maxUsers: data.maxUsers ?? (builtIn ? getMaxUsersForPlan(id) : 1),
+    features: data.features || [],
+    buttonText: data.buttonText || "Subscribe",
+    version: data.version || 1,
+    status: data.status || "active",
+  }
+}
+
+function getPlanRef(planId: string) {
+  return doc(getDb(), COLLECTION_NAME, planId)
+}
+
+function getVersionRef(planId: string, version: number) {
+  return doc(getDb(), COLLECTION_NAME, planId, VERSIONS_SUBCOLLECTION, String(version))
+}
+
+function validate(input: PlanInput, requireId: boolean) {
+  const fieldErrors = validatePlanInput(input, { requireId })
+  if (hasPlanFieldErrors(fieldErrors)) {
+    throw new PlanCatalogError("Please correct the highlighted fields", 400, fieldErrors)
+  }
+  return buildPlanFields(input)
+}
+
+// Plans in price order. Falls back to the default plans while the collection is empty or unreadable.
+export async function getPlanCatalog(options: { includeRetired?: boolean } = {}): Promise<PlanCatalog> {
+  let catalog: PlanCatalog = { plans: DEFAULT_SUBSCRIPTION_PLANS, source: "defaults" }
+
+  try {
+    const snapshot = await getDocs(query(collection(getDb(), COLLECTION_NAME), orderBy("price", "asc")))
+    if (!snapshot.empty) {
+      catalog = { plans: snapshot.docs.map((plan) => toSubscriptionPlan(plan.id, plan.data())), source: "catalog" }
+    }
+  } catch (error) {
+    console.warn("Could not fetch plans from Firestore, using default plans:", error)
+  }
+
+  return options.includeRetired ? catalog : { ...catalog, plans: getActivePlans(catalog.plans) }
+}
+
+export async function getPlanVersions(planId: string): Promise<SubscriptionPlanVersion[]> {
+  const snapshot = await getDocs(
+    query(collection(getDb(), COLLECTION_NAME, planId, VERSIONS_SUBCOLLECTION), orderBy("version", "desc")),
+  )
+
+  return snapshot.docs.map((version) => {
+    const data = version.data()
+    return {
+      ...toSubscriptionPlan(planId, data),
+      created_at: toDate(data.created_at) || new Date(),
+      created_by: data.created_by || "",
+    }
+  })
+}
+
+/**
+ * The plan as it was at `version`, for pricing a subscription pinned to it.
+ * Falls back to the current catalog entry for plans that predate versioning.
+ */
+export async function getPlanVersion(planId: string, version = 1): Promise<SubscriptionPlan | null> {
+  const snapshot = await getDoc(getVersionRef(planId, version))
+  if (snapshot.exists()) {
+    return toSubscriptionPlan(planId, snapshot.data())
+  }
+
+  const { plans } = await getPlanCatalog({ includeRetired: true })
+  return findPlan(plans, planId) || null
+}
+
+export async function createPlan(input: PlanInput, actor: AuditActor): Promise<SubscriptionPlan> {
+  const fields = validate(input, true)
+  const planId = input.id!.trim()
+  const planRef = getPlanRef(planId)
+  const plan: SubscriptionPlan = { id: planId, ...fields, version: 1, status: "active" }
+
+  await runTransaction(getDb(), async (transaction) => {
+    if ((await transaction.get(planRef)).exists()) {
+      throw new PlanCatalogError("A plan with this ID already exists", 409, { id: "A plan with this ID already exists" })
+    }
+
+    const { id: _id, ...stored } = plan
+    transaction.set(planRef, { ...stored, created_at: serverTimestamp(), updated_at: serverTimestamp() })
+    transaction.set(getVersionRef(planId, 1), { ...stored, created_at: serverTimestamp(), created_by: actor.uid })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: planId,
+      action: "create",
+      after: stored,
+      actor,
+    })
+  })
+
+  return plan
+}
+
+// Save an edit as a new version of the plan. Subscriptions on earlier versions are unaffected.
+export async function updatePlan(planId: string, input: PlanInput, actor: AuditActor): Promise<SubscriptionPlan> {
+  const fields = validate(input, false)
+  const planRef = getPlanRef(planId)
+
+  return runTransaction(getDb(), async (transaction) => {
+    const snapshot = await transaction.get(planRef)
+    if (!snapshot.exists()) {
+      throw new PlanCatalogError("Plan not found. Save the default plans to the catalog before editing them.", 404)
+    }
+
+    const current = snapshot.data()
+    const previous = toSubscriptionPlan(planId, current)
+    const plan: SubscriptionPlan = { id: planId, ...fields, version: previous.version + 1, status: previous.status }
+    const { id: _id, ...stored } = plan
+
+    // Plans saved before versioning get their original state recorded as version 1
+    if (!current.version) {
+      const { id: _previousId, ...previousStored } = previous
+      transaction.set(getVersionRef(planId, 1), {
+        ...previousStored,
+        created_at: current.created_at || serverTimestamp(),
+        created_by: "",
+      })
+    }
+
+    transaction.update(planRef, { ...stored, updated_at: serverTimestamp() })
+    transaction.set(getVersionRef(planId, plan.version), {
+      ...stored,
+      created_at: serverTimestamp(),
+      created_by: actor.uid,
+    })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: planId,
+      action: "update",
+      before: current,
+      after: stored,
+      actor,
+      metadata: { version: plan.version },
+    })
+
+    return plan
+  })
+}
+
+// Retire a plan so it can't be sold, or reactivate it. Existing subscriptions keep their plan either way.
+export async function setPlanStatus(
+  planId: string,
+  status: SubscriptionPlanStatus,
+  actor: AuditActor,
+): Promise<SubscriptionPlan> {
+  const planRef = getPlanRef(planId)
+
+  return runTransaction(getDb(), async (transaction) => {
+    const snapshot = await transaction.get(planRef)
+    if (!snapshot.exists()) {
+      throw new PlanCatalogError("Plan not found", 404)
+    }
+
+    const plan = toSubscriptionPlan(planId, snapshot.data())
+    if (plan.status === status) {
+      throw new PlanCatalogError(`This plan is already ${status}`, 409)
+    }
+
+    transaction.update(planRef, { status, updated_at: serverTimestamp() })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: planId,
+      action: "update",
+      before: { status: plan.status },
+      after: { status },
+      actor,
+      metadata: { operation: status === "retired" ? "retire_plan" : "reactivate_plan" },
+    })
+
+    return { ...plan, status }
+  })
+}
+
+// Copy the default plans into an empty catalog as version 1 so they can be edited
+export async function seedDefaultPlans(actor: AuditActor): Promise<SubscriptionPlan[]> {
+  const firestore = getDb()
+  const existing = await getDocs(collection(firestore, COLLECTION_NAME))
+  if (!existing.empty) {
+    throw new PlanCatalogError("The plan catalog already has plans", 409)
+  }
+
+  const batch = writeBatch(firestore)
+  for (const plan of DEFAULT_SUBSCRIPTION_PLANS) {
+    const { id, ...stored } = plan
+    batch.set(getPlanRef(id), { ...stored, created_at: serverTimestamp(), updated_at: serverTimestamp() })
+    batch.set(getVersionRef(id, plan.version), { ...stored, created_at: serverTimestamp(), created_by: actor.uid })
+    addAuditEventToBatch(batch, {
+      collection: COLLECTION_NAME,
+      entityId: id,
+      action: "create",
+      after: stored,
+      actor,
+      metadata: { operation: "seed_default_plans" },
+    })
+  }
+  await batch.commit()
+
+  return DEFAULT_SUBSCRIPTION_PLANS
+}
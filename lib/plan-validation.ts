@@ -0,0 +1,118 @@
+/**
+ * Plan Validation
+ * Field-level validation for creating and editing catalog plans, shared by /api/subscription-plans and the plan form.
+ */
+
+import { BILLING_CYCLES, PLAN_ID_PATTERN, UNLIMITED, isBillingCycle } from "./subscription-plans"
+import type { BillingCycle, SubscriptionPlan } from "@/types/subscription"
+
+export type PlanFieldErrors = Record<string, string>
+
+export interface PlanInput {
+  id?: string
+  name?: string
+  description?: string
+  billingCycle?: string // Default cycle the plan is shown with; "N/A" for free plans
+  prices?: Partial<Record<string, number | string | null>>
+  maxProducts?: number | string | null
+  maxUsers?: number | string | null
+  features?: string[]
+  buttonText?: string
+}
+
+// Catalog fields of a plan, without the id, version and status the catalog manages
+export type PlanFields = Omit<SubscriptionPlan, "id" | "version" | "status">
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === ""
+}
+
+function validateLimit(value: unknown, label: string): string | null {
+  const limit = Number(value)
+  if (isBlank(value) || !Number.isInteger(limit) || limit < 1) {
+    return `${label} must be a whole number of at least 1`
+  }
+  if (limit > UNLIMITED) {
+    return `${label} can be at most ${UNLIMITED} (unlimited)`
+  }
+  return null
+}
+
+// Pass requireId when creating; an existing plan's id can't change
+export function validatePlanInput(input: PlanInput, options: { requireId?: boolean } = {}): PlanFieldErrors {
+  const errors: PlanFieldErrors = {}
+
+  if (options.requireId) {
+    if (isBlank(input.id)) {
+      errors.id = "Plan ID is required"
+    } else if (!PLAN_ID_PATTERN.test(input.id!.trim()) || input.id!.length > 50) {
+      errors.id = "Plan ID must be lowercase letters, digits and dashes, e.g. team-plus"
+    }
+  }
+
+  if (isBlank(input.name)) {
+    errors.name = "Plan name is required"
+  }
+
+  if (input.billingCycle !== "N/A" && !isBillingCycle(input.billingCycle)) {
+    errors.billingCycle = "Please select a billing cycle"
+  }
+
+  for (const cycle of BILLING_CYCLES) {
+    const price = input.prices?.[cycle]
+    if (isBlank(price)) {
+      if (cycle === input.billingCycle) {
+        errors[`prices.${cycle}`] = `A ${cycle} price is required for a ${cycle} plan`
+      }
+      continue
+    }
+    if (!Number.isFinite(Number(price)) || Number(price) < 0) {
+      errors[`prices.${cycle}`] = "Price must be zero or more"
+    }
+  }
+
+  const productsError = validateLimit(input.maxProducts, "Products")
+  if (productsError) {
+    errors.maxProducts = productsError
+  }
+
+  const usersError = validateLimit(input.maxUsers, "Users")
+  if (usersError) {
+    errors.maxUsers = usersError
+  }
+
+  if (input.features !== undefined && !Array.isArray(input.features)) {
+    errors.features = "Features must be a list"
+  }
+
+  return errors
+}
+
+// Normalize validated input into the fields stored on the plan
+export function buildPlanFields(input: PlanInput): PlanFields {
+  const prices: Partial<Record<BillingCycle, number>> = {}
+  for (const cycle of BILLING_CYCLES) {
+    const price = input.prices?.[cycle]
+    if (!isBlank(price)) {
+      prices[cycle] = Math.round(Number(price) * 100) / 100
+    }
+  }
+
+  const billingCycle = input.billingCycle === "N/A" ? "N/A" : (input.billingCycle as BillingCycle)
+
+  return {
+    name: input.name!.trim(),
+    description: input.description?.trim() || "",
+    billingCycle,
+    price: billingCycle === "N/A" ? 0 : prices[billingCycle] || 0,
+    prices,
+    maxProducts: Number(input.maxProducts),
+    maxUsers: Number(input.maxUsers),
+    features: (input.features || []).map((feature) => String(feature).trim()).filter(Boolean),
+    buttonText: input.buttonText?.trim() || "Subscribe",
+  }
+}
+
+export function hasPlanFieldErrors(errors: PlanFieldErrors): boolean {
+  return Object.keys(errors).length > 0
+}
@@ -0,0 +1,260 @@
+/**
+ * Point Person Service
+ * Creates or links the Firebase Auth account of a client's point person and builds their client-app profile.
+ * Passwords are handed straight to Firebase Auth and never written to Firestore.
+ */
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  where,
+  limit,
+  writeBatch,
+  serverTimestamp,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { isAdminProfile } from "./permissions"
+import { addAuditEventToBatch } from "./audit-log"
+import {
+  IdentityToolkitError,
+  createEmailPasswordAccount,
+  deleteAccount,
+  generateTemporaryPassword,
+  sendPasswordSetupEmail,
+} from "./identity-toolkit"
+import type { CompanyPointPerson } from "./company-service"
+import type { AuditActor } from "@/types/audit-log"
+
+// "invite" emails the point person a link to choose their own password; "password" sets an initial one
+export type PointPersonProvisioning = "invite" | "password"
+
+export interface PointPersonInput {
+  email: string
+  first_name?: string
+  last_name?: string
+  position?: string
+  provisioning?: PointPersonProvisioning
+  password?: string
+}
+
+export interface PointPersonAccount {
+  uid: string
+  email: string
+  created: boolean // A new auth account was created for this client and must be removed on rollback
+  provisioning: PointPersonProvisioning | "linked"
+  idToken?: string
+}
+
+export class PointPersonError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public field = "point_person.email", // Form field the error belongs to
+  ) {
+    super(message)
+    this.name = "PointPersonError"
+  }
+}
+
+export interface PasswordCleanupResult {
+  scanned: number
+  companies: { id: string; name: string }[] // Companies that had (or, on a dry run, still have) a stored password
+  cleaned: number
+}
+
+const MIN_PASSWORD_LENGTH = 6
+// Firestore batch limit is 500 writes; each cleanup also writes an audit entry
+const CLEANUP_BATCH_SIZE = 250
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Create the auth account for a point person, or link the existing client-app account with that email.
+ * Must run before any client documents are written so a failure leaves nothing behind.
+ */
+export async function provisionPointPersonAccount(input: PointPersonInput): Promise<PointPersonAccount> {
+  const email = normalizeEmail(input.email || "")
+  if (!email) {
+    throw new PointPersonError("Point person email is required")
+  }
+
+  const existing = await getDocs(
+    query(collection(getDb(), "iboard_users"), where("email", "==", email), limit(1)),
+  )
+  if (!existing.empty) {
+    const profile = existing.docs[0].data()
+    if (isAdminProfile(profile)) {
+      throw new PointPersonError("This email belongs to an administrator account", 409)
+    }
+    if (profile.company_id) {
+      throw new PointPersonError("This email is already linked to another company", 409)
+    }
+    return { uid: existing.docs[0].id, email, created: false, provisioning: "linked" }
+  }
+
+  const provisioning = input.provisioning === "password" ? "password" : "invite"
+  if (provisioning === "password" && (input.password || "").length < MIN_PASSWORD_LENGTH) {
+    throw new PointPersonError(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      400,
+      "point_person.password",
+    )
+  }
+
+  try {
+    const password = provisioning === "password" ? input.password! : generateTemporaryPassword()
+    const account = await createEmailPasswordAccount(email, password)
+    return { uid: account.uid, email, created: true, provisioning, idToken: account.idToken }
+  } catch (error) {
+    if (error instanceof IdentityToolkitError) {
+      switch (error.code) {
+        case "EMAIL_EXISTS":
+          throw new PointPersonError("An account with this email already exists but has no profile to link", 409)
+        case "INVALID_EMAIL":
+          throw new PointPersonError("Point person email is invalid")
+        case "WEAK_PASSWORD":
+          throw new PointPersonError(error.message, 400, "point_person.password")
+      }
+    }
+    throw error
+  }
+}
+
+// Remove an auth account created by provisionPointPersonAccount when the rest of client creation fails
+export async function rollbackPointPersonAccount(account: PointPersonAccount): Promise<void> {
+  if (!account.created || !account.idToken) {
+    return
+  }
+
+  try {
+    await deleteAccount(account.idToken)
+  } catch (error) {
+    console.error(`Error removing point person account ${account.uid}:`, error)
+  }
+}
+
+// Send the password setup email to an invited point person
+export async function sendPointPersonInvite(account: PointPersonAccount): Promise<void> {
+  if (account.provisioning === "invite") {
+    await sendPasswordSetupEmail(account.email)
+  }
+}
+
+// Contact details stored on the company document, linked to the account by uid
+export function buildCompanyPointPerson(account: PointPersonAccount, input: PointPersonInput): CompanyPointPerson {
+  return {
+    email: account.email,
+    first_name: input.first_name || "",
+    last_name: input.last_name || "",
+    position: input.position || "",
+    uid: account.uid,
+  }
+}
+
+/**
+ * Client-app profile for the point person (iboard_users/{uid}), written with merge.
+ * Existing accounts are only linked to the company and license.
+ */
+export function buildPointPersonProfile(
+  account: PointPersonAccount,
+  input: PointPersonInput,
+  link: { companyId: string; licenseKey: string },
+) {
+  const linkData = {
+    company_id: link.companyId,
+    license_key: link.licenseKey,
+    position: input.position || "",
+    updated: serverTimestamp(),
+  }
+
+  if (!account.created) {
+    return linkData
+  }
+
+  const firstName = input.first_name || ""
+  const lastName = input.last_name || ""
+
+  return {
+    ...linkData,
+
+    // User identification
+    email: account.email,
+    display_name: `${firstName} ${lastName}`.trim() || account.email.split("@")[0],
+    uid: account.uid,
+    id: account.uid,
+
+    // Personal information
+    first_name: firstName,
+    middle_name: "-",
+    last_name: lastName,
+    phone_number: "-",
+
+    // Profile data
+    photo_url: "",
+    banner: "",
+    location: "",
+
+    // The point person administers their company's workspace in the client app
+    active: true,
+    onboarding: true,
+    type: "OHPLUS",
+    role: ["admin"],
+
+    // Timestamps
+    created: serverTimestamp(),
+    created_time: serverTimestamp(),
+    active_date: serverTimestamp(),
+  }
+}
+
+/**
+ * One-time cleanup: remove point_person.password from every company document that still has one.
+ * With dryRun the affected companies are only listed.
+ */
+export async function purgeStoredPointPersonPasswords(
+  actor: AuditActor,
+  dryRun = false,
+): Promise<PasswordCleanupResult> {
+  const firestore = getDb()
+  const snapshot = await getDocs(collection(firestore, "companies"))
+  const affected = snapshot.docs.filter((companyDoc) => companyDoc.data().point_person?.password !== undefined)
+
+  const result: PasswordCleanupResult = {
+    scanned: snapshot.size,
+    companies: affected.map((companyDoc) => ({ id: companyDoc.id, name: companyDoc.data().name || "" })),
+    cleaned: 0,
+  }
+
+  if (dryRun) {
+    return result
+  }
+
+  for (let i = 0; i < affected.length; i += CLEANUP_BATCH_SIZE) {
+    const chunk = affected.slice(i, i + CLEANUP_BATCH_SIZE)
+    const batch = writeBatch(firestore)
+
+    chunk.forEach((companyDoc) => {
+      const updateData = { "point_person.password": deleteField() }
+      batch.update(doc(firestore, "companies", companyDoc.id), updateData)
+      addAuditEventToBatch(batch, {
+        collection: "companies",
+        entityId: companyDoc.id,
+        action: "migration",
+        before: companyDoc.data(),
+        after: updateData,
+        actor,
+        metadata: { operation: "purge_point_person_password" },
+      })
+    })
+
+    await batch.commit()
+    result.cleaned += chunk.length
+  }
+
+  return result
+}
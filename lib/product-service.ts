@@ -13,8 +13,11 @@ import {
   GeoPoint,
   type DocumentSnapshot,
   getCountFromServer,
+  writeBatch,
 } from "firebase/firestore"
-import { db } from "@/lib/firebase"
+import { db, getDb } from "@/lib/firebase"
+import { requirePermission } from "@/lib/permissions"
+import { addAuditEventToBatch } from "@/lib/audit-log"
 import type { Product, ProductFilters } from "@/types/product"
 import { CustomFieldService, type StoredCustomFieldDefinition } from "@/lib/custom-field-service"
 
@@ -303,6 +306,8 @@ export class ProductService {
   }
 
   static async updateProduct(id: string, updates: Partial<Product>): Promise<void> {
+    await requirePermission("database:write")
+
     try {
       const docRef = doc(db, COLLECTION_NAME, id)
       const updateData = {
@@ -318,7 +323,18 @@ export class ProductService {
         }
       }
 
-      await updateDoc(docRef, updateData)
+      const docSnap = await getDoc(docRef)
+
+      const batch = writeBatch(getDb())
+      batch.update(docRef, updateData)
+      addAuditEventToBatch(batch, {
+        collection: COLLECTION_NAME,
+        entityId: id,
+        action: "update",
+        before: docSnap.data(),
+        after: updateData,
+      })
+      await batch.commit()
     } catch (error) {
       console.error("Error updating product:", error)
       throw error
@@ -326,12 +342,25 @@ export class ProductService {
   }
 
   static async deleteProduct(id: string): Promise<void> {
+    await requirePermission("database:write")
+
     try {
       const docRef = doc(db, COLLECTION_NAME, id)
-      await updateDoc(docRef, {
+      const docSnap = await getDoc(docRef)
+
+      const batch = writeBatch(getDb())
+      batch.update(docRef, {
         deleted: true,
         updated: Timestamp.now(),
       })
+      addAuditEventToBatch(batch, {
+        collection: COLLECTION_NAME,
+        entityId: id,
+        action: "soft_delete",
+        before: docSnap.data(),
+        after: { deleted: true },
+      })
+      await batch.commit()
     } catch (error) {
       console.error("Error deleting product:", error)
       throw error
@@ -339,6 +368,8 @@ export class ProductService {
   }
 
   static async softDeleteProduct(id: string): Promise<void> {
+    await requirePermission("database:write")
+
     try {
       const docRef = doc(db, COLLECTION_NAME, id)
 
@@ -356,10 +387,19 @@ export class ProductService {
       }
 
       // Perform soft delete
-      await updateDoc(docRef, {
+      const batch = writeBatch(getDb())
+      batch.update(docRef, {
         deleted: true,
         updated: Timestamp.now(),
       })
+      addAuditEventToBatch(batch, {
+        collection: COLLECTION_NAME,
+        entityId: id,
+        action: "soft_delete",
+        before: currentData,
+        after: { deleted: true },
+      })
+      await batch.commit()
 
       console.log(`Product ${id} successfully marked as deleted`)
     } catch (error) {
@@ -1,6 +1,26 @@
-import { db } from "./firebase"
-import { doc, getDoc, collection, getDocs, query, where, orderBy, limit } from "firebase/firestore"
+import { db, getDb } from "./firebase"
+import { doc, getDoc, collection, getDocs, query, where, orderBy, limit, writeBatch } from "firebase/firestore"
+import { addAuditEventToBatch } from "./audit-log"
 import { LicenseData } from "../types/license"
+import type { AuditActor } from "@/types/audit-log"
+
+// Firestore batch limit is 500 writes; each link also writes an audit entry
+const LINK_BATCH_SIZE = 250
+
+export interface LicenseCompanyLink {
+  id: string
+  company_name: string
+  companyId: string
+  matchedBy: "license_key" | "company_name" // Subscription with the same license key, or a unique company name
+}
+
+export interface LicenseCompanyLinkResult {
+  scanned: number
+  alreadyLinked: number
+  linked: LicenseCompanyLink[] // Licenses that were linked (or, on a dry run, would be)
+  ambiguous: { id: string; company_name: string; candidates: { id: string; name: string }[] }[]
+  unmatched: { id: string; company_name: string }[]
+}
 
 export async function getLicenseById(licenseId: string): Promise<LicenseData> {
   if (!licenseId) {
@@ -26,6 +46,7 @@ export async function getLicenseById(licenseId: string): Promise<LicenseData> {
       license_key: data.license_key || "",
       license_name: data.license_name || data.project_name || "", // Handle both old and new field names
       company_name: data.company_name || "",
+      company_id: data.company_id || null,
       company_location: data.company_location || "",
       company_website: data.company_website || "",
       social_media: {
@@ -74,6 +95,7 @@ export async function getLicensesByTenantId(tenantId: string): Promise<LicenseDa
         license_key: data.license_key || "",
         license_name: data.license_name || data.project_name || "",
         company_name: data.company_name || "",
+        company_id: data.company_id || null,
         company_location: data.company_location || "",
         company_website: data.company_website || "",
         social_media: {
@@ -119,6 +141,7 @@ export async function getAllLicenses(limitCount: number = 50): Promise<LicenseDa
         license_key: data.license_key || "",
         license_name: data.license_name || data.project_name || "",
         company_name: data.company_name || "",
+        company_id: data.company_id || null,
         company_location: data.company_location || "",
         company_website: data.company_website || "",
         social_media: {
@@ -139,3 +162,107 @@ export async function getAllLicenses(limitCount: number = 50): Promise<LicenseDa
     throw error
   }
 }
+
+function normalizeCompanyName(name: unknown): string {
+  return String(name ?? "").toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+/**
+ * One-time migration: set company_id on licenses created before licenses were linked by id.
+ * A license is matched through the subscription that holds its license key, falling back to a company with the
+ * same name (ignoring case and spacing). Licenses whose name matches several companies are reported as ambiguous
+ * and left alone. With dryRun nothing is written.
+ */
+export async function linkLicensesToCompanies(actor: AuditActor, dryRun = false): Promise<LicenseCompanyLinkResult> {
+  const firestore = getDb()
+
+  const [licenses, subscriptions, companies] = await Promise.all([
+    getDocs(collection(firestore, "licenses")),
+    getDocs(collection(firestore, "subscriptions")),
+    getDocs(collection(firestore, "companies")),
+  ])
+
+  const companyIdsByLicenseKey = new Map<string, string>()
+  subscriptions.forEach((subscription) => {
+    const { licenseKey, companyId } = subscription.data()
+    if (licenseKey && companyId) {
+      companyIdsByLicenseKey.set(licenseKey, companyId)
+    }
+  })
+
+  const companyIds = new Set<string>()
+  const companiesByName = new Map<string, { id: string; name: string }[]>()
+  companies.forEach((company) => {
+    const data = company.data()
+    companyIds.add(company.id)
+    if (data.deleted) return
+    const name = normalizeCompanyName(data.name)
+    if (name) {
+      companiesByName.set(name, [...(companiesByName.get(name) || []), { id: company.id, name: data.name }])
+    }
+  })
+
+  const result: LicenseCompanyLinkResult = {
+    scanned: licenses.size,
+    alreadyLinked: 0,
+    linked: [],
+    ambiguous: [],
+    unmatched: [],
+  }
+
+  licenses.forEach((license) => {
+    const data = license.data()
+    if (data.company_id) {
+      result.alreadyLinked++
+      return
+    }
+
+    const companyName = data.company_name || ""
+    const byKey = data.license_key ? companyIdsByLicenseKey.get(data.license_key) : undefined
+    if (byKey && companyIds.has(byKey)) {
+      result.linked.push({ id: license.id, company_name: companyName, companyId: byKey, matchedBy: "license_key" })
+      return
+    }
+
+    const candidates = companiesByName.get(normalizeCompanyName(companyName)) || []
+    if (candidates.length === 1) {
+      result.linked.push({
+        id: license.id,
+        company_name: companyName,
+        companyId: candidates[0].id,
+        matchedBy: "company_name",
+      })
+    } else if (candidates.length > 1) {
+      result.ambiguous.push({ id: license.id, company_name: companyName, candidates })
+    } else {
+      result.unmatched.push({ id: license.id, company_name: companyName })
+    }
+  })
+
+  if (dryRun) {
+    return result
+  }
+
+  for (let i = 0; i < result.linked.length; i += LINK_BATCH_SIZE) {
+    const chunk = result.linked.slice(i, i + LINK_BATCH_SIZE)
+    const batch = writeBatch(firestore)
+
+    chunk.forEach((link) => {
+      const updateData = { company_id: link.companyId }
+      batch.update(doc(firestore, "licenses", link.id), updateData)
+      addAuditEventToBatch(batch, {
+        collection: "licenses",
+        entityId: link.id,
+        action: "migration",
+        before: { company_id: null },
+        after: updateData,
+        actor,
+        metadata: { operation: "link_license_company", matchedBy: link.matchedBy },
+      })
+    })
+
+    await batch.commit()
+  }
+
+  return result
+}
@@ -0,0 +1,128 @@
+/**
+ * Plan Quotas
+ * Counts a company's products and users against the limits of its current subscription.
+ * Deleted products and deactivated users don't count towards the quota.
+ */
+
+import { collection, getCountFromServer, query, where } from "firebase/firestore"
+import { getDb } from "./firebase"
+import { getSubscriptionsByCompanyId } from "./subscription-service"
+import { UNLIMITED } from "./subscription-plans"
+import type { Subscription } from "@/types/subscription"
+
+export type QuotaResource = "products" | "users"
+
+export type QuotaLevel = "ok" | "warning" | "full" | "exceeded"
+
+export const QUOTA_RESOURCES: QuotaResource[] = ["products", "users"]
+
+// Usage at or above this share of the limit is flagged on the usage panel
+export const QUOTA_WARNING_RATIO = 0.8
+
+export interface QuotaUsage {
+  used: number
+  limit: number | null // null when the company has no subscription, or the plan is unlimited
+  percent: number
+  level: QuotaLevel
+}
+
+export interface CompanyUsage {
+  companyId: string
+  subscriptionId: string | null
+  planType: Subscription["planType"] | null
+  products: QuotaUsage
+  users: QuotaUsage
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    public resource: QuotaResource,
+    public usage: QuotaUsage,
+    public status = 409,
+  ) {
+    super(
+      `This company's plan allows ${usage.limit} ${resource} and ${usage.used} are already in use. ` +
+        "Upgrade the plan or raise the limit to add more.",
+    )
+    this.name = "QuotaExceededError"
+  }
+}
+
+// Where each resource lives, and the flag that takes a document out of the count
+const RESOURCE_SOURCES: Record<QuotaResource, { collection: string; inactiveField: string; inactiveValue: boolean }> = {
+  products: { collection: "products", inactiveField: "deleted", inactiveValue: true },
+  users: { collection: "iboard_users", inactiveField: "active", inactiveValue: false },
+}
+
+async function countResource(companyId: string, resource: QuotaResource): Promise<number> {
+  const source = RESOURCE_SOURCES[resource]
+  const ref = collection(getDb(), source.collection)
+
+  // Count everything for the company, then take out the inactive documents.
+  // Documents without the flag are counted as active.
+  const [total, inactive] = await Promise.all([
+    getCountFromServer(query(ref, where("company_id", "==", companyId))),
+    getCountFromServer(
+      query(ref, where("company_id", "==", companyId), where(source.inactiveField, "==", source.inactiveValue)),
+    ),
+  ])
+
+  return total.data().count - inactive.data().count
+}
+
+export function getQuotaLevel(used: number, limit: number | null): QuotaLevel {
+  if (limit === null) return "ok"
+  if (used > limit) return "exceeded"
+  if (used === limit) return "full"
+  return used >= limit * QUOTA_WARNING_RATIO ? "warning" : "ok"
+}
+
+function buildUsage(used: number, limit: number | null): QuotaUsage {
+  const enforcedLimit = limit === null || limit >= UNLIMITED ? null : limit
+  return {
+    used,
+    limit: enforcedLimit,
+    percent: enforcedLimit ? Math.round((used / enforcedLimit) * 100) : 0,
+    level: getQuotaLevel(used, enforcedLimit),
+  }
+}
+
+// The company's current subscription is its most recently created one, as on the client detail page
+async function getCurrentSubscription(companyId: string): Promise<Subscription | null> {
+  const subscriptions = await getSubscriptionsByCompanyId(companyId)
+  return subscriptions[0] || null
+}
+
+export async function getCompanyUsage(companyId: string): Promise<CompanyUsage> {
+  const [subscription, products, users] = await Promise.all([
+    getCurrentSubscription(companyId),
+    countResource(companyId, "products"),
+    countResource(companyId, "users"),
+  ])
+
+  return {
+    companyId,
+    subscriptionId: subscription?.id || null,
+    planType: subscription?.planType || null,
+    products: buildUsage(products, subscription ? subscription.maxProducts : null),
+    users: buildUsage(users, subscription ? subscription.maxUsers : null),
+  }
+}
+
+// Throw QuotaExceededError if `count` more would go over the limit; for companies whose counts are already known
+export function assertWithinLimit(resource: QuotaResource, used: number, limit: number | null, count = 1): QuotaUsage {
+  const usage = buildUsage(used, limit)
+  if (usage.limit !== null && usage.used + count > usage.limit) {
+    throw new QuotaExceededError(resource, usage)
+  }
+  return usage
+}
+
+/**
+ * Throw QuotaExceededError if adding `count` more of a resource would take the company over its limit.
+ * Returns the usage before the addition.
+ */
+export async function assertQuotaAvailable(companyId: string, resource: QuotaResource, count = 1): Promise<QuotaUsage> {
+  const usage = (await getCompanyUsage(companyId))[resource]
+  return assertWithinLimit(resource, usage.used, usage.limit, count)
+}
@@ -0,0 +1,190 @@
+/**
+ * Quotation to Booking Conversion
+ * Turns an approved quotation request into a booking. The booking is priced from the accepted quote when there is
+ * one, otherwise from the product's monthly rate over the requested period. The booking and the request point at
+ * each other (quotation_id / booking_id), and a request that already has a booking cannot be converted again.
+ * Other bookings of the same site over the same period are recorded on the new booking as conflicts.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type DocumentData,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToTransaction } from "./audit-log"
+import { buildRentalLineItem } from "./quote-pricing"
+import { buildRecordSearchFields } from "./booking-search"
+import { findOccupancyConflicts } from "./site-availability"
+import { toDate, roundToCents } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type { OccupancyRef } from "@/types/booking"
+
+const COLLECTION_NAME = "booking"
+const REQUESTS_COLLECTION = "quotation_request"
+
+// Customer accounts are in users (client app) or iboard_users, like the booking pages look them up
+const CUSTOMER_COLLECTIONS = ["users", "iboard_users"]
+
+export class QuotationBookingError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "QuotationBookingError"
+  }
+}
+
+export interface QuotationBookingResult {
+  bookingId: string
+  userId: string // Empty when no account matches the requester
+  conflicts: OccupancyRef[] // Overlapping bookings or approved requests for the same site
+}
+
+// The requester's account: the request's own user_id, else the first account with the request's email
+async function findRequesterId(request: DocumentData): Promise<string> {
+  if (request.user_id) {
+    return request.user_id
+  }
+  const email = typeof request.email_address === "string" ? request.email_address.trim().toLowerCase() : ""
+  if (!email) {
+    return ""
+  }
+
+  for (const collectionName of CUSTOMER_COLLECTIONS) {
+    const snapshot = await getDocs(
+      query(collection(getDb(), collectionName), where("email", "==", email), limit(1)),
+    )
+    if (!snapshot.empty) {
+      return snapshot.docs[0].id
+    }
+  }
+  return ""
+}
+
+async function findRequestConflicts(quotationId: string, request: DocumentData): Promise<OccupancyRef[]> {
+  const start = toDate(request.start_date)
+  const end = toDate(request.end_date)
+  if (!request.product_id || !start || !end) {
+    return []
+  }
+
+  const conflicts = await findOccupancyConflicts(request.product_id, { start, end }, [
+    { source: "quotation", id: quotationId },
+  ])
+  return conflicts.map(({ source, id }) => ({ source, id }))
+}
+
+// Booking cost, quantity and total. An accepted quote is booked as a single unit at its total.
+function priceBooking(request: DocumentData, product: DocumentData, quote: DocumentData | null) {
+  if (quote) {
+    return { cost: quote.total || 0, quantity: 1, total_cost: quote.total || 0 }
+  }
+
+  const monthlyRate = typeof product.price === "number" ? product.price : 0
+  const start = toDate(request.start_date)
+  const end = toDate(request.end_date)
+  if (!start || !end || end < start) {
+    return { cost: monthlyRate, quantity: 1, total_cost: monthlyRate }
+  }
+
+  const { quantity, unitPrice } = buildRentalLineItem(product.name || "", monthlyRate, start, end)
+  return { cost: unitPrice, quantity, total_cost: roundToCents(unitPrice * quantity) }
+}
+
+export async function convertQuotationToBooking(
+  quotationId: string,
+  actor: AuditActor,
+): Promise<QuotationBookingResult> {
+  const firestore = getDb()
+  const requestRef = doc(firestore, REQUESTS_COLLECTION, quotationId)
+  const bookingRef = doc(collection(firestore, COLLECTION_NAME))
+
+  // Looked up first, since transactions can't run queries
+  const requestSnapshot = await getDoc(requestRef)
+  if (!requestSnapshot.exists()) {
+    throw new QuotationBookingError("Quotation request not found", 404)
+  }
+  const userId = await findRequesterId(requestSnapshot.data())
+  const conflicts = await findRequestConflicts(quotationId, requestSnapshot.data())
+
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(requestRef)
+    if (!snapshot.exists()) {
+      throw new QuotationBookingError("Quotation request not found", 404)
+    }
+
+    const request = snapshot.data()
+    if (request.booking_id) {
+      throw new QuotationBookingError("This request has already been converted into a booking")
+    }
+    if (request.status !== "APPROVED") {
+      throw new QuotationBookingError("Only approved requests can be converted into bookings")
+    }
+    if (!request.product_id) {
+      throw new QuotationBookingError("The request has no product to book", 400)
+    }
+
+    const productSnapshot = await transaction.get(doc(firestore, "products", request.product_id))
+    const quoteSnapshot = request.accepted_quote_id
+      ? await transaction.get(doc(firestore, "quotes", request.accepted_quote_id))
+      : null
+    if (!productSnapshot.exists()) {
+      throw new QuotationBookingError("The requested product no longer exists", 400)
+    }
+
+    const product = productSnapshot.data()
+    const quote = quoteSnapshot?.exists() ? quoteSnapshot.data() : null
+    const bookingData = {
+      company_id: request.company_id || "",
+      product_id: request.product_id,
+      product_owner: product.seller_name || "",
+      seller_id: product.seller_id || "",
+      user_id: userId,
+      username: request.name || "",
+      type: typeof product.type === "string" && product.type ? product.type.toUpperCase() : "RENTAL",
+      ...priceBooking(request, product, quote),
+      status: "PENDING",
+      payment_method: "",
+      media_order: "",
+      cancel_reason: "",
+      rated: false,
+      start_date: toDate(request.start_date),
+      end_date: toDate(request.end_date),
+      quotation_id: quotationId,
+      quote_id: quote ? request.accepted_quote_id : null,
+      conflicts,
+      created: serverTimestamp(),
+    }
+
+    transaction.set(bookingRef, { ...bookingData, ...buildRecordSearchFields("bookings", bookingData) })
+    transaction.update(requestRef, { booking_id: bookingRef.id })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: bookingRef.id,
+      action: "create",
+      after: bookingData,
+      actor,
+      metadata: { operation: "convert_quotation", quotationId },
+    })
+    addAuditEventToTransaction(transaction, {
+      collection: REQUESTS_COLLECTION,
+      entityId: quotationId,
+      action: "update",
+      before: { booking_id: null },
+      after: { booking_id: bookingRef.id },
+      actor,
+      metadata: { operation: "convert_to_booking" },
+    })
+  })
+
+  return { bookingId: bookingRef.id, userId, conflicts }
+}
@@ -0,0 +1,289 @@
+/**
+ * Quotation Workflow
+ * Status changes, assignment and internal notes for quotation_request documents. Only the transitions in
+ * QUOTATION_TRANSITIONS are allowed; each one updates the request, appends an entry to
+ * quotation_request/{id}/status_history and writes an audit entry in a single transaction.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToBatch, addAuditEventToTransaction } from "./audit-log"
+import { hasPermission, isAdminProfile, resolveAccessLevel } from "./permissions"
+import { toDate } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type {
+  QuotationAssignee,
+  QuotationNote,
+  QuotationRequest,
+  QuotationStatus,
+  QuotationStatusChange,
+} from "@/types/quotation"
+
+const COLLECTION_NAME = "quotation_request"
+const HISTORY_SUBCOLLECTION = "status_history"
+const NOTES_SUBCOLLECTION = "notes"
+
+export const MAX_REJECTION_REASON_LENGTH = 500
+export const MAX_NOTE_LENGTH = 2000
+
+// Allowed next statuses; APPROVED is final, a REJECTED request can be reopened
+export const QUOTATION_TRANSITIONS: Record<QuotationStatus, QuotationStatus[]> = {
+  PENDING: ["PROCESSING", "REJECTED"],
+  PROCESSING: ["APPROVED", "REJECTED", "PENDING"],
+  APPROVED: [],
+  REJECTED: ["PENDING"],
+}
+
+export class QuotationWorkflowError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "QuotationWorkflowError"
+  }
+}
+
+export interface QuotationTransitionInput {
+  to: QuotationStatus
+  reason?: string | null
+}
+
+export interface QuotationActivity {
+  history: QuotationStatusChange[] // Newest first
+  notes: QuotationNote[] // Newest first
+}
+
+export function isQuotationStatus(value: unknown): value is QuotationStatus {
+  return typeof value === "string" && value in QUOTATION_TRANSITIONS
+}
+
+export function canTransitionQuotation(from: QuotationStatus, to: QuotationStatus): boolean {
+  return QUOTATION_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+function toAssignee(uid: string, data: Record<string, any>): QuotationAssignee {
+  const name = [data.first_name, data.last_name].filter(Boolean).join(" ") || data.display_name || data.email || uid
+  return { uid, email: data.email || "", name }
+}
+
+export async function getQuotationRequest(quotationId: string): Promise<QuotationRequest> {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, quotationId))
+  if (!snapshot.exists()) {
+    throw new QuotationWorkflowError("Quotation request not found", 404)
+  }
+  return { id: snapshot.id, ...snapshot.data() } as QuotationRequest
+}
+
+export async function transitionQuotation(
+  quotationId: string,
+  input: QuotationTransitionInput,
+  actor: AuditActor,
+): Promise<QuotationRequest> {
+  if (!isQuotationStatus(input.to)) {
+    throw new QuotationWorkflowError("Please select a valid status", 400)
+  }
+
+  const reason = input.reason?.trim() || null
+  if (input.to === "REJECTED" && !reason) {
+    throw new QuotationWorkflowError("Please give a reason for rejecting the request", 400)
+  }
+  if (reason && reason.length > MAX_REJECTION_REASON_LENGTH) {
+    throw new QuotationWorkflowError(`The reason must be at most ${MAX_REJECTION_REASON_LENGTH} characters`, 400)
+  }
+
+  const firestore = getDb()
+  const quotationRef = doc(firestore, COLLECTION_NAME, quotationId)
+
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(quotationRef)
+    if (!snapshot.exists()) {
+      throw new QuotationWorkflowError("Quotation request not found", 404)
+    }
+
+    const data = snapshot.data()
+    const from: QuotationStatus = isQuotationStatus(data.status) ? data.status : "PENDING"
+    if (from === input.to) {
+      throw new QuotationWorkflowError(`The request is already ${from.toLowerCase()}`, 400)
+    }
+    if (!canTransitionQuotation(from, input.to)) {
+      throw new QuotationWorkflowError(`A ${from.toLowerCase()} request cannot be moved to ${input.to.toLowerCase()}`)
+    }
+
+    const update = {
+      status: input.to,
+      rejection_reason: input.to === "REJECTED" ? reason : null,
+      status_updated_at: serverTimestamp(),
+    }
+    const historyRef = doc(collection(firestore, COLLECTION_NAME, quotationId, HISTORY_SUBCOLLECTION))
+
+    transaction.update(quotationRef, update)
+    transaction.set(historyRef, {
+      from,
+      to: input.to,
+      reason,
+      actor_uid: actor.uid,
+      actor_email: actor.email,
+      created_at: serverTimestamp(),
+    })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: quotationId,
+      action: "update",
+      before: { status: from, rejection_reason: data.rejection_reason ?? null },
+      after: { status: input.to, rejection_reason: update.rejection_reason },
+      actor,
+      metadata: { operation: "status_change", historyId: historyRef.id },
+    })
+  })
+
+  return getQuotationRequest(quotationId)
+}
+
+// Assign the request to a dashboard user who can manage quotations, or clear the assignment with null
+export async function assignQuotation(
+  quotationId: string,
+  assigneeUid: string | null,
+  actor: AuditActor,
+): Promise<QuotationRequest> {
+  const firestore = getDb()
+  const quotationRef = doc(firestore, COLLECTION_NAME, quotationId)
+  const assigneeRef = assigneeUid ? doc(firestore, "iboard_users", assigneeUid) : null
+
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(quotationRef)
+    if (!snapshot.exists()) {
+      throw new QuotationWorkflowError("Quotation request not found", 404)
+    }
+
+    let assignee: QuotationAssignee | null = null
+    if (assigneeRef) {
+      const assigneeSnapshot = await transaction.get(assigneeRef)
+      const profile = assigneeSnapshot.data()
+      if (
+        !assigneeSnapshot.exists() ||
+        !isAdminProfile(profile) ||
+        !hasPermission(resolveAccessLevel(profile?.role), "quotations:manage")
+      ) {
+        throw new QuotationWorkflowError("The selected user cannot handle quotation requests", 400)
+      }
+      assignee = toAssignee(assigneeSnapshot.id, profile!)
+    }
+
+    const before = snapshot.data().assigned_to ?? null
+    if ((before?.uid ?? null) === (assignee?.uid ?? null)) {
+      return
+    }
+
+    transaction.update(quotationRef, { assigned_to: assignee })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: quotationId,
+      action: "update",
+      before: { assigned_to: before },
+      after: { assigned_to: assignee },
+      actor,
+      metadata: { operation: "assign" },
+    })
+  })
+
+  return getQuotationRequest(quotationId)
+}
+
+export async function addQuotationNote(quotationId: string, body: string, actor: AuditActor): Promise<QuotationNote> {
+  const text = body.trim()
+  if (!text) {
+    throw new QuotationWorkflowError("Please enter a note", 400)
+  }
+  if (text.length > MAX_NOTE_LENGTH) {
+    throw new QuotationWorkflowError(`Notes must be at most ${MAX_NOTE_LENGTH} characters`, 400)
+  }
+
+  const firestore = getDb()
+  await getQuotationRequest(quotationId)
+
+  const noteRef = doc(collection(firestore, COLLECTION_NAME, quotationId, NOTES_SUBCOLLECTION))
+  const batch = writeBatch(firestore)
+  batch.set(noteRef, {
+    body: text,
+    author_uid: actor.uid,
+    author_email: actor.email,
+    created_at: serverTimestamp(),
+  })
+  addAuditEventToBatch(batch, {
+    collection: COLLECTION_NAME,
+    entityId: quotationId,
+    action: "update",
+    before: null,
+    after: { note: text },
+    actor,
+    metadata: { operation: "add_note", noteId: noteRef.id },
+  })
+  await batch.commit()
+
+  return {
+    id: noteRef.id,
+    body: text,
+    author_uid: actor.uid,
+    author_email: actor.email || "",
+    created_at: new Date(),
+  }
+}
+
+export async function getQuotationActivity(quotationId: string): Promise<QuotationActivity> {
+  const firestore = getDb()
+  const [historySnapshot, notesSnapshot] = await Promise.all([
+    getDocs(
+      query(collection(firestore, COLLECTION_NAME, quotationId, HISTORY_SUBCOLLECTION), orderBy("created_at", "desc")),
+    ),
+    getDocs(
+      query(collection(firestore, COLLECTION_NAME, quotationId, NOTES_SUBCOLLECTION), orderBy("created_at", "desc")),
+    ),
+  ])
+
+  return {
+    history: historySnapshot.docs.map((entry) => {
+      const data = entry.data()
+      return {
+        id: entry.id,
+        from: data.from,
+        to: data.to,
+        reason: data.reason || null,
+        actor_uid: data.actor_uid,
+        actor_email: data.actor_email || "",
+        created_at: toDate(data.created_at) || new Date(),
+      }
+    }),
+    notes: notesSnapshot.docs.map((entry) => {
+      const data = entry.data()
+      return {
+        id: entry.id,
+        body: data.body || "",
+        author_uid: data.author_uid,
+        author_email: data.author_email || "",
+        created_at: toDate(data.created_at) || new Date(),
+      }
+    }),
+  }
+}
+
+// Dashboard users a request can be assigned to; older admin profiles without a type are not listed
+export async function getQuotationAssignees(): Promise<QuotationAssignee[]> {
+  const snapshot = await getDocs(query(collection(getDb(), "iboard_users"), where("type", "==", "OHADMIN")))
+
+  return snapshot.docs
+    .filter((profile) => hasPermission(resolveAccessLevel(profile.data().role), "quotations:manage"))
+    .map((profile) => toAssignee(profile.id, profile.data()))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
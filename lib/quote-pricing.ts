@@ -0,0 +1,82 @@
+/**
+ * Quote Pricing
+ * Rental cost and totals for quotes, shared by the quote builder and the API. Product prices are monthly rates and
+ * the rental period is billed pro rata at 30 days a month. Like invoices, prices include 12% VAT, so the VAT is
+ * broken out of the discounted total.
+ */
+
+import { differenceInCalendarDays } from "date-fns"
+import { VAT_RATE, calculateInvoiceAmounts } from "./invoice-service"
+import { roundToCents } from "./utils"
+import type { QuoteDiscount, QuoteInput, QuoteLineItem } from "@/types/quote"
+
+// Days a quote can be accepted after it is issued, unless the builder sets another date
+export const QUOTE_VALIDITY_DAYS = 30
+
+export const RENTAL_DAYS_PER_MONTH = 30
+
+export const MAX_QUOTE_LINE_ITEMS = 20
+
+export interface QuoteTotals {
+  lineItems: QuoteLineItem[]
+  grossAmount: number
+  discountAmount: number
+  subtotal: number
+  vatRate: number
+  vatAmount: number
+  total: number
+}
+
+// Days in the rental period, counting both the first and the last day
+export function countRentalDays(start: Date, end: Date): number {
+  return Math.max(0, differenceInCalendarDays(end, start) + 1)
+}
+
+// Cost of renting at a monthly rate for a number of days; only the resulting amount is rounded
+function calculateRentalAmount(monthlyRate: number, days: number): number {
+  return roundToCents((monthlyRate * days) / RENTAL_DAYS_PER_MONTH)
+}
+
+// Line item for renting the product over the requested period, as a single unit priced for the whole period
+export function buildRentalLineItem(
+  productName: string,
+  monthlyRate: number,
+  start: Date,
+  end: Date,
+): QuoteInput["lineItems"][number] {
+  const days = countRentalDays(start, end)
+  return {
+    description: `${productName} rental (${days} ${days === 1 ? "day" : "days"})`,
+    quantity: 1,
+    unitPrice: calculateRentalAmount(monthlyRate, days),
+  }
+}
+
+export function calculateDiscountAmount(grossAmount: number, discount: QuoteDiscount | null): number {
+  if (!discount || discount.value <= 0) {
+    return 0
+  }
+  const amount = discount.type === "percent" ? (grossAmount * Math.min(discount.value, 100)) / 100 : discount.value
+  return roundToCents(Math.min(amount, grossAmount))
+}
+
+export function calculateQuoteTotals(
+  lineItems: QuoteInput["lineItems"],
+  discount: QuoteDiscount | null,
+): QuoteTotals {
+  const items = lineItems.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: roundToCents(item.unitPrice),
+    amount: roundToCents(item.quantity * item.unitPrice),
+  }))
+  const grossAmount = roundToCents(items.reduce((sum, item) => sum + item.amount, 0))
+  const discountAmount = calculateDiscountAmount(grossAmount, discount)
+  const { subtotal, vatAmount, total } = calculateInvoiceAmounts(grossAmount - discountAmount)
+
+  return { lineItems: items, grossAmount, discountAmount, subtotal, vatRate: VAT_RATE, vatAmount, total }
+}
+
+export function formatQuoteNumber(year: number, sequence: number): string {
+  return `QUO-${year}-${String(sequence).padStart(6, "0")}`
+}
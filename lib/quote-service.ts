@@ -0,0 +1,354 @@
+/**
+ * Quotes
+ * Priced responses to quotation requests. Each quote is numbered sequentially per calendar year, stored in the
+ * quotes collection against its request, and stays open until its validity date. Recording the client's
+ * acceptance marks the request's accepted quote, after which no further quotes can be issued for it.
+ */
+
+import { addDays, endOfDay, startOfDay } from "date-fns"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type DocumentData,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToTransaction } from "./audit-log"
+import { getIssuer } from "./invoice-service"
+import {
+  MAX_QUOTE_LINE_ITEMS,
+  QUOTE_VALIDITY_DAYS,
+  buildRentalLineItem,
+  calculateQuoteTotals,
+  formatQuoteNumber,
+} from "./quote-pricing"
+import { toDate } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type { InvoiceParty } from "@/types/invoice"
+import type { Quote, QuoteDiscount, QuoteInput, QuoteStatus } from "@/types/quote"
+
+const COLLECTION_NAME = "quotes"
+const COUNTERS_COLLECTION = "quote_counters"
+const REQUESTS_COLLECTION = "quotation_request"
+
+const MAX_DESCRIPTION_LENGTH = 200
+const MAX_NOTES_LENGTH = 2000
+
+export class QuoteError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "QuoteError"
+  }
+}
+
+// Starting point for the quote builder, priced from the requested product and period
+export interface QuoteDefaults {
+  quotationRequestId: string
+  productId: string
+  productName: string
+  monthlyRate: number | null // Null when the product or its price is missing
+  periodStart: Date | null
+  periodEnd: Date | null
+  breakDate: Date | null
+  input: QuoteInput
+  billTo: InvoiceParty
+}
+
+export function getQuoteStatus(data: DocumentData, now = new Date()): QuoteStatus {
+  if (data.status === "accepted" || data.status === "declined") {
+    return data.status
+  }
+  const validUntil = toDate(data.validUntil)
+  return validUntil && validUntil < now ? "expired" : "issued"
+}
+
+// Requester details of a quotation request document
+function buildRequestBillTo(request: DocumentData): InvoiceParty {
+  return {
+    name: request.company || request.name || "",
+    address: request.company_address || "",
+    email: request.email_address || "",
+    tin: "",
+  }
+}
+
+function toQuote(id: string, data: DocumentData, now = new Date()): Quote {
+  return {
+    id,
+    quoteNumber: data.quoteNumber,
+    quotationRequestId: data.quotationRequestId,
+    companyId: data.companyId || "",
+    productId: data.productId || "",
+    productName: data.productName || "",
+    periodStart: toDate(data.periodStart),
+    periodEnd: toDate(data.periodEnd),
+    breakDate: toDate(data.breakDate),
+    lineItems: data.lineItems || [],
+    discount: data.discount || null,
+    currency: "PHP",
+    grossAmount: data.grossAmount || 0,
+    discountAmount: data.discountAmount || 0,
+    subtotal: data.subtotal || 0,
+    vatRate: data.vatRate ?? 0,
+    vatAmount: data.vatAmount || 0,
+    total: data.total || 0,
+    notes: data.notes || "",
+    issueDate: toDate(data.issueDate)!,
+    validUntil: toDate(data.validUntil)!,
+    status: getQuoteStatus(data, now),
+    respondedAt: toDate(data.respondedAt),
+    responseNote: data.responseNote || "",
+    issuer: data.issuer,
+    billTo: data.billTo,
+    created_by: data.created_by || "",
+    created_at: toDate(data.created_at) || new Date(),
+  }
+}
+
+function parseDiscount(discount: unknown): QuoteDiscount | null {
+  if (!discount || typeof discount !== "object") {
+    return null
+  }
+  const { type, value, label } = discount as Record<string, unknown>
+  if (type !== "percent" && type !== "amount") {
+    throw new QuoteError("Please select a discount type", 400)
+  }
+  const amount = Number(value)
+  if (!Number.isFinite(amount) || amount < 0 || (type === "percent" && amount > 100)) {
+    throw new QuoteError(
+      type === "percent" ? "Discounts must be between 0 and 100%" : "Please enter a valid discount",
+      400,
+    )
+  }
+  return amount > 0 ? { type, value: amount, label: typeof label === "string" ? label.trim().slice(0, 100) : "" } : null
+}
+
+// Check and normalize the builder's input, as received from the API
+export function parseQuoteInput(body: Record<string, any>): QuoteInput {
+  const lineItems = Array.isArray(body.lineItems) ? body.lineItems : []
+  if (lineItems.length === 0) {
+    throw new QuoteError("Please add at least one line item", 400)
+  }
+  if (lineItems.length > MAX_QUOTE_LINE_ITEMS) {
+    throw new QuoteError(`A quote can have at most ${MAX_QUOTE_LINE_ITEMS} line items`, 400)
+  }
+
+  const items = lineItems.map((item: any, index: number) => {
+    const description = typeof item?.description === "string" ? item.description.trim() : ""
+    const quantity = Number(item?.quantity)
+    const unitPrice = Number(item?.unitPrice)
+    if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new QuoteError(`Line ${index + 1}: enter a description of up to ${MAX_DESCRIPTION_LENGTH} characters`, 400)
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new QuoteError(`Line ${index + 1}: the quantity must be greater than zero`, 400)
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw new QuoteError(`Line ${index + 1}: the unit price cannot be negative`, 400)
+    }
+    return { description, quantity, unitPrice }
+  })
+
+  const validUntil = toDate(body.validUntil)
+  if (!validUntil || endOfDay(validUntil) < new Date()) {
+    throw new QuoteError("The validity date must be today or later", 400)
+  }
+
+  const notes = typeof body.notes === "string" ? body.notes.trim() : ""
+  if (notes.length > MAX_NOTES_LENGTH) {
+    throw new QuoteError(`Notes must be at most ${MAX_NOTES_LENGTH} characters`, 400)
+  }
+
+  return { lineItems: items, discount: parseDiscount(body.discount), validUntil: endOfDay(validUntil), notes }
+}
+
+export async function getQuoteDefaults(quotationRequestId: string): Promise<QuoteDefaults> {
+  const firestore = getDb()
+  const requestSnapshot = await getDoc(doc(firestore, REQUESTS_COLLECTION, quotationRequestId))
+  if (!requestSnapshot.exists()) {
+    throw new QuoteError("Quotation request not found", 404)
+  }
+
+  const request = requestSnapshot.data()
+  const productSnapshot = request.product_id ? await getDoc(doc(firestore, "products", request.product_id)) : null
+  const product = productSnapshot?.exists() ? productSnapshot.data() : null
+  const productName = product?.name || request.product_id || "Product"
+  const monthlyRate = typeof product?.price === "number" ? product.price : null
+
+  const periodStart = toDate(request.start_date)
+  const periodEnd = toDate(request.end_date)
+  const lineItems =
+    monthlyRate !== null && periodStart && periodEnd && periodEnd >= periodStart
+      ? [buildRentalLineItem(productName, monthlyRate, periodStart, periodEnd)]
+      : [{ description: `${productName} rental`, quantity: 1, unitPrice: monthlyRate || 0 }]
+
+  return {
+    quotationRequestId,
+    productId: request.product_id || "",
+    productName,
+    monthlyRate,
+    periodStart,
+    periodEnd,
+    breakDate: toDate(request.break_date),
+    input: {
+      lineItems,
+      discount: null,
+      validUntil: endOfDay(addDays(startOfDay(new Date()), QUOTE_VALIDITY_DAYS)),
+      notes: "",
+    },
+    billTo: buildRequestBillTo(request),
+  }
+}
+
+export async function createQuote(quotationRequestId: string, input: QuoteInput, actor: AuditActor): Promise<Quote> {
+  const totals = calculateQuoteTotals(input.lineItems, input.discount)
+  if (totals.total <= 0) {
+    throw new QuoteError("The quote total must be greater than zero", 400)
+  }
+
+  const firestore = getDb()
+  const requestRef = doc(firestore, REQUESTS_COLLECTION, quotationRequestId)
+  const issueDate = new Date()
+  const year = issueDate.getFullYear()
+  const counterRef = doc(firestore, COUNTERS_COLLECTION, String(year))
+  const quoteRef = doc(collection(firestore, COLLECTION_NAME))
+
+  await runTransaction(firestore, async (transaction) => {
+    const requestSnapshot = await transaction.get(requestRef)
+    const counter = await transaction.get(counterRef)
+    if (!requestSnapshot.exists()) {
+      throw new QuoteError("Quotation request not found", 404)
+    }
+
+    const request = requestSnapshot.data()
+    if (request.status === "REJECTED") {
+      throw new QuoteError("Reopen the request before quoting it")
+    }
+    if (request.accepted_quote_id) {
+      throw new QuoteError("The client has already accepted a quote for this request")
+    }
+
+    const productSnapshot = request.product_id
+      ? await transaction.get(doc(firestore, "products", request.product_id))
+      : null
+    const sequence = (counter.data()?.lastNumber || 0) + 1
+    const quoteData = {
+      quoteNumber: formatQuoteNumber(year, sequence),
+      quotationRequestId,
+      companyId: request.company_id || "",
+      productId: request.product_id || "",
+      productName: productSnapshot?.data()?.name || request.product_id || "",
+      periodStart: toDate(request.start_date),
+      periodEnd: toDate(request.end_date),
+      breakDate: toDate(request.break_date),
+      ...totals,
+      discount: input.discount,
+      currency: "PHP",
+      notes: input.notes,
+      issueDate,
+      validUntil: input.validUntil,
+      status: "issued",
+      respondedAt: null,
+      responseNote: "",
+      issuer: getIssuer(),
+      billTo: buildRequestBillTo(request),
+      created_by: actor.uid,
+      created_at: serverTimestamp(),
+    }
+
+    transaction.set(counterRef, { lastNumber: sequence, updated_at: serverTimestamp() })
+    transaction.set(quoteRef, quoteData)
+    transaction.update(requestRef, { latest_quote_id: quoteRef.id })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: quoteRef.id,
+      action: "create",
+      after: quoteData,
+      actor,
+      metadata: { quotationRequestId },
+    })
+  })
+
+  return (await getQuoteById(quoteRef.id))!
+}
+
+// Record the client's answer to an issued quote
+export async function respondToQuote(
+  quoteId: string,
+  response: { accepted: boolean; note?: string },
+  actor: AuditActor,
+): Promise<Quote> {
+  const firestore = getDb()
+  const quoteRef = doc(firestore, COLLECTION_NAME, quoteId)
+  const note = response.note?.trim() || ""
+  if (note.length > MAX_NOTES_LENGTH) {
+    throw new QuoteError(`Notes must be at most ${MAX_NOTES_LENGTH} characters`, 400)
+  }
+
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(quoteRef)
+    if (!snapshot.exists()) {
+      throw new QuoteError("Quote not found", 404)
+    }
+
+    const data = snapshot.data()
+    const requestRef = doc(firestore, REQUESTS_COLLECTION, data.quotationRequestId)
+    const request = await transaction.get(requestRef)
+
+    const status = getQuoteStatus(data)
+    if (status === "accepted" || status === "declined") {
+      throw new QuoteError(`This quote has already been ${status}`)
+    }
+    if (status === "expired" && response.accepted) {
+      throw new QuoteError("This quote has expired. Issue a new quote instead.")
+    }
+    if (response.accepted && request.data()?.accepted_quote_id) {
+      throw new QuoteError("The client has already accepted another quote for this request")
+    }
+
+    const update = {
+      status: response.accepted ? "accepted" : "declined",
+      respondedAt: new Date(),
+      responseNote: note,
+    }
+    transaction.update(quoteRef, { ...update, updated_at: serverTimestamp() })
+    if (response.accepted && request.exists()) {
+      transaction.update(requestRef, { accepted_quote_id: quoteId })
+    }
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: quoteId,
+      action: "update",
+      before: { status: data.status },
+      after: update,
+      actor,
+      metadata: { quotationRequestId: data.quotationRequestId, operation: response.accepted ? "accept" : "decline" },
+    })
+  })
+
+  return (await getQuoteById(quoteId))!
+}
+
+export async function getQuotesForRequest(quotationRequestId: string): Promise<Quote[]> {
+  const snapshot = await getDocs(
+    query(collection(getDb(), COLLECTION_NAME), where("quotationRequestId", "==", quotationRequestId)),
+  )
+  const now = new Date()
+
+  return snapshot.docs
+    .map((quote) => toQuote(quote.id, quote.data(), now))
+    .sort((a, b) => b.issueDate.getTime() - a.issueDate.getTime() || b.quoteNumber.localeCompare(a.quoteNumber))
+}
+
+export async function getQuoteById(quoteId: string): Promise<Quote | null> {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, quoteId))
+  return snapshot.exists() ? toQuote(snapshot.id, snapshot.data()) : null
+}
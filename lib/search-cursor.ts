@@ -0,0 +1,50 @@
+/**
+ * Search Cursor
+ * Opaque page cursors for the listings ordered by a created timestamp, newest first, then by document id
+ * (company-search and booking-search). A cursor holds the last document's position, so the next page starts after
+ * it with no extra read.
+ */
+
+import {
+  Timestamp,
+  startAfter,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore"
+
+interface CursorPosition {
+  s: number // Timestamp seconds and nanoseconds, kept apart so the position is exact
+  ns: number
+  id: string
+}
+
+// Encode the position of the last document on a page; `dateField` is the timestamp the listing is ordered by
+export function encodeCursor(snapshot: QueryDocumentSnapshot<DocumentData>, dateField: string): string {
+  const date = snapshot.data()[dateField]
+  const position: CursorPosition =
+    date instanceof Timestamp
+      ? { s: date.seconds, ns: date.nanoseconds, id: snapshot.id }
+      : { s: 0, ns: 0, id: snapshot.id }
+  return Buffer.from(JSON.stringify(position)).toString("base64url")
+}
+
+// The constraint that starts a page after the cursor's position, or null when the cursor is malformed
+export function startAfterCursor(cursor: string): QueryConstraint | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if (
+      Number.isInteger(position?.s) &&
+      Number.isInteger(position?.ns) &&
+      position.ns >= 0 &&
+      position.ns < 1e9 &&
+      typeof position?.id === "string" &&
+      position.id
+    ) {
+      return startAfter(new Timestamp(position.s, position.ns), position.id)
+    }
+  } catch {
+    // Malformed base64 or JSON
+  }
+  return null
+}
@@ -0,0 +1,142 @@
+/**
+ * Site Availability
+ * Occupancy of rental products (OOH sites) over time. A site is occupied by any booking that isn't cancelled and by
+ * approved quotation requests that haven't been converted into a booking yet (the booking takes over once they
+ * are). Date ranges are inclusive. Overlaps are only flagged, never blocked, since sites can be shared on purpose.
+ */
+
+import { collection, getDocs, query, where, type DocumentData } from "firebase/firestore"
+import { getDb } from "./firebase"
+import { toDate } from "./utils"
+import type { OccupancyEntry, OccupancyRef, SiteAvailability } from "@/types/booking"
+
+const BOOKINGS_COLLECTION = "booking"
+const REQUESTS_COLLECTION = "quotation_request"
+const PRODUCTS_COLLECTION = "products"
+
+const RENTAL_TYPE = "RENTAL"
+
+// Longest range the availability search may cover
+export const MAX_OCCUPANCY_RANGE_DAYS = 366
+
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+export function rangesOverlap(a: DateRange, b: DateRange): boolean {
+  return a.start <= b.end && b.start <= a.end
+}
+
+// Undated bookings and requests can't be placed on the calendar and are left out
+function bookingToEntry(id: string, data: DocumentData): OccupancyEntry | null {
+  const start = toDate(data.start_date)
+  const end = toDate(data.end_date)
+  if (data.status === "CANCELLED" || !data.product_id || !start || !end) {
+    return null
+  }
+  return {
+    source: "booking",
+    id,
+    product_id: data.product_id,
+    status: data.status || "PENDING",
+    customer: data.username || "",
+    start_date: start,
+    end_date: end,
+  }
+}
+
+function requestToEntry(id: string, data: DocumentData): OccupancyEntry | null {
+  const start = toDate(data.start_date)
+  const end = toDate(data.end_date)
+  if (data.status !== "APPROVED" || data.booking_id || !data.product_id || !start || !end) {
+    return null
+  }
+  return {
+    source: "quotation",
+    id,
+    product_id: data.product_id,
+    status: data.status,
+    customer: data.name || data.company || "",
+    start_date: start,
+    end_date: end,
+  }
+}
+
+function byStartDate(a: OccupancyEntry, b: OccupancyEntry) {
+  return a.start_date.getTime() - b.start_date.getTime()
+}
+
+// Bookings and approved requests for a product, oldest first, optionally limited to those overlapping a range
+export async function getProductOccupancy(productId: string, range?: DateRange): Promise<OccupancyEntry[]> {
+  const firestore = getDb()
+  const [bookingsSnapshot, requestsSnapshot] = await Promise.all([
+    getDocs(query(collection(firestore, BOOKINGS_COLLECTION), where("product_id", "==", productId))),
+    getDocs(query(collection(firestore, REQUESTS_COLLECTION), where("product_id", "==", productId))),
+  ])
+
+  const entries = [
+    ...bookingsSnapshot.docs.map((entry) => bookingToEntry(entry.id, entry.data())),
+    ...requestsSnapshot.docs.map((entry) => requestToEntry(entry.id, entry.data())),
+  ].filter((entry): entry is OccupancyEntry => !!entry)
+
+  return entries
+    .filter((entry) => !range || rangesOverlap(range, { start: entry.start_date, end: entry.end_date }))
+    .sort(byStartDate)
+}
+
+// Entries for the product that overlap the range, leaving out the booking or request being checked
+export async function findOccupancyConflicts(
+  productId: string,
+  range: DateRange,
+  exclude: OccupancyRef[] = [],
+): Promise<OccupancyEntry[]> {
+  const entries = await getProductOccupancy(productId, range)
+  return entries.filter(
+    (entry) => !exclude.some((excluded) => excluded.source === entry.source && excluded.id === entry.id),
+  )
+}
+
+// Every active rental site and what occupies it within the range; free sites come first
+export async function searchSiteAvailability(range: DateRange): Promise<SiteAvailability[]> {
+  const firestore = getDb()
+  const bookings = collection(firestore, BOOKINGS_COLLECTION)
+  const [productsSnapshot, bookingsSnapshot, stringDatedBookingsSnapshot, requestsSnapshot] = await Promise.all([
+    getDocs(query(collection(firestore, PRODUCTS_COLLECTION), where("type", "==", RENTAL_TYPE))),
+    // Bookings ending before the range can't overlap it; start dates are checked below
+    getDocs(query(bookings, where("end_date", ">=", range.start))),
+    // Range filters only match values of the same type, so bookings that store end_date as a string are fetched
+    // separately (every string sorts at or after "") and checked once parsed
+    getDocs(query(bookings, where("end_date", ">=", ""))),
+    getDocs(query(collection(firestore, REQUESTS_COLLECTION), where("status", "==", "APPROVED"))),
+  ])
+
+  const occupancyByProduct = new Map<string, OccupancyEntry[]>()
+  const entries = [
+    ...bookingsSnapshot.docs.map((entry) => bookingToEntry(entry.id, entry.data())),
+    ...stringDatedBookingsSnapshot.docs.map((entry) => bookingToEntry(entry.id, entry.data())),
+    ...requestsSnapshot.docs.map((entry) => requestToEntry(entry.id, entry.data())),
+  ]
+  for (const entry of entries) {
+    if (!entry || !rangesOverlap(range, { start: entry.start_date, end: entry.end_date })) continue
+    occupancyByProduct.set(entry.product_id, [...(occupancyByProduct.get(entry.product_id) || []), entry])
+  }
+
+  return productsSnapshot.docs
+    .filter((entry) => {
+      const data = entry.data()
+      return !data.deleted && data.active !== false
+    })
+    .map((entry) => {
+      const data = entry.data()
+      return {
+        product_id: entry.id,
+        name: data.name || "",
+        site_code: data.site_code || "",
+        location: data.specs_rental?.location || "",
+        price: typeof data.price === "number" ? data.price : 0,
+        occupancy: (occupancyByProduct.get(entry.id) || []).sort(byStartDate),
+      }
+    })
+    .sort((a, b) => a.occupancy.length - b.occupancy.length || a.name.localeCompare(b.name))
+}
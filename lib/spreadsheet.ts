@@ -0,0 +1,235 @@
+/**
+ * Spreadsheet Parsing
+ * Reads the first sheet of a CSV or XLSX file into rows of cell text, in the browser.
+ * XLSX files are zip archives of XML; they are unpacked with the built-in DecompressionStream, so no
+ * spreadsheet library is needed for the plain tables the imports use. Formulas are read as their cached values.
+ */
+
+export type SpreadsheetRows = string[][]
+
+// Available in all supported browsers, but missing from the DOM typings of the TypeScript version in use
+declare const DecompressionStream: {
+  new (format: "deflate-raw"): TransformStream<Uint8Array, Uint8Array>
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SpreadsheetError"
+  }
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+export function parseCsv(text: string): SpreadsheetRows {
+  const rows: SpreadsheetRows = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = value === null || value === undefined ? "" : String(value)
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+        })
+        .join(","),
+    )
+    .join("\r\n")
+}
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+// Index the central directory of a zip archive by file name
+function readZipEntries(data: DataView): Map<string, ZipEntry> {
+  let end = -1
+  for (let offset = data.byteLength - 22; offset >= Math.max(0, data.byteLength - 65557); offset--) {
+    if (data.getUint32(offset, true) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end < 0) {
+    throw new SpreadsheetError("The file is not a valid XLSX workbook")
+  }
+
+  const entries = new Map<string, ZipEntry>()
+  const count = data.getUint16(end + 10, true)
+  let offset = data.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+
+  for (let i = 0; i < count; i++) {
+    if (data.getUint32(offset, true) !== 0x02014b50) {
+      throw new SpreadsheetError("The XLSX workbook is damaged")
+    }
+    const nameLength = data.getUint16(offset + 28, true)
+    const extraLength = data.getUint16(offset + 30, true)
+    const commentLength = data.getUint16(offset + 32, true)
+    const name = decoder.decode(new Uint8Array(data.buffer, data.byteOffset + offset + 46, nameLength))
+
+    entries.set(name, {
+      method: data.getUint16(offset + 10, true),
+      compressedSize: data.getUint32(offset + 20, true),
+      localHeaderOffset: data.getUint32(offset + 42, true),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+async function readZipText(data: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name)
+  if (!entry) {
+    return null
+  }
+
+  const header = entry.localHeaderOffset
+  const start = header + 30 + data.getUint16(header + 26, true) + data.getUint16(header + 28, true)
+  const compressed = new Uint8Array(data.buffer, data.byteOffset + start, entry.compressedSize)
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(compressed)
+  }
+  if (entry.method !== 8) {
+    throw new SpreadsheetError("The XLSX workbook uses an unsupported compression method")
+  }
+
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Response(stream).text()
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml")
+}
+
+// Text of a shared string or inline string, including rich-text runs
+function getStringText(element: Element): string {
+  return Array.from(element.getElementsByTagName("t"))
+    .map((t) => t.textContent || "")
+    .join("")
+}
+
+// "BC12" -> 54 (zero-based column index)
+function getColumnIndex(reference: string): number {
+  const letters = reference.replace(/[0-9]/g, "")
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+async function getFirstSheetPath(data: DataView, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = await readZipText(data, entries, "xl/workbook.xml")
+  const rels = await readZipText(data, entries, "xl/_rels/workbook.xml.rels")
+  if (workbook && rels) {
+    const sheet = parseXml(workbook).getElementsByTagName("sheet")[0]
+    const relationId = sheet?.getAttribute("r:id")
+    const relation = Array.from(parseXml(rels).getElementsByTagName("Relationship")).find(
+      (rel) => rel.getAttribute("Id") === relationId,
+    )
+    const target = relation?.getAttribute("Target")
+    if (target) {
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`
+    }
+  }
+  return "xl/worksheets/sheet1.xml"
+}
+
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetRows> {
+  const data = new DataView(buffer)
+  const entries = readZipEntries(data)
+
+  const sharedStringsXml = await readZipText(data, entries, "xl/sharedStrings.xml")
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName("si")).map(getStringText)
+    : []
+
+  const sheetXml = await readZipText(data, entries, await getFirstSheetPath(data, entries))
+  if (!sheetXml) {
+    throw new SpreadsheetError("The XLSX workbook has no worksheet")
+  }
+
+  const rows: SpreadsheetRows = []
+  for (const rowElement of Array.from(parseXml(sheetXml).getElementsByTagName("row"))) {
+    const row: string[] = []
+    Array.from(rowElement.getElementsByTagName("c")).forEach((cell, position) => {
+      const reference = cell.getAttribute("r")
+      const column = reference ? getColumnIndex(reference) : position
+      const type = cell.getAttribute("t")
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? ""
+
+      let text: string
+      if (type === "s") {
+        text = sharedStrings[Number(value)] ?? ""
+      } else if (type === "inlineStr") {
+        text = getStringText(cell)
+      } else if (type === "b") {
+        text = value === "1" ? "TRUE" : "FALSE"
+      } else {
+        text = value
+      }
+
+      while (row.length < column) row.push("")
+      row[column] = text
+    })
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+// Parse an uploaded .csv or .xlsx file
+export async function parseSpreadsheetFile(file: File): Promise<SpreadsheetRows> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith(".csv")) {
+    return parseCsv(await file.text())
+  }
+  if (name.endsWith(".xlsx")) {
+    return parseXlsx(await file.arrayBuffer())
+  }
+  throw new SpreadsheetError("Please upload a .csv or .xlsx file")
+}
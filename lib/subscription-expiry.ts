@@ -0,0 +1,210 @@
+/**
+ * Subscription Expiry
+ * Moves lapsed subscriptions along active → past_due (grace period) → expired, ends trials and applies scheduled
+ * cancellations. Runs from /api/subscriptions/process-expirations, either on a schedule or by hand.
+ * Safe to re-run: each transition is re-checked inside its own transaction before it is written.
+ */
+
+import { collection, doc, getDoc, getDocs, query, where, type DocumentData } from "firebase/firestore"
+import { getDb } from "./firebase"
+import { SubscriptionLifecycleError, applySubscriptionChange } from "./subscription-lifecycle"
+import { calculateGraceEndDate } from "./subscription-plans"
+import { toDate } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type {
+  BillingCycle,
+  SubscriptionChangeAction,
+  SubscriptionPlanType,
+  SubscriptionStatus,
+} from "@/types/subscription"
+
+const COLLECTION_NAME = "subscriptions"
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Statuses that can still lapse
+const OPEN_STATUSES: SubscriptionStatus[] = ["active", "trialing", "past_due"]
+
+export const SYSTEM_ACTOR: AuditActor = { uid: "system", email: "" }
+
+export type ExpiryAction = Extract<SubscriptionChangeAction, "grace_period_started" | "expired" | "trial_expired" | "cancelled">
+
+interface DueTransition {
+  action: ExpiryAction
+  update: Record<string, any>
+}
+
+export interface ExpiryTransition {
+  subscriptionId: string
+  companyId: string | null
+  action: ExpiryAction
+  from: SubscriptionStatus
+  to: SubscriptionStatus
+}
+
+export interface ExpiryRunResult {
+  dryRun: boolean
+  scanned: number
+  transitions: ExpiryTransition[]
+  failed: { subscriptionId: string; error: string }[]
+}
+
+export interface RenewalDue {
+  subscriptionId: string
+  companyId: string | null
+  companyName: string
+  planType: SubscriptionPlanType
+  billingCycle: BillingCycle
+  status: SubscriptionStatus
+  renewalDate: Date // Trial end, period end, or grace end for past_due subscriptions
+  daysRemaining: number
+  cancelAtPeriodEnd: boolean
+}
+
+// Date by which the subscription has to be renewed or converted before its next transition
+function getRenewalDate(data: DocumentData): Date | null {
+  const endDate = toDate(data.endDate)
+  switch (data.status) {
+    case "trialing":
+      return toDate(data.trialEndDate) || endDate
+    case "active":
+      return endDate
+    case "past_due":
+      return toDate(data.graceEndDate) || (endDate && calculateGraceEndDate(endDate))
+    default:
+      return null
+  }
+}
+
+/**
+ * The transition a subscription is due for at `now`, or null if it is not due.
+ * A paid subscription past its end date enters the grace period; if the grace period is already over too
+ * (e.g. the job has not run for a while) it expires straight away. Subscriptions without an end date never lapse.
+ */
+export function getDueTransition(data: DocumentData, now: Date): DueTransition | null {
+  const renewalDate = getRenewalDate(data)
+  if (!renewalDate || renewalDate > now) {
+    return null
+  }
+
+  if (data.cancelAtPeriodEnd && (data.status === "active" || data.status === "trialing")) {
+    return { action: "cancelled", update: { status: "cancelled", cancelAtPeriodEnd: false } }
+  }
+
+  switch (data.status) {
+    case "trialing":
+      return { action: "trial_expired", update: { status: "expired" } }
+    case "active": {
+      const graceEndDate = calculateGraceEndDate(renewalDate)
+      if (graceEndDate <= now) {
+        return { action: "expired", update: { status: "expired", graceEndDate } }
+      }
+      return { action: "grace_period_started", update: { status: "past_due", graceEndDate } }
+    }
+    case "past_due":
+      return { action: "expired", update: { status: "expired" } }
+    default:
+      return null
+  }
+}
+
+async function getOpenSubscriptions() {
+  const snapshot = await getDocs(query(collection(getDb(), COLLECTION_NAME), where("status", "in", OPEN_STATUSES)))
+  return snapshot.docs
+}
+
+/**
+ * Apply every transition that is due. With dryRun the due transitions are returned without writing anything.
+ * A failure on one subscription is reported and does not stop the rest of the run.
+ */
+export async function processSubscriptionExpirations(
+  options: { now?: Date; dryRun?: boolean; actor?: AuditActor } = {},
+): Promise<ExpiryRunResult> {
+  const now = options.now || new Date()
+  const dryRun = options.dryRun ?? false
+  const actor = options.actor || SYSTEM_ACTOR
+
+  const subscriptions = await getOpenSubscriptions()
+  const result: ExpiryRunResult = { dryRun, scanned: subscriptions.length, transitions: [], failed: [] }
+
+  for (const subscription of subscriptions) {
+    const data = subscription.data()
+    const due = getDueTransition(data, now)
+    if (!due) {
+      continue
+    }
+
+    const transition: ExpiryTransition = {
+      subscriptionId: subscription.id,
+      companyId: data.companyId || null,
+      action: due.action,
+      from: data.status,
+      to: due.update.status,
+    }
+
+    if (dryRun) {
+      result.transitions.push(transition)
+      continue
+    }
+
+    try {
+      await applySubscriptionChange(subscription.id, due.action, actor, (current) => {
+        // Someone may have renewed or changed the subscription since it was read
+        const stillDue = getDueTransition(current, now)
+        if (!stillDue || stillDue.action !== due.action) {
+          throw new SubscriptionLifecycleError("Subscription changed while it was being processed")
+        }
+        return { update: stillDue.update, proration: null }
+      })
+      result.transitions.push(transition)
+    } catch (error) {
+      if (error instanceof SubscriptionLifecycleError && error.status === 409) {
+        continue
+      }
+      console.error(`Error processing expiry for subscription ${subscription.id}:`, error)
+      result.failed.push({
+        subscriptionId: subscription.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return result
+}
+
+// Subscriptions whose trial, period or grace period ends within `days`, soonest first
+export async function getRenewalsDue(days: number, now = new Date()): Promise<RenewalDue[]> {
+  const horizon = new Date(now.getTime() + days * DAY_MS)
+  const subscriptions = await getOpenSubscriptions()
+
+  const due = subscriptions.flatMap((subscription) => {
+    const data = subscription.data()
+    const renewalDate = getRenewalDate(data)
+    if (!renewalDate || renewalDate > horizon) {
+      return []
+    }
+    return [{ subscription, data, renewalDate }]
+  })
+
+  const companyIds = [...new Set(due.map(({ data }) => data.companyId).filter(Boolean) as string[])]
+  const companyNames = new Map<string, string>()
+  await Promise.all(
+    companyIds.map(async (companyId) => {
+      const company = await getDoc(doc(getDb(), "companies", companyId))
+      companyNames.set(companyId, company.exists() ? company.data().name || "" : "")
+    }),
+  )
+
+  return due
+    .map(({ subscription, data, renewalDate }) => ({
+      subscriptionId: subscription.id,
+      companyId: data.companyId || null,
+      companyName: (data.companyId && companyNames.get(data.companyId)) || "Unknown company",
+      planType: data.planType || "trial",
+      billingCycle: data.billingCycle || "monthly",
+      status: data.status,
+      renewalDate,
+      daysRemaining: Math.ceil((renewalDate.getTime() - now.getTime()) / DAY_MS),
+      cancelAtPeriodEnd: data.cancelAtPeriodEnd || false,
+    }))
+    .sort((a, b) => a.renewalDate.getTime() - b.renewalDate.getTime())
+}
@@ -0,0 +1,472 @@
+/**
+ * Subscription Lifecycle
+ * Plan changes, renewals, cancellations and trial conversions. Every change updates the subscription,
+ * appends an entry to subscriptions/{id}/history and writes an audit entry in a single transaction, together with
+ * the invoice for any amount it bills. A change that leaves the client in credit, such as a downgrade, adds to the
+ * subscription's creditBalance, which is taken off the next invoice.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  type DocumentData,
+} from "firebase/firestore"
+import { getDb } from "./firebase"
+import { addAuditEventToTransaction } from "./audit-log"
+import { getSubscriptionById } from "./subscription-service"
+import { getPlanCatalog, getPlanVersion } from "./plan-catalog-service"
+import { type InvoiceDraft, issueInvoiceInTransaction } from "./invoice-service"
+import { getCompanyUsage } from "./quota-service"
+import {
+  type Proration,
+  calculateEndDate,
+  calculatePeriodStart,
+  calculateProration,
+  findPlan,
+  getPlanLimits,
+  getPlanPrice,
+  isBillingCycle,
+  UNLIMITED,
+} from "./subscription-plans"
+import { toDate, roundToCents } from "./utils"
+import type { AuditActor } from "@/types/audit-log"
+import type {
+  BillingCycle,
+  Subscription,
+  SubscriptionChangeAction,
+  SubscriptionHistoryEntry,
+  SubscriptionPlan,
+  SubscriptionSnapshot,
+} from "@/types/subscription"
+
+const COLLECTION_NAME = "subscriptions"
+const HISTORY_SUBCOLLECTION = "history"
+
+export class SubscriptionLifecycleError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+  ) {
+    super(message)
+    this.name = "SubscriptionLifecycleError"
+  }
+}
+
+export interface SubscriptionChangeResult {
+  subscription: Subscription
+  proration: Proration | null
+  invoiceId: string | null // Invoice issued for the change, if it billed anything
+  creditApplied: number // Account credit taken off the invoice
+  creditBalance: number // Account credit left after the change
+}
+
+// Invoice for a change; the subscription and company are filled in when it is issued
+export type PlannedInvoice = Omit<InvoiceDraft, "subscriptionId" | "companyId" | "billTo">
+
+export interface PlannedSubscriptionChange {
+  update: Record<string, any>
+  proration: Proration | null
+  invoice?: PlannedInvoice
+}
+
+function toSnapshot(data: DocumentData): SubscriptionSnapshot {
+  return {
+    planType: data.planType || "trial",
+    billingCycle: data.billingCycle || "monthly",
+    status: data.status || "inactive",
+    endDate: toDate(data.endDate),
+    maxProducts: data.maxProducts || 0,
+    maxUsers: data.maxUsers || 1,
+  }
+}
+
+interface PinnedPlan {
+  planType: string
+  version: number
+  plan: SubscriptionPlan | null // The plan as it was at that version; null if it no longer exists
+}
+
+// Look up a paid plan that can currently be sold
+async function resolvePaidPlan(planType: unknown, billingCycle: unknown): Promise<SubscriptionPlan> {
+  const { plans } = await getPlanCatalog()
+  const plan = findPlan(plans, planType)
+  if (!plan || plan.id === "trial" || plan.billingCycle === "N/A") {
+    throw new SubscriptionLifecycleError("Please select a paid plan", 400)
+  }
+  if (!isBillingCycle(billingCycle)) {
+    throw new SubscriptionLifecycleError("Please select a billing cycle", 400)
+  }
+  return plan
+}
+
+async function getPinnedPlan(data: DocumentData): Promise<PinnedPlan> {
+  const version = data.planVersion || 1
+  return { planType: data.planType, version, plan: await getPlanVersion(data.planType, version) }
+}
+
+// The plan version a subscription is pinned to, read before its transaction starts
+async function loadPinnedPlan(subscriptionId: string): Promise<PinnedPlan> {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, subscriptionId))
+  if (!snapshot.exists()) {
+    throw new SubscriptionLifecycleError("Subscription not found", 404)
+  }
+  return getPinnedPlan(snapshot.data())
+}
+
+// Inside the transaction: fail if the plan changed after the pinned version was loaded
+function assertStillPinned(data: DocumentData, pinned: PinnedPlan) {
+  if (data.planType !== pinned.planType || (data.planVersion || 1) !== pinned.version) {
+    throw new SubscriptionLifecycleError("The subscription changed while this was being processed. Please try again.")
+  }
+}
+
+/**
+ * Reject a plan whose limits are below what the company already uses, e.g. a downgrade to fewer users.
+ * Counting can't run in a transaction, so this is checked before the change is applied.
+ */
+async function assertPlanCoversUsage(subscriptionId: string, plan: SubscriptionPlan) {
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, subscriptionId))
+  const companyId = snapshot.data()?.companyId
+  if (!companyId) {
+    return
+  }
+
+  const usage = await getCompanyUsage(companyId)
+  const { maxProducts, maxUsers } = getPlanLimits(plan)
+  const exceeded = [
+    { resource: "products", used: usage.products.used, limit: maxProducts },
+    { resource: "users", used: usage.users.used, limit: maxUsers },
+  ].filter(({ used, limit }) => limit < UNLIMITED && used > limit)
+
+  if (exceeded.length > 0) {
+    const details = exceeded.map(({ resource, used, limit }) => `${limit} ${resource} (${used} in use)`).join(" and ")
+    throw new SubscriptionLifecycleError(
+      `The ${plan.name} plan only allows ${details}. Remove the extra ones before changing to this plan.`,
+    )
+  }
+}
+
+/**
+ * Take the subscription's credit balance off the invoice for a change. A negative amount, as for a downgrade,
+ * is added to the balance instead of being invoiced.
+ */
+function applyCreditBalance(invoice: PlannedInvoice | undefined, balance: number) {
+  if (!invoice) {
+    return { invoice, creditApplied: 0, creditBalance: balance }
+  }
+  if (invoice.amount < 0) {
+    return { invoice: undefined, creditApplied: 0, creditBalance: roundToCents(balance - invoice.amount) }
+  }
+
+  const creditApplied = Math.min(balance, invoice.amount)
+  return {
+    invoice: { ...invoice, amount: roundToCents(invoice.amount - creditApplied), creditApplied },
+    creditApplied,
+    creditBalance: roundToCents(balance - creditApplied),
+  }
+}
+
+// Price of the pinned plan version for a billing cycle
+function getPinnedPrice(pinned: PinnedPlan, billingCycle: BillingCycle): number {
+  return pinned.plan ? getPlanPrice([pinned.plan], pinned.planType, billingCycle) : 0
+}
+
+function planPlanChange(
+  data: DocumentData,
+  pinned: PinnedPlan,
+  plan: SubscriptionPlan,
+  billingCycle: BillingCycle,
+): PlannedSubscriptionChange {
+  if (data.status === "trialing") {
+    throw new SubscriptionLifecycleError("Convert the trial to a paid plan instead")
+  }
+  if (data.status !== "active") {
+    throw new SubscriptionLifecycleError(`Renew the ${data.status} subscription before changing its plan`)
+  }
+  if (
+    data.planType === plan.id &&
+    (data.planVersion || 1) === plan.version &&
+    data.billingCycle === billingCycle
+  ) {
+    throw new SubscriptionLifecycleError("The subscription is already on this plan and billing cycle", 400)
+  }
+
+  const periodEnd = toDate(data.endDate)
+  const proration = calculateProration({
+    currentPrice: getPinnedPrice(pinned, data.billingCycle),
+    newPrice: getPlanPrice([plan], plan.id, billingCycle),
+    periodStart: periodEnd ? calculatePeriodStart(periodEnd, data.billingCycle) : toDate(data.startDate) || new Date(),
+    periodEnd,
+    newBillingCycle: billingCycle,
+    resetPeriod: data.billingCycle !== billingCycle,
+  })
+
+  return {
+    update: {
+      planType: plan.id,
+      planVersion: plan.version,
+      billingCycle,
+      ...getPlanLimits(plan),
+      endDate: proration.periodEnd,
+    },
+    proration,
+    invoice: proration.periodEnd
+      ? {
+          reason: "plan_change",
+          planType: plan.id,
+          planVersion: plan.version,
+          planName: plan.name,
+          billingCycle,
+          periodStart: new Date(),
+          periodEnd: proration.periodEnd,
+          amount: proration.amountDue,
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Run a change against a subscription in a transaction.
+ * `plan` receives the current document and returns the fields to update, the proration to record and the
+ * invoice to issue, if any.
+ */
+export async function applySubscriptionChange(
+  subscriptionId: string,
+  action: SubscriptionChangeAction,
+  actor: AuditActor,
+  plan: (data: DocumentData) => PlannedSubscriptionChange,
+): Promise<SubscriptionChangeResult> {
+  const firestore = getDb()
+  const subscriptionRef = doc(firestore, COLLECTION_NAME, subscriptionId)
+
+  const result = await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(subscriptionRef)
+    if (!snapshot.exists()) {
+      throw new SubscriptionLifecycleError("Subscription not found", 404)
+    }
+
+    const data = snapshot.data()
+    const planned = plan(data)
+    const { proration } = planned
+    const { invoice, creditApplied, creditBalance } = applyCreditBalance(
+      data.companyId ? planned.invoice : undefined, // Only company subscriptions are invoiced
+      data.creditBalance || 0,
+    )
+    const update = creditBalance !== (data.creditBalance || 0) ? { ...planned.update, creditBalance } : planned.update
+
+    // Issued first: it reads the invoice counter, and reads must come before the transaction's writes
+    const invoiceId = invoice
+      ? await issueInvoiceInTransaction(transaction, { ...invoice, subscriptionId, companyId: data.companyId }, actor)
+      : null
+
+    const historyRef = doc(collection(firestore, COLLECTION_NAME, subscriptionId, HISTORY_SUBCOLLECTION))
+
+    transaction.update(subscriptionRef, { ...update, updatedAt: serverTimestamp() })
+    transaction.set(historyRef, {
+      action,
+      from: toSnapshot(data),
+      to: toSnapshot({ ...data, ...update }),
+      proration: proration
+        ? { credit: proration.credit, charge: proration.charge, amountDue: proration.amountDue }
+        : null,
+      invoiceId,
+      creditApplied,
+      actor_uid: actor.uid,
+      actor_email: actor.email,
+      created_at: serverTimestamp(),
+    })
+    addAuditEventToTransaction(transaction, {
+      collection: COLLECTION_NAME,
+      entityId: subscriptionId,
+      action: "update",
+      before: data,
+      after: update,
+      actor,
+      metadata: { operation: action, historyId: historyRef.id, invoiceId },
+    })
+
+    return { proration, invoiceId, creditApplied, creditBalance }
+  })
+
+  return { subscription: await getSubscriptionById(subscriptionId), ...result }
+}
+
+// Work out the proration for a plan or billing cycle change without applying it
+export async function previewPlanChange(
+  subscriptionId: string,
+  planType: unknown,
+  billingCycle: unknown,
+): Promise<Proration> {
+  const plan = await resolvePaidPlan(planType, billingCycle)
+
+  const snapshot = await getDoc(doc(getDb(), COLLECTION_NAME, subscriptionId))
+  if (!snapshot.exists()) {
+    throw new SubscriptionLifecycleError("Subscription not found", 404)
+  }
+
+  const data = snapshot.data()
+  const { proration } = planPlanChange(data, await getPinnedPlan(data), plan, billingCycle as BillingCycle)
+  await assertPlanCoversUsage(subscriptionId, plan)
+  return proration!
+}
+
+/**
+ * Upgrade or downgrade the plan and/or billing cycle of an active subscription, with proration.
+ * The subscription moves to the current version of the chosen plan.
+ */
+export async function changeSubscriptionPlan(
+  subscriptionId: string,
+  planType: unknown,
+  billingCycle: unknown,
+  actor: AuditActor,
+): Promise<SubscriptionChangeResult> {
+  const plan = await resolvePaidPlan(planType, billingCycle)
+  const pinned = await loadPinnedPlan(subscriptionId)
+  await assertPlanCoversUsage(subscriptionId, plan)
+
+  return applySubscriptionChange(subscriptionId, "plan_changed", actor, (data) => {
+    assertStillPinned(data, pinned)
+    return planPlanChange(data, pinned, plan, billingCycle as BillingCycle)
+  })
+}
+
+/**
+ * Renew for one more billing cycle at the price of the plan version the subscription is pinned to.
+ * An active or past_due subscription is extended from its current end date; an expired one restarts today.
+ */
+export async function renewSubscription(subscriptionId: string, actor: AuditActor): Promise<SubscriptionChangeResult> {
+  const pinned = await loadPinnedPlan(subscriptionId)
+
+  return applySubscriptionChange(subscriptionId, "renewed", actor, (data) => {
+    if (data.status === "trialing") {
+      throw new SubscriptionLifecycleError("Convert the trial to a paid plan instead")
+    }
+    assertStillPinned(data, pinned)
+
+    const now = new Date()
+    const currentEnd = toDate(data.endDate)
+    const inGracePeriod = data.status === "past_due" && currentEnd
+    const periodStart = (data.status === "active" && currentEnd && currentEnd > now) || inGracePeriod ? currentEnd! : now
+    const periodEnd = calculateEndDate(periodStart, data.billingCycle)
+    const charge = getPinnedPrice(pinned, data.billingCycle)
+
+    return {
+      update: { status: "active", endDate: periodEnd, cancelAtPeriodEnd: false, graceEndDate: null },
+      proration: { credit: 0, charge, amountDue: charge, periodStart, periodEnd },
+      invoice: periodEnd
+        ? {
+            reason: "renewal",
+            planType: pinned.planType,
+            planVersion: pinned.version,
+            planName: pinned.plan?.name || pinned.planType,
+            billingCycle: data.billingCycle,
+            periodStart,
+            periodEnd,
+            amount: charge,
+          }
+        : undefined,
+    }
+  })
+}
+
+// Schedule cancellation at the end of the current period. The expiry job applies it once endDate passes.
+export async function cancelSubscriptionAtPeriodEnd(
+  subscriptionId: string,
+  actor: AuditActor,
+): Promise<SubscriptionChangeResult> {
+  return applySubscriptionChange(subscriptionId, "cancellation_scheduled", actor, (data) => {
+    if (data.status !== "active" && data.status !== "trialing") {
+      throw new SubscriptionLifecycleError(`Cannot cancel a subscription that is ${data.status}`)
+    }
+    if (data.cancelAtPeriodEnd) {
+      throw new SubscriptionLifecycleError("Cancellation is already scheduled")
+    }
+    return { update: { cancelAtPeriodEnd: true }, proration: null }
+  })
+}
+
+// Undo a scheduled cancellation before it takes effect
+export async function resumeSubscription(subscriptionId: string, actor: AuditActor): Promise<SubscriptionChangeResult> {
+  return applySubscriptionChange(subscriptionId, "cancellation_reverted", actor, (data) => {
+    if (!data.cancelAtPeriodEnd) {
+      throw new SubscriptionLifecycleError("No cancellation is scheduled")
+    }
+    return { update: { cancelAtPeriodEnd: false }, proration: null }
+  })
+}
+
+// Move a trial onto a paid plan. The first paid period starts today.
+export async function convertTrialToPaid(
+  subscriptionId: string,
+  planType: unknown,
+  billingCycle: unknown,
+  actor: AuditActor,
+): Promise<SubscriptionChangeResult> {
+  const plan = await resolvePaidPlan(planType, billingCycle)
+
+  return applySubscriptionChange(subscriptionId, "trial_converted", actor, (data) => {
+    if (data.status !== "trialing" && data.planType !== "trial") {
+      throw new SubscriptionLifecycleError("Only trial subscriptions can be converted")
+    }
+
+    const periodStart = new Date()
+    const periodEnd = calculateEndDate(periodStart, billingCycle as BillingCycle)
+    const charge = getPlanPrice([plan], plan.id, billingCycle as BillingCycle)
+
+    return {
+      update: {
+        planType: plan.id,
+        planVersion: plan.version,
+        billingCycle,
+        status: "active",
+        ...getPlanLimits(plan),
+        endDate: periodEnd,
+        cancelAtPeriodEnd: false,
+      },
+      proration: { credit: 0, charge, amountDue: charge, periodStart, periodEnd },
+      invoice: periodEnd
+        ? {
+            reason: "trial_conversion",
+            planType: plan.id,
+            planVersion: plan.version,
+            planName: plan.name,
+            billingCycle: billingCycle as BillingCycle,
+            periodStart,
+            periodEnd,
+            amount: charge,
+          }
+        : undefined,
+    }
+  })
+}
+
+export async function getSubscriptionHistory(subscriptionId: string): Promise<SubscriptionHistoryEntry[]> {
+  const snapshot = await getDocs(
+    query(
+      collection(getDb(), COLLECTION_NAME, subscriptionId, HISTORY_SUBCOLLECTION),
+      orderBy("created_at", "desc"),
+    ),
+  )
+
+  return snapshot.docs.map((entry) => {
+    const data = entry.data()
+    return {
+      id: entry.id,
+      action: data.action,
+      from: toSnapshot(data.from || {}),
+      to: toSnapshot(data.to || {}),
+      proration: data.proration || null,
+      invoiceId: data.invoiceId || null,
+      creditApplied: data.creditApplied || 0,
+      actor_uid: data.actor_uid,
+      actor_email: data.actor_email || "",
+      created_at: toDate(data.created_at) || new Date(),
+    }
+  })
+}
@@ -0,0 +1,329 @@
+/**
+ * Subscription Plan Rules
+ * Limits, prices, billing periods and trial length for each plan type. Pure helpers shared by the API and forms.
+ */
+
+import { roundToCents } from "./utils"
+import type { BillingCycle, BuiltInPlanType, SubscriptionPlan, SubscriptionPlanType } from "@/types/subscription"
+
+export const SUBSCRIPTION_PLAN_TYPES: BuiltInPlanType[] = [
+  "trial",
+  "solo",
+  "family",
+  "membership",
+  "enterprise",
+  "graphic-expo-event",
+]
+
+export const BILLING_CYCLES: BillingCycle[] = ["monthly", "annually"]
+
+export const TRIAL_PERIOD_DAYS = 30
+
+// Days a lapsed paid subscription stays usable (past_due) before it expires
+export const GRACE_PERIOD_DAYS = 7
+
+// Limits at or above this value are shown as unlimited
+export const UNLIMITED = 99999
+
+// Used when the subscription_plans collection is empty or unavailable
+export const DEFAULT_SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
+  {
+    id: "trial",
+    name: "Trial",
+    description: "Perfect for trying out our services",
+    price: 0,
+    billingCycle: "N/A",
+    features: [
+      "Up to 3 products",
+      "Up to 12 user accounts",
+      "Basic support",
+      "30-day trial",
+    ],
+    prices: {},
+    maxProducts: getMaxProductsForPlan("trial"),
+    maxUsers: getMaxUsersForPlan("trial"),
+    buttonText: "Start Trial",
+    version: 1,
+    status: "active",
+  },
+  {
+    id: "solo",
+    name: "Solo",
+    description: "Great for individual entrepreneurs",
+    price: 29,
+    billingCycle: "monthly",
+    features: [
+      "Up to 3 products",
+      "Up to 12 user accounts",
+      "Email support",
+      "Basic analytics",
+    ],
+    prices: { monthly: 29 },
+    maxProducts: getMaxProductsForPlan("solo"),
+    maxUsers: getMaxUsersForPlan("solo"),
+    buttonText: "Start Solo",
+    version: 1,
+    status: "active",
+  },
+  {
+    id: "family",
+    name: "Family",
+    description: "Ideal for small businesses",
+    price: 79,
+    billingCycle: "monthly",
+    features: [
+      "Up to 5 products",
+      "Up to 12 user accounts",
+      "Priority support",
+      "Advanced analytics",
+      "Custom branding",
+    ],
+    prices: { monthly: 79 },
+    maxProducts: getMaxProductsForPlan("family"),
+    maxUsers: getMaxUsersForPlan("family"),
+    buttonText: "Start Family",
+    version: 1,
+    status: "active",
+  },
+  {
+    id: "membership",
+    name: "Membership",
+    description: "For growing businesses",
+    price: 199,
+    billingCycle: "monthly",
+    features: [
+      "Up to 8 products",
+      "Up to 12 user accounts",
+      "24/7 support",
+      "Advanced analytics",
+      "API access",
+      "Custom integrations",
+    ],
+    prices: { monthly: 199 },
+    maxProducts: getMaxProductsForPlan("membership"),
+    maxUsers: getMaxUsersForPlan("membership"),
+    buttonText: "Start Membership",
+    version: 1,
+    status: "active",
+  },
+  {
+    id: "enterprise",
+    name: "Enterprise",
+    description: "For large organizations",
+    price: 499,
+    billingCycle: "monthly",
+    features: [
+      "Unlimited products",
+      "Unlimited user accounts",
+      "Dedicated support",
+      "Custom analytics",
+      "API access",
+      "White-label solution",
+      "Custom integrations",
+      "SLA guarantee",
+    ],
+    prices: { monthly: 499 },
+    maxProducts: getMaxProductsForPlan("enterprise"),
+    maxUsers: getMaxUsersForPlan("enterprise"),
+    buttonText: "Contact Sales",
+    version: 1,
+    status: "active",
+  },
+  {
+    id: "graphic-expo-event",
+    name: "Graphic Expo Event",
+    description: "Special package for events",
+    price: 149,
+    billingCycle: "annually",
+    features: [
+      "Up to 5 products",
+      "Up to 12 user accounts",
+      "Event-specific features",
+      "Priority support",
+      "Custom branding",
+    ],
+    prices: { annually: 149 },
+    maxProducts: getMaxProductsForPlan("graphic-expo-event"),
+    maxUsers: getMaxUsersForPlan("graphic-expo-event"),
+    buttonText: "Start Event Package",
+    version: 1,
+    status: "active",
+  },
+]
+
+export interface PlanLimits {
+  maxProducts: number
+  maxUsers: number
+}
+
+// Plan ids are lowercase slugs, e.g. "graphic-expo-event"
+export const PLAN_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export function isBuiltInPlanType(value: unknown): value is BuiltInPlanType {
+  return SUBSCRIPTION_PLAN_TYPES.includes(value as BuiltInPlanType)
+}
+
+export function findPlan(plans: SubscriptionPlan[], planType: unknown): SubscriptionPlan | undefined {
+  return plans.find((plan) => plan.id === planType)
+}
+
+// Plans that can be sold to new or upgrading subscriptions
+export function getActivePlans(plans: SubscriptionPlan[]): SubscriptionPlan[] {
+  return plans.filter((plan) => plan.status !== "retired")
+}
+
+export function isBillingCycle(value: unknown): value is BillingCycle {
+  return BILLING_CYCLES.includes(value as BillingCycle)
+}
+
+// Limits of the built-in plans, used for the default catalog
+export function getMaxProductsForPlan(planType: BuiltInPlanType): number {
+  switch (planType) {
+    case "solo":
+      return 3 // Manage up to 3 sites
+    case "family":
+      return 5 // Manage up to 5 sites
+    case "membership":
+      return 8 // Manage up to 8 sites
+    case "enterprise":
+      return UNLIMITED // Unlimited for enterprise
+    case "trial":
+      return 3 // Example: 3 products for trial
+    case "graphic-expo-event":
+      return 5 // Example: 5 products for event plan
+    default:
+      return 0
+  }
+}
+
+export function getMaxUsersForPlan(planType: BuiltInPlanType): number {
+  switch (planType) {
+    case "solo":
+      return 12 // Solo plan allows 12 users
+    case "family":
+      return 12 // Family plan allows 12 users
+    case "membership":
+      return 12 // Membership allows 12 users
+    case "enterprise":
+      return UNLIMITED // Unlimited for enterprise
+    case "trial":
+      return 12 // Trial allows 12 users
+    case "graphic-expo-event":
+      return 12 // Event plan allows 12 users
+    default:
+      return 12 // Default to 12 users
+  }
+}
+
+export function getPlanLimits(plan: SubscriptionPlan): PlanLimits {
+  return {
+    maxProducts: plan.maxProducts,
+    maxUsers: plan.maxUsers,
+  }
+}
+
+export function calculateEndDate(startDate: Date, billingCycle: string): Date | null {
+  if (billingCycle === "monthly") {
+    const endDate = new Date(startDate)
+    endDate.setMonth(endDate.getMonth() + 1)
+    return endDate
+  } else if (billingCycle === "annually") {
+    const endDate = new Date(startDate)
+    endDate.setFullYear(endDate.getFullYear() + 1)
+    return endDate
+  }
+  return null // Lifetime or other
+}
+
+// Start of the billing period that ends at periodEnd
+export function calculatePeriodStart(periodEnd: Date, billingCycle: string): Date {
+  const periodStart = new Date(periodEnd)
+  if (billingCycle === "annually") {
+    periodStart.setFullYear(periodStart.getFullYear() - 1)
+  } else {
+    periodStart.setMonth(periodStart.getMonth() - 1)
+  }
+  return periodStart
+}
+
+export function calculateTrialEndDate(startDate: Date): Date {
+  const trialEndDate = new Date(startDate)
+  trialEndDate.setDate(trialEndDate.getDate() + TRIAL_PERIOD_DAYS)
+  return trialEndDate
+}
+
+export function calculateGraceEndDate(endDate: Date): Date {
+  const graceEndDate = new Date(endDate)
+  graceEndDate.setDate(graceEndDate.getDate() + GRACE_PERIOD_DAYS)
+  return graceEndDate
+}
+
+/**
+ * Price of a plan for a billing cycle. Uses the plan's price for that cycle when set,
+ * otherwise converts the headline price from the plan's own cycle.
+ */
+export function getPlanPrice(plans: SubscriptionPlan[], planType: SubscriptionPlanType, billingCycle: BillingCycle): number {
+  const plan = findPlan(plans, planType)
+  if (!plan) {
+    return 0
+  }
+  const cyclePrice = plan.prices?.[billingCycle]
+  if (cyclePrice !== undefined) {
+    return cyclePrice
+  }
+  if (plan.billingCycle === "N/A" || !plan.price) {
+    return 0
+  }
+  if (plan.billingCycle === billingCycle) {
+    return plan.price
+  }
+  return billingCycle === "annually" ? plan.price * 12 : roundToCents(plan.price / 12)
+}
+
+export interface Proration {
+  credit: number // Unused value of the current period
+  charge: number // Cost of the new plan for the period it will cover
+  amountDue: number // charge - credit; negative means the client has a credit
+  periodStart: Date
+  periodEnd: Date | null
+}
+
+/**
+ * Prorate a plan or billing cycle change made part-way through a period.
+ * Same cycle: the period end is kept and only the price difference for the remaining time is charged.
+ * New cycle: a fresh period starts now and the unused part of the old one is credited.
+ */
+export function calculateProration(options: {
+  currentPrice: number
+  newPrice: number
+  periodStart: Date
+  periodEnd: Date | null
+  newBillingCycle: BillingCycle
+  resetPeriod: boolean
+  now?: Date
+}): Proration {
+  const now = options.now || new Date()
+  const { currentPrice, newPrice, periodStart, periodEnd } = options
+
+  let remainingFraction = 0
+  if (periodEnd && periodEnd > now) {
+    const periodLength = periodEnd.getTime() - periodStart.getTime()
+    remainingFraction = periodLength > 0 ? Math.min(1, (periodEnd.getTime() - now.getTime()) / periodLength) : 0
+  }
+
+  const credit = roundToCents(currentPrice * remainingFraction)
+
+  if (options.resetPeriod || !periodEnd || periodEnd <= now) {
+    const charge = roundToCents(newPrice)
+    return {
+      credit,
+      charge,
+      amountDue: roundToCents(charge - credit),
+      periodStart: now,
+      periodEnd: calculateEndDate(now, options.newBillingCycle),
+    }
+  }
+
+  const charge = roundToCents(newPrice * remainingFraction)
+  return { credit, charge, amountDue: roundToCents(charge - credit), periodStart, periodEnd }
+}
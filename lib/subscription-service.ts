@@ -1,5 +1,6 @@
 import { db } from "./firebase"
 import { doc, getDoc, collection, getDocs, query, where, orderBy, limit } from "firebase/firestore"
+import { toSubscriptionPlan } from "./plan-catalog-service"
 import { Subscription, SubscriptionPlan, SubscriptionStatus } from "../types/subscription"
 
 export async function getSubscriptionById(subscriptionId: string): Promise<Subscription> {
@@ -36,6 +37,7 @@ export async function getSubscriptionById(subscriptionId: string): Promise<Subsc
       id: subscriptionDoc.id,
       licenseKey: data.licenseKey || "",
       planType: data.planType || "trial",
+      planVersion: data.planVersion || 1,
       billingCycle: data.billingCycle || "monthly",
       uid: data.uid || "",
       startDate: convertTimestamp(data.startDate) || new Date(),
@@ -45,6 +47,10 @@ export async function getSubscriptionById(subscriptionId: string): Promise<Subsc
       maxUsers: data.maxUsers || 1,
       trialEndDate: convertTimestamp(data.trialEndDate),
       companyId: data.companyId || null,
+      cancelAtPeriodEnd: data.cancelAtPeriodEnd || false,
+      graceEndDate: convertTimestamp(data.graceEndDate),
+      licenseRevokedAt: convertTimestamp(data.licenseRevokedAt),
+      creditBalance: data.creditBalance || 0,
       createdAt: convertTimestamp(data.createdAt) || new Date(),
       updatedAt: convertTimestamp(data.updatedAt) || new Date(),
     }
@@ -93,6 +99,7 @@ export async function getSubscriptionsByUserId(userId: string): Promise<Subscrip
         id: doc.id,
         licenseKey: data.licenseKey || "",
         planType: data.planType || "trial",
+        planVersion: data.planVersion || 1,
         billingCycle: data.billingCycle || "monthly",
         uid: data.uid || "",
         startDate: convertTimestamp(data.startDate) || new Date(),
@@ -102,6 +109,10 @@ export async function getSubscriptionsByUserId(userId: string): Promise<Subscrip
         maxUsers: data.maxUsers || 1,
         trialEndDate: convertTimestamp(data.trialEndDate),
         companyId: data.companyId || null,
+        cancelAtPeriodEnd: data.cancelAtPeriodEnd || false,
+        graceEndDate: convertTimestamp(data.graceEndDate),
+        licenseRevokedAt: convertTimestamp(data.licenseRevokedAt),
+        creditBalance: data.creditBalance || 0,
         createdAt: convertTimestamp(data.createdAt) || new Date(),
         updatedAt: convertTimestamp(data.updatedAt) || new Date(),
       })
@@ -151,6 +162,7 @@ export async function getSubscriptionsByCompanyId(companyId: string): Promise<Su
         id: doc.id,
         licenseKey: data.licenseKey || "",
         planType: data.planType || "trial",
+        planVersion: data.planVersion || 1,
         billingCycle: data.billingCycle || "monthly",
         uid: data.uid || "",
         startDate: convertTimestamp(data.startDate) || new Date(),
@@ -160,6 +172,10 @@ export async function getSubscriptionsByCompanyId(companyId: string): Promise<Su
         maxUsers: data.maxUsers || 1,
         trialEndDate: convertTimestamp(data.trialEndDate),
         companyId: data.companyId || null,
+        cancelAtPeriodEnd: data.cancelAtPeriodEnd || false,
+        graceEndDate: convertTimestamp(data.graceEndDate),
+        licenseRevokedAt: convertTimestamp(data.licenseRevokedAt),
+        creditBalance: data.creditBalance || 0,
         createdAt: convertTimestamp(data.createdAt) || new Date(),
         updatedAt: convertTimestamp(data.updatedAt) || new Date(),
       })
@@ -206,6 +222,7 @@ export async function getActiveSubscriptions(): Promise<Subscription[]> {
         id: doc.id,
         licenseKey: data.licenseKey || "",
         planType: data.planType || "trial",
+        planVersion: data.planVersion || 1,
         billingCycle: data.billingCycle || "monthly",
         uid: data.uid || "",
         startDate: convertTimestamp(data.startDate) || new Date(),
@@ -215,6 +232,10 @@ export async function getActiveSubscriptions(): Promise<Subscription[]> {
         maxUsers: data.maxUsers || 1,
         trialEndDate: convertTimestamp(data.trialEndDate),
         companyId: data.companyId || null,
+        cancelAtPeriodEnd: data.cancelAtPeriodEnd || false,
+        graceEndDate: convertTimestamp(data.graceEndDate),
+        licenseRevokedAt: convertTimestamp(data.licenseRevokedAt),
+        creditBalance: data.creditBalance || 0,
         createdAt: convertTimestamp(data.createdAt) || new Date(),
         updatedAt: convertTimestamp(data.updatedAt) || new Date(),
       })
@@ -242,16 +263,7 @@ export async function getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
     const plans: SubscriptionPlan[] = []
 
     querySnapshot.forEach((doc) => {
-      const data = doc.data()
-      plans.push({
-        id: doc.id,
-        name: data.name || "",
-        description: data.description || "",
-        price: data.price || 0,
-        billingCycle: data.billingCycle || "monthly",
-        features: data.features || [],
-        buttonText: data.buttonText || "Subscribe",
-      })
+      plans.push(toSubscriptionPlan(doc.id, doc.data()))
     })
 
     return plans
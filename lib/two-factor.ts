@@ -0,0 +1,459 @@
+/**
+ * Two-Factor Authentication Service
+ * TOTP (RFC 6238) enrollment, verification and hashed one-time recovery codes
+ *
+ * Server-only past the TOTP helpers. The record is readable wherever the Firestore rules allow, so TOTP secrets
+ * are stored encrypted (AES-GCM) and recovery codes as HMACs, both keyed by TWO_FACTOR_ENCRYPTION_KEY, which never
+ * leaves the server. Codes are checked in a transaction that counts failures towards a lockout and remembers the
+ * last accepted time step, so a code can't be replayed. A verified sign-in is identified by a random session token
+ * the client sends back in the X-Two-Factor-Session header; only its hash is stored.
+ */
+
+import { doc, getDoc, runTransaction, setDoc, updateDoc, serverTimestamp, deleteField } from "firebase/firestore"
+import { getDb } from "./firebase"
+import { tenantConfig, TenantAccessLevel } from "./tenant-service"
+
+const COLLECTION_NAME = "iboard_user_two_factor"
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_DIGITS = 6
+const TOTP_WINDOW = 1 // Accept one period of clock drift either way
+const RECOVERY_CODE_COUNT = 10
+const MAX_VERIFIED_SESSIONS = 10
+const MAX_FAILED_ATTEMPTS = 5
+const LOCKOUT_MINUTES = 15
+const ENCRYPTED_PREFIX = "v1:"
+export const TWO_FACTOR_ISSUER = "OH! Shop Admin"
+export const TWO_FACTOR_SESSION_HEADER = "X-Two-Factor-Session"
+
+export interface TwoFactorRecord {
+  enabled: boolean
+  secret?: string // Encrypted
+  pending_secret?: string
+  recovery_code_hashes: string[]
+  verified_sessions: string[] // SHA-256 hashes of session tokens
+  failed_attempts: number
+  locked_until: number | null // Milliseconds
+  last_used_step: number | null // TOTP time step of the last accepted code
+  enabled_at?: any
+  updated?: any
+}
+
+export class TwoFactorError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "TwoFactorError"
+  }
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  verified: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+// Base32 (RFC 4648) encoding used by authenticator apps
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "")
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error("Invalid base32 character in secret")
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
+
+// Generate a new random 160-bit TOTP secret
+export function generateTotpSecret(): string {
+  const bytes = new Uint8Array(20)
+  crypto.getRandomValues(bytes)
+  return base32Encode(bytes)
+}
+
+// Compute the TOTP code for a secret at a point in time
+export async function generateTotp(secret: string, timestamp = Date.now()): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS)
+  const counterBytes = new ArrayBuffer(8)
+  const view = new DataView(counterBytes)
+  view.setUint32(0, Math.floor(counter / 2 ** 32))
+  view.setUint32(4, counter >>> 0)
+
+  const key = await crypto.subtle.importKey("raw", base32Decode(secret), { name: "HMAC", hash: "SHA-1" }, false, [
+    "sign",
+  ])
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counterBytes))
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0")
+}
+
+// The time step a TOTP code was generated for, allowing for a small clock drift, or null if it doesn't match
+export async function findTotpStep(secret: string, code: string, timestamp = Date.now()): Promise<number | null> {
+  const normalized = code.replace(/\s/g, "")
+  if (!/^\d{6}$/.test(normalized)) {
+    return null
+  }
+
+  const currentStep = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS)
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const candidate = await generateTotp(secret, timestamp + drift * TOTP_PERIOD_SECONDS * 1000)
+    if (candidate === normalized) {
+      return currentStep + drift
+    }
+  }
+
+  return null
+}
+
+// Build the otpauth:// URI encoded in the enrollment QR code
+export function buildOtpAuthUri(accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+// Generate human-friendly one-time recovery codes (XXXXX-XXXXX)
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+  const codes: string[] = []
+
+  for (let i = 0; i < count; i++) {
+    const bytes = new Uint8Array(10)
+    crypto.getRandomValues(bytes)
+    const chars = Array.from(bytes, (byte) => alphabet[byte % alphabet.length]).join("")
+    codes.push(`${chars.slice(0, 5)}-${chars.slice(5)}`)
+  }
+
+  return codes
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)))
+}
+
+// Separate keys for encryption and recovery code HMACs, both derived from TWO_FACTOR_ENCRYPTION_KEY
+async function deriveKeyBytes(purpose: string): Promise<ArrayBuffer> {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY
+  if (!secret) {
+    throw new TwoFactorError("Two-factor authentication is not configured", 503)
+  }
+  return crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${purpose}:${secret}`))
+}
+
+async function getEncryptionKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", await deriveKeyBytes("encrypt"), "AES-GCM", false, ["encrypt", "decrypt"])
+}
+
+async function encryptSecret(secret: string): Promise<string> {
+  const iv = new Uint8Array(12)
+  crypto.getRandomValues(iv)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(secret),
+  )
+  return `${ENCRYPTED_PREFIX}${Buffer.from(iv).toString("base64url")}.${Buffer.from(ciphertext).toString("base64url")}`
+}
+
+async function decryptSecret(stored: string): Promise<string> {
+  const [iv, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(".")
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: Buffer.from(iv, "base64url") },
+    await getEncryptionKey(),
+    Buffer.from(ciphertext, "base64url"),
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+// Recovery codes are only ever stored as HMAC-SHA256 hashes
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    await deriveKeyBytes("recovery"),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(normalizeRecoveryCode(code))))
+}
+
+// The stored hash a recovery code matches, if any
+async function findRecoveryCodeHash(hashes: string[], code: string): Promise<string | null> {
+  const hash = await hashRecoveryCode(code)
+  return hashes.includes(hash) ? hash : null
+}
+
+// A new random session token; the client keeps the token and only its hash is stored
+async function createSessionToken(): Promise<{ token: string; hash: string }> {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  const token = Buffer.from(bytes).toString("base64url")
+  return { token, hash: await hashSessionToken(token) }
+}
+
+export function hashSessionToken(token: string): Promise<string> {
+  return sha256Hex(token)
+}
+
+function getRecordRef(uid: string) {
+  return doc(getDb(), COLLECTION_NAME, uid)
+}
+
+function toTwoFactorRecord(data: Record<string, any>): TwoFactorRecord {
+  return {
+    enabled: data.enabled === true,
+    secret: data.secret,
+    pending_secret: data.pending_secret,
+    recovery_code_hashes: data.recovery_code_hashes || [],
+    verified_sessions: data.verified_sessions || [],
+    failed_attempts: data.failed_attempts || 0,
+    locked_until: typeof data.locked_until === "number" ? data.locked_until : null,
+    last_used_step: typeof data.last_used_step === "number" ? data.last_used_step : null,
+    enabled_at: data.enabled_at,
+    updated: data.updated,
+  }
+}
+
+export async function getTwoFactorRecord(uid: string): Promise<TwoFactorRecord | null> {
+  const snapshot = await getDoc(getRecordRef(uid))
+  return snapshot.exists() ? toTwoFactorRecord(snapshot.data()) : null
+}
+
+// Whether the tenant policy requires two-factor authentication for this access level
+export async function isTwoFactorRequired(accessLevel: TenantAccessLevel): Promise<boolean> {
+  if (accessLevel !== TenantAccessLevel.ADMIN) {
+    return false
+  }
+
+  const tenantDoc = await getDoc(doc(getDb(), "tenant-metadata", tenantConfig.tenantId))
+  return tenantDoc.exists() && tenantDoc.data().security?.requireTwoFactorForAdmins === true
+}
+
+// sessionToken is the X-Two-Factor-Session header of the request, if it had one
+export async function getTwoFactorStatus(
+  uid: string,
+  accessLevel: TenantAccessLevel,
+  sessionToken: string | null,
+): Promise<TwoFactorStatus> {
+  const [record, required] = await Promise.all([getTwoFactorRecord(uid), isTwoFactorRequired(accessLevel)])
+  const sessionHash = sessionToken ? await hashSessionToken(sessionToken) : null
+
+  return {
+    enabled: !!record?.enabled,
+    verified: !!record?.enabled && !!sessionHash && record.verified_sessions.includes(sessionHash),
+    required,
+    recoveryCodesRemaining: record?.recovery_code_hashes.length || 0,
+  }
+}
+
+// Start enrollment by storing a pending secret; the caller shows it as a QR code
+export async function startTwoFactorEnrollment(uid: string): Promise<string> {
+  const secret = generateTotpSecret()
+  await setDoc(
+    getRecordRef(uid),
+    {
+      pending_secret: await encryptSecret(secret),
+      updated: serverTimestamp(),
+    },
+    { merge: true },
+  )
+  return secret
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns the plaintext recovery codes (shown once) and a token for the now verified session, or null if the code
+ * is wrong.
+ */
+export async function confirmTwoFactorEnrollment(
+  uid: string,
+  code: string,
+): Promise<{ recoveryCodes: string[]; sessionToken: string } | null> {
+  const record = await getTwoFactorRecord(uid)
+  if (!record?.pending_secret) {
+    throw new TwoFactorError("No two-factor enrollment in progress", 409)
+  }
+
+  const step = await findTotpStep(await decryptSecret(record.pending_secret), code)
+  if (step === null) {
+    return null
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  const recoveryCodeHashes = await Promise.all(recoveryCodes.map(hashRecoveryCode))
+  const session = await createSessionToken()
+
+  await updateDoc(getRecordRef(uid), {
+    enabled: true,
+    secret: record.pending_secret,
+    pending_secret: deleteField(),
+    recovery_code_hashes: recoveryCodeHashes,
+    verified_sessions: [session.hash],
+    failed_attempts: 0,
+    locked_until: deleteField(),
+    last_used_step: step,
+    enabled_at: serverTimestamp(),
+    updated: serverTimestamp(),
+  })
+
+  return { recoveryCodes, sessionToken: session.token }
+}
+
+/**
+ * Check a code against an enabled record in a transaction. A TOTP code is accepted once, for a time step after the
+ * last accepted one; a recovery code (when allowed) is consumed. Failures count towards a lockout.
+ * `onVerified` adds its own changes to the update written on success.
+ */
+async function checkCode(
+  uid: string,
+  code: string,
+  options: { allowRecoveryCode: boolean; onVerified?: (record: TwoFactorRecord) => Record<string, any> },
+): Promise<boolean> {
+  const recordRef = getRecordRef(uid)
+
+  return runTransaction(getDb(), async (transaction) => {
+    const snapshot = await transaction.get(recordRef)
+    const record = snapshot.exists() ? toTwoFactorRecord(snapshot.data()) : null
+    if (!record?.enabled || !record.secret) {
+      return false
+    }
+
+    const now = Date.now()
+    if (record.locked_until && record.locked_until > now) {
+      const minutes = Math.ceil((record.locked_until - now) / 60000)
+      throw new TwoFactorError(
+        `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}`,
+        429,
+      )
+    }
+
+    const secret = await decryptSecret(record.secret)
+    const update: Record<string, any> = { updated: serverTimestamp() }
+    let verified = false
+
+    const step = await findTotpStep(secret, code, now)
+    if (step !== null && (record.last_used_step === null || step > record.last_used_step)) {
+      update.last_used_step = step
+      verified = true
+    } else if (options.allowRecoveryCode) {
+      const hash = await findRecoveryCodeHash(record.recovery_code_hashes, code)
+      if (hash) {
+        update.recovery_code_hashes = record.recovery_code_hashes.filter((existing) => existing !== hash)
+        verified = true
+      }
+    }
+
+    if (!verified) {
+      const failedAttempts = record.failed_attempts + 1
+      if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+        update.failed_attempts = 0
+        update.locked_until = now + LOCKOUT_MINUTES * 60000
+      } else {
+        update.failed_attempts = failedAttempts
+      }
+      transaction.update(recordRef, update)
+      return false
+    }
+
+    update.failed_attempts = 0
+    update.locked_until = deleteField()
+    transaction.update(recordRef, { ...update, ...options.onVerified?.(record) })
+    return true
+  })
+}
+
+/**
+ * Verify the second factor for a sign-in session, using either a TOTP code or a recovery code.
+ * Recovery codes are consumed on use. Returns the token for the verified session, or null if the code is wrong.
+ */
+export async function verifySecondFactor(uid: string, code: string): Promise<string | null> {
+  const session = await createSessionToken()
+  const verified = await checkCode(uid, code, {
+    allowRecoveryCode: true,
+    onVerified: (record) => ({
+      verified_sessions: [...record.verified_sessions, session.hash].slice(-MAX_VERIFIED_SESSIONS),
+    }),
+  })
+  return verified ? session.token : null
+}
+
+// Confirm a current TOTP code before a sensitive change such as disabling two-factor authentication
+export async function verifyCurrentCode(uid: string, code: string): Promise<boolean> {
+  return checkCode(uid, code, { allowRecoveryCode: false })
+}
+
+export async function regenerateRecoveryCodes(uid: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes()
+  const recoveryCodeHashes = await Promise.all(recoveryCodes.map(hashRecoveryCode))
+
+  await updateDoc(getRecordRef(uid), {
+    recovery_code_hashes: recoveryCodeHashes,
+    updated: serverTimestamp(),
+  })
+
+  return recoveryCodes
+}
+
+export async function disableTwoFactor(uid: string): Promise<void> {
+  await setDoc(getRecordRef(uid), {
+    enabled: false,
+    recovery_code_hashes: [],
+    verified_sessions: [],
+    updated: serverTimestamp(),
+  })
+}
@@ -42,3 +42,17 @@ export function throttle<T extends (...args: any[]) => any>(func: T, limit: numb
     }
   }
 }
+
+// Date from a Firestore Timestamp, a { seconds } object or a date string/number; null when missing or invalid
+export function toDate(value: any): Date | null {
+  if (!value) return null
+  if (typeof value.toDate === "function") return value.toDate()
+  if (value.seconds) return new Date(value.seconds * 1000)
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Round a money amount to whole cents
+export function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
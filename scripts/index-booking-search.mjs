@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+/**
+ * Backfill search fields on every booking and quotation request, one batch at a time, against a running app.
+ *
+ *   CRON_SECRET=... node scripts/index-booking-search.mjs [--days=3] [--batch-size=200] [--url=http://localhost:3000]
+ *
+ * --days limits the run to records created in that many past days. Schedule it daily (`jobs:index-recent-bookings`)
+ * so records created by the apps become searchable; the window overlaps runs so a missed one is caught up.
+ */
+
+const args = process.argv.slice(2)
+
+function getArg(name) {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`))
+  return match ? match.slice(name.length + 3) : undefined
+}
+
+const baseUrl = getArg("url") || process.env.APP_URL || "http://localhost:3000"
+const secret = process.env.CRON_SECRET
+if (!secret) {
+  console.error("CRON_SECRET must be set to the same value the app uses")
+  process.exit(1)
+}
+
+const days = getArg("days")
+if (days !== undefined && !(Number(days) > 0)) {
+  console.error("--days must be a positive number")
+  process.exit(1)
+}
+const since = days ? new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000).toISOString() : null
+
+const targets = [
+  { path: "/api/bookings/search-index", label: "bookings" },
+  { path: "/api/quotations/search-index", label: "quotation requests" },
+]
+
+for (const { path, label } of targets) {
+  let cursor = null
+  let scanned = 0
+  let updated = 0
+
+  do {
+    const params = new URLSearchParams({ batchSize: getArg("batch-size") || "200" })
+    if (cursor) params.set("cursor", cursor)
+    if (since) params.set("since", since)
+
+    const response = await fetch(`${baseUrl}${path}?${params}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      console.error(`Indexing failed after ${scanned} ${label} (${response.status}): ${result.error}`)
+      process.exit(1)
+    }
+
+    scanned += result.scanned
+    updated += result.updated
+    cursor = result.nextCursor
+    console.log(`Scanned ${scanned} ${label}, updated ${updated}`)
+  } while (cursor)
+}
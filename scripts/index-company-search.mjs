@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Backfill search keywords on every company, one batch at a time, against a running app.
+ *
+ *   CRON_SECRET=... node scripts/index-company-search.mjs [--batch-size=200] [--url=http://localhost:3000]
+ */
+
+const args = process.argv.slice(2)
+
+function getArg(name) {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`))
+  return match ? match.slice(name.length + 3) : undefined
+}
+
+const baseUrl = getArg("url") || process.env.APP_URL || "http://localhost:3000"
+const secret = process.env.CRON_SECRET
+if (!secret) {
+  console.error("CRON_SECRET must be set to the same value the app uses")
+  process.exit(1)
+}
+
+let cursor = null
+let scanned = 0
+let updated = 0
+
+do {
+  const params = new URLSearchParams({ batchSize: getArg("batch-size") || "200" })
+  if (cursor) params.set("cursor", cursor)
+
+  const response = await fetch(`${baseUrl}/api/clients/search-index?${params}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  })
+  const result = await response.json()
+
+  if (!response.ok) {
+    console.error(`Indexing failed after ${scanned} companies (${response.status}): ${result.error}`)
+    process.exit(1)
+  }
+
+  scanned += result.scanned
+  updated += result.updated
+  cursor = result.nextCursor
+  console.log(`Scanned ${scanned} companies, updated ${updated}`)
+} while (cursor)
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * Run the subscription expiry job against a running app (e.g. `pnpm dev` with FIRESTORE_EMULATOR_HOST set).
+ *
+ *   CRON_SECRET=... node scripts/process-subscription-expirations.mjs [--dry-run] [--now=2026-12-01] [--url=http://localhost:3000]
+ *
+ * --now is only applied for real against the emulator or a development server; elsewhere it needs --dry-run.
+ */
+
+const args = process.argv.slice(2)
+
+function getArg(name) {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`))
+  return match ? match.slice(name.length + 3) : undefined
+}
+
+const baseUrl = getArg("url") || process.env.APP_URL || "http://localhost:3000"
+const secret = process.env.CRON_SECRET
+if (!secret) {
+  console.error("CRON_SECRET must be set to the same value the app uses")
+  process.exit(1)
+}
+
+const params = new URLSearchParams()
+if (args.includes("--dry-run")) params.set("dryRun", "true")
+if (getArg("now")) params.set("now", getArg("now"))
+
+const response = await fetch(`${baseUrl}/api/subscriptions/process-expirations?${params}`, {
+  method: "POST",
+  headers: { Authorization: `Bearer ${secret}` },
+})
+const result = await response.json()
+
+if (!response.ok) {
+  console.error(`Expiry job failed (${response.status}): ${result.error}`)
+  process.exit(1)
+}
+
+console.log(`${result.dryRun ? "Would apply" : "Applied"} ${result.transitions.length} of ${result.scanned} open subscriptions`)
+for (const transition of result.transitions) {
+  console.log(`  ${transition.subscriptionId}: ${transition.from} -> ${transition.to} (${transition.action})`)
+}
+for (const failure of result.failed) {
+  console.error(`  ${failure.subscriptionId}: ${failure.error}`)
+}
+process.exit(result.failed.length > 0 ? 1 : 0)
@@ -0,0 +1,43 @@
+export type AuditAction = "create" | "update" | "delete" | "soft_delete" | "restore" | "bulk_update" | "migration"
+
+export interface AuditActor {
+  uid: string
+  email: string
+}
+
+export interface AuditFieldChange {
+  field: string
+  before: any
+  after: any
+}
+
+export interface AuditLogEntry {
+  id: string
+  actor_uid: string
+  actor_email: string
+  action: AuditAction
+  collection: string
+  entity_id: string
+  entity_path: string
+  changes: AuditFieldChange[]
+  metadata?: Record<string, any>
+  timestamp: Date
+}
+
+export interface AuditEventInput {
+  collection: string
+  entityId: string
+  action: AuditAction
+  before?: Record<string, any> | null
+  after?: Record<string, any> | null
+  actor?: AuditActor // Defaults to the signed-in user
+  metadata?: Record<string, any>
+}
+
+export interface AuditLogFilters {
+  actorEmail?: string
+  collection?: string
+  entityId?: string
+  startDate?: Date
+  endDate?: Date
+}
@@ -0,0 +1,36 @@
+// Bookings and revenue for one value of a breakdown (a month, type, seller, company, payment method or site)
+export interface RevenueBucket {
+  key: string // e.g. "2026-03" for a month, or the type, seller, company or product id
+  label: string
+  bookings: number
+  revenue: number // PHP
+}
+
+export interface MonthlyRevenue extends RevenueBucket {
+  completed: number
+  cancelled: number
+}
+
+export interface BookingAnalyticsTotals {
+  bookings: number
+  revenue: number // total_cost of bookings that weren't cancelled, less their refunds
+  refunded: number // Refunds on all bookings, cancelled ones included
+  completed: number
+  cancelled: number
+  completionRate: number // 0-1, of all bookings in the range
+  cancellationRate: number // 0-1
+  averageBookingValue: number // Revenue per booking that wasn't cancelled
+}
+
+export interface BookingAnalytics {
+  from: Date
+  to: Date
+  totals: BookingAnalyticsTotals
+  byMonth: MonthlyRevenue[] // Oldest first, including months without bookings
+  byType: RevenueBucket[] // Highest revenue first
+  bySeller: RevenueBucket[]
+  byCompany: RevenueBucket[]
+  byPaymentMethod: RevenueBucket[]
+  topSites: RevenueBucket[]
+  truncated: boolean // More bookings were made in the range than were loaded
+}
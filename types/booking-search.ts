@@ -0,0 +1,21 @@
+// Collections the shared booking and quotation search covers
+export type SearchableRecordKind = "bookings" | "quotations"
+
+// Combined with AND; unset filters match everything
+export interface RecordSearchFilters {
+  status?: string | null
+  type?: string | null // Bookings only
+  from?: Date | null // Created on or after
+  to?: Date | null // Created on or before
+  companyId?: string | null
+  sellerId?: string | null // Bookings only
+  username?: string | null // Booking username or requester name, matched whole and case-insensitively
+  search?: string | null // Start of any word in the record's text fields
+}
+
+export interface RecordSearchPagination {
+  pageSize: number
+  totalCount: number
+  nextCursor: string | null
+  hasNextPage: boolean
+}
@@ -0,0 +1,77 @@
+export type BookingStatus = "PENDING" | "CONFIRMED" | "PROCESSING" | "FOR CONTRACT" | "COMPLETED" | "CANCELLED"
+
+export type RefundMethod = "bank_transfer" | "gcash" | "cash" | "check" | "card_reversal" | "other"
+
+export interface Booking {
+  id: string
+  cancel_reason: string
+  company_id: string
+  cost: number
+  created: any
+  media_order: string
+  payment_method: string
+  product_id: string
+  product_owner: string
+  quantity: number
+  rated: boolean
+  seller_id: string
+  status: string
+  total_cost: number
+  type: string
+  user_id: string
+  username: string
+  start_date?: any
+  end_date?: any
+  quotation_id?: string | null // Quotation request the booking was converted from
+  quote_id?: string | null // Accepted quote that priced it
+  status_updated_at?: any
+  refunded_amount?: number // Sum of the refunds recorded, at most total_cost
+  conflicts?: OccupancyRef[] // Overlapping bookings or approved requests for the same site, checked on create/confirm
+}
+
+// Entry in the booking/{id}/status_history subcollection
+export interface BookingStatusChange {
+  id: string
+  from: string // Older bookings may hold statuses outside BookingStatus
+  to: BookingStatus
+  reason: string | null // Required when cancelling
+  actor_uid: string
+  actor_email: string
+  created_at: Date
+}
+
+// Entry in the booking/{id}/refunds subcollection
+export interface BookingRefund {
+  id: string
+  amount: number // PHP
+  method: RefundMethod
+  reference: string // e.g. bank transfer or GCash reference number
+  note: string
+  actor_uid: string
+  actor_email: string
+  created_at: Date
+}
+
+// Booking or approved quotation request holding a product (OOH site) for a date range
+export interface OccupancyRef {
+  source: "booking" | "quotation"
+  id: string
+}
+
+export interface OccupancyEntry extends OccupancyRef {
+  product_id: string
+  status: string
+  customer: string
+  start_date: Date
+  end_date: Date
+}
+
+// Rental site with whatever occupies it within a searched date range
+export interface SiteAvailability {
+  product_id: string
+  name: string
+  site_code: string
+  location: string
+  price: number
+  occupancy: OccupancyEntry[] // Empty when the site is free
+}
@@ -0,0 +1,22 @@
+export type ClientTimelineEventType = "product" | "booking" | "quotation" | "member" | "subscription"
+
+export interface ClientTimelineEvent {
+  id: string // Unique across types, e.g. "booking:abc123"
+  type: ClientTimelineEventType
+  occurredAt: Date
+  title: string
+  description: string
+  status: string | null
+  amount: number | null // PHP; booking totals and subscription charges
+}
+
+export interface ClientTimelineFilters {
+  types: ClientTimelineEventType[]
+  from: Date | null
+  to: Date | null
+}
+
+export interface ClientTimeline {
+  events: ClientTimelineEvent[] // Newest first
+  truncated: ClientTimelineEventType[] // Types with more events in the range than were loaded
+}
@@ -0,0 +1,47 @@
+export type DuplicateMatchField = "name" | "website" | "phone" | "point_person_email"
+
+export interface DuplicateCompanySummary {
+  id: string
+  name: string
+  website: string
+  phone: string
+  point_person_email: string
+  city: string
+  created_at: Date | null
+}
+
+// Companies linked by at least one shared normalized value, directly or through each other
+export interface DuplicateCompanyGroup {
+  companies: DuplicateCompanySummary[]
+  matches: { field: DuplicateMatchField; value: string; companyIds: string[] }[]
+}
+
+export type CompanyMergeStatus = "in_progress" | "completed" | "failed" | "undone"
+
+// Counts of referencing documents per collection, keyed by collection name
+export type CompanyReferenceCounts = Record<string, number>
+
+export interface CompanyMergePreview {
+  survivor: DuplicateCompanySummary
+  duplicates: DuplicateCompanySummary[]
+  counts: CompanyReferenceCounts // Documents that will be re-pointed to the survivor
+  keptCounts: CompanyReferenceCounts // Billing records that stay with their original company
+  blockers: string[] // Reasons the merge can't run; empty when it can
+}
+
+export interface CompanyMerge {
+  id: string
+  survivor_id: string
+  survivor_name: string
+  duplicate_ids: string[]
+  duplicate_names: string[]
+  status: CompanyMergeStatus
+  stale: boolean // in_progress but stopped making progress, e.g. after a restart; it can be undone
+  counts: CompanyReferenceCounts // Documents actually re-pointed
+  error: string | null
+  created_at: Date | null
+  created_by: string
+  undone_at: Date | null
+  undone_by: string | null
+  undo_conflicts: number // Documents changed again after the merge, left as they are by the undo
+}
@@ -0,0 +1,32 @@
+import type { TenantAccessLevel } from "@/lib/tenant-service"
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired"
+
+export interface Invitation {
+  id: string
+  email: string
+  role: TenantAccessLevel
+  tenant_id: string
+  status: InvitationStatus
+  expires_at: Date
+  invited_by: string
+  invited_by_email: string
+  resent_count: number
+  accepted_by?: string
+  accepted_at?: Date
+  revoked_by?: string
+  created_at: Date
+  updated_at: Date
+}
+
+// Profile fields the invitee fills in on the registration form
+export interface InviteeProfile {
+  first_name: string
+  middle_name: string
+  last_name: string
+  display_name: string
+  gender: string
+  phone_number: string
+  country_code: string
+  location?: any
+}
@@ -0,0 +1,42 @@
+import type { BillingCycle, SubscriptionPlanType } from "./subscription"
+
+// Stored invoices are "unpaid" or "paid"; an unpaid invoice past its due date is reported as "overdue"
+export type InvoiceStatus = "unpaid" | "paid" | "overdue"
+
+// Billing event that produced the invoice
+export type InvoiceReason = "new_subscription" | "renewal" | "plan_change" | "trial_conversion" | "manual"
+
+export interface InvoiceParty {
+  name: string
+  address: string
+  email: string
+  tin: string // Tax identification number, if known
+}
+
+export interface Invoice {
+  id: string
+  invoiceNumber: string // Sequential per calendar year, e.g. INV-2026-000042
+  companyId: string
+  subscriptionId: string
+  reason: InvoiceReason
+  description: string
+  planType: SubscriptionPlanType
+  planVersion: number
+  billingCycle: BillingCycle
+  periodStart: Date
+  periodEnd: Date
+  issueDate: Date
+  dueDate: Date
+  currency: "PHP"
+  subtotal: number // Amount before VAT
+  vatRate: number // e.g. 0.12
+  vatAmount: number
+  total: number // Amount payable, VAT included
+  status: InvoiceStatus
+  paidAt: Date | null
+  paymentReference: string
+  issuer: InvoiceParty // Seller details as they were when the invoice was issued
+  billTo: InvoiceParty // Client details as they were when the invoice was issued
+  created_by: string
+  created_at: Date
+}
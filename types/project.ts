@@ -4,6 +4,7 @@ export interface ProjectData {
   license_key: string
   project_name: string
   company_name: string
+  company_id: string | null // Company the license belongs to; null until linked by the license migration
   company_location: string
   company_website: string
   social_media: {
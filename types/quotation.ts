@@ -0,0 +1,52 @@
+export type QuotationStatus = "PENDING" | "PROCESSING" | "APPROVED" | "REJECTED"
+
+// Dashboard user a quotation request is assigned to
+export interface QuotationAssignee {
+  uid: string
+  email: string
+  name: string
+}
+
+export interface QuotationRequest {
+  id: string
+  break_date: any
+  company: string
+  company_address: string
+  company_id: string
+  contact_number: string
+  created: any
+  email_address: string
+  end_date: any
+  name: string
+  position: string
+  product_id: string
+  product_ref: any
+  start_date: any
+  status: QuotationStatus
+  assigned_to?: QuotationAssignee | null
+  rejection_reason?: string | null // Set while the request is REJECTED
+  status_updated_at?: any
+  latest_quote_id?: string | null // Most recent quote issued for the request
+  accepted_quote_id?: string | null // Quote the client accepted; no further quotes can be issued
+  booking_id?: string | null // Booking the approved request was converted into
+}
+
+// Entry in the quotation_request/{id}/status_history subcollection
+export interface QuotationStatusChange {
+  id: string
+  from: QuotationStatus
+  to: QuotationStatus
+  reason: string | null // Required when rejecting
+  actor_uid: string
+  actor_email: string
+  created_at: Date
+}
+
+// Entry in the quotation_request/{id}/notes subcollection; only visible on the dashboard
+export interface QuotationNote {
+  id: string
+  body: string
+  author_uid: string
+  author_email: string
+  created_at: Date
+}
@@ -0,0 +1,58 @@
+import type { InvoiceParty } from "./invoice"
+
+// Stored quotes are "issued", "accepted" or "declined"; an issued quote past its validity date is reported as "expired"
+export type QuoteStatus = "issued" | "accepted" | "declined" | "expired"
+
+export type QuoteDiscountType = "percent" | "amount"
+
+export interface QuoteLineItem {
+  description: string
+  quantity: number
+  unitPrice: number // PHP, VAT included
+  amount: number // quantity × unitPrice, rounded to cents
+}
+
+export interface QuoteDiscount {
+  type: QuoteDiscountType
+  value: number // Percent (0-100) or PHP amount
+  label: string
+}
+
+export interface Quote {
+  id: string
+  quoteNumber: string // Sequential per calendar year, e.g. QUO-2026-000042
+  quotationRequestId: string
+  companyId: string
+  productId: string
+  productName: string
+  periodStart: Date | null // Rental period from the request
+  periodEnd: Date | null
+  breakDate: Date | null
+  lineItems: QuoteLineItem[]
+  discount: QuoteDiscount | null
+  currency: "PHP"
+  grossAmount: number // Sum of the line items
+  discountAmount: number
+  subtotal: number // Amount before VAT, after the discount
+  vatRate: number
+  vatAmount: number
+  total: number // Amount payable, VAT included
+  notes: string // Terms or remarks printed on the quote
+  issueDate: Date
+  validUntil: Date
+  status: QuoteStatus
+  respondedAt: Date | null // When the client accepted or declined
+  responseNote: string
+  issuer: InvoiceParty // Seller details as they were when the quote was issued
+  billTo: InvoiceParty // Requester details as they were when the quote was issued
+  created_by: string
+  created_at: Date
+}
+
+// What the builder fills in; amounts are computed from the line items and discount
+export interface QuoteInput {
+  lineItems: { description: string; quantity: number; unitPrice: number }[]
+  discount: QuoteDiscount | null
+  validUntil: Date
+  notes: string
+}
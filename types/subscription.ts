@@ -1,13 +1,18 @@
-export type SubscriptionPlanType = "solo" | "family" | "membership" | "enterprise" | "trial" | "graphic-expo-event"
+export type BuiltInPlanType = "solo" | "family" | "membership" | "enterprise" | "trial" | "graphic-expo-event"
+
+// Plan id in the subscription_plans catalog. The built-in ids are listed for reference; admins can add more.
+export type SubscriptionPlanType = BuiltInPlanType | (string & {})
 
 export type BillingCycle = "monthly" | "annually"
 
-export type SubscriptionStatus = "active" | "inactive" | "trialing" | "cancelled" | "expired"
+// past_due: the period has ended and the subscription is in its grace period (see graceEndDate)
+export type SubscriptionStatus = "active" | "inactive" | "trialing" | "past_due" | "cancelled" | "expired"
 
 export interface Subscription {
   id: string
   licenseKey: string
   planType: SubscriptionPlanType
+  planVersion?: number // Catalog version of the plan the subscription bought; its price applies to renewals
   billingCycle: BillingCycle
   uid: string // User ID
   startDate: Date // When the subscription started
@@ -17,16 +22,73 @@ export interface Subscription {
   maxUsers: number // Max users allowed for this subscription
   trialEndDate: Date | null // End date of the trial period, if applicable
   companyId: string | null // Company ID field
+  cancelAtPeriodEnd?: boolean // Cancellation scheduled for endDate
+  graceEndDate?: Date | null // End of the grace period after a lapsed endDate, while past_due
+  licenseRevokedAt?: Date | null // Set when the license key has been revoked; verification fails from then on
+  creditBalance?: number // Account credit left by downgrades, VAT included; taken off the next invoice
   createdAt: Date // Timestamp of creation
   updatedAt: Date // Last updated timestamp
 }
 
+export type SubscriptionChangeAction =
+  | "plan_changed"
+  | "renewed"
+  | "cancellation_scheduled"
+  | "cancellation_reverted"
+  | "trial_converted"
+  | "grace_period_started"
+  | "expired"
+  | "trial_expired"
+  | "cancelled"
+  | "license_revoked"
+
+// Plan state before and after a change, as recorded in the history
+export interface SubscriptionSnapshot {
+  planType: SubscriptionPlanType
+  billingCycle: BillingCycle
+  status: SubscriptionStatus
+  endDate: Date | null
+  maxProducts: number
+  maxUsers: number
+}
+
+// Entry in the subscriptions/{id}/history subcollection
+export interface SubscriptionHistoryEntry {
+  id: string
+  action: SubscriptionChangeAction
+  from: SubscriptionSnapshot
+  to: SubscriptionSnapshot
+  proration: {
+    credit: number
+    charge: number
+    amountDue: number
+  } | null
+  invoiceId: string | null // Invoice issued for the change, if any
+  creditApplied?: number // Account credit taken off that invoice
+  actor_uid: string
+  actor_email: string
+  created_at: Date
+}
+
+export type SubscriptionPlanStatus = "active" | "retired"
+
 export interface SubscriptionPlan {
   id: string
   name: string
   description: string // Added description for plans
   price: number // Price per month/year depending on context, or 0 for free/trial
   billingCycle: BillingCycle | "N/A" // Added billing cycle to plan definition
+  prices: Partial<Record<BillingCycle, number>> // Price per billing cycle; missing cycles are converted from price
+  maxProducts: number
+  maxUsers: number
   features: string[]
   buttonText: string // Added button text for plans
+  version: number // Current catalog version; edits create a new version
+  status: SubscriptionPlanStatus // Retired plans can't be sold but existing subscriptions keep them
+}
+
+// Immutable copy of a plan as it was at one version, in subscription_plans/{id}/versions/{version}
+export interface SubscriptionPlanVersion extends SubscriptionPlan {
+  created_at: Date
+  created_by: string
 }